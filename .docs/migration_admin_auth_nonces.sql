@@ -0,0 +1,13 @@
+-- Migration: Single-use admin sign-in nonces
+-- Date: 2026-10-19
+-- Run this in Supabase SQL Editor
+
+-- Step 1: One row per SIWE nonce that signed an admin in (lib/admin-auth.ts)
+-- The nonce cookie lives 5 minutes; older rows are deleted on the next sign-in
+CREATE TABLE admin_auth_nonces (
+  nonce TEXT PRIMARY KEY,
+  consumed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Step 2: Cleanup of expired rows
+CREATE INDEX idx_admin_auth_nonces_consumed_at ON admin_auth_nonces(consumed_at);
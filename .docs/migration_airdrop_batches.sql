@@ -0,0 +1,32 @@
+-- Migration: Add airdrop_batches table (admin airdrop console)
+-- Date: 2026-10-19
+-- Run this in Supabase SQL Editor
+
+-- Step 1: One row per on-chain batch deposit transaction
+CREATE TABLE airdrop_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  airdrop_id TEXT NOT NULL,              -- Groups chunks of the same airdrop run
+  chunk_index INTEGER NOT NULL,
+  chunk_count INTEGER NOT NULL,
+  method TEXT NOT NULL CHECK (method IN ('batchDepositEqual', 'batchDepositToTokens')),
+  token_address TEXT NOT NULL,
+  token_symbol TEXT NOT NULL,
+  token_ids INTEGER[] NOT NULL,
+  amounts TEXT[] NOT NULL,               -- Atomic units (one per token, or one for equal)
+  total_amount TEXT NOT NULL,            -- Atomic units (upper bound: burned IDs are skipped)
+  tx_hash TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'submitted' CHECK (status IN ('submitted', 'confirmed', 'failed')),
+  created_by TEXT NOT NULL,              -- Admin address (from SIWE session)
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Step 2: Indexes for history listing
+CREATE INDEX idx_airdrop_batches_airdrop_id ON airdrop_batches(airdrop_id);
+CREATE INDEX idx_airdrop_batches_created_at ON airdrop_batches(created_at DESC);
+
+-- Verify the table
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'airdrop_batches'
+ORDER BY ordinal_position;
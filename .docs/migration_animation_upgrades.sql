@@ -0,0 +1,23 @@
+-- Migration: Add animation_upgrades table (paid animated upgrades)
+-- Date: 2026-10-19
+-- Run this in Supabase SQL Editor
+
+-- Step 1: One row per token (upgradeToAnimated can only succeed once per token)
+CREATE TABLE animation_upgrades (
+  token_id INTEGER PRIMARY KEY,
+  user_address TEXT NOT NULL,
+  settlement_tx_hash TEXT NOT NULL,
+  upgrade_tx_hash TEXT,
+  status TEXT NOT NULL DEFAULT 'settled' CHECK (status IN ('settled', 'upgraded', 'failed', 'refunded')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Step 2: Index for recovery lookups (settled/failed but never upgraded)
+CREATE INDEX idx_animation_upgrades_status ON animation_upgrades(status);
+
+-- Verify the table
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'animation_upgrades'
+ORDER BY ordinal_position;
@@ -0,0 +1,18 @@
+-- Migration: Record the art style of each generation and mint
+-- Date: 2026-10-19
+-- Run this in Supabase SQL Editor
+-- Requires: migration_mint_vouchers.sql
+
+-- Step 1: Style used for the saved generation (lib/art-styles.ts id)
+-- Existing rows were all generated with the Halloween prompt
+ALTER TABLE unminted_geoplets
+ADD COLUMN style_id TEXT;
+
+UPDATE unminted_geoplets SET style_id = 'halloween' WHERE style_id IS NULL;
+
+-- Step 2: Style snapshot on the voucher issued for the mint ("Art Style" attribute)
+ALTER TABLE mint_vouchers
+ADD COLUMN art_style TEXT;
+
+-- Verify
+SELECT style_id, COUNT(*) FROM unminted_geoplets GROUP BY style_id;
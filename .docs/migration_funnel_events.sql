@@ -0,0 +1,75 @@
+-- Migration: Add funnel_events + campaign_opens tables and funnel analytics views
+-- Date: 2026-10-19
+-- Run this in Supabase SQL Editor
+-- Requires: migration_outreach_campaigns.sql
+
+-- Step 1: First time each FID reached each funnel stage
+CREATE TABLE funnel_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  fid INTEGER NOT NULL,
+  stage TEXT NOT NULL CHECK (stage IN (
+    'app_opened', 'warplet_found', 'generation_succeeded', 'saved',
+    'payment_verified', 'payment_settled', 'minted'
+  )),
+  campaign_id UUID REFERENCES outreach_campaigns(id) ON DELETE SET NULL,  -- Set when the app was opened from a campaign cast
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (fid, stage)
+);
+
+-- Step 2: App opens from a campaign cast (?c=<campaign id> on /share/unminted/[fid])
+CREATE TABLE campaign_opens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id UUID NOT NULL REFERENCES outreach_campaigns(id) ON DELETE CASCADE,
+  fid INTEGER NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (campaign_id, fid)
+);
+
+-- Step 3: Indexes
+CREATE INDEX idx_funnel_events_stage ON funnel_events(stage, created_at);
+CREATE INDEX idx_campaign_opens_fid ON campaign_opens(fid);
+
+-- Step 4: Users per stage
+CREATE VIEW funnel_stage_counts AS
+SELECT stage, COUNT(*) AS users
+FROM funnel_events
+GROUP BY stage;
+
+-- Step 5: Weekly cohorts by first app open
+CREATE VIEW funnel_weekly_cohorts AS
+SELECT
+  date_trunc('week', o.created_at) AS cohort_week,
+  COUNT(*) AS users,
+  COUNT(g.fid) AS generated,
+  COUNT(m.fid) AS minted,
+  EXTRACT(EPOCH FROM AVG(m.created_at - o.created_at)) AS avg_seconds_to_mint
+FROM funnel_events o
+LEFT JOIN funnel_events g ON g.fid = o.fid AND g.stage = 'generation_succeeded'
+LEFT JOIN funnel_events m ON m.fid = o.fid AND m.stage = 'minted'
+WHERE o.stage = 'app_opened'
+GROUP BY 1
+ORDER BY 1 DESC;
+
+-- Step 6: Campaign attribution
+-- A recipient converts if they mint after their cast was sent
+-- (a FID contacted by several campaigns counts for each of them)
+CREATE VIEW campaign_attribution AS
+SELECT
+  c.id AS campaign_id,
+  c.name,
+  c.created_at,
+  COUNT(r.id) FILTER (WHERE r.status = 'sent') AS casts_sent,
+  (SELECT COUNT(*) FROM campaign_opens co WHERE co.campaign_id = c.id) AS opens,
+  COUNT(m.fid) AS mints,
+  EXTRACT(EPOCH FROM percentile_cont(0.5) WITHIN GROUP (ORDER BY m.created_at - r.sent_at)) AS median_seconds_to_mint
+FROM outreach_campaigns c
+LEFT JOIN outreach_recipients r ON r.campaign_id = c.id
+LEFT JOIN funnel_events m
+  ON m.fid = r.fid AND m.stage = 'minted' AND r.status = 'sent' AND m.created_at > r.sent_at
+GROUP BY c.id;
+
+-- Verify the tables
+SELECT table_name, column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name IN ('funnel_events', 'campaign_opens')
+ORDER BY table_name, ordinal_position;
@@ -0,0 +1,38 @@
+-- Migration: Asynchronous image generation jobs
+-- Date: 2026-10-19
+-- Run this in Supabase SQL Editor
+-- Requires: migration_generation_runs.sql, migration_art_styles.sql
+
+-- Step 1: One row per generation request (see lib/generation-jobs.ts)
+CREATE TABLE generation_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  fid INTEGER NOT NULL,
+  username TEXT NOT NULL,
+  token_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  image_url TEXT NOT NULL,                 -- Source Warplet image (whitelisted domain)
+  style_id TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'fetching_source', 'generating', 'compressing', 'saved', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_until TIMESTAMPTZ,                -- Worker lease (expired lease = job can be picked up again)
+  provider TEXT,                           -- Image provider that produced the result
+  image_data TEXT,                         -- Compressed base64 result (also saved to unminted_geoplets)
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+-- Step 2: At most one in-flight job per FID (POST returns the existing one)
+CREATE UNIQUE INDEX idx_generation_jobs_active_fid
+  ON generation_jobs(fid)
+  WHERE status NOT IN ('saved', 'failed');
+
+-- Step 3: Link provider runs to their job (one run per attempt)
+ALTER TABLE generation_runs ADD COLUMN job_id UUID REFERENCES generation_jobs(id) ON DELETE SET NULL;
+CREATE INDEX idx_generation_runs_job_id ON generation_runs(job_id);
+
+-- Verify
+SELECT status, COUNT(*) FROM generation_jobs GROUP BY status;
@@ -0,0 +1,40 @@
+-- Migration: Record image provider, latency and failures per generation
+-- Date: 2026-10-19
+-- Run this in Supabase SQL Editor
+
+-- Step 1: One row per /api/generate-image request (see lib/image-providers.ts)
+CREATE TABLE generation_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  fid INTEGER,
+  token_id TEXT NOT NULL,
+  style_id TEXT NOT NULL,
+  provider TEXT CHECK (provider IN ('openai', 'local')),   -- NULL when every provider failed
+  model TEXT,
+  status TEXT NOT NULL CHECK (status IN ('succeeded', 'failed')),
+  latency_ms INTEGER NOT NULL,                              -- Whole chain, including failed attempts
+  attempts JSONB NOT NULL DEFAULT '[]',                     -- [{ provider, latency_ms, error }] in chain order
+  cost_usd NUMERIC(10, 4) NOT NULL DEFAULT 0,               -- Provider cost estimate
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Step 2: Indexes for recent runs and per-FID history
+CREATE INDEX idx_generation_runs_created_at ON generation_runs(created_at DESC);
+CREATE INDEX idx_generation_runs_fid ON generation_runs(fid);
+
+-- Step 3: Per-provider reliability over the last 7 days (every attempt, not just the winner)
+CREATE VIEW image_provider_stats AS
+SELECT
+  attempt->>'provider' AS provider,
+  COUNT(*) AS attempts,
+  COUNT(*) FILTER (WHERE attempt->>'error' IS NULL) AS succeeded,
+  COUNT(*) FILTER (WHERE attempt->>'error' IS NOT NULL) AS failed,
+  ROUND(AVG((attempt->>'latency_ms')::INTEGER) FILTER (WHERE attempt->>'error' IS NULL)) AS avg_latency_ms,
+  PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY (attempt->>'latency_ms')::INTEGER)
+    FILTER (WHERE attempt->>'error' IS NULL) AS p95_latency_ms
+FROM generation_runs, jsonb_array_elements(attempts) AS attempt
+WHERE created_at > NOW() - INTERVAL '7 days'
+GROUP BY attempt->>'provider';
+
+-- Verify
+SELECT * FROM image_provider_stats;
@@ -0,0 +1,41 @@
+-- Migration: Generation version history + paid regeneration
+-- Date: 2026-10-19
+-- Run this in Supabase SQL Editor
+-- Requires: migration_generation_jobs.sql, migration_payment_ledger.sql, migration_art_styles.sql
+
+-- Step 1: Every image generated for a FID (see lib/generation-versions.ts)
+CREATE TABLE generation_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  fid INTEGER NOT NULL,
+  version INTEGER NOT NULL,                -- 1, 2, 3... per FID
+  image_data TEXT NOT NULL,                -- Compressed base64 (contract format)
+  style_id TEXT,
+  provider TEXT,                           -- Image provider (NULL = saved by the client)
+  job_id UUID REFERENCES generation_jobs(id) ON DELETE SET NULL,
+  payment_id UUID REFERENCES payment_ledger(id),   -- Paid regeneration (NULL = free)
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (fid, version)
+);
+
+-- Step 2: The version the user picked to mint (unminted_geoplets holds a copy of its image)
+ALTER TABLE unminted_geoplets ADD COLUMN version_id UUID REFERENCES generation_versions(id) ON DELETE SET NULL;
+
+-- Step 3: Regeneration jobs + the payment that paid for them
+ALTER TABLE generation_jobs
+  ADD COLUMN kind TEXT NOT NULL DEFAULT 'generate' CHECK (kind IN ('generate', 'regenerate')),
+  ADD COLUMN payment_id UUID REFERENCES payment_ledger(id);
+
+CREATE INDEX idx_generation_jobs_fid_kind ON generation_jobs(fid, kind);
+
+-- Step 4: Backfill - existing generations become version 1
+INSERT INTO generation_versions (fid, version, image_data, style_id, created_at)
+SELECT fid, 1, image_data, style_id, created_at
+FROM unminted_geoplets;
+
+UPDATE unminted_geoplets u
+SET version_id = v.id
+FROM generation_versions v
+WHERE v.fid = u.fid AND v.version = 1;
+
+-- Verify
+SELECT fid, COUNT(*) AS versions FROM generation_versions GROUP BY fid ORDER BY versions DESC LIMIT 10;
@@ -0,0 +1,13 @@
+-- Migration: One generation version per job
+-- Date: 2026-10-19
+-- Run this in Supabase SQL Editor
+-- Requires: migration_generation_versions.sql
+
+-- Step 1: A retried job (expired lease after the version was saved) must not
+-- append a second version - saveGenerationVersion reuses the existing row
+-- (NULL job_id = saved outside the job worker, not constrained)
+ALTER TABLE generation_versions
+  ADD CONSTRAINT generation_versions_job_id_key UNIQUE (job_id);
+
+-- Verify
+SELECT job_id, COUNT(*) FROM generation_versions WHERE job_id IS NOT NULL GROUP BY job_id HAVING COUNT(*) > 1;
@@ -0,0 +1,27 @@
+-- Migration: Mint voucher registry (every issued mint signature)
+-- Date: 2026-10-19
+-- Run this in Supabase SQL Editor
+
+-- Step 1: One row per signed MintVoucher
+-- nonce is a random uint256 (decimal string), digest is the EIP-712 hash
+-- the contract stores in usedSignatures when the voucher is consumed
+CREATE TABLE mint_vouchers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  fid INTEGER NOT NULL,
+  to_address TEXT NOT NULL,
+  nonce TEXT NOT NULL UNIQUE,
+  deadline BIGINT NOT NULL,
+  digest TEXT NOT NULL UNIQUE,
+  purpose TEXT NOT NULL CHECK (purpose IN ('mint', 'recovery')),
+  payment_id UUID REFERENCES payment_ledger(id),
+  status TEXT NOT NULL DEFAULT 'outstanding' CHECK (status IN (
+    'outstanding', 'consumed', 'expired', 'superseded', 'revoked'
+  )),
+  revoked_by TEXT,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Step 2: Indexes for outstanding-per-FID checks and audits
+CREATE INDEX idx_mint_vouchers_fid_status ON mint_vouchers(fid, status);
+CREATE INDEX idx_mint_vouchers_payment ON mint_vouchers(payment_id);
@@ -0,0 +1,19 @@
+-- Migration: Farcaster mini app notification tokens (from /api/webhook)
+-- Date: 2026-10-19
+-- Run this in Supabase SQL Editor
+
+-- Step 1: One notification token per FID (latest client that enabled notifications)
+-- enabled = false keeps the row for history after removal / opt-out
+CREATE TABLE notification_tokens (
+  fid INTEGER PRIMARY KEY,
+  url TEXT NOT NULL,
+  token TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  app_key TEXT NOT NULL,
+  last_event TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Step 2: Index for sending to everyone with notifications on
+CREATE INDEX idx_notification_tokens_enabled ON notification_tokens(enabled);
@@ -0,0 +1,27 @@
+-- Migration: Notification sending (token health + delivery log for dedupe)
+-- Date: 2026-10-19
+-- Run this in Supabase SQL Editor
+
+-- Step 1: Token health, updated from each send response
+ALTER TABLE notification_tokens ADD COLUMN invalid_at TIMESTAMPTZ;
+ALTER TABLE notification_tokens ADD COLUMN rate_limited_at TIMESTAMPTZ;
+ALTER TABLE notification_tokens ADD COLUMN last_sent_at TIMESTAMPTZ;
+
+-- Step 2: One row per (notificationId, FID)
+-- A 'sent' row blocks re-sending the same notificationId to that FID;
+-- rate_limited / failed rows are retried on the next send
+CREATE TABLE notification_deliveries (
+  id BIGSERIAL PRIMARY KEY,
+  notification_id TEXT NOT NULL,
+  fid INTEGER NOT NULL,
+  trigger TEXT NOT NULL,
+  title TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('sent', 'invalid', 'rate_limited', 'failed')),
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (notification_id, fid)
+);
+
+-- Step 3: Index for the admin delivery log
+CREATE INDEX idx_notification_deliveries_created ON notification_deliveries(created_at DESC);
@@ -0,0 +1,64 @@
+-- Migration: Add outreach_campaigns + outreach_recipients tables (durable admin casts)
+-- Date: 2026-10-19
+-- Run this in Supabase SQL Editor
+
+-- Step 1: One row per outreach campaign
+CREATE TABLE outreach_campaigns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  template TEXT NOT NULL,                -- friendly | urgent | reminder | custom
+  message TEXT NOT NULL,                 -- Text after "Hey! @username"
+  audience JSONB NOT NULL,               -- { type: 'not_contacted' | 'all' | 'fids', fids? }
+  scheduled_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  status TEXT NOT NULL DEFAULT 'scheduled'
+    CHECK (status IN ('scheduled', 'running', 'paused', 'completed', 'cancelled')),
+  locked_until TIMESTAMPTZ,              -- Worker lease (one worker per campaign)
+  created_by TEXT NOT NULL,              -- Admin address (from SIWE session)
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+-- Step 2: One row per recipient (audience snapshot at creation)
+CREATE TABLE outreach_recipients (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id UUID NOT NULL REFERENCES outreach_campaigns(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,             -- Order in campaign (drives friendly variation cycling)
+  fid INTEGER NOT NULL,
+  username TEXT,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'sent', 'failed', 'skipped')),
+  cast_text TEXT,
+  cast_hash TEXT,                        -- Neynar cast hash once sent
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (campaign_id, fid)
+);
+
+-- Step 3: Indexes for the worker + history
+CREATE INDEX idx_outreach_campaigns_status ON outreach_campaigns(status, scheduled_at);
+CREATE INDEX idx_outreach_campaigns_created_at ON outreach_campaigns(created_at DESC);
+CREATE INDEX idx_outreach_recipients_queue ON outreach_recipients(campaign_id, status, next_attempt_at);
+CREATE INDEX idx_outreach_recipients_fid ON outreach_recipients(fid);
+
+-- Step 4: Per-campaign progress counts (admin history)
+CREATE VIEW outreach_campaign_progress AS
+SELECT
+  campaign_id,
+  COUNT(*) AS total,
+  COUNT(*) FILTER (WHERE status = 'queued') AS queued,
+  COUNT(*) FILTER (WHERE status = 'sent') AS sent,
+  COUNT(*) FILTER (WHERE status = 'failed') AS failed,
+  COUNT(*) FILTER (WHERE status = 'skipped') AS skipped
+FROM outreach_recipients
+GROUP BY campaign_id;
+
+-- Verify the tables
+SELECT table_name, column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name IN ('outreach_campaigns', 'outreach_recipients')
+ORDER BY table_name, ordinal_position;
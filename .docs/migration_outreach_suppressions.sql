@@ -0,0 +1,41 @@
+-- Migration: Add outreach suppression list (opt-outs) and contact history view
+-- Date: 2026-10-19
+-- Run this in Supabase SQL Editor
+-- Requires: migration_outreach_campaigns.sql, migration_notifications.sql
+
+-- Step 1: Per-FID opt-outs (never contacted again until removed)
+CREATE TABLE outreach_suppressions (
+  fid INTEGER PRIMARY KEY,
+  source TEXT NOT NULL CHECK (source IN ('reply', 'admin')),
+  cast_hash TEXT,                        -- Reply/mention that contained the opt-out keyword
+  note TEXT,
+  created_by TEXT,                       -- Admin address (source = 'admin')
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Step 2: Every marketing contact per FID (outreach casts + non-transactional notifications)
+-- mint_confirmed / deposit_received are receipts, not outreach - they don't count
+CREATE VIEW outreach_contact_summary AS
+SELECT
+  fid,
+  COUNT(*) AS contacts,
+  MAX(contacted_at) AS last_contacted_at
+FROM (
+  SELECT fid, sent_at AS contacted_at
+  FROM outreach_recipients
+  WHERE status = 'sent'
+
+  UNION ALL
+
+  SELECT fid, updated_at AS contacted_at
+  FROM notification_deliveries
+  WHERE status = 'sent' AND trigger NOT IN ('mint_confirmed', 'deposit_received')
+) contacts
+GROUP BY fid;
+
+-- Step 3: Index for per-FID contact lookups
+CREATE INDEX idx_outreach_recipients_fid_sent ON outreach_recipients(fid) WHERE status = 'sent';
+CREATE INDEX idx_notification_deliveries_fid ON notification_deliveries(fid);
+
+-- Verify
+SELECT * FROM outreach_contact_summary ORDER BY contacts DESC LIMIT 10;
@@ -0,0 +1,75 @@
+-- Migration: Add outreach template library (variables + weighted A/B variants)
+-- Date: 2026-10-19
+-- Run this in Supabase SQL Editor
+-- Requires: migration_outreach_campaigns.sql, migration_funnel_events.sql
+
+-- Step 1: Templates (editable copy, no deploy needed)
+CREATE TABLE outreach_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  key TEXT NOT NULL UNIQUE,              -- Stable identifier (e.g. 'friendly')
+  name TEXT NOT NULL,
+  archived BOOLEAN NOT NULL DEFAULT FALSE,
+  updated_by TEXT,                       -- Admin address (from SIWE session)
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Step 2: Variants - body supports {username} {days_since_generation} {rarity} {price}
+CREATE TABLE outreach_template_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id UUID NOT NULL REFERENCES outreach_templates(id) ON DELETE CASCADE,
+  label TEXT NOT NULL,                   -- 'A', 'B', ...
+  body TEXT NOT NULL,
+  weight INTEGER NOT NULL DEFAULT 1 CHECK (weight > 0),
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (template_id, label)
+);
+
+-- Step 3: Link campaigns + recipients to what they were sent
+ALTER TABLE outreach_campaigns
+ADD COLUMN template_id UUID REFERENCES outreach_templates(id) ON DELETE SET NULL;
+
+ALTER TABLE outreach_recipients
+ADD COLUMN variant_id UUID REFERENCES outreach_template_variants(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_outreach_recipients_variant ON outreach_recipients(variant_id);
+
+-- Step 4: Per-variant conversion (recipients who minted after their cast)
+CREATE VIEW outreach_variant_conversion AS
+SELECT
+  v.id AS variant_id,
+  v.template_id,
+  COUNT(r.id) FILTER (WHERE r.status = 'sent') AS sent,
+  COUNT(m.fid) AS mints
+FROM outreach_template_variants v
+LEFT JOIN outreach_recipients r ON r.variant_id = v.id
+LEFT JOIN funnel_events m
+  ON m.fid = r.fid AND m.stage = 'minted' AND r.status = 'sent' AND m.created_at > r.sent_at
+GROUP BY v.id;
+
+-- Step 5: Seed the templates previously hard-coded in the admin UI
+INSERT INTO outreach_templates (key, name) VALUES
+  ('friendly', 'Friendly Reminder'),
+  ('urgent', 'Urgent Call-to-Action'),
+  ('reminder', 'Simple Reminder');
+
+INSERT INTO outreach_template_variants (template_id, label, body)
+SELECT t.id, v.label, v.body
+FROM outreach_templates t
+JOIN (VALUES
+  ('friendly', 'A', 'Hey! @{username} your Geoplet is doing a little happy dance… mint it whenever you wanna join in 💃✨'),
+  ('friendly', 'B', 'Hey! @{username} your Geoplet is practicing its ''I''m minted!'' pose — take your time 😄🎨'),
+  ('friendly', 'C', 'Hey! @{username} your Geoplet keeps whispering, ''Are we minting today?'' but it''s cool if not 😂💫'),
+  ('friendly', 'D', 'Hey! @{username} your Geoplet is vibing in the waiting room, snacking on pixels 🍿🟦'),
+  ('friendly', 'E', 'Hey! @{username} your Geoplet is ready to glow up into a GeoTizen — whenever you feel the spark ✨😎'),
+  ('urgent', 'A', 'Hey! @{username} Don''t miss out! Your Geoplet is waiting to be minted. Claim it now! 🎨'),
+  ('reminder', 'A', 'Hey! @{username} Your generated Geoplet is ready to mint! 🖼️')
+) AS v(key, label, body) ON v.key = t.key;
+
+-- Verify the seed
+SELECT t.key, v.label, v.weight, v.body
+FROM outreach_templates t
+JOIN outreach_template_variants v ON v.template_id = t.id
+ORDER BY t.key, v.label;
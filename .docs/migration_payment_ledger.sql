@@ -0,0 +1,124 @@
+-- Migration: Replace payment_tracking / animation_upgrades with an idempotent payment ledger
+-- Date: 2026-10-19
+-- Run this in Supabase SQL Editor
+
+-- Step 1: One row per x402 payment (not per FID)
+-- idempotency_key = eip3009:<from>:<nonce> (lowercase), unique per USDC authorization
+CREATE TABLE payment_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  idempotency_key TEXT NOT NULL UNIQUE,
+  purpose TEXT NOT NULL CHECK (purpose IN ('mint', 'regenerate', 'animation')),
+  fid INTEGER NOT NULL,
+  user_address TEXT NOT NULL,
+  payer_address TEXT,
+  amount TEXT NOT NULL,
+  eip3009_nonce TEXT,
+  onchain_payment_id TEXT,
+  status TEXT NOT NULL DEFAULT 'verified' CHECK (status IN (
+    'verified', 'settled', 'mint_submitted', 'minted', 'failed', 'refund_pending', 'refunded'
+  )),
+  settlement_tx_hash TEXT,
+  fulfillment_tx_hash TEXT,
+  refund_tx_hash TEXT,
+  last_error TEXT,
+  updated_by TEXT NOT NULL DEFAULT 'system',
+  event_details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Step 2: Indexes for recovery lookups (latest payment per FID + purpose) and queues
+CREATE INDEX idx_payment_ledger_fid_purpose ON payment_ledger(fid, purpose, created_at DESC);
+CREATE INDEX idx_payment_ledger_status ON payment_ledger(status);
+
+-- Step 3: Append-only event history (one row per status change)
+CREATE TABLE payment_events (
+  id BIGSERIAL PRIMARY KEY,
+  payment_id UUID NOT NULL REFERENCES payment_ledger(id),
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  actor TEXT NOT NULL,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_payment_events_payment ON payment_events(payment_id, id);
+
+CREATE FUNCTION payment_events_append_only() RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'payment_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_payment_events_append_only
+BEFORE UPDATE OR DELETE ON payment_events
+FOR EACH ROW EXECUTE FUNCTION payment_events_append_only();
+
+-- Step 4: Write an event for every insert / status change (same transaction as the ledger write)
+-- lib/payment-ledger.ts sets updated_by + event_details alongside each transition
+CREATE FUNCTION payment_ledger_log_event() RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO payment_events (payment_id, from_status, to_status, actor, details)
+    VALUES (
+      NEW.id,
+      CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.status END,
+      NEW.status,
+      NEW.updated_by,
+      NEW.event_details
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_payment_ledger_log_event
+AFTER INSERT OR UPDATE ON payment_ledger
+FOR EACH ROW EXECUTE FUNCTION payment_ledger_log_event();
+
+-- Step 5: Backfill legacy rows (no EIP-3009 nonce recorded, keyed by FID)
+INSERT INTO payment_ledger (
+  idempotency_key, purpose, fid, user_address, amount, status,
+  settlement_tx_hash, fulfillment_tx_hash, refund_tx_hash,
+  updated_by, event_details, created_at, updated_at
+)
+SELECT
+  'legacy:mint:' || fid, 'mint', fid, COALESCE(user_address, ''), '1000000', status,
+  settlement_tx_hash, mint_tx_hash, refund_tx_hash,
+  'migration', '{"source":"payment_tracking"}'::jsonb, created_at, updated_at
+FROM payment_tracking;
+
+INSERT INTO payment_ledger (
+  idempotency_key, purpose, fid, user_address, amount, status,
+  settlement_tx_hash, fulfillment_tx_hash,
+  updated_by, event_details, created_at, updated_at
+)
+SELECT
+  'legacy:animation:' || token_id, 'animation', token_id, user_address, '1990000',
+  CASE status WHEN 'upgraded' THEN 'minted' ELSE status END,
+  settlement_tx_hash, upgrade_tx_hash,
+  'migration', '{"source":"animation_upgrades"}'::jsonb, created_at, updated_at
+FROM animation_upgrades;
+
+-- Step 6: Converted = any settled mint payment (replaces the payment_tracking join)
+CREATE OR REPLACE VIEW unconverted_users AS
+SELECT
+  u.fid,
+  u.username,
+  u.image_data,
+  u.created_at as generated_at,
+  u.cast_sent
+FROM unminted_geoplets u
+WHERE NOT EXISTS (
+  SELECT 1 FROM payment_ledger p
+  WHERE p.fid = u.fid
+    AND p.purpose = 'mint'
+    AND p.settlement_tx_hash IS NOT NULL
+)
+ORDER BY u.created_at DESC;
+
+-- payment_tracking and animation_upgrades are no longer written; keep them for history
+
+-- Verify the tables
+SELECT purpose, status, COUNT(*) FROM payment_ledger GROUP BY purpose, status ORDER BY purpose, status;
+SELECT COUNT(*) as event_count FROM payment_events;
@@ -0,0 +1,12 @@
+-- Migration: Cross-chain x402 payments signed on Solana
+-- Date: 2026-10-19
+-- Run this in Supabase SQL Editor
+-- Requires: migration_payment_ledger.sql
+
+-- Network the payer signed on (funds always settle to the treasury on Base)
+-- Solana rows: idempotency_key = solana:<payer>:<payer signature hex>, eip3009_nonce NULL
+-- Refunds (lib/refunds.ts) only cover source_network = 'base'
+ALTER TABLE payment_ledger
+  ADD COLUMN source_network TEXT NOT NULL DEFAULT 'base'
+  CHECK (source_network IN ('base', 'solana'));
+
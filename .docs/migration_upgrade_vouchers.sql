@@ -0,0 +1,10 @@
+-- Migration: Register animation upgrade vouchers in mint_vouchers
+-- Date: 2026-10-19
+-- Run this in Supabase SQL Editor
+-- Requires: migration_mint_vouchers.sql
+
+-- UpgradeVouchers share the registry (fid = tokenId, FID = tokenId in 1:1 mapping)
+-- 'upgrade' = x402 paid upgrade, 'upgrade_recovery' = /api/get-upgrade-signature-paid
+ALTER TABLE mint_vouchers DROP CONSTRAINT mint_vouchers_purpose_check;
+ALTER TABLE mint_vouchers ADD CONSTRAINT mint_vouchers_purpose_check
+  CHECK (purpose IN ('mint', 'recovery', 'upgrade', 'upgrade_recovery'));
@@ -0,0 +1,9 @@
+-- Migration: Track which signer key issued each mint voucher (signer rotation)
+-- Date: 2026-10-19
+-- Run this in Supabase SQL Editor
+
+-- Step 1: Signer address (lowercase) - NULL for vouchers issued before this migration
+ALTER TABLE mint_vouchers ADD COLUMN signer_address TEXT;
+
+-- Step 2: Index for revoking a rotated-out signer's outstanding vouchers
+CREATE INDEX idx_mint_vouchers_signer_status ON mint_vouchers(signer_address, status);
@@ -0,0 +1,15 @@
+-- Migration: Pluggable x402 facilitators
+-- Date: 2026-10-19
+-- Run this in Supabase SQL Editor
+-- Requires: migration_payment_ledger.sql
+
+-- Facilitator that verified the payment (lib/facilitators.ts): 'onchainfi' | 'local'
+-- settle-payment settles through the same one - required, never guessed
+ALTER TABLE payment_ledger
+  ADD COLUMN facilitator TEXT;
+
+-- Rows recorded before facilitators were configurable were all verified by onchain.fi
+UPDATE payment_ledger SET facilitator = 'onchainfi' WHERE facilitator IS NULL;
+
+ALTER TABLE payment_ledger
+  ALTER COLUMN facilitator SET NOT NULL;
@@ -1452,6 +1452,12 @@ export const EIP712_TYPES = {
     { name: "nonce", type: "uint256" },
     { name: "deadline", type: "uint256" },
   ],
+  UpgradeVoucher: [
+    { name: "to", type: "address" },
+    { name: "tokenId", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
 } as const;
 
 // ============ Security Constants ============
@@ -1493,3 +1499,14 @@ export type MintVoucher = {
   nonce: bigint;
   deadline: bigint;
 };
+
+/**
+ * UpgradeVoucher type for EIP-712 signing
+ * Matches contract struct: UpgradeVoucher(address to,uint256 tokenId,uint256 nonce,uint256 deadline)
+ */
+export type UpgradeVoucher = {
+  to: `0x${string}`;
+  tokenId: bigint;
+  nonce: bigint;
+  deadline: bigint;
+};
@@ -7,24 +7,40 @@ import { useAdminAuth } from "@/hooks/useAdminAuth";
 import { StatsCards } from "@/components/admin/StatsCards";
 import { UserGrid } from "@/components/admin/UserGrid";
 import { ComposeSection } from "@/components/admin/ComposeSection";
+import { AirdropSection } from "@/components/admin/AirdropSection";
+import { RefundsSection } from "@/components/admin/RefundsSection";
+import { SignerSection } from "@/components/admin/SignerSection";
+import { NotificationsSection } from "@/components/admin/NotificationsSection";
+import { FunnelSection } from "@/components/admin/FunnelSection";
+import { TemplatesSection } from "@/components/admin/TemplatesSection";
+import { SuppressionSection } from "@/components/admin/SuppressionSection";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { toast } from "sonner";
-import type { UnconvertedUser } from "@/lib/supabase";
+import type { OutreachUser } from "@/lib/outreach-suppression";
 
 export default function AdminPage() {
   const router = useRouter();
   const { connect, connectors, isPending: isConnecting } = useConnect();
   const { disconnect } = useDisconnect();
-  const { isOwner, isLoading: isLoadingAuth, address } = useAdminAuth();
+  const {
+    isOwner,
+    isLoading: isLoadingAuth,
+    address,
+    isAuthenticated,
+    isSigningIn,
+    signIn,
+    signOut,
+  } = useAdminAuth();
 
-  const [users, setUsers] = useState<UnconvertedUser[]>([]);
+  const [users, setUsers] = useState<OutreachUser[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [filter, setFilter] = useState<"all" | "not_contacted" | "contacted">("not_contacted");
   const [selectedFids, setSelectedFids] = useState<Set<number>>(new Set());
   const [isTestingApiKey, setIsTestingApiKey] = useState(false);
+  const [section, setSection] = useState<"outreach" | "templates" | "analytics" | "airdrop" | "refunds" | "signer" | "notifications">("outreach");
 
   // Monitor connection changes
   useEffect(() => {
@@ -80,10 +96,10 @@ export default function AdminPage() {
   };
 
   useEffect(() => {
-    if (isOwner) {
+    if (isAuthenticated) {
       fetchUsers();
     }
-  }, [isOwner, filter]);
+  }, [isAuthenticated, filter]);
 
   // Selection handlers
   const handleToggleUser = (fid: number) => {
@@ -109,6 +125,17 @@ export default function AdminPage() {
     fetchUsers(); // Refresh the list
   };
 
+  // Sign in with Ethereum (issues server-side admin session)
+  const handleSignIn = async () => {
+    try {
+      await signIn();
+      toast.success("Signed in as admin");
+    } catch (error) {
+      console.error("[ADMIN] Sign-in error:", error);
+      toast.error(error instanceof Error ? error.message : "Admin sign-in failed");
+    }
+  };
+
   // Test Farcaster API Key
   const handleTestApiKey = async () => {
     setIsTestingApiKey(true);
@@ -140,10 +167,6 @@ export default function AdminPage() {
   const contacted = users.filter(u => u.cast_sent);
   const pending = users.filter(u => !u.cast_sent);
 
-  const selectedUsernames = users
-    .filter(u => selectedFids.has(u.fid))
-    .map(u => u.username);
-
   // State 1: Not Connected - Show Connect Button
   if (!address) {
     return (
@@ -180,36 +203,50 @@ export default function AdminPage() {
     );
   }
 
-  // State 3: Connected but Not Owner - Show Access Denied
-  if (!isOwner) {
+  // State 3: Connected but Not Signed In - Show Sign-In (owner) or Access Denied
+  if (!isAuthenticated) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <Card className="p-8 max-w-md w-full text-center">
-          <h2 className="text-xl font-bold mb-2">Access Denied</h2>
-          <Alert variant="destructive" className="mb-6">
-            <AlertDescription>
-              Only the contract owner can access the admin dashboard.
-            </AlertDescription>
-          </Alert>
+          <h2 className="text-xl font-bold mb-2">
+            {isOwner ? "Sign In Required" : "Access Denied"}
+          </h2>
+          {!isOwner && (
+            <Alert variant="destructive" className="mb-6">
+              <AlertDescription>
+                Only the contract owner or allowlisted admins can access the admin dashboard.
+              </AlertDescription>
+            </Alert>
+          )}
           <div className="space-y-2 mb-6">
             <p className="text-sm text-muted-foreground">Connected as:</p>
             <p className="text-xs font-mono bg-muted p-2 rounded">
               {address}
             </p>
           </div>
-          <Button
-            onClick={() => disconnect()}
-            variant="outline"
-            className="w-full"
-          >
-            Disconnect Wallet
-          </Button>
+          <div className="space-y-2">
+            <Button
+              onClick={handleSignIn}
+              disabled={isSigningIn}
+              size="lg"
+              className="w-full"
+            >
+              {isSigningIn ? "Waiting for signature..." : "Sign In with Wallet"}
+            </Button>
+            <Button
+              onClick={() => disconnect()}
+              variant="outline"
+              className="w-full"
+            >
+              Disconnect Wallet
+            </Button>
+          </div>
         </Card>
       </div>
     );
   }
 
-  // State 4: Connected and Is Owner - Show Admin Dashboard
+  // State 4: Signed In - Show Admin Dashboard
 
   return (
     <div className="container mx-auto px-4 py-8">
@@ -219,88 +256,138 @@ export default function AdminPage() {
           <div>
             <h1 className="text-3xl font-bold mb-2">Admin Dashboard</h1>
             <p className="text-muted-foreground">
-              Manage unconverted users and send Farcaster casts
+              Manage unconverted users, send Farcaster casts and run airdrops
             </p>
             <p className="text-xs text-muted-foreground mt-1">
               Connected as: {address}
             </p>
           </div>
-          <Button
-            onClick={handleTestApiKey}
-            disabled={isTestingApiKey}
-            variant="outline"
-            size="sm"
-          >
-            {isTestingApiKey ? "Testing..." : "Test API Key"}
-          </Button>
+          <div className="flex gap-2">
+            <Button
+              onClick={handleTestApiKey}
+              disabled={isTestingApiKey}
+              variant="outline"
+              size="sm"
+            >
+              {isTestingApiKey ? "Testing..." : "Test API Key"}
+            </Button>
+            <Button onClick={signOut} variant="ghost" size="sm">
+              Sign Out
+            </Button>
+          </div>
         </div>
       </div>
 
-      {/* Stats Cards */}
-      <StatsCards
-        totalUnconverted={allUsers.length}
-        contacted={contacted.length}
-        pending={pending.length}
-      />
-
-      {/* Filter Tabs */}
-      <Tabs value={filter} onValueChange={(v) => setFilter(v as typeof filter)} className="mb-6">
-        <TabsList className="grid w-full md:w-auto md:inline-grid grid-cols-3">
-          <TabsTrigger value="not_contacted">
-            Not Contacted ({pending.length})
-          </TabsTrigger>
-          <TabsTrigger value="contacted">
-            Contacted ({contacted.length})
-          </TabsTrigger>
-          <TabsTrigger value="all">
-            All ({allUsers.length})
-          </TabsTrigger>
+      {/* Section Tabs */}
+      <Tabs value={section} onValueChange={(v) => setSection(v as typeof section)} className="mb-6">
+        <TabsList>
+          <TabsTrigger value="outreach">Outreach</TabsTrigger>
+          <TabsTrigger value="templates">Templates</TabsTrigger>
+          <TabsTrigger value="analytics">Analytics</TabsTrigger>
+          <TabsTrigger value="airdrop">Airdrop</TabsTrigger>
+          <TabsTrigger value="refunds">Refunds</TabsTrigger>
+          <TabsTrigger value="signer">Signer</TabsTrigger>
+          <TabsTrigger value="notifications">Notifications</TabsTrigger>
         </TabsList>
-      </Tabs>
 
-      {/* Main Content */}
-      <div className="grid gap-6 lg:grid-cols-3">
-        {/* User Grid - Takes 2 columns */}
-        <div className="lg:col-span-2">
-          {isLoading ? (
-            <div className="flex items-center justify-center p-12">
-              <p className="text-muted-foreground">Loading users...</p>
+        <TabsContent value="outreach" className="mt-6">
+          {/* Stats Cards */}
+          <StatsCards
+            totalUnconverted={allUsers.length}
+            contacted={contacted.length}
+            pending={pending.length}
+          />
+
+          {/* Filter Tabs */}
+          <Tabs value={filter} onValueChange={(v) => setFilter(v as typeof filter)} className="mb-6">
+            <TabsList className="grid w-full md:w-auto md:inline-grid grid-cols-3">
+              <TabsTrigger value="not_contacted">
+                Not Contacted ({pending.length})
+              </TabsTrigger>
+              <TabsTrigger value="contacted">
+                Contacted ({contacted.length})
+              </TabsTrigger>
+              <TabsTrigger value="all">
+                All ({allUsers.length})
+              </TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          {/* Main Content */}
+          <div className="grid gap-6 lg:grid-cols-3">
+            {/* User Grid - Takes 2 columns */}
+            <div className="lg:col-span-2">
+              {isLoading ? (
+                <div className="flex items-center justify-center p-12">
+                  <p className="text-muted-foreground">Loading users...</p>
+                </div>
+              ) : (
+                <UserGrid
+                  users={users}
+                  selectedFids={selectedFids}
+                  onToggleUser={handleToggleUser}
+                  onToggleAll={handleToggleAll}
+                />
+              )}
             </div>
-          ) : (
-            <UserGrid
-              users={users}
-              selectedFids={selectedFids}
-              onToggleUser={handleToggleUser}
-              onToggleAll={handleToggleAll}
-            />
-          )}
-        </div>
 
-        {/* Compose Section - Takes 1 column */}
-        <div className="lg:col-span-1">
-          <div className="sticky top-4">
-            <ComposeSection
-              selectedUsernames={selectedUsernames}
-              selectedFids={Array.from(selectedFids)}
-              onSendSuccess={handleSendSuccess}
-            />
-
-            {/* Info Alert */}
-            <Alert className="mt-4">
-              <AlertDescription className="text-xs">
-                💡 Select users from the list and compose a cast to send. Users will be automatically marked as contacted after sending.
-              </AlertDescription>
-            </Alert>
+            {/* Compose Section - Takes 1 column */}
+            <div className="lg:col-span-1">
+              <div className="sticky top-4">
+                <ComposeSection
+                  selectedFids={Array.from(selectedFids)}
+                  onSendSuccess={handleSendSuccess}
+                />
+
+                <div className="mt-4">
+                  <SuppressionSection
+                    selectedFids={Array.from(selectedFids)}
+                    onChange={fetchUsers}
+                  />
+                </div>
+
+                {/* Info Alert */}
+                <Alert className="mt-4">
+                  <AlertDescription className="text-xs">
+                    💡 Select users (or target everyone not contacted) and start a campaign. Casts go out in the background; users are marked as contacted as each cast is sent. Opted-out users and users in cooldown are skipped automatically.
+                  </AlertDescription>
+                </Alert>
+              </div>
+            </div>
           </div>
-        </div>
-      </div>
 
-      {/* Refresh Button */}
-      <div className="mt-6 flex justify-end">
-        <Button variant="outline" onClick={fetchUsers} disabled={isLoading}>
-          {isLoading ? "Refreshing..." : "Refresh Data"}
-        </Button>
-      </div>
+          {/* Refresh Button */}
+          <div className="mt-6 flex justify-end">
+            <Button variant="outline" onClick={fetchUsers} disabled={isLoading}>
+              {isLoading ? "Refreshing..." : "Refresh Data"}
+            </Button>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="templates" className="mt-6">
+          <TemplatesSection />
+        </TabsContent>
+
+        <TabsContent value="analytics" className="mt-6">
+          <FunnelSection />
+        </TabsContent>
+
+        <TabsContent value="airdrop" className="mt-6">
+          <AirdropSection />
+        </TabsContent>
+
+        <TabsContent value="refunds" className="mt-6">
+          <RefundsSection />
+        </TabsContent>
+
+        <TabsContent value="signer" className="mt-6">
+          <SignerSection />
+        </TabsContent>
+
+        <TabsContent value="notifications" className="mt-6">
+          <NotificationsSection selectedFids={Array.from(selectedFids)} />
+        </TabsContent>
+      </Tabs>
     </div>
   );
 }
@@ -0,0 +1,194 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { requireAdminSession } from '@/lib/admin-auth';
+import { MAX_CONTRACT_BATCH } from '@/lib/airdrop';
+
+/**
+ * /api/admin/airdrop
+ *
+ * Auth: Requires admin session cookie (see lib/admin-auth.ts)
+ *
+ * Records batch deposit transactions sent from the admin airdrop console.
+ * The transaction itself is signed by the owner wallet in the browser;
+ * this route only keeps the audit trail (airdrop_batches table).
+ *
+ * GET   → latest batches (?limit=50)
+ * POST  → record a submitted batch
+ * PATCH → update batch status after the receipt { txHash, status }
+ */
+
+interface RecordBatchRequest {
+  airdropId: string;
+  chunkIndex: number;
+  chunkCount: number;
+  method: 'batchDepositEqual' | 'batchDepositToTokens';
+  tokenAddress: string;
+  tokenSymbol: string;
+  tokenIds: number[];
+  amounts: string[];
+  totalAmount: string;
+  txHash: string;
+}
+
+interface UpdateBatchRequest {
+  txHash: string;
+  status: 'confirmed' | 'failed';
+}
+
+const TX_HASH_REGEX = /^0x[a-fA-F0-9]{64}$/;
+
+export async function GET(req: NextRequest) {
+  try {
+    const auth = requireAdminSession(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const limit = Math.min(
+      parseInt(req.nextUrl.searchParams.get('limit') || '50', 10) || 50,
+      200
+    );
+
+    const { data, error } = await supabaseAdmin
+      .from('airdrop_batches')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('[AIRDROP] Database error:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to load airdrop history' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, batches: data || [] });
+  } catch (error) {
+    console.error('[AIRDROP] Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = requireAdminSession(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const body: RecordBatchRequest = await req.json();
+
+    // Validation
+    if (!body.airdropId || !TX_HASH_REGEX.test(body.txHash || '')) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid airdrop ID or transaction hash' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      !Array.isArray(body.tokenIds) ||
+      body.tokenIds.length === 0 ||
+      body.tokenIds.length > MAX_CONTRACT_BATCH
+    ) {
+      return NextResponse.json(
+        { success: false, error: `Batch must contain 1-${MAX_CONTRACT_BATCH} token IDs` },
+        { status: 400 }
+      );
+    }
+
+    if (body.method !== 'batchDepositEqual' && body.method !== 'batchDepositToTokens') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid batch method' },
+        { status: 400 }
+      );
+    }
+
+    const { error } = await supabaseAdmin.from('airdrop_batches').insert({
+      airdrop_id: body.airdropId,
+      chunk_index: body.chunkIndex,
+      chunk_count: body.chunkCount,
+      method: body.method,
+      token_address: body.tokenAddress.toLowerCase(),
+      token_symbol: body.tokenSymbol,
+      token_ids: body.tokenIds,
+      amounts: body.amounts,
+      total_amount: body.totalAmount,
+      tx_hash: body.txHash,
+      status: 'submitted',
+      created_by: auth.address,
+    });
+
+    if (error) {
+      console.error('[AIRDROP] Database error:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to record batch' },
+        { status: 500 }
+      );
+    }
+
+    console.log('[AIRDROP] ✅ Batch recorded:', {
+      airdropId: body.airdropId,
+      chunk: `${body.chunkIndex + 1}/${body.chunkCount}`,
+      tokens: body.tokenIds.length,
+      txHash: body.txHash,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[AIRDROP] Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(req: NextRequest) {
+  try {
+    const auth = requireAdminSession(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const body: UpdateBatchRequest = await req.json();
+
+    if (!TX_HASH_REGEX.test(body.txHash || '') || !['confirmed', 'failed'].includes(body.status)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid transaction hash or status' },
+        { status: 400 }
+      );
+    }
+
+    const { error } = await supabaseAdmin
+      .from('airdrop_batches')
+      .update({ status: body.status, updated_at: new Date().toISOString() })
+      .eq('tx_hash', body.txHash);
+
+    if (error) {
+      console.error('[AIRDROP] Database error:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to update batch' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[AIRDROP] Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
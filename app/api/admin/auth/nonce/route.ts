@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import {
+  issueNonce,
+  cookieOptions,
+  ADMIN_NONCE_COOKIE,
+  ADMIN_NONCE_TTL,
+} from '@/lib/admin-auth';
+
+/**
+ * GET /api/admin/auth/nonce
+ *
+ * Issues a one-time nonce for the admin Sign-In with Ethereum message.
+ * The nonce is also stored in a signed httpOnly cookie so /verify can
+ * confirm the signed message was produced for this browser session.
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   nonce: string
+ * }
+ */
+export async function GET() {
+  try {
+    const { nonce, cookie } = issueNonce();
+
+    const response = NextResponse.json({ success: true, nonce });
+    response.cookies.set(ADMIN_NONCE_COOKIE, cookie, cookieOptions(ADMIN_NONCE_TTL));
+
+    return response;
+  } catch (error) {
+    console.error('[ADMIN-AUTH] Failed to issue nonce:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to issue nonce',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
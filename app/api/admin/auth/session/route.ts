@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getAdminSession,
+  cookieOptions,
+  ADMIN_SESSION_COOKIE,
+} from '@/lib/admin-auth';
+
+/**
+ * GET /api/admin/auth/session
+ *
+ * Returns the current admin session (if any).
+ * Used by the admin page to decide whether to prompt for sign-in.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = getAdminSession(req);
+
+    if (!session) {
+      return NextResponse.json({ success: true, authenticated: false });
+    }
+
+    return NextResponse.json({
+      success: true,
+      authenticated: true,
+      address: session.address,
+      expiresAt: session.expiresAt,
+    });
+  } catch (error) {
+    console.error('[ADMIN-AUTH] Session lookup failed:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to read admin session' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/auth/session
+ *
+ * Signs the admin out by clearing the session cookie.
+ */
+export async function DELETE() {
+  const response = NextResponse.json({ success: true, authenticated: false });
+  response.cookies.set(ADMIN_SESSION_COOKIE, '', cookieOptions(0));
+  return response;
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseSiweMessage } from 'viem/siwe';
+import {
+  readNonce,
+  consumeNonce,
+  verifySiweSignIn,
+  isAdminAddress,
+  createSessionToken,
+  cookieOptions,
+  ADMIN_NONCE_COOKIE,
+  ADMIN_SESSION_COOKIE,
+  ADMIN_SESSION_TTL,
+} from '@/lib/admin-auth';
+
+/**
+ * POST /api/admin/auth/verify
+ *
+ * Verifies a signed SIWE message and issues the admin session cookie.
+ *
+ * Checks:
+ * - Nonce matches the one issued to this browser (and is not expired)
+ * - Nonce was never used before (consumed server-side, no replays)
+ * - Message domain matches this host
+ * - Signature is valid for the message address
+ * - Address is the contract owner() or in ADMIN_ALLOWLIST
+ *
+ * Body:
+ * {
+ *   message: string,    // EIP-4361 message
+ *   signature: string   // Wallet signature of message
+ * }
+ */
+
+interface VerifyRequest {
+  message: string;
+  signature: `0x${string}`;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body: VerifyRequest = await req.json();
+    const { message, signature } = body;
+
+    if (!message || !signature || !/^0x[a-fA-F0-9]+$/.test(signature)) {
+      return NextResponse.json(
+        { success: false, error: 'Missing message or signature' },
+        { status: 400 }
+      );
+    }
+
+    const nonce = readNonce(req);
+    if (!nonce) {
+      return NextResponse.json(
+        { success: false, error: 'Nonce missing or expired. Please try again.' },
+        { status: 401 }
+      );
+    }
+
+    const { address } = parseSiweMessage(message);
+    if (!address) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid sign-in message' },
+        { status: 400 }
+      );
+    }
+
+    console.log('[ADMIN-AUTH] Verifying sign-in:', {
+      address,
+      timestamp: new Date().toISOString()
+    });
+
+    const isValid = await verifySiweSignIn({
+      message,
+      signature,
+      nonce,
+      domain: req.nextUrl.host,
+    });
+
+    if (!isValid) {
+      console.warn('[ADMIN-AUTH] ❌ Invalid signature:', { address });
+      return NextResponse.json(
+        { success: false, error: 'Invalid signature' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await consumeNonce(nonce))) {
+      console.warn('[ADMIN-AUTH] ❌ Nonce already used:', { address });
+      return NextResponse.json(
+        { success: false, error: 'Nonce already used. Please try again.' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await isAdminAddress(address))) {
+      console.warn('[ADMIN-AUTH] ❌ Address is not an admin:', { address });
+      return NextResponse.json(
+        { success: false, error: 'Address is not authorized for admin access' },
+        { status: 403 }
+      );
+    }
+
+    const { token, session } = createSessionToken(address);
+
+    console.log('[ADMIN-AUTH] ✅ Admin session issued:', {
+      address: session.address,
+      expiresAt: new Date(session.expiresAt * 1000).toISOString()
+    });
+
+    const response = NextResponse.json({
+      success: true,
+      address: session.address,
+      expiresAt: session.expiresAt,
+    });
+
+    response.cookies.set(ADMIN_SESSION_COOKIE, token, cookieOptions(ADMIN_SESSION_TTL));
+    // Nonce is single-use
+    response.cookies.set(ADMIN_NONCE_COOKIE, '', cookieOptions(0));
+
+    return response;
+  } catch (error) {
+    console.error('[ADMIN-AUTH] Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Sign-in verification failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminSession } from '@/lib/admin-auth';
+import {
+  getCampaign,
+  updateCampaignStatus,
+  CampaignError,
+  campaignErrorStatus,
+  type CampaignAction,
+} from '@/lib/outreach-campaigns';
+
+/**
+ * /api/admin/campaigns/[id]
+ *
+ * Auth: Requires admin session cookie (see lib/admin-auth.ts)
+ *
+ * GET   → campaign + per-recipient status (queued/sent/failed/skipped, cast hash)
+ * PATCH → { action: 'pause' | 'resume' | 'cancel' }
+ */
+
+function errorResponse(error: unknown) {
+  if (error instanceof CampaignError) {
+    return NextResponse.json(
+      { success: false, error: error.message, code: error.code },
+      { status: campaignErrorStatus(error) }
+    );
+  }
+
+  console.error('[ADMIN-CAMPAIGNS] Error:', error);
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    },
+    { status: 500 }
+  );
+}
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = requireAdminSession(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const { id } = await params;
+    const { campaign, recipients } = await getCampaign(id);
+
+    return NextResponse.json({ success: true, campaign, recipients });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = requireAdminSession(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const { id } = await params;
+    const { action } = await req.json();
+
+    const campaign = await updateCampaignStatus(id, action as CampaignAction, auth.address);
+
+    return NextResponse.json({ success: true, campaign });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminSession } from '@/lib/admin-auth';
+import {
+  createCampaign,
+  listCampaigns,
+  CampaignError,
+  campaignErrorStatus,
+} from '@/lib/outreach-campaigns';
+
+/**
+ * /api/admin/campaigns
+ *
+ * Auth: Requires admin session cookie (see lib/admin-auth.ts)
+ *
+ * Outreach campaigns (see lib/outreach-campaigns.ts). Creating a campaign only
+ * queues recipients - casts go out via POST /api/admin/campaigns/run.
+ *
+ * GET  → recent campaigns with progress
+ * POST → create
+ * {
+ *   name: string,
+ *   templateId?: string,   // Library template - each recipient gets a weighted A/B variant
+ *   message?: string,      // Custom copy when no template; variables allowed (see lib/outreach-templates.ts)
+ *   audience: { type: 'not_contacted' | 'all' | 'fids', fids?: number[] },
+ *   scheduledAt?: string   // ISO date, defaults to now
+ * }
+ */
+
+function errorResponse(error: unknown) {
+  if (error instanceof CampaignError) {
+    return NextResponse.json(
+      { success: false, error: error.message, code: error.code },
+      { status: campaignErrorStatus(error) }
+    );
+  }
+
+  console.error('[ADMIN-CAMPAIGNS] Error:', error);
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    },
+    { status: 500 }
+  );
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const auth = requireAdminSession(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const campaigns = await listCampaigns();
+
+    return NextResponse.json({ success: true, campaigns });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = requireAdminSession(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const { name, templateId, message, audience, scheduledAt } = await req.json();
+
+    const campaign = await createCampaign(
+      { name, templateId, message, audience, scheduledAt },
+      auth.address
+    );
+
+    return NextResponse.json({ success: true, campaign });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminSession } from '@/lib/admin-auth';
+import { runOutreachWorker, CampaignError, campaignErrorStatus } from '@/lib/outreach-campaigns';
+
+/**
+ * POST /api/admin/campaigns/run
+ *
+ * Auth: Requires admin session cookie (see lib/admin-auth.ts)
+ *
+ * One time-boxed outreach worker tick (see lib/outreach-campaigns.ts).
+ * The admin UI calls this repeatedly while a campaign is running; the
+ * `npm run outreach` CLI does the same without a browser.
+ *
+ * Body (optional): { campaignId?: string }  // Only work on this campaign
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const auth = requireAdminSession(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const { campaignId } = await req.json().catch(() => ({}));
+
+    const report = await runOutreachWorker({ campaignId });
+
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    if (error instanceof CampaignError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: campaignErrorStatus(error) }
+      );
+    }
+
+    console.error('[OUTREACH-WORKER] Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase';
+import { requireAdminSession } from '@/lib/admin-auth';
 
 /**
  * POST /api/admin/mark-contacted
  *
+ * Auth: Requires admin session cookie (see lib/admin-auth.ts)
+ *
  * Marks selected users as contacted (cast_sent = true)
  * Useful for manual tracking when cast is sent outside the admin panel
  *
@@ -21,6 +24,9 @@ interface MarkContactedRequest {
 
 export async function POST(req: NextRequest) {
   try {
+    const auth = requireAdminSession(req);
+    if (auth instanceof NextResponse) return auth;
+
     const body: MarkContactedRequest = await req.json();
     const { fids, contacted } = body;
 
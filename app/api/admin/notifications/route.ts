@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { requireAdminSession } from '@/lib/admin-auth';
+import { sendNotification, NotificationValidationError } from '@/lib/notifications';
+import { getReadyToMintFids } from '@/lib/notification-triggers';
+
+/**
+ * /api/admin/notifications
+ *
+ * Auth: Requires admin session cookie (see lib/admin-auth.ts)
+ *
+ * In-app notifications (see lib/notifications.ts).
+ *
+ * GET  → token stats + recent deliveries
+ * POST → send { notificationId, title, body, targetPath?, audience: 'all' | 'unminted' | 'fids', fids? }
+ *        notificationId is generated once per compose by the client, so retries never double-send
+ */
+
+type Audience = 'all' | 'unminted' | 'fids';
+
+export async function GET(req: NextRequest) {
+  try {
+    const auth = requireAdminSession(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const countTokens = (filter: 'enabled' | 'invalid' | 'rate_limited') => {
+      const query = supabaseAdmin
+        .from('notification_tokens')
+        .select('fid', { count: 'exact', head: true });
+
+      if (filter === 'enabled') return query.eq('enabled', true);
+      if (filter === 'invalid') return query.not('invalid_at', 'is', null);
+      return query.not('rate_limited_at', 'is', null);
+    };
+
+    const [enabled, invalid, rateLimited, deliveries] = await Promise.all([
+      countTokens('enabled'),
+      countTokens('invalid'),
+      countTokens('rate_limited'),
+      supabaseAdmin
+        .from('notification_deliveries')
+        .select('*')
+        .order('updated_at', { ascending: false })
+        .limit(50),
+    ]);
+
+    const error = enabled.error || invalid.error || rateLimited.error || deliveries.error;
+    if (error) {
+      console.error('[ADMIN-NOTIFICATIONS] Database error:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to load notification stats' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      stats: {
+        enabled: enabled.count ?? 0,
+        invalid: invalid.count ?? 0,
+        rateLimited: rateLimited.count ?? 0,
+      },
+      deliveries: deliveries.data || [],
+    });
+  } catch (error) {
+    console.error('[ADMIN-NOTIFICATIONS] Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = requireAdminSession(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const { notificationId, title, body, targetPath, audience, fids } = await req.json();
+
+    if (!['all', 'unminted', 'fids'].includes(audience)) {
+      return NextResponse.json(
+        { success: false, error: 'audience must be all, unminted or fids' },
+        { status: 400 }
+      );
+    }
+
+    if (audience === 'fids' && (!Array.isArray(fids) || fids.length === 0)) {
+      return NextResponse.json(
+        { success: false, error: 'No users selected' },
+        { status: 400 }
+      );
+    }
+
+    const targets =
+      (audience as Audience) === 'all'
+        ? 'all'
+        : audience === 'unminted'
+        ? await getReadyToMintFids()
+        : (fids as unknown[]).map(Number).filter(Number.isInteger);
+
+    console.log('[ADMIN-NOTIFICATIONS] Sending:', {
+      notificationId,
+      audience,
+      targets: targets === 'all' ? 'all' : targets.length,
+      admin: auth.address,
+    });
+
+    const result = await sendNotification(
+      {
+        notificationId: String(notificationId || ''),
+        title: String(title || ''),
+        body: String(body || ''),
+        targetPath: targetPath || '/',
+        trigger: 'admin',
+      },
+      targets
+    );
+
+    return NextResponse.json({ success: true, result });
+  } catch (error) {
+    if (error instanceof NotificationValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('[ADMIN-NOTIFICATIONS] Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
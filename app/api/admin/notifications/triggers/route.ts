@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminSession } from '@/lib/admin-auth';
+import { NOTIFICATION_TRIGGERS, runNotificationTrigger, type NotificationTrigger } from '@/lib/notification-triggers';
+
+/**
+ * POST /api/admin/notifications/triggers
+ *
+ * Auth: Requires admin session cookie (see lib/admin-auth.ts)
+ *
+ * Run a lifecycle notification trigger (see lib/notification-triggers.ts).
+ * Safe to re-run: notificationIds are deterministic and deduped per FID.
+ *
+ * Body: { trigger: 'ready_to_mint' | 'mint_confirmed' | 'deposit_received', lookbackBlocks?: number }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const auth = requireAdminSession(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const { trigger, lookbackBlocks } = await req.json();
+
+    if (!NOTIFICATION_TRIGGERS.includes(trigger)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown trigger: ${trigger}` },
+        { status: 400 }
+      );
+    }
+
+    if (lookbackBlocks !== undefined && (!Number.isInteger(lookbackBlocks) || lookbackBlocks <= 0)) {
+      return NextResponse.json(
+        { success: false, error: 'lookbackBlocks must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    console.log('[NOTIFICATION-TRIGGER] Running:', { trigger, lookbackBlocks, admin: auth.address });
+
+    const result = await runNotificationTrigger(
+      trigger as NotificationTrigger,
+      lookbackBlocks !== undefined ? BigInt(lookbackBlocks) : undefined
+    );
+
+    return NextResponse.json({ success: true, result });
+  } catch (error) {
+    console.error('[NOTIFICATION-TRIGGER] Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
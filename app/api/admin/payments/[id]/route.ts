@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminSession } from '@/lib/admin-auth';
+import { getPaymentById, getPaymentEvents } from '@/lib/payment-ledger';
+
+/**
+ * GET /api/admin/payments/[id]
+ *
+ * Auth: Requires admin session cookie (see lib/admin-auth.ts)
+ *
+ * A single ledger payment plus its full event history (oldest first),
+ * so support can reconstruct exactly what happened to it.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = requireAdminSession(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const { id } = await params;
+    const payment = await getPaymentById(id);
+
+    if (!payment) {
+      return NextResponse.json(
+        { success: false, error: 'Payment not found' },
+        { status: 404 }
+      );
+    }
+
+    const events = await getPaymentEvents(id);
+
+    return NextResponse.json({ success: true, payment, events });
+  } catch (error) {
+    console.error('[ADMIN-PAYMENTS] Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { requireAdminSession } from '@/lib/admin-auth';
+import { PAYMENT_TRANSITIONS, type PaymentPurpose, type PaymentStatus } from '@/lib/payment-ledger';
+
+/**
+ * GET /api/admin/payments
+ *
+ * Auth: Requires admin session cookie (see lib/admin-auth.ts)
+ *
+ * Search the payment ledger for support.
+ * Query: ?fid=123&purpose=mint&status=failed&limit=50
+ * Use /api/admin/payments/[id] for a single payment's event history.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = requireAdminSession(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const params = req.nextUrl.searchParams;
+    const fid = params.get('fid');
+    const purpose = params.get('purpose') as PaymentPurpose | null;
+    const status = params.get('status') as PaymentStatus | null;
+    const limit = Math.min(parseInt(params.get('limit') || '50', 10) || 50, 200);
+
+    if (status && !(status in PAYMENT_TRANSITIONS)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid status: ${status}` },
+        { status: 400 }
+      );
+    }
+
+    let query = supabaseAdmin
+      .from('payment_ledger')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (fid) query = query.eq('fid', parseInt(fid, 10));
+    if (purpose) query = query.eq('purpose', purpose);
+    if (status) query = query.eq('status', status);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('[ADMIN-PAYMENTS] Database error:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to load payments' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, payments: data || [] });
+  } catch (error) {
+    console.error('[ADMIN-PAYMENTS] Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminSession } from '@/lib/admin-auth';
+import { runReconciliation } from '@/lib/reconciliation';
+
+/**
+ * /api/admin/reconcile
+ *
+ * Auth: Requires admin session cookie (see lib/admin-auth.ts)
+ *
+ * On-chain vs Supabase reconciliation (see lib/reconciliation.ts).
+ *
+ * GET  → dry-run report (?fromBlock=&toBlock=)
+ * POST → same report, applying safe auto-fixes { fromBlock?, toBlock? }
+ */
+
+function parseBlock(value: unknown): bigint | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  if (!/^\d+$/.test(String(value))) {
+    throw new Error(`Invalid block number: ${value}`);
+  }
+  return BigInt(String(value));
+}
+
+async function reconcile(fromBlock: unknown, toBlock: unknown, fix: boolean) {
+  let range: { fromBlock?: bigint; toBlock?: bigint };
+  try {
+    range = { fromBlock: parseBlock(fromBlock), toBlock: parseBlock(toBlock) };
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Invalid block range' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const report = await runReconciliation({ ...range, fix });
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    console.error('[RECONCILE] Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Reconciliation failed',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(req: NextRequest) {
+  const auth = requireAdminSession(req);
+  if (auth instanceof NextResponse) return auth;
+
+  const params = req.nextUrl.searchParams;
+  return reconcile(params.get('fromBlock'), params.get('toBlock'), false);
+}
+
+export async function POST(req: NextRequest) {
+  const auth = requireAdminSession(req);
+  if (auth instanceof NextResponse) return auth;
+
+  const body = await req.json().catch(() => ({}));
+  console.log('[RECONCILE] Fix run requested by', auth.address);
+
+  return reconcile(body.fromBlock, body.toBlock, true);
+}
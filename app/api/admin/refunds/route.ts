@@ -0,0 +1,259 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminSession } from '@/lib/admin-auth';
+import {
+  attachRefundTx,
+  getPaymentById,
+  transitionPayment,
+  PaymentLedgerError,
+  ledgerErrorStatus,
+} from '@/lib/payment-ledger';
+import {
+  getRefundQueue,
+  getSettlementTransfer,
+  verifyRefundTransaction,
+  REFUND_MIN_AGE_HOURS,
+} from '@/lib/refunds';
+
+/**
+ * /api/admin/refunds
+ *
+ * Auth: Requires admin session cookie (see lib/admin-auth.ts)
+ *
+ * Refund queue for settled-but-never-fulfilled payments (see lib/refunds.ts).
+ * The USDC transfer itself is signed by the owner wallet in the browser;
+ * this route moves the payment ledger state. The row is reserved before the
+ * transfer is sent, so two admins can never refund the same payment.
+ *
+ * GET    → queue (?olderThanHours=24)
+ * POST   → reserve { ledgerId } → refund_pending (409 if already reserved)
+ * PUT    → refund tx sent { ledgerId, txHash } → attached to the reservation
+ * DELETE → nothing was sent { ledgerId } → back to failed (refundable again)
+ * PATCH  → confirm refund { ledgerId } → refunded (or failed if the tx reverted)
+ */
+
+const TX_HASH_REGEX = /^0x[a-fA-F0-9]{64}$/;
+
+function errorResponse(error: unknown) {
+  if (error instanceof PaymentLedgerError) {
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: ledgerErrorStatus(error) }
+    );
+  }
+
+  console.error('[REFUNDS] Error:', error);
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    },
+    { status: 500 }
+  );
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const auth = requireAdminSession(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const hours = parseFloat(
+      req.nextUrl.searchParams.get('olderThanHours') || String(REFUND_MIN_AGE_HOURS)
+    );
+    const olderThanHours = isNaN(hours) || hours < 0 ? REFUND_MIN_AGE_HOURS : hours;
+
+    const refunds = await getRefundQueue(olderThanHours);
+
+    return NextResponse.json({ success: true, refunds, olderThanHours });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = requireAdminSession(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const { ledgerId } = await req.json();
+
+    const payment = ledgerId ? await getPaymentById(ledgerId) : null;
+    if (!payment) {
+      return NextResponse.json(
+        { success: false, error: 'Payment not found' },
+        { status: 404 }
+      );
+    }
+
+    const actor = `admin:${auth.address}`;
+
+    // Submitted but never landed: close the fulfillment attempt first
+    if (payment.status === 'mint_submitted') {
+      await transitionPayment(payment.id, 'failed', {
+        actor,
+        fields: { last_error: 'No fulfillment event on-chain' },
+        details: { reason: 'refund' },
+      });
+    }
+
+    // Exclusive: a second admin (or a double click) gets a 409, never a second transfer
+    const data = await transitionPayment(payment.id, 'refund_pending', {
+      actor,
+      fields: { refund_tx_hash: null },   // A reverted earlier refund is retried with a new tx
+      details: { reserved: true },
+      exclusive: true,
+    });
+
+    console.log('[REFUNDS] ✅ Refund reserved:', {
+      ledgerId,
+      fid: payment.fid,
+      admin: auth.address,
+    });
+
+    return NextResponse.json({ success: true, payment: data });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const auth = requireAdminSession(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const { ledgerId, txHash } = await req.json();
+
+    if (!ledgerId || !TX_HASH_REGEX.test(txHash || '')) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid ledger ID or transaction hash' },
+        { status: 400 }
+      );
+    }
+
+    const data = await attachRefundTx(ledgerId, txHash, `admin:${auth.address}`);
+
+    console.log('[REFUNDS] ✅ Refund submitted:', {
+      ledgerId,
+      fid: data.fid,
+      txHash,
+      admin: auth.address,
+    });
+
+    return NextResponse.json({ success: true, payment: data });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const auth = requireAdminSession(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const { ledgerId } = await req.json();
+
+    const payment = ledgerId ? await getPaymentById(ledgerId) : null;
+    if (!payment) {
+      return NextResponse.json(
+        { success: false, error: 'Payment not found' },
+        { status: 404 }
+      );
+    }
+
+    // Once a transaction is attached only PATCH (the receipt) may release it
+    if (payment.status !== 'refund_pending' || payment.refund_tx_hash) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: payment.refund_tx_hash
+            ? 'Refund transaction already sent - confirm it instead'
+            : `Payment is "${payment.status}", no refund reserved`,
+        },
+        { status: 409 }
+      );
+    }
+
+    const data = await transitionPayment(payment.id, 'failed', {
+      actor: `admin:${auth.address}`,
+      fields: { last_error: 'Refund cancelled before sending' },
+      details: { reason: 'refund_cancelled' },
+    });
+
+    console.log('[REFUNDS] Refund reservation released:', { ledgerId, admin: auth.address });
+
+    return NextResponse.json({ success: true, payment: data });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PATCH(req: NextRequest) {
+  try {
+    const auth = requireAdminSession(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const { ledgerId } = await req.json();
+
+    const payment = ledgerId ? await getPaymentById(ledgerId) : null;
+    if (!payment) {
+      return NextResponse.json(
+        { success: false, error: 'Payment not found' },
+        { status: 404 }
+      );
+    }
+
+    if (payment.status !== 'refund_pending' || !payment.refund_tx_hash) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: payment.status === 'refund_pending'
+            ? 'Refund reserved but no transaction attached yet'
+            : `Payment is "${payment.status}", no refund to confirm`,
+        },
+        { status: 409 }
+      );
+    }
+
+    const transfer = await getSettlementTransfer(payment.settlement_tx_hash!);
+    const payer = transfer?.payer ?? payment.payer_address;
+    const amount = transfer?.amount.toString() ?? payment.amount;
+
+    if (!payer) {
+      return NextResponse.json(
+        { success: false, error: 'Payer address unknown for this payment' },
+        { status: 422 }
+      );
+    }
+
+    const result = await verifyRefundTransaction(payment.id, payment.refund_tx_hash, payer, amount);
+
+    // Not mined yet
+    if (!result) {
+      return NextResponse.json({ success: true, pending: true, payment });
+    }
+
+    const actor = `admin:${auth.address}`;
+
+    const data = result.valid
+      ? await transitionPayment(payment.id, 'refunded', {
+          actor,
+          details: { txHash: payment.refund_tx_hash, payer, amount },
+        })
+      : await transitionPayment(payment.id, 'failed', {
+          actor,
+          fields: { last_error: result.reason ?? 'Refund failed' },
+          details: { txHash: payment.refund_tx_hash, reason: result.reason },
+        });
+
+    console.log(`[REFUNDS] ${result.valid ? '✅' : '❌'} Refund ${data.status}:`, {
+      ledgerId,
+      fid: payment.fid,
+      txHash: payment.refund_tx_hash,
+      reason: result.reason,
+    });
+
+    return NextResponse.json({ success: result.valid, payment: data, error: result.reason });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminSession } from '@/lib/admin-auth';
+import { confirmSignerRotation, getSignerStatus } from '@/lib/voucher-signer';
+
+/**
+ * /api/admin/signer
+ *
+ * Auth: Requires admin session cookie (see lib/admin-auth.ts)
+ *
+ * Voucher signer status + rotation (see lib/voucher-signer.ts).
+ * The setSignerWallet transaction itself is sent by the owner wallet in the browser.
+ *
+ * GET  → { onchainSigner, signers[], rotationPending }
+ * POST → confirm rotation { txHash } (returns { pending: true } until mined)
+ */
+
+const TX_HASH_REGEX = /^0x[a-fA-F0-9]{64}$/;
+
+export async function GET(req: NextRequest) {
+  try {
+    const auth = requireAdminSession(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const status = await getSignerStatus();
+
+    return NextResponse.json({ success: true, ...status });
+  } catch (error) {
+    console.error('[SIGNER] Status error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load signer status',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = requireAdminSession(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const { txHash } = await req.json();
+
+    if (!TX_HASH_REGEX.test(txHash || '')) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid transaction hash' },
+        { status: 400 }
+      );
+    }
+
+    const result = await confirmSignerRotation(txHash, `admin:${auth.address}`);
+
+    if (!result) {
+      return NextResponse.json({ success: true, pending: true });
+    }
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('[SIGNER] Rotation error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to confirm rotation',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminSession } from '@/lib/admin-auth';
+import {
+  addOptOuts,
+  listOptOuts,
+  removeOptOuts,
+  OUTREACH_COOLDOWN_MS,
+  OUTREACH_MAX_CONTACTS,
+} from '@/lib/outreach-suppression';
+
+/**
+ * /api/admin/suppressions
+ *
+ * Auth: Requires admin session cookie (see lib/admin-auth.ts)
+ *
+ * Outreach opt-outs (see lib/outreach-suppression.ts)
+ *
+ * GET    → opt-outs + contact policy (cooldown, max contacts)
+ * POST   → { fids: number[], note?: string }   opt FIDs out
+ * DELETE → { fids: number[] }                  remove opt-outs
+ */
+
+function parseFids(value: unknown): number[] | null {
+  if (!Array.isArray(value) || value.length === 0) return null;
+  const fids = value.map(Number);
+  return fids.every((fid) => Number.isInteger(fid) && fid > 0) ? fids : null;
+}
+
+function errorResponse(error: unknown) {
+  console.error('[ADMIN-SUPPRESSIONS] Error:', error);
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    },
+    { status: 500 }
+  );
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const auth = requireAdminSession(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const optOuts = await listOptOuts();
+
+    return NextResponse.json({
+      success: true,
+      optOuts,
+      policy: {
+        cooldownHours: OUTREACH_COOLDOWN_MS / 3_600_000,
+        maxContacts: OUTREACH_MAX_CONTACTS,
+      },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = requireAdminSession(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const { fids: rawFids, note } = await req.json();
+    const fids = parseFids(rawFids);
+
+    if (!fids) {
+      return NextResponse.json(
+        { success: false, error: 'fids must be a non-empty array of FIDs' },
+        { status: 400 }
+      );
+    }
+
+    await addOptOuts(
+      fids.map((fid) => ({ fid, source: 'admin' as const, note: typeof note === 'string' ? note : undefined })),
+      auth.address
+    );
+
+    return NextResponse.json({ success: true, fids });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const auth = requireAdminSession(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const { fids: rawFids } = await req.json();
+    const fids = parseFids(rawFids);
+
+    if (!fids) {
+      return NextResponse.json(
+        { success: false, error: 'fids must be a non-empty array of FIDs' },
+        { status: 400 }
+      );
+    }
+
+    await removeOptOuts(fids, auth.address);
+
+    return NextResponse.json({ success: true, fids });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
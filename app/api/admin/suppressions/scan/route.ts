@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminSession } from '@/lib/admin-auth';
+import { scanOptOutReplies } from '@/lib/outreach-suppression';
+
+/**
+ * POST /api/admin/suppressions/scan
+ *
+ * Auth: Requires admin session cookie (see lib/admin-auth.ts)
+ *
+ * Scans recent mentions/replies to the bot account for opt-out keywords
+ * ("stop", "unsubscribe", "opt out") and opts their authors out.
+ * The outreach worker also runs this before casting.
+ *
+ * Response: { success: true, scanned: number, added: number[] }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const auth = requireAdminSession(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const { scanned, added } = await scanOptOutReplies();
+
+    return NextResponse.json({ success: true, scanned, added });
+  } catch (error) {
+    console.error('[ADMIN-SUPPRESSIONS] Scan failed:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Opt-out scan failed',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
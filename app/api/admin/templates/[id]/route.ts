@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminSession } from '@/lib/admin-auth';
+import {
+  updateTemplate,
+  TemplateError,
+  templateErrorStatus,
+} from '@/lib/outreach-templates';
+
+/**
+ * /api/admin/templates/[id]
+ *
+ * Auth: Requires admin session cookie (see lib/admin-auth.ts)
+ *
+ * PATCH → save
+ * {
+ *   name?: string,
+ *   archived?: boolean,
+ *   variants?: { id?: string, label, body, weight, active }[]   // Omitted variants are deactivated
+ * }
+ */
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = requireAdminSession(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const { id } = await params;
+    const { name, archived, variants } = await req.json();
+
+    const template = await updateTemplate(id, { name, archived, variants }, auth.address);
+
+    return NextResponse.json({ success: true, template });
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: templateErrorStatus(error) }
+      );
+    }
+
+    console.error('[ADMIN-TEMPLATES] Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
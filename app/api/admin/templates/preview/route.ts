@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminSession } from '@/lib/admin-auth';
+import {
+  previewTemplate,
+  TemplateError,
+  templateErrorStatus,
+} from '@/lib/outreach-templates';
+
+/**
+ * POST /api/admin/templates/preview
+ *
+ * Auth: Requires admin session cookie (see lib/admin-auth.ts)
+ *
+ * Render copy for up to 5 real unconverted users (no cast is sent)
+ * {
+ *   templateId?: string,   // Library template (shows the variant each FID gets)
+ *   body?: string,         // Or custom copy
+ *   fids?: number[]        // Defaults to the oldest users not contacted yet
+ * }
+ */
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = requireAdminSession(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const { templateId, body, fids } = await req.json();
+
+    if (!templateId && !body?.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'templateId or body is required' },
+        { status: 400 }
+      );
+    }
+
+    const previews = await previewTemplate(
+      templateId ? { templateId } : { body },
+      Array.isArray(fids) ? fids.map(Number).filter(Number.isInteger) : []
+    );
+
+    return NextResponse.json({ success: true, previews });
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: templateErrorStatus(error) }
+      );
+    }
+
+    console.error('[ADMIN-TEMPLATES] Preview error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminSession } from '@/lib/admin-auth';
+import {
+  createTemplate,
+  listTemplates,
+  TemplateError,
+  templateErrorStatus,
+} from '@/lib/outreach-templates';
+
+/**
+ * /api/admin/templates
+ *
+ * Auth: Requires admin session cookie (see lib/admin-auth.ts)
+ *
+ * Outreach template library (see lib/outreach-templates.ts)
+ *
+ * GET  → templates with variants + per-variant sent/mints (?archived=true includes archived)
+ * POST → create
+ * {
+ *   key: string,           // Stable identifier, e.g. 'friendly'
+ *   name: string,
+ *   variants: { label: string, body: string, weight: number, active: boolean }[]
+ * }
+ */
+
+function errorResponse(error: unknown) {
+  if (error instanceof TemplateError) {
+    return NextResponse.json(
+      { success: false, error: error.message, code: error.code },
+      { status: templateErrorStatus(error) }
+    );
+  }
+
+  console.error('[ADMIN-TEMPLATES] Error:', error);
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    },
+    { status: 500 }
+  );
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const auth = requireAdminSession(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const includeArchived = req.nextUrl.searchParams.get('archived') === 'true';
+    const templates = await listTemplates({ includeArchived });
+
+    return NextResponse.json({ success: true, templates });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = requireAdminSession(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const { key, name, variants } = await req.json();
+
+    const template = await createTemplate({ key, name, variants }, auth.address);
+
+    return NextResponse.json({ success: true, template });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
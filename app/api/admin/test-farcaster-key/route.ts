@@ -1,15 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { neynarClient, getSignerUuid } from '@/lib/neynar';
+import { requireAdminSession } from '@/lib/admin-auth';
 
 /**
  * GET /api/admin/test-farcaster-key
  *
+ * Auth: Requires admin session cookie (see lib/admin-auth.ts)
+ *
  * Tests the Neynar API key and signer configuration
  * Returns account info if valid, error details if invalid
  */
 
 export async function GET(req: NextRequest) {
   try {
+    const auth = requireAdminSession(req);
+    if (auth instanceof NextResponse) return auth;
+
     // Check if API key is configured
     const apiKey = process.env.NEYNAR_API_KEY;
     if (!apiKey) {
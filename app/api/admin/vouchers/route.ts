@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminSession } from '@/lib/admin-auth';
+import {
+  listVouchers,
+  revokeVouchers,
+  syncOutstandingVouchers,
+  voucherErrorStatus,
+  VoucherRegistryError,
+  VOUCHER_STATUSES,
+  type VoucherStatus,
+} from '@/lib/voucher-registry';
+
+/**
+ * /api/admin/vouchers
+ *
+ * Auth: Requires admin session cookie (see lib/admin-auth.ts)
+ *
+ * Audit issued mint vouchers (see lib/voucher-registry.ts).
+ *
+ * GET   → list (?fid=123&status=outstanding&limit=50)
+ *         outstanding vouchers are resolved against the contract first
+ * PATCH → revoke outstanding vouchers { id } or { fid }
+ */
+
+function errorResponse(error: unknown) {
+  if (error instanceof VoucherRegistryError) {
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: voucherErrorStatus(error) }
+    );
+  }
+
+  console.error('[ADMIN-VOUCHERS] Error:', error);
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    },
+    { status: 500 }
+  );
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const auth = requireAdminSession(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const params = req.nextUrl.searchParams;
+    const fid = params.get('fid') ? parseInt(params.get('fid')!, 10) : undefined;
+    const status = params.get('status') as VoucherStatus | null;
+    const limit = Math.min(parseInt(params.get('limit') || '50', 10) || 50, 200);
+
+    if (fid !== undefined && isNaN(fid)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid FID' },
+        { status: 400 }
+      );
+    }
+
+    if (status && !VOUCHER_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid status: ${status}` },
+        { status: 400 }
+      );
+    }
+
+    await syncOutstandingVouchers(fid);
+
+    const vouchers = await listVouchers({ fid, status: status ?? undefined, limit });
+
+    return NextResponse.json({ success: true, vouchers });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PATCH(req: NextRequest) {
+  try {
+    const auth = requireAdminSession(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const { id, fid } = await req.json();
+
+    if (!id && !Number.isInteger(fid)) {
+      return NextResponse.json(
+        { success: false, error: 'Provide a voucher id or fid' },
+        { status: 400 }
+      );
+    }
+
+    const revoked = await revokeVouchers(id ? { id } : { fid }, `admin:${auth.address}`);
+
+    return NextResponse.json({
+      success: true,
+      revoked: revoked.length,
+      vouchers: revoked,
+      note: 'Revoked signatures stay valid on-chain until their deadline; rotate the signer to invalidate immediately',
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
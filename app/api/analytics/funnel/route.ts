@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminSession } from '@/lib/admin-auth';
+import { getFunnelReport } from '@/lib/funnel';
+
+/**
+ * GET /api/analytics/funnel
+ *
+ * Auth: Requires admin session cookie (see lib/admin-auth.ts)
+ *
+ * Conversion funnel, weekly cohorts and outreach campaign attribution
+ * (see lib/funnel.ts)
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   stages: Array<{ stage, users, fromPrevious, fromStart }>,
+ *   cohorts: Array<{ week, users, generated, minted, avgSecondsToMint }>,
+ *   campaigns: Array<{ campaignId, name, castsSent, opens, mints, medianSecondsToMint }>
+ * }
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = requireAdminSession(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const report = await getFunnelReport();
+
+    return NextResponse.json({ success: true, ...report });
+  } catch (error) {
+    console.error('[ANALYTICS] Error building funnel report:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to build funnel report',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase';
 import type { UnconvertedUser } from '@/lib/supabase';
+import { requireAdminSession } from '@/lib/admin-auth';
+import { getSuppressions, type OutreachUser } from '@/lib/outreach-suppression';
 
 /**
  * GET /api/analytics/unconverted
  *
+ * Auth: Requires admin session cookie (see lib/admin-auth.ts)
+ *
  * Returns list of users who generated Geoplets but haven't paid/minted
  * Queries the `unconverted_users` VIEW (database-level filtering)
  *
@@ -14,13 +18,16 @@ import type { UnconvertedUser } from '@/lib/supabase';
  * Response:
  * {
  *   success: true,
- *   users: Array<UnconvertedUser>,
+ *   users: Array<UnconvertedUser & { suppression }>,  // Why a user can't be contacted (null = can be)
  *   count: number,
  *   tag_string: string  // For easy copy-paste into Farcaster casts
  * }
  */
 export async function GET(req: NextRequest) {
   try {
+    const auth = requireAdminSession(req);
+    if (auth instanceof NextResponse) return auth;
+
     const { searchParams } = new URL(req.url);
     const castSentFilter = searchParams.get('cast_sent');
 
@@ -51,6 +58,13 @@ export async function GET(req: NextRequest) {
       throw error;
     }
 
+    // Opt-out / cooldown / max contacts per user (see lib/outreach-suppression.ts)
+    const suppressions = await getSuppressions((data ?? []).map((u: UnconvertedUser) => u.fid));
+    const users: OutreachUser[] = (data ?? []).map((u: UnconvertedUser) => ({
+      ...u,
+      suppression: suppressions.get(u.fid) ?? null,
+    }));
+
     // Generate tag string for easy copy-paste into Farcaster casts
     const tagString = data?.map(u => `@${u.username}`).join(' ') || '';
 
@@ -61,7 +75,7 @@ export async function GET(req: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      users: data as UnconvertedUser[],
+      users,
       count: data?.length || 0,
       tag_string: tagString,
     });
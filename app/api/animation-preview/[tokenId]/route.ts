@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import { generateAnimation } from "@/lib/animation-generator";
+import { validateAnimationSize } from "@/lib/animation";
+
+// Rendered previews by tokenId (in-memory for MVP, use Redis for production)
+// A minted image never changes, so a render is valid for the process lifetime.
+const previewCache = new Map<number, Promise<string>>();
+const PREVIEW_CACHE_MAX = 500;
+
+// Renders (cache misses) per client per minute - sharp is the expensive part
+const renderLimitMap = new Map<string, { count: number; resetTime: number }>();
+const RENDER_LIMIT = 10;
+const RENDER_LIMIT_WINDOW = 60 * 1000; // 1 minute in ms
+
+function checkRenderLimit(client: string): boolean {
+  const now = Date.now();
+  const record = renderLimitMap.get(client);
+
+  if (!record || now > record.resetTime) {
+    renderLimitMap.set(client, { count: 1, resetTime: now + RENDER_LIMIT_WINDOW });
+    return true;
+  }
+
+  if (record.count >= RENDER_LIMIT) {
+    return false;
+  }
+
+  record.count++;
+  return true;
+}
+
+/**
+ * Render once per tokenId; concurrent requests share the in-flight render
+ * (failures are evicted so the next request retries)
+ */
+function getPreview(tokenId: number): Promise<string> {
+  let render = previewCache.get(tokenId);
+
+  if (!render) {
+    if (previewCache.size >= PREVIEW_CACHE_MAX) {
+      // Map keeps insertion order - drop the oldest render
+      previewCache.delete(previewCache.keys().next().value!);
+    }
+
+    render = generateAnimation(tokenId);
+    render.catch(() => previewCache.delete(tokenId));
+    previewCache.set(tokenId, render);
+  }
+
+  return render;
+}
+
+/**
+ * GET /api/animation-preview/[tokenId]
+ *
+ * Preview the animation a minted Geoplet would get from upgradeToAnimated
+ * Generation is deterministic, so this is exactly what the paid upgrade stores.
+ * Used by AnimationGenerator before the user pays.
+ *
+ * Public, so renders are cached per tokenId and cache misses are rate limited
+ * per client.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ tokenId: string }> }
+) {
+  try {
+    const { tokenId: tokenIdParam } = await params;
+    const tokenId = parseInt(tokenIdParam);
+
+    if (isNaN(tokenId) || tokenId <= 0) {
+      return NextResponse.json(
+        { success: false, error: "Invalid token ID" },
+        { status: 400 }
+      );
+    }
+
+    if (!previewCache.has(tokenId)) {
+      const client = request.headers.get("x-forwarded-for")?.split(",")[0].trim() || "unknown";
+
+      if (!checkRenderLimit(client)) {
+        console.warn("[ANIMATION-PREVIEW] ⚠️  Render limit exceeded:", { client, tokenId });
+        return NextResponse.json(
+          { success: false, error: "Rate limit exceeded. Please try again in a minute." },
+          { status: 429 }
+        );
+      }
+    }
+
+    const animation = await getPreview(tokenId);
+    const { sizeKB } = validateAnimationSize(animation);
+
+    return NextResponse.json(
+      { success: true, animation, sizeKB },
+      { headers: { "Cache-Control": "public, max-age=3600" } }
+    );
+  } catch (error) {
+    console.error("[ANIMATION-PREVIEW] Error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to generate animation preview" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,193 +1,172 @@
+// app/api/generate-animation/route.ts
+
 import { NextRequest, NextResponse } from 'next/server';
-import { createPublicClient, http, parseUnits } from 'viem';
-import { base } from 'viem/chains';
+import type { Address } from 'viem';
 import { PAYMENT_CONFIG } from '@/lib/payment-config';
-
-const USDC_ADDRESS = process.env.NEXT_PUBLIC_BASE_USDC_ADDRESS as `0x${string}`;
-const RECIPIENT_ADDRESS = process.env.NEXT_PUBLIC_RECIPIENT_ADDRESS as `0x${string}`;
-const USDC_DECIMALS = 6;
-const XAI_API_KEY = process.env.XAI_API_KEY;
-
-// Create Base public client for verification
-const publicClient = createPublicClient({
-  chain: base,
-  transport: http(process.env.NEXT_PUBLIC_BASE_RPC_URL),
-});
+import { generateAnimation } from '@/lib/animation-generator';
+import { checkUpgradeEligibility, generateUpgradeSignature } from '@/lib/upgrade-voucher';
+import {
+  withX402,
+  x402Error,
+  x402Json,
+  x402Preflight,
+  X402_CORS_HEADERS,
+  type X402Context,
+} from '@/lib/x402-route';
+import { VoucherRegistryError } from '@/lib/voucher-registry';
+import { PaymentErrorCode, MintErrorCode } from '@/types/errors';
 
 /**
- * Verify USDC payment on Base
+ * API Route: Animated Upgrade with x402 Payment Verification
+ *
+ * Flow (same guarantees as the mint path):
+ * 1. Verify token ownership + no existing animation (on-chain)
+ * 2. No X-Payment header → 402 with PAYMENT_CONFIG.ANIMATION terms
+ * 3. Verify x402 payment via withX402 (lib/x402-route.ts - NO settlement yet)
+ * 4. Generate self-contained HTML/SVG animation from the minted WebP (<= 24KB base64)
+ * 5. Sign EIP-712 UpgradeVoucher
+ * 6. Frontend simulates upgradeToAnimated → /api/settle-payment (purpose: 'animation')
+ *    → submits the transaction → PATCH /api/payment-tracking/[tokenId]?purpose=animation
+ *
+ * Recovery: settled-but-not-upgraded users use /api/get-upgrade-signature-paid
  */
-async function verifyPayment(txHash: string, userAddress: string): Promise<boolean> {
-  try {
-    // Get transaction receipt
-    const receipt = await publicClient.getTransactionReceipt({
-      hash: txHash as `0x${string}`,
-    });
-
-    if (!receipt || receipt.status !== 'success') {
-      throw new Error('Transaction failed or not found');
-    }
-
-    // Find Transfer event
-    const transferLog = receipt.logs.find(
-      (log) =>
-        log.address.toLowerCase() === USDC_ADDRESS.toLowerCase() &&
-        log.topics[0] === '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef' // Transfer event signature
-    );
-
-    if (!transferLog) {
-      throw new Error('No USDC transfer found in transaction');
-    }
 
-    // Decode transfer event
-    const from = `0x${transferLog.topics[1]?.slice(26)}`.toLowerCase();
-    const to = `0x${transferLog.topics[2]?.slice(26)}`.toLowerCase();
-    const value = BigInt(transferLog.data);
+const RECIPIENT_ADDRESS = process.env.NEXT_PUBLIC_RECIPIENT_ADDRESS as string;
 
-    // Verify transfer details
-    const expectedAmount = parseUnits(PAYMENT_CONFIG.ANIMATION.price, USDC_DECIMALS);
-    const isCorrectSender = from === userAddress.toLowerCase();
-    const isCorrectRecipient = to === RECIPIENT_ADDRESS.toLowerCase();
-    const isCorrectAmount = value >= expectedAmount;
+// Validate environment variables
+function validateEnv() {
+  const required = {
+    RECIPIENT_ADDRESS: RECIPIENT_ADDRESS,
+    BASE_USDC_ADDRESS: process.env.BASE_USDC_ADDRESS,
+  };
 
-    if (!isCorrectSender) {
-      throw new Error('Payment sender mismatch');
-    }
+  const missing = Object.entries(required)
+    .filter(([, value]) => !value)
+    .map(([key]) => key);
 
-    if (!isCorrectRecipient) {
-      throw new Error('Payment recipient mismatch');
-    }
+  if (missing.length > 0) {
+    console.error('[ENV] ❌ Missing required environment variables:', missing);
+    throw new Error(`Missing environment variables: ${missing.join(', ')}`);
+  }
+}
 
-    if (!isCorrectAmount) {
-      throw new Error(`Insufficient payment amount. Expected ${PAYMENT_CONFIG.ANIMATION.price} USDC`);
-    }
+// Handle OPTIONS preflight
+export async function OPTIONS() {
+  return x402Preflight();
+}
 
-    return true;
-  } catch (error: unknown) {
-    console.error('Payment verification failed:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Payment verification failed';
-    throw new Error(errorMessage);
-  }
+interface AnimationContext extends X402Context {
+  tokenId: number;
 }
 
 /**
- * Generate animation using xAI/Grok
- * Note: xAI API integration depends on their actual API structure
- * This is a placeholder implementation - adjust according to xAI docs
+ * Input + eligibility checks BEFORE asking for payment (never charge for a doomed upgrade)
+ * Upgrades are keyed by tokenId (FID = tokenId in 1:1 mapping)
  */
-async function generateAnimation(imageData: string): Promise<string> {
-  try {
-    if (!XAI_API_KEY || XAI_API_KEY === 'my_api_key') {
-      throw new Error('xAI API key not configured. Please set XAI_API_KEY in .env.local');
-    }
-
-    // xAI/Grok API call (placeholder - adjust based on actual API)
-    // Assuming xAI has a similar structure to OpenAI
-    const response = await fetch('https://api.x.ai/v1/generations', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${XAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        prompt: 'Animate this image with smooth motion, dynamic effects, and cinematic quality',
-        image: imageData,
-        output_format: 'video',
-        duration: 5, // 5 second animation
-      }),
-    });
+async function prepareAnimation(request: NextRequest): Promise<AnimationContext | NextResponse> {
+  validateEnv();
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => null);
-      throw new Error(errorData?.error || `xAI API error: ${response.status}`);
-    }
+  const { userAddress, tokenId: tokenIdParam } = await request.json();
+  const tokenId = parseInt(tokenIdParam, 10);
 
-    const result = await response.json();
-    const animationUrl = result.url || result.video_url || result.output;
+  // Validate required fields
+  if (!userAddress || isNaN(tokenId) || tokenId <= 0) {
+    return x402Error(PaymentErrorCode.API_ERROR, 'Missing required fields: userAddress, tokenId', 400);
+  }
 
-    if (!animationUrl) {
-      throw new Error('No animation generated');
-    }
+  if (!/^0x[a-fA-F0-9]{40}$/.test(userAddress)) {
+    return x402Error(PaymentErrorCode.API_ERROR, 'Invalid Ethereum address', 400);
+  }
 
-    return animationUrl;
-  } catch (error: unknown) {
-    console.error('xAI generation failed:', error);
+  const eligibility = await checkUpgradeEligibility(userAddress as Address, tokenId);
+  if (!eligibility.eligible) {
+    const code =
+      eligibility.reason === 'already_animated'
+        ? MintErrorCode.ALREADY_ANIMATED
+        : eligibility.reason === 'not_owner'
+        ? MintErrorCode.NOT_TOKEN_OWNER
+        : MintErrorCode.TOKEN_NOT_MINTED;
 
-    // Fallback: Return mock data for development
-    if (process.env.NODE_ENV === 'development') {
-      console.warn('Using mock animation URL for development');
-      return 'https://example.com/mock-animation.mp4';
-    }
-
-    const errorMessage = error instanceof Error ? error.message : 'Animation generation failed';
-    throw new Error(errorMessage);
+    return x402Error(code, eligibility.message, 403);
   }
+
+  return { fid: tokenId, userAddress, tokenId };
 }
 
 /**
  * POST /api/generate-animation
- * Generate animation from uploaded image
+ *
+ * Body: { userAddress: string, tokenId: string | number }
+ * Header: X-Payment (x402, optional on the first request)
  */
-export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json();
-    const { txHash, imageData, userAddress } = body;
-
-    // Validation
-    if (!txHash || !imageData || !userAddress) {
-      return NextResponse.json(
-        { error: 'Missing required fields: txHash, imageData, userAddress' },
-        { status: 400 }
+export const POST = withX402<AnimationContext>(
+  async (_request, { context, payment }) => {
+    const { tokenId, userAddress } = context;
+
+    // Generate animation from the on-chain image (deterministic per token)
+    let animation: string;
+    try {
+      animation = await generateAnimation(tokenId);
+    } catch (error) {
+      return x402Error(
+        MintErrorCode.ANIMATION_TOO_LARGE,
+        error instanceof Error ? error.message : 'Animation too large',
+        500
       );
     }
 
-    // Verify payment ($5 USDC)
-    console.log('Verifying payment for tx:', txHash);
-    await verifyPayment(txHash, userAddress);
-    console.log('Payment verified successfully');
+    // Sign EIP-712 upgrade voucher
+    const { voucher, signature } = await generateUpgradeSignature(userAddress as Address, tokenId, {
+      purpose: 'upgrade',
+      paymentId: payment.ledger.id,
+    });
 
-    // Generate animation
-    console.log('Generating animation...');
-    const resultAnimationUrl = await generateAnimation(imageData);
-    console.log('Animation generated:', resultAnimationUrl);
+    console.log('[ANIMATION] ✅ Upgrade voucher issued:', {
+      tokenId,
+      to: voucher.to,
+      animationBytes: animation.length,
+      paymentId: payment.paymentId,
+    });
 
-    return NextResponse.json({
+    return x402Json({
       success: true,
-      animationUrl: resultAnimationUrl,
-      txHash,
+      voucher,
+      signature,
+      animation,                      // Base64 HTML for upgradeToAnimated
+      paymentHeader: payment.header,  // Returned for settlement after simulation
+      paymentId: payment.paymentId,
+      message: 'Upgrade signature generated successfully (payment verified, not settled yet)',
     });
-  } catch (error: unknown) {
-    console.error('API Error:', error);
-
-    // Determine error status code
-    const errorMessage = error instanceof Error ? error.message : 'Animation generation failed';
-    let statusCode = 500;
-    if (errorMessage.includes('Payment')) {
-      statusCode = 402; // Payment Required
-    } else if (errorMessage.includes('Missing')) {
-      statusCode = 400; // Bad Request
-    }
-
-    return NextResponse.json(
-      {
-        error: errorMessage,
-        success: false,
-      },
-      { status: statusCode }
-    );
+  },
+  {
+    purpose: 'animation',
+    price: PAYMENT_CONFIG.ANIMATION.price,
+    asset: process.env.BASE_USDC_ADDRESS,
+    description: ({ tokenId }) => `Animate Geoplet #${tokenId} for ${PAYMENT_CONFIG.ANIMATION.price} USDC`,
+    prepare: prepareAnimation,
+    onError: (error) => {
+      // Too many unused upgrade vouchers for this token (payment verified but not settled)
+      if (error instanceof VoucherRegistryError && error.code === 'LIMIT_REACHED') {
+        return x402Error(PaymentErrorCode.TOO_MANY_REQUESTS, error.message, 429);
+      }
+
+      return null;
+    },
   }
-}
+);
 
 /**
  * GET /api/generate-animation
  * Health check
  */
 export async function GET() {
-  return NextResponse.json({
-    status: 'ok',
-    service: 'animation-generation',
-    price: `${PAYMENT_CONFIG.ANIMATION.price} USDC`,
-    network: 'base',
-    note: 'xAI API key required - update XAI_API_KEY in .env.local',
-  });
+  return NextResponse.json(
+    {
+      status: 'ok',
+      service: 'animation-upgrade',
+      price: `${PAYMENT_CONFIG.ANIMATION.price} USDC`,
+      network: 'base',
+    },
+    { headers: X402_CORS_HEADERS }
+  );
 }
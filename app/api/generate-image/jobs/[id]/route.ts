@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import {
+  getGenerationJob,
+  isJobDue,
+  runGenerationJob,
+  toJobView,
+  GenerationJobError,
+  generationJobErrorStatus,
+} from '@/lib/generation-jobs';
+import { authenticateRequest, assertSessionFid, QuickAuthError, quickAuthErrorStatus } from '@/lib/quick-auth';
+
+// A restarted job runs after the response (see POST /api/generate-image)
+export const maxDuration = 300;
+
+/**
+ * GET /api/generate-image/jobs/[id]
+ *
+ * Generation job progress (see lib/generation-jobs.ts). Poll every few seconds:
+ *   queued → fetching_source → generating → compressing → saved | failed
+ * `job.imageData` is set once saved. A due job no worker holds (crashed
+ * instance, retry delay over) is restarted by this call.
+ * Quick Auth required - only the job's own FID can poll it.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await authenticateRequest(req);
+    const { id } = await params;
+    const job = await getGenerationJob(id);
+    assertSessionFid(session, job.fid);
+
+    if (isJobDue(job)) {
+      console.log('[GEN-JOB] Restarting due job from poll:', { id, status: job.status, attempts: job.attempts });
+      after(() => runGenerationJob(job.id));
+    }
+
+    return NextResponse.json(
+      { success: true, job: toJobView(job) },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    if (error instanceof QuickAuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: quickAuthErrorStatus(error) }
+      );
+    }
+
+    if (error instanceof GenerationJobError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: generationJobErrorStatus(error) }
+      );
+    }
+
+    console.error('[GEN-JOB] Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
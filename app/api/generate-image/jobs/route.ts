@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import {
+  getActiveGenerationJob,
+  isJobDue,
+  runGenerationJob,
+  toJobView,
+  GenerationJobError,
+  generationJobErrorStatus,
+} from '@/lib/generation-jobs';
+import { authenticateRequest, assertSessionFid, QuickAuthError, quickAuthErrorStatus } from '@/lib/quick-auth';
+
+// A restarted job runs after the response (see POST /api/generate-image)
+export const maxDuration = 300;
+
+/**
+ * GET /api/generate-image/jobs?fid=123
+ *
+ * The FID's in-flight generation job, or `job: null` (see lib/generation-jobs.ts).
+ * The app calls this on open to resume polling a job started in an earlier session.
+ * Quick Auth required - the FID comes from the token, ?fid= is only checked against it.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await authenticateRequest(req);
+    assertSessionFid(session, req.nextUrl.searchParams.get('fid'));
+    const fid = session.fid;
+
+    const job = await getActiveGenerationJob(fid);
+
+    if (job && isJobDue(job)) {
+      after(() => runGenerationJob(job.id));
+    }
+
+    return NextResponse.json(
+      { success: true, job: job ? toJobView(job) : null },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    if (error instanceof QuickAuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: quickAuthErrorStatus(error) }
+      );
+    }
+
+    if (error instanceof GenerationJobError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: generationJobErrorStatus(error) }
+      );
+    }
+
+    console.error('[GEN-JOB] Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
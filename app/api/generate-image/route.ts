@@ -1,188 +1,31 @@
-import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
-import { toFile } from 'openai/uploads';
-import sharp from 'sharp';
-import { checkOpenAIAvailability } from '@/lib/openai-health';
-import { supabaseAdmin } from '@/lib/supabase';
+import { NextRequest, NextResponse, after } from 'next/server';
+import { checkImageProviders, getImageProviders } from '@/lib/image-providers';
+import {
+  createGenerationJob,
+  runGenerationJob,
+  toJobView,
+  GenerationJobError,
+  generationJobErrorStatus,
+} from '@/lib/generation-jobs';
+import { hasGeneration } from '@/lib/generation-versions';
+import { PAYMENT_CONFIG } from '@/lib/payment-config';
+import { authenticateRequest, assertSessionFid, QuickAuthError, quickAuthErrorStatus } from '@/lib/quick-auth';
+import {
+  ArtStyleError,
+  getAvailableStyles,
+  resolveArtStyle,
+  type ArtStyle,
+} from '@/lib/art-styles';
 
 // CORS headers
 const corsHeaders = {
   'Access-Control-Allow-Origin': process.env.NEXT_PUBLIC_APP_URL || 'https://geoplet.geoart.studio',
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, X-Payment',
+  'Access-Control-Allow-Headers': 'Content-Type, X-Payment, Authorization',
 };
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-/**
- * Conditional logging wrapper - only logs in development
- */
-const log = (...args: unknown[]) => {
-  if (process.env.NODE_ENV !== 'production') {
-    console.log(...args);
-  }
-};
-
-/**
- * Generate geometric art using gpt-image-1 with direct image-to-image transformation
- */
-async function generateGeometricArt(
-  imageUrl: string,
-  tokenId: string,
-  name: string,
-  retryCount = 0
-): Promise<{ imageData: string; prompt: string }> {
-  try {
-    log(`\n🎨 Generating geometric art for ${name} (Token #${tokenId})`);
-    log(`📷 Image URL: ${imageUrl}`);
-
-    // Whitelist allowed image domains (SSRF prevention)
-    const ALLOWED_DOMAINS = [
-      'base-mainnet.g.alchemy.com',
-      'nft-cdn.alchemy.com',
-      'ipfs.io',
-      'gateway.pinata.cloud',
-      'res.cloudinary.com',        // Cloudinary CDN (Warpcast/Farcaster images)
-      'imagedelivery.net',          // Cloudflare Images (Warpcast/Farcaster images)
-      'ipfs.raribleuserdata.com',   // Rarible IPFS gateway
-      'api.rarible.org',            // Rarible API embedded content
-    ];
-
-    const url = new URL(imageUrl);
-    const isAllowed = ALLOWED_DOMAINS.some(domain => url.hostname.includes(domain));
-
-    if (!isAllowed) {
-      throw new Error(`Invalid image URL domain: ${url.hostname}. Only whitelisted CDN domains allowed (Alchemy, IPFS, Cloudinary, Cloudflare).`);
-    }
-
-    // Fetch the original Warplet image
-    log(`📥 Fetching image from URL...`);
-    const imageResponse = await fetch(imageUrl);
-    if (!imageResponse.ok) {
-      throw new Error(`Failed to fetch image: ${imageResponse.statusText}`);
-    }
-
-    const imageBlob = await imageResponse.blob();
-    const imageBuffer = await imageBlob.arrayBuffer();
-
-    // Convert to File object for OpenAI API
-    const imageFile = await toFile(Buffer.from(imageBuffer), 'warplet.png', { type: 'image/png' });
-
-    log(`🎨 Generating geometric interpretation with gpt-image-1...`);
-
-    const prompt = `Transform this image into bauhaus and suprematism geometric art style with these strict rules:
-    - The character 50% smaller than reference image
-    - Add random monsters attributes for halloween party
-    - Use solid flat colors with subtle shading between shapes to create 3D depth
-    - Use clean sharp edges and straight lines
-    - Keep the character's exact pose as shown in reference image
-    - Keep the character's exact body shape as shown in reference image
-    - Plain solid pastel color background with more empty space around the smaller character
-- Resize the character 50% smaller`;
-
-
-    log(`📝 Prompt: ${prompt}`);
-
-    // Use images.edit() with gpt-image-1 for direct image-to-image transformation
-    // Note: images.generate() with referenced_image does NOT exist in OpenAI SDK
-    // input_fidelity: 'high' makes the model preserve pose/features more consistently
-    const response = await openai.images.edit({
-      model: 'gpt-image-1',
-      image: imageFile,
-      prompt: prompt,
-      n: 1,
-      size: '1024x1024',
-      input_fidelity: 'high',
-    });
-
-    log(`🔍 API Response received`);
-
-    if (!response.data || response.data.length === 0) {
-      console.error('❌ No data in response');
-      throw new Error('No image generated by gpt-image-1');
-    }
-
-    // gpt-image-1 always returns base64-encoded images (b64_json), not URLs
-    const b64Json = response.data[0]?.b64_json;
-
-    if (!b64Json) {
-      // Retry logic: if no data and haven't retried yet, try once more
-      if (retryCount < 1) {
-        console.warn(`⚠️ Empty response from gpt-image-1, retrying... (attempt ${retryCount + 1}/1)`);
-        return await generateGeometricArt(imageUrl, tokenId, name, retryCount + 1);
-      }
-      console.error('❌ No b64_json in data after retry');
-      throw new Error('No image data returned by gpt-image-1');
-    }
-
-    log(`✅ Received base64 image (${(b64Json.length / 1024).toFixed(2)} KB)`);
-
-    // Compress image for on-chain storage (reduce payload size for minting)
-    // Contract limit: 24KB (24576 bytes), target: <20KB for safety margin
-    log(`🗜️ Compressing image for on-chain storage...`);
-    const generatedImageBuffer = Buffer.from(b64Json, 'base64');
-
-    // Adaptive compression: try progressively lower quality until size < 20KB
-    const TARGET_SIZE = 20 * 1024; // 20KB target (leaves 4KB buffer)
-    const MAX_SIZE = 24 * 1024; // 24KB absolute limit
-    const compressionAttempts = [
-      { quality: 70, effort: 6 },  // First attempt: slightly more aggressive
-      { quality: 60, effort: 6 },  // Second attempt: more compression
-      { quality: 50, effort: 6 },  // Third attempt: high compression
-      { quality: 40, effort: 6 },  // Fourth attempt: very high compression
-    ];
-
-    let compressed: Buffer | null = null;
-    let finalQuality = 70;
-
-    for (const { quality, effort } of compressionAttempts) {
-      compressed = await sharp(generatedImageBuffer)
-        .resize(512, 512, { fit: 'contain', background: { r: 0, g: 0, b: 0, alpha: 0 } })
-        .webp({ quality, effort })
-        .toBuffer();
-
-      const sizeInBytes = compressed.length;
-      const sizeInKB = (sizeInBytes / 1024).toFixed(2);
-
-      log(`🔍 Compression attempt (quality ${quality}): ${sizeInKB} KB`);
-
-      if (sizeInBytes <= TARGET_SIZE) {
-        finalQuality = quality;
-        log(`✅ Target size achieved with quality ${quality}: ${sizeInKB} KB`);
-        break;
-      } else if (sizeInBytes <= MAX_SIZE) {
-        // Within limit but not ideal - continue trying for better compression
-        finalQuality = quality;
-        log(`⚠️  Size ${sizeInKB} KB acceptable but trying lower quality...`);
-      }
-    }
-
-    if (!compressed) {
-      throw new Error('Compression failed - no buffer generated');
-    }
-
-    const compressedBase64 = compressed.toString('base64');
-    const finalSizeKB = (compressed.length / 1024).toFixed(2);
-
-    if (compressed.length > MAX_SIZE) {
-      log(`❌ Image still too large after all compression attempts: ${finalSizeKB} KB`);
-      throw new Error(`Image too large even after aggressive compression: ${finalSizeKB} KB. Maximum is 24 KB.`);
-    }
-
-    const base64Data = compressedBase64;
-
-    log(`✅ Compression complete! Original: ${(b64Json.length / 1024).toFixed(2)} KB → Compressed: ${finalSizeKB} KB (quality: ${finalQuality})`);
-    log(`✅ Size reduction: ${(((b64Json.length - compressed.length) / b64Json.length) * 100).toFixed(1)}%\n`);
-
-    return { imageData: base64Data, prompt };
-  } catch (error: unknown) {
-    console.error('❌ Generation failed:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Image generation failed';
-    throw new Error(errorMessage);
-  }
-}
+// The worker keeps running after the response (after()) - allow a full job with retries
+export const maxDuration = 300;
 
 // Handle OPTIONS preflight
 export async function OPTIONS() {
@@ -191,44 +34,70 @@ export async function OPTIONS() {
 
 /**
  * POST /api/generate-image
- * Generate geometric art from Warplet NFT
- * - FREE for first-time generation (auto-gen)
- * - $0.90 USDC for regeneration (x402 payment required)
+ * Queue geometric art generation from a Warplet NFT (see lib/generation-jobs.ts)
+ * - FREE for first-time generation (auto-gen), once per FID - new versions
+ *   go through POST /api/regenerate-image (free quota, then x402)
+ * - styleId: optional art style (see lib/art-styles.ts, GET /api/styles),
+ *   defaults to the current seasonal style or Bauhaus
+ * - Returns 202 { jobId, job } right away; poll GET /api/generate-image/jobs/[id]
+ *   until status is 'saved' (imageData included) or 'failed'
+ * - If the FID already has a job in flight, that job is returned instead
+ * - 409 ALREADY_GENERATED once the FID has a saved version
+ * - Requires a Quick Auth JWT - the FID comes from the token (lib/quick-auth.ts)
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { imageUrl, tokenId, name, fid } = body;
+    const { imageUrl, tokenId, name, username, styleId } = body;
+
+    const session = await authenticateRequest(request);
+    assertSessionFid(session, body.fid);
+    const fid = session.fid;
 
     // Validation
     if (!imageUrl || !tokenId) {
       return NextResponse.json(
-        { error: 'Missing required fields: imageUrl, tokenId' },
+        { error: 'Missing required fields: imageUrl, tokenId', success: false },
         { status: 400, headers: corsHeaders }
       );
     }
 
-    // Validate image URL format
-    if (!imageUrl.startsWith('http://') && !imageUrl.startsWith('https://')) {
+    // Resolve before queueing - unknown/out-of-season styles are a client error
+    let style: ArtStyle;
+    try {
+      style = resolveArtStyle(styleId);
+    } catch (styleError) {
+      if (styleError instanceof ArtStyleError) {
+        return NextResponse.json(
+          { error: styleError.message, success: false, code: styleError.code },
+          { status: 400, headers: corsHeaders }
+        );
+      }
+      throw styleError;
+    }
+
+    // The free generation is used - further versions are regenerations
+    if (await hasGeneration(fid)) {
       return NextResponse.json(
-        { error: 'Invalid image URL format' },
-        { status: 400, headers: corsHeaders }
+        {
+          error: `FID ${fid} already has a generation - use ${PAYMENT_CONFIG.REGENERATE.endpoint} for a new version`,
+          success: false,
+          code: 'ALREADY_GENERATED',
+        },
+        { status: 409, headers: corsHeaders }
       );
     }
 
-    console.log(`[AUTO-GEN] Free generation for FID: ${fid || 'unknown'}`);
-
-    // Pre-check OpenAI availability
-    console.log('[OPENAI-PRECHECK] Checking service availability...');
-    const health = await checkOpenAIAvailability();
+    // Pre-check: at least one provider in the chain must be healthy
+    const health = await checkImageProviders();
 
     if (!health.available) {
-      console.error('[OPENAI-PRECHECK] ❌ Service unavailable:', health.reason);
+      console.error('[IMAGE-PRECHECK] ❌ No provider available:', health.reason);
       return NextResponse.json(
         {
-          error: health.reason || 'OpenAI service temporarily unavailable',
+          error: health.reason || 'Image generation temporarily unavailable',
           success: false,
-          code: 'OPENAI_UNAVAILABLE',
+          code: 'IMAGE_PROVIDER_UNAVAILABLE',
         },
         {
           status: 503,
@@ -237,39 +106,44 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    console.log('[OPENAI-PRECHECK] ✅ Service available');
-
-    log(`\n🎨 Starting generation for Warplet #${tokenId}`);
-    log(`📷 Image URL: ${imageUrl}`);
-    log(`💰 Payment: FREE (always free generation)`);
+    const { job, created } = await createGenerationJob({
+      fid,
+      username: username || `fid-${fid}`,
+      tokenId: String(tokenId),
+      name: name || `Warplet #${tokenId}`,
+      imageUrl,
+      style,
+    });
 
-    // Generate geometric art
-    const result = await generateGeometricArt(imageUrl, tokenId, name || `Warplet #${tokenId}`);
+    console.log(`[AUTO-GEN] ${created ? 'Queued' : 'Resumed'} generation for FID: ${fid} (job: ${job.id}, style: ${job.style_id})`);
 
-    log(`✅ Generation successful for Warplet #${tokenId}\n`);
+    // Start (or nudge) the worker once the response is sent
+    after(() => runGenerationJob(job.id));
 
     return NextResponse.json(
       {
         success: true,
-        imageData: result.imageData, // Base64 for download and future onchain storage
-        metadata: {
-          tokenId,
-          name: name || `Warplet #${tokenId}`,
-          model: 'gpt-image-1',
-          prompt: result.prompt,
-          size: '512x512',
-          timestamp: new Date().toISOString(),
-        },
+        jobId: job.id,
+        created,
+        job: toJobView(job),
       },
-      {
-        status: 200,
-        headers: {
-          ...corsHeaders,
-          'Access-Control-Expose-Headers': 'X-PAYMENT-RESPONSE',
-        },
-      }
+      { status: 202, headers: corsHeaders }
     );
   } catch (error: unknown) {
+    if (error instanceof QuickAuthError) {
+      return NextResponse.json(
+        { error: error.message, success: false, code: error.code },
+        { status: quickAuthErrorStatus(error), headers: corsHeaders }
+      );
+    }
+
+    if (error instanceof GenerationJobError) {
+      return NextResponse.json(
+        { error: error.message, success: false, code: error.code },
+        { status: generationJobErrorStatus(error), headers: corsHeaders }
+      );
+    }
+
     console.error('❌ API Error:', error);
 
     const errorMessage = error instanceof Error ? error.message : 'Image generation failed';
@@ -292,9 +166,11 @@ export async function GET() {
   return NextResponse.json({
     status: 'ok',
     service: 'geometric-art-generation',
-    price: 'FREE (always free)',
+    price: 'FREE (first generation)',
+    regeneration: `${PAYMENT_CONFIG.REGENERATE.price} USDC (${PAYMENT_CONFIG.REGENERATE.endpoint})`,
     network: 'base',
-    provider: 'OpenAI gpt-image-1',
+    providers: getImageProviders().map((provider) => provider.id),
     paymentProtocol: 'none',
+    styles: getAvailableStyles().map((style) => style.id),
   });
 }
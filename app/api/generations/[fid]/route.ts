@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getRegenerationQuota,
+  getSelectedVersionId,
+  listGenerationVersions,
+  toVersionView,
+  GenerationVersionError,
+  generationVersionErrorStatus,
+} from '@/lib/generation-versions';
+import { authenticateRequest, assertSessionFid, QuickAuthError, quickAuthErrorStatus } from '@/lib/quick-auth';
+import { PaymentLedgerError, ledgerErrorStatus } from '@/lib/payment-ledger';
+
+/**
+ * GET /api/generations/[fid]
+ *
+ * Every generated version for a FID (oldest first), the one selected for
+ * minting, and the regeneration quota (see lib/generation-versions.ts).
+ * Requires a Quick Auth JWT for the FID (lib/quick-auth.ts).
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ fid: string }> }
+) {
+  try {
+    const fid = parseInt((await params).fid, 10);
+
+    if (isNaN(fid) || fid <= 0) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid FID format' },
+        { status: 400 }
+      );
+    }
+
+    assertSessionFid(await authenticateRequest(req), fid);
+
+    const [versions, selectedId, quota] = await Promise.all([
+      listGenerationVersions(fid),
+      getSelectedVersionId(fid),
+      getRegenerationQuota(fid),
+    ]);
+
+    return NextResponse.json(
+      {
+        success: true,
+        versions: versions.map(toVersionView),
+        selectedId,
+        quota: {
+          freeQuota: quota.freeQuota,
+          freeRemaining: quota.freeRemaining,
+          hasCredit: !!quota.credit,
+          price: quota.price,
+        },
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    if (error instanceof QuickAuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: quickAuthErrorStatus(error) }
+      );
+    }
+
+    if (error instanceof GenerationVersionError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: generationVersionErrorStatus(error) }
+      );
+    }
+
+    if (error instanceof PaymentLedgerError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: ledgerErrorStatus(error) }
+      );
+    }
+
+    console.error('[GEN-VERSION] Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  selectGenerationVersion,
+  toVersionView,
+  GenerationVersionError,
+  generationVersionErrorStatus,
+} from '@/lib/generation-versions';
+import { authenticateRequest, assertSessionFid, QuickAuthError, quickAuthErrorStatus } from '@/lib/quick-auth';
+
+/**
+ * POST /api/generations/[fid]/select
+ *
+ * Body: { versionId }
+ * Pick which past version to mint - copies it to unminted_geoplets, the row
+ * get-mint-signature and the app read. Requires a Quick Auth JWT for the FID.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ fid: string }> }
+) {
+  try {
+    const fid = parseInt((await params).fid, 10);
+    const { versionId } = await req.json();
+
+    if (isNaN(fid) || fid <= 0) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid FID format' },
+        { status: 400 }
+      );
+    }
+
+    assertSessionFid(await authenticateRequest(req), fid);
+
+    if (!versionId || typeof versionId !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'versionId is required' },
+        { status: 400 }
+      );
+    }
+
+    const version = await selectGenerationVersion(fid, versionId);
+
+    return NextResponse.json({ success: true, version: toVersionView(version) });
+  } catch (error) {
+    if (error instanceof QuickAuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: quickAuthErrorStatus(error) }
+      );
+    }
+
+    if (error instanceof GenerationVersionError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: generationVersionErrorStatus(error) }
+      );
+    }
+
+    console.error('[GEN-VERSION] Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
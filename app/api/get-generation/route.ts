@@ -1,26 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase';
+import { authenticateRequest, assertSessionFid, QuickAuthError, quickAuthErrorStatus } from '@/lib/quick-auth';
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const fid = searchParams.get('fid');
 
-    // Validation
-    if (!fid) {
-      return NextResponse.json(
-        { success: false, error: 'FID is required' },
-        { status: 400 }
-      );
-    }
-
-    const fidNumber = parseInt(fid, 10);
-    if (isNaN(fidNumber)) {
-      return NextResponse.json(
-        { success: false, error: 'Invalid FID format' },
-        { status: 400 }
-      );
-    }
+    // FID comes from the verified Quick Auth token - ?fid= is only checked against it
+    const session = await authenticateRequest(request);
+    assertSessionFid(session, searchParams.get('fid'));
+    const fidNumber = session.fid;
 
     // Query database
     const { data, error } = await supabaseAdmin
@@ -51,10 +40,18 @@ export async function GET(request: NextRequest) {
         id: data.id,
         fid: data.fid,
         image_data: data.image_data,
+        style_id: data.style_id,
         created_at: data.created_at,
       },
     });
   } catch (error) {
+    if (error instanceof QuickAuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: quickAuthErrorStatus(error) }
+      );
+    }
+
     console.error('Get generation error:', error);
     return NextResponse.json(
       { success: false, error: 'Internal server error' },
@@ -0,0 +1,149 @@
+/**
+ * GET UPGRADE SIGNATURE (PAID) ENDPOINT
+ *
+ * Generates a fresh upgrade voucher + animation for users who already paid
+ * (animation payment settled onchain, upgrade transaction never landed)
+ * SKIPS x402 payment verification - validates the payment ledger instead
+ *
+ * Used by useAnimationUpgrade for recovery upgrades
+ * Requires a Farcaster Quick Auth JWT - the paying wallet must be one of the
+ * FID's verified addresses (tokens change hands, so tokenId != FID)
+ *
+ * One voucher per recovery: it's registered (lib/voucher-registry.ts) and the
+ * payment moves to mint_submitted - reporting 'failed' makes it recoverable again.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddressEqual, type Address } from 'viem';
+import { getLatestSettledPayment, isRecoverable, transitionPayment } from '@/lib/payment-ledger';
+import { generateAnimation } from '@/lib/animation-generator';
+import { checkUpgradeEligibility, generateUpgradeSignature } from '@/lib/upgrade-voucher';
+import { VoucherRegistryError, voucherErrorStatus } from '@/lib/voucher-registry';
+import { authenticateRequest, QuickAuthError, quickAuthErrorStatus } from '@/lib/quick-auth';
+import { getVerifiedAddresses } from '@/lib/neynar';
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': process.env.NEXT_PUBLIC_APP_URL || 'https://geoplet.geoart.studio',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+/**
+ * POST /api/get-upgrade-signature-paid
+ *
+ * Body: { userAddress: string, tokenId: string | number }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userAddress, tokenId: tokenIdParam } = await request.json();
+    const tokenId = parseInt(tokenIdParam, 10);
+
+    const session = await authenticateRequest(request);
+
+    console.log('[GET-UPGRADE-SIG-PAID] Request received:', {
+      userAddress,
+      tokenId,
+      fid: session.fid,
+      timestamp: new Date().toISOString()
+    });
+
+    if (!userAddress || !/^0x[a-fA-F0-9]{40}$/.test(userAddress) || isNaN(tokenId)) {
+      return NextResponse.json(
+        { error: 'Missing userAddress or tokenId' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    // Check payment ledger for a settled, unfulfilled animation payment
+    const upgradeData = await getLatestSettledPayment(tokenId, 'animation');
+
+    if (!upgradeData) {
+      console.error('[GET-UPGRADE-SIG-PAID] ❌ No payment record found:', { tokenId });
+      return NextResponse.json(
+        { error: 'No settled animation payment found for this Geoplet' },
+        { status: 403, headers: corsHeaders }
+      );
+    }
+
+    if (!isRecoverable(upgradeData)) {
+      return NextResponse.json(
+        { error: `Upgrade status is "${upgradeData.status}", cannot upgrade. Status must be "settled" or "failed".` },
+        { status: 403, headers: corsHeaders }
+      );
+    }
+
+    // Only the wallet that paid can recover
+    if (!isAddressEqual(upgradeData.user_address as Address, userAddress as Address)) {
+      return NextResponse.json(
+        { error: 'Payment was made by a different wallet' },
+        { status: 403, headers: corsHeaders }
+      );
+    }
+
+    // The paying wallet must belong to the authenticated FID
+    const verifiedAddresses = await getVerifiedAddresses(session.fid);
+    if (!verifiedAddresses.includes(userAddress.toLowerCase())) {
+      return NextResponse.json(
+        { error: `Wallet is not a verified address of FID ${session.fid}` },
+        { status: 403, headers: corsHeaders }
+      );
+    }
+
+    const eligibility = await checkUpgradeEligibility(userAddress as Address, tokenId);
+    if (!eligibility.eligible) {
+      return NextResponse.json(
+        { error: eligibility.message },
+        { status: 403, headers: corsHeaders }
+      );
+    }
+
+    const animation = await generateAnimation(tokenId);
+    const { voucher, signature } = await generateUpgradeSignature(userAddress as Address, tokenId, {
+      purpose: 'upgrade_recovery',
+      paymentId: upgradeData.id,
+    });
+
+    // Voucher handed out - no second one until the client reports this one failed
+    await transitionPayment(upgradeData.id, 'mint_submitted', {
+      actor: 'user',
+      details: { step: 'recovery_voucher', voucherNonce: voucher.nonce },
+    });
+
+    console.log('[GET-UPGRADE-SIG-PAID] ✅ Signature generated:', {
+      tokenId,
+      to: voucher.to,
+      deadline: voucher.deadline
+    });
+
+    return NextResponse.json(
+      { success: true, voucher, signature, animation },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    if (error instanceof QuickAuthError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: quickAuthErrorStatus(error), headers: corsHeaders }
+      );
+    }
+
+    if (error instanceof VoucherRegistryError) {
+      console.error('[GET-UPGRADE-SIG-PAID] ❌ Voucher registry:', error.message);
+      return NextResponse.json(
+        { error: error.message },
+        { status: voucherErrorStatus(error), headers: corsHeaders }
+      );
+    }
+
+    console.error('[GET-UPGRADE-SIG-PAID] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate upgrade signature' },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
@@ -1,10 +1,11 @@
 // app/api/openai-precheck/route.ts
 //
-// OpenAI Service Pre-Check Endpoint
-// Independent router for checking OpenAI availability before generation
+// Image Provider Pre-Check Endpoint
+// Independent router for checking the image provider chain before generation
+// (path kept for existing clients - covers every provider, not only OpenAI)
 
 import { NextResponse } from 'next/server';
-import { checkOpenAIAvailability } from '@/lib/openai-health';
+import { checkImageProviders, type ChainHealth } from '@/lib/image-providers';
 
 // CORS headers for frontend requests
 const corsHeaders = {
@@ -19,6 +20,7 @@ const corsHeaders = {
 interface PreCheckResponse {
   available: boolean;
   reason?: string;
+  providers?: ChainHealth['providers'];
   checkedAt: number;
 }
 
@@ -32,19 +34,19 @@ export async function OPTIONS() {
 /**
  * GET /api/openai-precheck
  *
- * Check OpenAI service availability and credit balance
+ * Check the image provider chain (IMAGE_PROVIDERS, see lib/image-providers.ts)
  *
  * Returns:
- * - 200: Service available
+ * - 200: At least one provider available
  * - 503: Service unavailable (with reason)
  * - 500: Health check failed
  */
 export async function GET() {
   try {
-    console.log('[PRECHECK] Starting OpenAI availability check...');
+    console.log('[PRECHECK] Starting image provider check...');
 
     // Perform health check
-    const health = await checkOpenAIAvailability();
+    const health = await checkImageProviders();
 
     console.log('[PRECHECK] Health check result:', {
       available: health.available,
@@ -54,7 +56,8 @@ export async function GET() {
     const response: PreCheckResponse = {
       available: health.available,
       reason: health.reason,
-      checkedAt: health.checkedAt,
+      providers: health.providers,
+      checkedAt: Date.now(),
     };
 
     // Return appropriate status code
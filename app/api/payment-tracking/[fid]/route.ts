@@ -1,11 +1,106 @@
 import { NextRequest, NextResponse } from "next/server";
-import { supabaseAdmin } from "@/lib/supabase";
+import { createPublicClient, http, isAddressEqual, parseEventLogs } from "viem";
+import { base } from "viem/chains";
+import { GEOPLET_CONFIG } from "@/lib/contracts";
+import {
+  getLatestSettledPayment,
+  getPaymentByTxHash,
+  transitionPayment,
+  PaymentLedgerError,
+  ledgerErrorStatus,
+  type PaymentPurpose,
+  type PaymentStatus,
+} from "@/lib/payment-ledger";
+import type { PaymentLedgerEntry } from "@/lib/supabase";
+import { getVerifiedAddresses } from "@/lib/neynar";
+import { notifyMintConfirmed } from "@/lib/notification-triggers";
+import { recordFunnelEvent, recordCampaignOpen, parseCampaignParam, CAMPAIGN_PARAM } from "@/lib/funnel";
+import {
+  authenticateRequest,
+  assertSessionFid,
+  QuickAuthError,
+  quickAuthErrorStatus,
+  type QuickAuthSession,
+} from "@/lib/quick-auth";
+
+const publicClient = createPublicClient({
+  chain: base,
+  transport: http(process.env.NEXT_PUBLIC_BASE_RPC_URL),
+});
+
+const PURPOSES: PaymentPurpose[] = ["mint", "regenerate", "animation"];
+
+// Statuses the client may report; refunds are admin-only
+const CLIENT_STATUSES: PaymentStatus[] = ["mint_submitted", "minted", "failed"];
+
+const TX_HASH_REGEX = /^0x[a-fA-F0-9]{64}$/;
+
+// Event a fulfillment transaction must emit for the payment's FID/tokenId
+// (regenerations are confirmed by the generation job worker, never by the client)
+const FULFILLMENT_EVENTS = {
+  mint: "GeopletMinted",
+  animation: "AnimationUpgraded",
+} as const;
+
+function parsePurpose(request: NextRequest): PaymentPurpose | null {
+  const purpose = request.nextUrl.searchParams.get("purpose") || "mint";
+  return PURPOSES.includes(purpose as PaymentPurpose) ? (purpose as PaymentPurpose) : null;
+}
+
+/**
+ * Mint/regenerate payments are keyed by FID - only that FID may read or update them.
+ * Animation payments are keyed by tokenId, which any later owner may hold - see
+ * authorizeAnimationPayment.
+ */
+function authorizePurpose(session: QuickAuthSession, fid: number, purpose: PaymentPurpose) {
+  if (purpose !== "animation") {
+    assertSessionFid(session, fid);
+  }
+}
+
+/**
+ * One of the session FID's verified addresses must own the token or have paid for it
+ */
+async function authorizeAnimationPayment(
+  session: QuickAuthSession,
+  tokenId: number,
+  payment: PaymentLedgerEntry | null
+) {
+  const verified = await getVerifiedAddresses(session.fid);
+  const owner = await publicClient
+    .readContract({
+      address: GEOPLET_CONFIG.address,
+      abi: GEOPLET_CONFIG.abi,
+      functionName: "ownerOf",
+      args: [BigInt(tokenId)],
+    })
+    .catch(() => null);
+
+  const isLinked = (address: string | null | undefined) =>
+    !!address && verified.includes(address.toLowerCase());
+
+  if (!isLinked(owner) && !isLinked(payment?.payer_address)) {
+    throw new QuickAuthError("FID_MISMATCH", `Geoplet #${tokenId} is not owned or paid for by FID ${session.fid}`);
+  }
+}
+
+function authErrorResponse(error: QuickAuthError) {
+  return NextResponse.json(
+    { success: false, error: error.message, code: error.code },
+    { status: quickAuthErrorStatus(error) }
+  );
+}
 
 /**
- * GET /api/payment-tracking/[fid]
+ * GET /api/payment-tracking/[fid]?purpose=mint|animation&c=<campaign id>
+ *
+ * Get the latest settled payment (payment ledger) for a FID + purpose
+ * Used by page.tsx and useAnimationUpgrade to detect settled-but-not-fulfilled payments
+ *
+ * page.tsx calls this once per app open (purpose=mint), so it also records the
+ * app_opened funnel stage and, with ?c=, the outreach campaign the user came from.
  *
- * Get payment tracking status for a specific FID
- * Used by page.tsx to check if user has settled payment
+ * Requires a Quick Auth token for the FID (see authorizePurpose).
  */
 export async function GET(
   request: NextRequest,
@@ -14,50 +109,53 @@ export async function GET(
   try {
     const { fid: fidParam } = await params;
     const fid = parseInt(fidParam);
+    const purpose = parsePurpose(request);
 
-    if (isNaN(fid)) {
+    if (isNaN(fid) || !purpose) {
       return NextResponse.json(
-        { success: false, error: "Invalid FID" },
+        { success: false, error: "Invalid FID or purpose" },
         { status: 400 }
       );
     }
 
-    console.log('[PAYMENT-TRACKING-GET] Checking payment status:', { fid });
+    const session = await authenticateRequest(request);
+    authorizePurpose(session, fid, purpose);
 
-    const { data, error } = await supabaseAdmin
-      .from("payment_tracking")
-      .select("*")
-      .eq("fid", fid)
-      .single();
+    console.log('[PAYMENT-TRACKING-GET] Checking payment status:', { fid, purpose });
 
-    if (error) {
-      // Not found is expected for users who haven't paid yet
-      if (error.code === 'PGRST116') {
-        console.log('[PAYMENT-TRACKING-GET] No payment record found:', { fid });
-        return NextResponse.json(
-          { success: false, error: "No payment record found" },
-          { status: 404 }
-        );
-      }
+    if (purpose === "mint") {
+      const campaignId = parseCampaignParam(request.nextUrl.searchParams.get(CAMPAIGN_PARAM));
+      await recordFunnelEvent(fid, "app_opened", campaignId);
+      if (campaignId) await recordCampaignOpen(campaignId, fid);
+    }
 
-      console.error('[PAYMENT-TRACKING-GET] Database error:', {
-        error,
-        fid
-      });
+    const data = await getLatestSettledPayment(fid, purpose);
+    if (purpose === "animation") {
+      await authorizeAnimationPayment(session, fid, data);
+    }
+
+    // Not found is expected for users who haven't paid yet
+    if (!data) {
+      console.log('[PAYMENT-TRACKING-GET] No payment record found:', { fid, purpose });
       return NextResponse.json(
-        { success: false, error: "Database query failed" },
-        { status: 500 }
+        { success: false, error: "No payment record found" },
+        { status: 404 }
       );
     }
 
     console.log('[PAYMENT-TRACKING-GET] Payment record found:', {
       fid,
+      purpose,
       status: data.status,
       settlement_tx_hash: data.settlement_tx_hash
     });
 
     return NextResponse.json({ success: true, data });
   } catch (error) {
+    if (error instanceof QuickAuthError) {
+      return authErrorResponse(error);
+    }
+
     console.error("[PAYMENT-TRACKING-GET] Error:", error);
     return NextResponse.json(
       { success: false, error: "Internal server error" },
@@ -67,10 +165,16 @@ export async function GET(
 }
 
 /**
- * PATCH /api/payment-tracking/[fid]
+ * PATCH /api/payment-tracking/[fid]?purpose=mint|animation
  *
- * Update payment tracking status
- * Used after successful mint to mark as 'minted'
+ * Report fulfillment progress for the latest settled payment
+ * ('failed' only while it's settled or mint_submitted - refunds are admin-only)
+ * Body: { status: 'mint_submitted' | 'minted' | 'failed', tx_hash?, error? }
+ *
+ * Transitions are enforced by lib/payment-ledger.ts. 'minted' is only
+ * accepted for a transaction that emitted GeopletMinted / AnimationUpgraded
+ * for this FID/tokenId, and each tx_hash can close only one payment.
+ * Requires a Quick Auth token for the FID (see authorizePurpose).
  */
 export async function PATCH(
   request: NextRequest,
@@ -79,70 +183,150 @@ export async function PATCH(
   try {
     const { fid: fidParam } = await params;
     const fid = parseInt(fidParam);
-    const { status, mint_tx_hash, refund_tx_hash } = await request.json();
+    const purpose = parsePurpose(request);
+    const { status, tx_hash, error: clientError } = await request.json();
+
+    if (isNaN(fid) || !purpose) {
+      return NextResponse.json(
+        { success: false, error: "Invalid FID or purpose" },
+        { status: 400 }
+      );
+    }
 
-    if (isNaN(fid)) {
+    const session = await authenticateRequest(request);
+    authorizePurpose(session, fid, purpose);
+
+    if (!CLIENT_STATUSES.includes(status)) {
       return NextResponse.json(
-        { success: false, error: "Invalid FID" },
+        { success: false, error: "Invalid status. Must be: mint_submitted, minted, or failed" },
         { status: 400 }
       );
     }
 
-    if (!["settled", "minted", "failed", "refunded"].includes(status)) {
+    if (status !== "failed" && !TX_HASH_REGEX.test(tx_hash || "")) {
       return NextResponse.json(
-        { success: false, error: "Invalid status. Must be: settled, minted, failed, or refunded" },
+        { success: false, error: "A valid tx_hash is required" },
         { status: 400 }
       );
     }
 
+    const payment = await getLatestSettledPayment(fid, purpose);
+    if (purpose === "animation") {
+      await authorizeAnimationPayment(session, fid, payment);
+    }
+
+    if (!payment) {
+      return NextResponse.json(
+        { success: false, error: "No payment record found" },
+        { status: 404 }
+      );
+    }
+
+    // Users can only report a failure for a payment they're fulfilling
+    // (never pull a refund or a finished payment back into the refund queue)
+    if (status === "failed" && payment.status !== "settled" && payment.status !== "mint_submitted") {
+      return NextResponse.json(
+        { success: false, error: `Payment is "${payment.status}" and cannot be marked as failed` },
+        { status: 409 }
+      );
+    }
+
     console.log('[PAYMENT-TRACKING-PATCH] Updating status:', {
       fid,
-      newStatus: status,
-      mint_tx_hash: mint_tx_hash || 'not provided',
-      refund_tx_hash: refund_tx_hash || 'not provided'
+      purpose,
+      ledgerId: payment.id,
+      from: payment.status,
+      to: status,
+      tx_hash: tx_hash || 'not provided'
     });
 
-    const updateData: any = {
-      status,
-      updated_at: new Date().toISOString()
-    };
-
-    // Only include mint_tx_hash if provided
-    if (mint_tx_hash) {
-      updateData.mint_tx_hash = mint_tx_hash;
+    // A transaction can only fulfil one payment
+    if (tx_hash && status !== "failed") {
+      const owner = await getPaymentByTxHash("fulfillment_tx_hash", tx_hash);
+      if (owner && owner.id !== payment.id) {
+        return NextResponse.json(
+          { success: false, error: "Transaction already recorded for another payment" },
+          { status: 409 }
+        );
+      }
     }
 
-    // Only include refund_tx_hash if provided
-    if (refund_tx_hash) {
-      updateData.refund_tx_hash = refund_tx_hash;
-    }
+    // Confirm the fulfillment transaction on-chain before marking as done
+    if (status === "minted") {
+      if (purpose === "regenerate") {
+        return NextResponse.json(
+          { success: false, error: "Regenerations are confirmed by the generation job" },
+          { status: 400 }
+        );
+      }
 
-    const { data, error } = await supabaseAdmin
-      .from("payment_tracking")
-      .update(updateData)
-      .eq("fid", fid)
-      .select()
-      .single();
+      const receipt = await publicClient
+        .getTransactionReceipt({ hash: tx_hash as `0x${string}` })
+        .catch(() => null);
 
-    if (error) {
-      console.error('[PAYMENT-TRACKING-PATCH] Update failed:', {
-        error,
-        fid,
-        status
-      });
-      return NextResponse.json(
-        { success: false, error: "Failed to update record" },
-        { status: 500 }
-      );
+      // Must be the mint/upgrade of this very token, not any Geoplets transaction
+      const fulfilled =
+        receipt?.status === "success" &&
+        parseEventLogs({
+          abi: GEOPLET_CONFIG.abi,
+          eventName: FULFILLMENT_EVENTS[purpose],
+          logs: receipt.logs.filter((log) => isAddressEqual(log.address, GEOPLET_CONFIG.address)),
+        }).some((log) => log.args.tokenId === BigInt(fid));
+
+      if (!fulfilled) {
+        return NextResponse.json(
+          { success: false, error: `Transaction did not ${purpose === "mint" ? "mint" : "upgrade"} Geoplet #${fid}` },
+          { status: 400 }
+        );
+      }
+
+      // Payment may still be 'settled'/'failed' if the submit report was lost
+      if (payment.status !== "mint_submitted" && payment.status !== "minted") {
+        await transitionPayment(payment.id, "mint_submitted", {
+          actor: "user",
+          fields: { fulfillment_tx_hash: tx_hash },
+          details: { inferred: true },
+        });
+      }
     }
 
+    const data = await transitionPayment(payment.id, status, {
+      actor: "user",
+      fields:
+        status === "failed"
+          ? { last_error: typeof clientError === "string" ? clientError.slice(0, 500) : null }
+          : { fulfillment_tx_hash: tx_hash },
+      details: tx_hash ? { txHash: tx_hash } : {},
+    });
+
     console.log('[PAYMENT-TRACKING-PATCH] ✅ Status updated:', {
       fid,
+      purpose,
       status: data.status
     });
 
+    // Mint confirmed on-chain → funnel + in-app notification (best effort, deduped per FID)
+    if (purpose === "mint" && status === "minted") {
+      await recordFunnelEvent(fid, "minted");
+      await notifyMintConfirmed(fid).catch((notifyError) =>
+        console.error('[PAYMENT-TRACKING-PATCH] ⚠️  Mint notification failed:', notifyError)
+      );
+    }
+
     return NextResponse.json({ success: true, data });
   } catch (error) {
+    if (error instanceof QuickAuthError) {
+      return authErrorResponse(error);
+    }
+
+    if (error instanceof PaymentLedgerError) {
+      console.error("[PAYMENT-TRACKING-PATCH] Ledger error:", error.message);
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: ledgerErrorStatus(error) }
+      );
+    }
+
     console.error("[PAYMENT-TRACKING-PATCH] Error:", error);
     return NextResponse.json(
       { success: false, error: "Internal server error" },
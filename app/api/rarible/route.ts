@@ -1,4 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { isAddressEqual, isAddress } from 'viem';
+import { WARPLET_ADDRESS } from '@/lib/rarible';
+import { raribleFetch } from '@/lib/rarible-server';
+import { recordFunnelEvent } from '@/lib/funnel';
 
 /**
  * Rarible API Proxy Route
@@ -11,10 +15,6 @@ import { NextRequest, NextResponse } from 'next/server';
  * Following KISS Principle - simple proxy, no over-engineering
  */
 
-// Rarible API configuration
-const RARIBLE_API_KEY = process.env.RARIBLE_API_KEY || '';
-const RARIBLE_BASE_URL = 'https://api.rarible.org/v0.1';
-
 // CORS headers
 const corsHeaders = {
   'Access-Control-Allow-Origin': process.env.NEXT_PUBLIC_APP_URL || 'https://geoplet.geoart.studio',
@@ -95,29 +95,6 @@ function transformRaribleItem(item: RaribleItem) {
   };
 }
 
-/**
- * Fetch from Rarible API with authentication
- */
-async function raribleFetch(endpoint: string): Promise<any> {
-  if (!RARIBLE_API_KEY) {
-    throw new Error('RARIBLE_API_KEY not configured');
-  }
-
-  const response = await fetch(`${RARIBLE_BASE_URL}${endpoint}`, {
-    headers: {
-      'X-API-KEY': RARIBLE_API_KEY,
-      'Content-Type': 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    const error = await response.text().catch(() => response.statusText);
-    throw new Error(`Rarible API error: ${response.status} ${error}`);
-  }
-
-  return response.json();
-}
-
 // Handle OPTIONS preflight
 export async function OPTIONS() {
   return NextResponse.json({}, { headers: corsHeaders });
@@ -195,6 +172,11 @@ export async function GET(request: NextRequest) {
 
       console.log(`[RARIBLE-API] Success: ${transformed.name} - Image URL length: ${transformed.image.length}`);
 
+      // Warplet tokenId == FID → user has a Warplet (funnel)
+      if (WARPLET_ADDRESS && isAddress(contractAddress) && isAddressEqual(contractAddress, WARPLET_ADDRESS)) {
+        await recordFunnelEvent(parseInt(tokenId), 'warplet_found');
+      }
+
       return NextResponse.json(
         { success: true, data: transformed },
         {
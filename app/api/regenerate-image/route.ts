@@ -0,0 +1,318 @@
+// app/api/regenerate-image/route.ts
+
+import { NextRequest, NextResponse, after } from 'next/server';
+import { createPublicClient, http } from 'viem';
+import { base } from 'viem/chains';
+import { GEOPLET_CONFIG } from '@/lib/contracts';
+import { PAYMENT_CONFIG } from '@/lib/payment-config';
+import { transitionPayment } from '@/lib/payment-ledger';
+import { checkImageProviders } from '@/lib/image-providers';
+import {
+  createGenerationJob,
+  getActiveGenerationJob,
+  runGenerationJob,
+  toJobView,
+  GenerationJobError,
+  generationJobErrorStatus,
+} from '@/lib/generation-jobs';
+import {
+  getRegenerationQuota,
+  hasGeneration,
+  GenerationVersionError,
+  generationVersionErrorStatus,
+} from '@/lib/generation-versions';
+import { ArtStyleError, resolveArtStyle, type ArtStyle } from '@/lib/art-styles';
+import { authenticateRequest, assertSessionFid } from '@/lib/quick-auth';
+import {
+  withX402,
+  x402Error,
+  x402Json,
+  x402Preflight,
+  X402_CORS_HEADERS,
+  type X402Context,
+} from '@/lib/x402-route';
+import { PaymentErrorCode, MintErrorCode, GenerationErrorCode } from '@/types/errors';
+
+/**
+ * API Route: Regenerate Image with x402 Payment
+ *
+ * Flow:
+ * 0. Quick Auth JWT - the FID comes from the token (lib/quick-auth.ts)
+ * 1. Not minted + already has a generation (first one is free via /api/generate-image)
+ * 2. FID has a job in flight → return it (never charge twice)
+ * 3. Free quota left, or a paid regeneration that failed (credit) → queue for free
+ * 4. No X-Payment header → 402 with PAYMENT_CONFIG.REGENERATE terms
+ * 5. withX402 (lib/x402-route.ts) verifies → ledger 'verified'
+ *    → payment.settle() through the same facilitator → 'settled'
+ *    (no contract call to simulate, so settlement happens here)
+ * 6. Queue a 'regenerate' job → ledger 'mint_submitted'
+ *    Job saved → 'minted', job failed → 'failed' (credit for the next request)
+ *
+ * Returns 202 { jobId, job } - poll GET /api/generate-image/jobs/[id] like the
+ * first generation. The new image is saved as a new version and selected;
+ * past versions stay available in GET /api/generations/[fid].
+ */
+
+const RECIPIENT_ADDRESS = process.env.NEXT_PUBLIC_RECIPIENT_ADDRESS as string;
+
+// The worker keeps running after the response (after()) - allow a full job with retries
+export const maxDuration = 300;
+
+const publicClient = createPublicClient({
+  chain: base,
+  transport: http(process.env.NEXT_PUBLIC_BASE_RPC_URL),
+});
+
+// Validate environment variables
+function validateEnv() {
+  const required = {
+    RECIPIENT_ADDRESS: RECIPIENT_ADDRESS,
+    BASE_USDC_ADDRESS: process.env.BASE_USDC_ADDRESS,
+  };
+
+  const missing = Object.entries(required)
+    .filter(([, value]) => !value)
+    .map(([key]) => key);
+
+  if (missing.length > 0) {
+    console.error('[ENV] ❌ Missing required environment variables:', missing);
+    throw new Error(`Missing environment variables: ${missing.join(', ')}`);
+  }
+}
+
+// Handle OPTIONS preflight
+export async function OPTIONS() {
+  return x402Preflight();
+}
+
+interface RegenerateContext extends X402Context {
+  imageUrl: string;
+  tokenId: string | number;
+  name?: string;
+  username?: string;
+  style: ArtStyle;
+}
+
+async function queueRegeneration(context: RegenerateContext, paymentId: string | null) {
+  const { fid, username, tokenId, name, imageUrl, style } = context;
+
+  const { job, created } = await createGenerationJob({
+    fid,
+    username: username || `fid-${fid}`,
+    tokenId: String(tokenId),
+    name: name || `Warplet #${tokenId}`,
+    imageUrl,
+    style,
+    kind: 'regenerate',
+    paymentId,
+  });
+
+  // A concurrent request queued first - the payment stays 'settled' and becomes a credit
+  if (created && paymentId) {
+    await transitionPayment(paymentId, 'mint_submitted', {
+      actor: 'system',
+      details: { step: 'regenerate', jobId: job.id },
+    });
+  }
+
+  after(() => runGenerationJob(job.id));
+  return { job, created };
+}
+
+/**
+ * Auth, input + eligibility checks BEFORE asking for payment (never charge for a
+ * doomed regeneration). Free regenerations and in-flight jobs are answered here.
+ */
+async function prepareRegeneration(request: NextRequest): Promise<RegenerateContext | NextResponse> {
+  validateEnv();
+
+  const body = await request.json();
+  const { userAddress, imageUrl, tokenId, name, username, styleId } = body;
+
+  const session = await authenticateRequest(request);
+  assertSessionFid(session, body.fid);
+  const fid = session.fid;
+
+  // Validate required fields
+  if (!userAddress || !imageUrl || !tokenId) {
+    return x402Error(
+      PaymentErrorCode.API_ERROR,
+      'Missing required fields: userAddress, imageUrl, tokenId',
+      400
+    );
+  }
+
+  if (!/^0x[a-fA-F0-9]{40}$/.test(userAddress)) {
+    return x402Error(PaymentErrorCode.API_ERROR, 'Invalid Ethereum address', 400);
+  }
+
+  let style: ArtStyle;
+  try {
+    style = resolveArtStyle(styleId);
+  } catch (styleError) {
+    if (styleError instanceof ArtStyleError) {
+      return x402Error(PaymentErrorCode.API_ERROR, styleError.message, 400, {
+        styleCode: styleError.code,
+      });
+    }
+    throw styleError;
+  }
+
+  const isMinted = await publicClient.readContract({
+    address: GEOPLET_CONFIG.address,
+    abi: GEOPLET_CONFIG.abi,
+    functionName: 'isFidMinted',
+    args: [BigInt(fid)],
+  });
+
+  if (isMinted) {
+    return x402Error(MintErrorCode.FID_ALREADY_MINTED, `FID ${fid} is already minted`, 409);
+  }
+
+  if (!(await hasGeneration(fid))) {
+    return x402Error(
+      GenerationErrorCode.NOTHING_TO_REGENERATE,
+      'No generation yet - the first one is free via /api/generate-image',
+      409
+    );
+  }
+
+  // Resume instead of charging for a second job
+  const active = await getActiveGenerationJob(fid);
+  if (active) {
+    after(() => runGenerationJob(active.id));
+
+    return x402Json(
+      { success: true, jobId: active.id, created: false, paid: false, job: toJobView(active) },
+      202
+    );
+  }
+
+  const health = await checkImageProviders();
+  if (!health.available) {
+    console.error('[REGENERATE] ❌ No provider available:', health.reason);
+    return x402Error(
+      GenerationErrorCode.GENERATION_FAILED,
+      health.reason || 'Image generation temporarily unavailable',
+      503
+    );
+  }
+
+  const context: RegenerateContext = { fid, userAddress, imageUrl, tokenId, name, username, style };
+  const quota = await getRegenerationQuota(fid);
+
+  // Free: paid regeneration that failed earlier, or quota left
+  if (quota.credit || quota.freeRemaining > 0) {
+    const { job, created } = await queueRegeneration(context, quota.credit?.id ?? null);
+
+    console.log('[REGENERATE] ✅ Queued free regeneration:', {
+      fid,
+      jobId: job.id,
+      credit: quota.credit?.id ?? null,
+      freeRemaining: quota.freeRemaining,
+    });
+
+    return x402Json(
+      {
+        success: true,
+        jobId: job.id,
+        created,
+        paid: false,
+        paymentId: quota.credit?.id ?? null,
+        freeRemaining: quota.credit ? quota.freeRemaining : Math.max(quota.freeRemaining - 1, 0),
+        job: toJobView(job),
+      },
+      202
+    );
+  }
+
+  console.log('[REGENERATE] Free quota used, payment required');
+  return context;
+}
+
+/**
+ * POST /api/regenerate-image
+ *
+ * Body: { userAddress, imageUrl, tokenId, name?, username?, styleId? }
+ * Header: X-Payment (x402, only once the free quota is used)
+ */
+export const POST = withX402<RegenerateContext>(
+  async (_request, { context, payment }) => {
+    // Settle now - a retried request for a settled payment doesn't settle twice
+    // (withX402 only gets here for a 'verified' or 'settled' ledger row)
+    if (payment.ledger.status === 'verified') {
+      const settlement = await payment.settle();
+
+      if (!settlement.settled) {
+        return x402Error(
+          PaymentErrorCode.PAYMENT_REJECTED,
+          settlement.reason || 'Payment settlement failed',
+          402
+        );
+      }
+
+      console.log('[REGENERATE] ✅ Payment settled:', { ledgerId: payment.ledger.id, txHash: settlement.txHash });
+    }
+
+    const ledger = payment.ledger;
+    const { job, created } = await queueRegeneration(context, ledger.id);
+
+    console.log('[REGENERATE] ✅ Queued paid regeneration:', {
+      fid: context.fid,
+      jobId: job.id,
+      ledgerId: ledger.id,
+      created,
+    });
+
+    return x402Json(
+      {
+        success: true,
+        jobId: job.id,
+        created,
+        paid: true,
+        paymentId: ledger.id,
+        txHash: ledger.settlement_tx_hash,
+        freeRemaining: 0,
+        job: toJobView(job),
+      },
+      202
+    );
+  },
+  {
+    purpose: 'regenerate',
+    price: PAYMENT_CONFIG.REGENERATE.price,
+    asset: process.env.BASE_USDC_ADDRESS,
+    description: ({ fid }) => `Regenerate Geoplet for FID ${fid} for ${PAYMENT_CONFIG.REGENERATE.price} USDC`,
+    prepare: prepareRegeneration,
+    onError: (error) => {
+      if (error instanceof GenerationJobError) {
+        return x402Error(PaymentErrorCode.API_ERROR, error.message, generationJobErrorStatus(error), {
+          jobCode: error.code,
+        });
+      }
+
+      if (error instanceof GenerationVersionError) {
+        return x402Error(PaymentErrorCode.API_ERROR, error.message, generationVersionErrorStatus(error));
+      }
+
+      return null;
+    },
+  }
+);
+
+/**
+ * GET /api/regenerate-image
+ * Health check
+ */
+export async function GET() {
+  return NextResponse.json(
+    {
+      status: 'ok',
+      service: 'geometric-art-regeneration',
+      price: `${PAYMENT_CONFIG.REGENERATE.price} USDC`,
+      network: 'base',
+      paymentProtocol: 'x402',
+    },
+    { headers: X402_CORS_HEADERS }
+  );
+}
@@ -1,5 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabaseAdmin } from '@/lib/supabase';
+import {
+  selectGenerationVersion,
+  GenerationVersionError,
+  generationVersionErrorStatus,
+} from '@/lib/generation-versions';
+import { recordFunnelEvent } from '@/lib/funnel';
+import { authenticateRequest, assertSessionFid, QuickAuthError, quickAuthErrorStatus } from '@/lib/quick-auth';
 
 // Rate limiting map (in-memory for MVP, use Redis for production)
 const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
@@ -23,29 +29,32 @@ function checkRateLimit(fid: string): boolean {
   return true;
 }
 
+/**
+ * POST /api/save-generation
+ *
+ * Body: { version_id, username }
+ * Saves an existing generation version as the FID's mint image (unminted_geoplets).
+ * Images only come from generation_versions - written by the generation job
+ * worker (lib/generation-jobs.ts) - never from the request body.
+ */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { fid, image_data, username } = body;
+    const { version_id, username } = body;
+
+    // FID comes from the verified Quick Auth token, never from the body (lib/quick-auth.ts)
+    const session = await authenticateRequest(request);
+    assertSessionFid(session, body.fid);
+    const fid = session.fid;
 
     console.log('[SAVE-GEN-API] Request received:', {
       fid,
-      fidType: typeof fid,
       username,
-      hasImageData: !!image_data,
-      imageDataLength: image_data?.length,
+      version_id,
       timestamp: new Date().toISOString()
     });
 
     // Validation
-    if (!fid || typeof fid !== 'number') {
-      console.error('[SAVE-GEN-API] ❌ Invalid FID:', { fid, fidType: typeof fid });
-      return NextResponse.json(
-        { success: false, error: 'Invalid FID' },
-        { status: 400 }
-      );
-    }
-
     if (!username || typeof username !== 'string') {
       console.error('[SAVE-GEN-API] ❌ Invalid username:', { fid, username, usernameType: typeof username });
       return NextResponse.json(
@@ -54,59 +63,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!image_data || typeof image_data !== 'string') {
-      console.error('[SAVE-GEN-API] ❌ Invalid image data:', {
-        fid,
-        hasImageData: !!image_data,
-        imageDataType: typeof image_data
-      });
-      return NextResponse.json(
-        { success: false, error: 'Invalid image data' },
-        { status: 400 }
-      );
-    }
-
-    // Strip data URI prefix if present (KISS: store raw base64, contract format)
-    const rawBase64 = image_data.startsWith('data:image/')
-      ? image_data.split(',')[1] || ''
-      : image_data;
-
-    // Validate base64 format (security: prevent injection)
-    if (!rawBase64 || !/^[A-Za-z0-9+/=]+$/.test(rawBase64)) {
-      console.error('[SAVE-GEN-API] ❌ Invalid base64 format:', {
-        fid,
-        hasRawBase64: !!rawBase64,
-        rawBase64Length: rawBase64?.length,
-        rawBase64Preview: rawBase64?.substring(0, 50)
-      });
-      return NextResponse.json(
-        { success: false, error: 'Invalid base64 format' },
-        { status: 400 }
-      );
-    }
-
-    // Validate image size on RAW base64 (matches contract validation exactly)
-    // Contract requires: bytes(base64ImageData).length <= 24576 (line 206 in Geoplets.sol)
-    const sizeInBytes = Buffer.from(rawBase64, 'base64').length;
-    const sizeInKB = (sizeInBytes / 1024).toFixed(2);
-
-    console.log('[SAVE-GEN-API] Image size check:', {
-      fid,
-      sizeInBytes,
-      sizeInKB: `${sizeInKB} KB`,
-      limit: '24 KB (24576 bytes)',
-      isWithinLimit: sizeInBytes <= 24576
-    });
-
-    if (sizeInBytes > 24576) {
-      console.error('[SAVE-GEN-API] ❌ Image too large:', {
-        fid,
-        sizeInBytes,
-        sizeInKB: `${sizeInKB} KB`,
-        exceededBy: `${(sizeInBytes - 24576)} bytes`
-      });
+    if (!version_id || typeof version_id !== 'string') {
+      console.error('[SAVE-GEN-API] ❌ Invalid version id:', { fid, version_id });
       return NextResponse.json(
-        { success: false, error: `Image too large (${sizeInKB} KB). Must be ≤24KB` },
+        { success: false, error: 'version_id is required' },
         { status: 400 }
       );
     }
@@ -120,54 +80,42 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // UPSERT to database (insert or update if FID exists)
-    // Store raw base64 (contract-ready format, KISS principle)
-    const { data, error } = await supabaseAdmin
-      .from('unminted_geoplets')
-      .upsert(
-        {
-          fid,
-          image_data: rawBase64,
-          username,
-          created_at: new Date().toISOString(),
-        },
-        {
-          onConflict: 'fid', // Update if FID already exists
-        }
-      )
-      .select()
-      .single();
-
-    if (error) {
-      console.error('[SAVE-GEN-API] ❌ Supabase error:', {
-        error,
-        fid,
-        errorCode: error.code,
-        errorMessage: error.message,
-        errorDetails: error.details,
-        sizeInKB
-      });
-      return NextResponse.json(
-        { success: false, error: 'Failed to save generation', details: error.message },
-        { status: 500 }
-      );
-    }
+    // Select the FID's own version for minting (lib/generation-versions.ts)
+    const version = await selectGenerationVersion(fid, version_id, { username });
 
     console.log('[SAVE-GEN-API] ✅ Successfully saved to Supabase:', {
       fid,
-      id: data.id,
-      sizeInKB: `${sizeInKB} KB`
+      id: version.id,
+      version: version.version,
     });
 
+    await recordFunnelEvent(fid, 'saved');
+
     return NextResponse.json({
       success: true,
       data: {
-        id: data.id,
-        fid: data.fid,
-        created_at: data.created_at,
+        id: version.id,
+        fid: version.fid,
+        version: version.version,
+        created_at: version.created_at,
       },
     });
   } catch (error) {
+    if (error instanceof QuickAuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: quickAuthErrorStatus(error) }
+      );
+    }
+
+    if (error instanceof GenerationVersionError) {
+      console.error('[SAVE-GEN-API] ❌ Version error:', error.message);
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: generationVersionErrorStatus(error) }
+      );
+    }
+
     console.error('Save generation error:', error);
     return NextResponse.json(
       { success: false, error: 'Internal server error' },
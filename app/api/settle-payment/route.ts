@@ -4,10 +4,15 @@
 // Settles payment AFTER contract simulation passes (per LOG.md)
 
 import { NextRequest, NextResponse } from 'next/server';
-import { supabaseAdmin } from '@/lib/supabase';
+import {
+  getPaymentByHeader,
+  transitionPayment,
+  PaymentLedgerError,
+  ledgerErrorStatus,
+} from '@/lib/payment-ledger';
+import { recordFunnelEvent } from '@/lib/funnel';
+import { settleWithFacilitator } from '@/lib/facilitators';
 
-// Onchain.fi API configuration
-const ONCHAIN_API_URL = 'https://api.onchain.fi/v1';
 const RECIPIENT_ADDRESS = process.env.NEXT_PUBLIC_RECIPIENT_ADDRESS as string;
 
 // CORS headers
@@ -37,13 +42,32 @@ export async function OPTIONS() {
  * 3. Settle payment (THIS ENDPOINT)
  * 4. Execute mint transaction (frontend)
  *
+ * Purposes:
+ * - 'mint' (default): keyed by fid
+ * - 'animation': keyed by tokenId (same recovery guarantees)
+ *
+ * Facilitator: settles through the one that verified the payment
+ * (payment_ledger.facilitator, see lib/facilitators.ts) on the network it
+ * was signed on (payment_ledger.source_network - Solana settles cross-chain).
+ *
+ * Ledger (lib/payment-ledger.ts): verified → settled (or → failed).
+ * Only settles a row a paid route recorded after verifying the payment
+ * (withX402, lib/x402-route.ts) - unknown headers are 404, and the row's own
+ * purpose, FID and paymentId must match the request.
+ * Idempotent per payment header - a retried request for an already settled
+ * payment returns the recorded settlement instead of settling again.
+ *
  * @param paymentHeader - Base64-encoded x402 payment authorization
  * @returns Settlement result with transaction hash
  */
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
-    const { paymentHeader, paymentId, fid, userAddress } = body;
+    const { paymentHeader, paymentId, userAddress } = body;
+    const purpose: 'mint' | 'animation' = body.purpose === 'animation' ? 'animation' : 'mint';
+
+    // Animation upgrades are keyed by tokenId (FID = tokenId in 1:1 mapping)
+    const fid = purpose === 'animation' ? body.tokenId : body.fid;
 
     // Validate required fields
     if (!paymentHeader) {
@@ -76,7 +100,9 @@ export async function POST(req: NextRequest) {
       return NextResponse.json(
         {
           success: false,
-          error: 'FID is required for payment tracking',
+          error: purpose === 'animation'
+            ? 'Token ID is required for upgrade tracking'
+            : 'FID is required for payment tracking',
         },
         {
           status: 400,
@@ -98,55 +124,102 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    console.log('[SETTLE] Request:', { fid, userAddress, paymentId, hasPaymentHeader: !!paymentHeader });
+    console.log('[SETTLE] Request:', { purpose, fid, userAddress, paymentId, hasPaymentHeader: !!paymentHeader });
 
-    // Validate environment variables
-    if (!process.env.ONCHAIN_FI_API_KEY) {
-      console.error('[SETTLE] ❌ ONCHAIN_FI_API_KEY not configured');
+    // Only payments the server verified (recorded by withX402) can be settled
+    const payment = await getPaymentByHeader(paymentHeader);
+
+    if (!payment) {
       return NextResponse.json(
         {
           success: false,
-          error: 'Payment service not configured',
+          error: 'Payment not found - it must be verified before it can be settled',
         },
         {
-          status: 500,
+          status: 404,
           headers: corsHeaders,
         }
       );
     }
 
-    console.log('[SETTLE] Settling payment onchain...');
+    if (
+      payment.purpose !== purpose ||
+      payment.fid !== parseInt(fid) ||
+      (payment.onchain_payment_id && payment.onchain_payment_id !== paymentId)
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Payment was authorized for a different purchase',
+        },
+        {
+          status: 409,
+          headers: corsHeaders,
+        }
+      );
+    }
 
-    // Call onchain.fi settle endpoint
-    const settleResponse = await fetch(`${ONCHAIN_API_URL}/settle`, {
-      method: 'POST',
-      headers: {
-        'X-API-Key': process.env.ONCHAIN_FI_API_KEY,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        paymentId,                    // Required: from verify response
-        paymentHeader,
-        sourceNetwork: 'base',
-        destinationNetwork: 'base',
-        priority: 'balanced',
-      }),
-    });
+    // Idempotent replay: already settled, don't settle twice
+    if (payment.settlement_tx_hash) {
+      console.log('[SETTLE] Payment already settled, returning recorded settlement:', {
+        ledgerId: payment.id,
+        status: payment.status,
+      });
 
-    const settleData = await settleResponse.json();
+      return NextResponse.json(
+        {
+          success: true,
+          settled: true,
+          txHash: payment.settlement_tx_hash,
+          ledgerId: payment.id,
+        },
+        {
+          status: 200,
+          headers: corsHeaders,
+        }
+      );
+    }
+
+    if (payment.status !== 'verified') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Payment is "${payment.status}" and cannot be settled`,
+        },
+        {
+          status: 409,
+          headers: corsHeaders,
+        }
+      );
+    }
 
-    console.log('[SETTLE] Settle response:', {
-      status: settleResponse.status,
-      settled: settleData.data?.settled,
-      txHash: settleData.data?.txHash,
+    console.log('[SETTLE] Settling payment onchain...', {
+      facilitator: payment.facilitator,
+      network: payment.source_network,
     });
 
-    if (!settleResponse.ok || settleData.status !== 'success' || !settleData.data?.settled) {
-      console.error('[SETTLE] ❌ Settlement failed:', settleData.data?.reason);
+    const settleResult = await settleWithFacilitator(
+      payment.facilitator,
+      paymentHeader,
+      paymentId,
+      payment.source_network
+    );
+
+    if (!settleResult.settled) {
+      console.error('[SETTLE] ❌ Settlement failed:', settleResult.reason);
+
+      await transitionPayment(payment.id, 'failed', {
+        actor: 'system',
+        fields: { last_error: settleResult.reason || 'Payment settlement failed' },
+        details: { step: 'settle', facilitator: settleResult.facilitator, ...settleResult.details },
+      }).catch((ledgerErr) => {
+        console.error('[SETTLE] ⚠️  Failed to record settlement failure in ledger:', ledgerErr);
+      });
+
       return NextResponse.json(
         {
           success: false,
-          error: settleData.data?.reason || 'Payment settlement failed',
+          error: settleResult.reason || 'Payment settlement failed',
         },
         {
           status: 402,
@@ -156,54 +229,38 @@ export async function POST(req: NextRequest) {
     }
 
     console.log('[SETTLE] ✅ Payment settled successfully!');
-    console.log('[SETTLE] Transaction hash:', settleData.data.txHash);
+    console.log('[SETTLE] Transaction hash:', settleResult.txHash);
     console.log('[SETTLE] Treasury address:', RECIPIENT_ADDRESS);
 
-    // Write to payment_tracking table
+    // Record settlement in the ledger (payment succeeded - don't fail the response on a DB error)
     try {
-      console.log('[SETTLE] Writing payment tracking record:', {
-        fid,
-        userAddress,
-        settlement_tx_hash: settleData.data.txHash
+      await transitionPayment(payment.id, 'settled', {
+        actor: 'system',
+        fields: {
+          settlement_tx_hash: settleResult.txHash,
+          onchain_payment_id: paymentId,
+        },
+        details: { facilitator: settleResult.facilitator, ...settleResult.details },
       });
+    } catch (ledgerErr) {
+      console.error('[SETTLE] ⚠️  Failed to record settlement in ledger:', {
+        error: ledgerErr,
+        ledgerId: payment.id,
+        txHash: settleResult.txHash,
+      });
+    }
 
-      const { data: trackingData, error: trackingError } = await supabaseAdmin
-        .from('payment_tracking')
-        .upsert({
-          fid: parseInt(fid),
-          settlement_tx_hash: settleData.data.txHash,
-          user_address: userAddress,
-          status: 'settled',
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        })
-        .select()
-        .single();
-
-      if (trackingError) {
-        console.error('[SETTLE] ⚠️  Failed to write payment tracking:', {
-          error: trackingError,
-          fid
-        });
-        // Don't fail the settlement - payment succeeded, tracking is secondary
-        // User can still mint, just won't have recovery tracking
-      } else {
-        console.log('[SETTLE] ✅ Payment tracking record created:', {
-          fid,
-          trackingId: trackingData?.fid
-        });
-      }
-    } catch (trackingErr) {
-      console.error('[SETTLE] ⚠️  Exception writing payment tracking:', trackingErr);
-      // Don't fail the settlement
+    if (purpose === 'mint') {
+      await recordFunnelEvent(payment.fid, 'payment_settled');
     }
 
     return NextResponse.json(
       {
         success: true,
         settled: true,
-        txHash: settleData.data.txHash,
-        facilitator: settleData.data.facilitator,
+        txHash: settleResult.txHash,
+        facilitator: settleResult.facilitator,
+        ledgerId: payment.id,
       },
       {
         status: 200,
@@ -213,6 +270,19 @@ export async function POST(req: NextRequest) {
   } catch (error: unknown) {
     console.error('[SETTLE] Error:', error);
 
+    if (error instanceof PaymentLedgerError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+        },
+        {
+          status: ledgerErrorStatus(error),
+          headers: corsHeaders,
+        }
+      );
+    }
+
     const errorMessage = error instanceof Error ? error.message : 'Settlement failed';
 
     return NextResponse.json(
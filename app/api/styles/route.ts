@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { getAvailableStyles, getDefaultStyle } from '@/lib/art-styles';
+
+/**
+ * GET /api/styles
+ *
+ * Art styles selectable right now (seasonal styles only inside their window)
+ * Pass `id` as `styleId` to POST /api/generate-image.
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   defaultStyleId: string,
+ *   styles: Array<{ id, name, description, seasonal }>
+ * }
+ */
+export async function GET() {
+  const styles = getAvailableStyles().map((style) => ({
+    id: style.id,
+    name: style.name,
+    description: style.description,
+    seasonal: !!style.schedule,
+  }));
+
+  return NextResponse.json(
+    { success: true, defaultStyleId: getDefaultStyle().id, styles },
+    { headers: { 'Cache-Control': 'public, max-age=300' } }
+  );
+}
@@ -1,164 +1,62 @@
 /**
- * onchain.fi API Unit Test Route
+ * x402 Facilitator Test Route
  *
- * Tests each onchain.fi endpoint systematically to identify issues
+ * Runs supported → verify → settle through the Facilitator interface
+ * (lib/facilitators.ts) for every facilitator configured for a payment type,
+ * or just one of them. Point the local facilitator at an Anvil fork
+ * (LOCAL_FACILITATOR_RPC_URL) to test without touching live services.
  *
- * Usage: GET /api/test-onchainfi
+ * Usage: GET /api/test-onchainfi?purpose=mint&facilitator=local&network=base&paymentHeader=...
+ * - purpose:       mint (default) | regenerate | animation - selects the chain + price
+ * - facilitator:   onchainfi | local (default: the configured chain for the purpose)
+ * - network:       base (default) | solana
+ * - paymentHeader: optional - without it verify/settle are skipped
  */
 
 import { NextResponse } from 'next/server';
-import { PAYMENT_CONFIG } from '@/lib/payment-config';
+import { PAYMENT_CONFIG, type PaymentNetwork } from '@/lib/payment-config';
+import type { PaymentPurpose } from '@/lib/payment-ledger';
+import {
+  getFacilitator,
+  getFacilitators,
+  isFacilitatorId,
+  type Facilitator,
+  type PaymentTerms,
+} from '@/lib/facilitators';
 
-const ONCHAIN_API_URL = 'https://api.onchain.fi/v1';
 const RECIPIENT_ADDRESS = process.env.NEXT_PUBLIC_RECIPIENT_ADDRESS || '0xFdF53De20f46bAE2Fa6414e6F25EF1654E68Acd0';
 
+const PURPOSE_CONFIG = {
+  mint: PAYMENT_CONFIG.MINT,
+  regenerate: PAYMENT_CONFIG.REGENERATE,
+  animation: PAYMENT_CONFIG.ANIMATION,
+} as const;
+
 interface TestResult {
   name: string;
   status: 'passed' | 'failed' | 'skipped';
-  request?: {
-    method: string;
-    url: string;
-    headers?: Record<string, string>;
-    body?: unknown;
-  };
-  response?: {
-    status: number;
-    statusText: string;
-    data: unknown;
-  };
+  data?: unknown;
   error?: string;
   duration?: number;
 }
 
 /**
- * Test 1: Supported Networks
- * GET /v1/supported
- */
-async function testSupportedNetworks(): Promise<TestResult> {
-  const start = Date.now();
-  const testName = '1. Supported Networks';
-
-  try {
-    const url = `${ONCHAIN_API_URL}/supported`;
-
-    console.log(`[TEST] ${testName} - Calling ${url}`);
-
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'X-API-Key': process.env.ONCHAIN_FI_API_KEY!,
-      },
-    });
-
-    const data = await response.json();
-    const duration = Date.now() - start;
-
-    console.log(`[TEST] ${testName} - Response:`, JSON.stringify(data, null, 2));
-
-    if (response.ok && data.status === 'success') {
-      return {
-        name: testName,
-        status: 'passed',
-        request: {
-          method: 'GET',
-          url,
-          headers: { 'X-API-Key': '***' },
-        },
-        response: {
-          status: response.status,
-          statusText: response.statusText,
-          data,
-        },
-        duration,
-      };
-    } else {
-      return {
-        name: testName,
-        status: 'failed',
-        request: {
-          method: 'GET',
-          url,
-        },
-        response: {
-          status: response.status,
-          statusText: response.statusText,
-          data,
-        },
-        error: data.message || `HTTP ${response.status}`,
-        duration,
-      };
-    }
-  } catch (error) {
-    return {
-      name: testName,
-      status: 'failed',
-      error: error instanceof Error ? error.message : 'Unknown error',
-      duration: Date.now() - start,
-    };
-  }
-}
-
-/**
- * Test 2: Get Facilitators
- * GET /v1/facilitators?network=base&token=USDC
+ * Run one step, timing it and turning thrown errors into a failed result
  */
-async function testGetFacilitators(): Promise<TestResult> {
+async function runStep(
+  name: string,
+  step: () => Promise<{ passed: boolean; data: unknown; error?: string }>
+): Promise<TestResult> {
   const start = Date.now();
-  const testName = '2. Get Facilitators';
 
   try {
-    const url = `${ONCHAIN_API_URL}/facilitators?network=base&token=USDC`;
-
-    console.log(`[TEST] ${testName} - Calling ${url}`);
-
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'X-API-Key': process.env.ONCHAIN_FI_API_KEY!,
-      },
-    });
-
-    const data = await response.json();
-    const duration = Date.now() - start;
-
-    console.log(`[TEST] ${testName} - Response:`, JSON.stringify(data, null, 2));
+    const { passed, data, error } = await step();
+    console.log(`[TEST] ${name}:`, JSON.stringify(data, null, 2));
 
-    if (response.ok && data.status === 'success') {
-      return {
-        name: testName,
-        status: 'passed',
-        request: {
-          method: 'GET',
-          url,
-          headers: { 'X-API-Key': '***' },
-        },
-        response: {
-          status: response.status,
-          statusText: response.statusText,
-          data,
-        },
-        duration,
-      };
-    } else {
-      return {
-        name: testName,
-        status: 'failed',
-        request: {
-          method: 'GET',
-          url,
-        },
-        response: {
-          status: response.status,
-          statusText: response.statusText,
-          data,
-        },
-        error: data.message || `HTTP ${response.status}`,
-        duration,
-      };
-    }
+    return { name, status: passed ? 'passed' : 'failed', data, error, duration: Date.now() - start };
   } catch (error) {
     return {
-      name: testName,
+      name,
       status: 'failed',
       error: error instanceof Error ? error.message : 'Unknown error',
       duration: Date.now() - start,
@@ -166,282 +64,104 @@ async function testGetFacilitators(): Promise<TestResult> {
   }
 }
 
-/**
- * Test 3: Verify Payment
- * POST /v1/verify
- *
- * Note: This test uses a MOCK payment header for testing purposes
- * A real payment header would need to be generated from a wallet signature
- */
-async function testVerifyPayment(paymentHeader?: string): Promise<TestResult> {
-  const start = Date.now();
-  const testName = '3. Verify Payment';
-
-  try {
-    const url = `${ONCHAIN_API_URL}/verify`;
-
-    // Use provided payment header or skip if not available
-    if (!paymentHeader) {
-      return {
-        name: testName,
-        status: 'skipped',
-        error: 'No payment header provided (requires real wallet signature)',
-        duration: Date.now() - start,
-      };
-    }
-
-    const requestBody = {
-      paymentHeader,
-      sourceNetwork: 'base',      // New format (supports cross-chain)
-      destinationNetwork: 'base',  // New format (supports cross-chain)
-      expectedAmount: PAYMENT_CONFIG.MINT.price, // Using MINT price for testing (REGENERATE removed)
-      expectedToken: 'USDC',
-      recipientAddress: RECIPIENT_ADDRESS,
-      priority: 'balanced',
-    };
-
-    console.log(`[TEST] ${testName} - Calling ${url}`);
-    console.log(`[TEST] ${testName} - Request body:`, JSON.stringify(requestBody, null, 2));
-
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'X-API-Key': process.env.ONCHAIN_FI_API_KEY!,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
-    });
-
-    const data = await response.json();
-    const duration = Date.now() - start;
-
-    console.log(`[TEST] ${testName} - Response:`, JSON.stringify(data, null, 2));
-
-    if (response.ok && data.status === 'success' && data.data?.valid) {
-      return {
-        name: testName,
-        status: 'passed',
-        request: {
-          method: 'POST',
-          url,
-          headers: { 'X-API-Key': '***', 'Content-Type': 'application/json' },
-          body: requestBody,
-        },
-        response: {
-          status: response.status,
-          statusText: response.statusText,
-          data,
-        },
-        duration,
-      };
-    } else {
-      return {
-        name: testName,
-        status: 'failed',
-        request: {
-          method: 'POST',
-          url,
-          headers: { 'X-API-Key': '***', 'Content-Type': 'application/json' },
-          body: requestBody,
-        },
-        response: {
-          status: response.status,
-          statusText: response.statusText,
-          data,
-        },
-        error: data.message || data.data?.reason || `HTTP ${response.status}`,
-        duration,
-      };
-    }
-  } catch (error) {
-    return {
-      name: testName,
-      status: 'failed',
-      error: error instanceof Error ? error.message : 'Unknown error',
-      duration: Date.now() - start,
-    };
-  }
+function skipped(name: string): TestResult {
+  return { name, status: 'skipped', error: 'No payment header provided (requires real wallet signature)' };
 }
 
 /**
- * Test 4: Settle Payment
- * POST /v1/settle
- *
- * Note: This test uses a MOCK payment header for testing purposes
+ * supported → verify → settle for one facilitator
+ * Settle only runs after a successful verify (it needs the paymentId).
  */
-async function testSettlePayment(paymentHeader?: string): Promise<TestResult> {
-  const start = Date.now();
-  const testName = '4. Settle Payment';
-
-  try {
-    const url = `${ONCHAIN_API_URL}/settle`;
-
-    // Use provided payment header or skip if not available
-    if (!paymentHeader) {
-      return {
-        name: testName,
-        status: 'skipped',
-        error: 'No payment header provided (requires real wallet signature)',
-        duration: Date.now() - start,
-      };
-    }
-
-    const requestBody = {
-      paymentHeader,
-      sourceNetwork: 'base',      // New format (supports cross-chain)
-      destinationNetwork: 'base',  // New format (supports cross-chain)
-      priority: 'balanced',
-    };
-
-    console.log(`[TEST] ${testName} - Calling ${url}`);
-    console.log(`[TEST] ${testName} - Request body:`, JSON.stringify(requestBody, null, 2));
-
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'X-API-Key': process.env.ONCHAIN_FI_API_KEY!,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
-    });
-
-    const data = await response.json();
-    const duration = Date.now() - start;
-
-    console.log(`[TEST] ${testName} - Response:`, JSON.stringify(data, null, 2));
+async function testFacilitator(
+  facilitator: Facilitator,
+  terms: PaymentTerms,
+  paymentHeader?: string
+): Promise<TestResult[]> {
+  const prefix = `[${facilitator.id}]`;
+  const results: TestResult[] = [];
 
-    if (response.ok && data.status === 'success' && data.data?.settled) {
+  results.push(
+    await runStep(`${prefix} 1. Supported`, async () => {
+      const support = await facilitator.supported();
       return {
-        name: testName,
-        status: 'passed',
-        request: {
-          method: 'POST',
-          url,
-          headers: { 'X-API-Key': '***', 'Content-Type': 'application/json' },
-          body: requestBody,
-        },
-        response: {
-          status: response.status,
-          statusText: response.statusText,
-          data,
-        },
-        duration,
+        passed: support.available && support.networks.includes(terms.network),
+        data: { ...support, payTo: facilitator.payTo(terms.network) },
+        error: support.reason,
       };
-    } else {
-      return {
-        name: testName,
-        status: 'failed',
-        request: {
-          method: 'POST',
-          url,
-          headers: { 'X-API-Key': '***', 'Content-Type': 'application/json' },
-          body: requestBody,
-        },
-        response: {
-          status: response.status,
-          statusText: response.statusText,
-          data,
-        },
-        error: data.message || data.data?.reason || `HTTP ${response.status}`,
-        duration,
-      };
-    }
-  } catch (error) {
-    return {
-      name: testName,
-      status: 'failed',
-      error: error instanceof Error ? error.message : 'Unknown error',
-      duration: Date.now() - start,
-    };
-  }
-}
-
-/**
- * Test 5: Verify + Settle (Complete Flow)
- */
-async function testVerifyAndSettle(paymentHeader?: string): Promise<TestResult> {
-  const start = Date.now();
-  const testName = '5. Verify + Settle (Complete Flow)';
+    })
+  );
 
   if (!paymentHeader) {
-    return {
-      name: testName,
-      status: 'skipped',
-      error: 'No payment header provided (requires real wallet signature)',
-      duration: Date.now() - start,
-    };
+    results.push(skipped(`${prefix} 2. Verify`), skipped(`${prefix} 3. Settle`));
+    return results;
   }
 
-  try {
-    // First verify
-    const verifyResult = await testVerifyPayment(paymentHeader);
+  let paymentId: string | undefined;
+  const verify = await runStep(`${prefix} 2. Verify`, async () => {
+    const result = await facilitator.verify(paymentHeader, terms);
+    paymentId = result.paymentId;
+    return { passed: result.valid, data: result, error: result.reason };
+  });
+  results.push(verify);
 
-    if (verifyResult.status !== 'passed') {
-      return {
-        name: testName,
-        status: 'failed',
-        error: `Verify step failed: ${verifyResult.error}`,
-        duration: Date.now() - start,
-      };
-    }
+  if (!paymentId) {
+    results.push({ name: `${prefix} 3. Settle`, status: 'skipped', error: 'Verify did not return a paymentId' });
+    return results;
+  }
 
-    // Then settle
-    const settleResult = await testSettlePayment(paymentHeader);
+  const settlePaymentId = paymentId;
+  results.push(
+    await runStep(`${prefix} 3. Settle`, async () => {
+      const result = await facilitator.settle(paymentHeader, settlePaymentId, terms.network);
+      return { passed: result.settled, data: result, error: result.reason };
+    })
+  );
 
-    if (settleResult.status !== 'passed') {
-      return {
-        name: testName,
-        status: 'failed',
-        error: `Settle step failed: ${settleResult.error}`,
-        duration: Date.now() - start,
-      };
-    }
-
-    return {
-      name: testName,
-      status: 'passed',
-      duration: Date.now() - start,
-    };
-  } catch (error) {
-    return {
-      name: testName,
-      status: 'failed',
-      error: error instanceof Error ? error.message : 'Unknown error',
-      duration: Date.now() - start,
-    };
-  }
+  return results;
 }
 
 /**
  * Main test handler
- * GET /api/test-onchainfi?paymentHeader=...
+ * GET /api/test-onchainfi?purpose=&facilitator=&network=&paymentHeader=
  */
 export async function GET(request: Request) {
-  console.log('\n=== Starting onchain.fi API Tests ===\n');
+  console.log('\n=== Starting x402 facilitator tests ===\n');
 
-  // Get payment header from query params if provided
   const { searchParams } = new URL(request.url);
   const paymentHeader = searchParams.get('paymentHeader') || undefined;
+  const facilitatorParam = searchParams.get('facilitator');
+  const purposeParam = searchParams.get('purpose') || 'mint';
+  const network: PaymentNetwork = searchParams.get('network') === 'solana' ? 'solana' : 'base';
 
-  const results: TestResult[] = [];
-
-  // Run tests sequentially
-  console.log('Running Test 1: Supported Networks...');
-  results.push(await testSupportedNetworks());
-
-  console.log('\nRunning Test 2: Get Facilitators...');
-  results.push(await testGetFacilitators());
+  if (!(purposeParam in PURPOSE_CONFIG)) {
+    return NextResponse.json({ error: `Unknown purpose: ${purposeParam}` }, { status: 400 });
+  }
+  if (facilitatorParam && !isFacilitatorId(facilitatorParam)) {
+    return NextResponse.json({ error: `Unknown facilitator: ${facilitatorParam}` }, { status: 400 });
+  }
 
-  console.log('\nRunning Test 3: Verify Payment...');
-  results.push(await testVerifyPayment(paymentHeader));
+  const purpose = purposeParam as PaymentPurpose;
+  const { price, priceAtomic } = PURPOSE_CONFIG[purpose];
+  const terms: PaymentTerms = { network, price, priceAtomic, recipient: RECIPIENT_ADDRESS };
 
-  console.log('\nRunning Test 4: Settle Payment...');
-  results.push(await testSettlePayment(paymentHeader));
+  let facilitators: Facilitator[];
+  try {
+    facilitators = facilitatorParam && isFacilitatorId(facilitatorParam)
+      ? [getFacilitator(facilitatorParam)]
+      : getFacilitators(purpose);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Invalid facilitator configuration' },
+      { status: 500 }
+    );
+  }
 
-  console.log('\nRunning Test 5: Verify + Settle...');
-  results.push(await testVerifyAndSettle(paymentHeader));
+  // Run sequentially - settle moves real funds on a live facilitator
+  const results: TestResult[] = [];
+  for (const facilitator of facilitators) {
+    results.push(...(await testFacilitator(facilitator, terms, paymentHeader)));
+  }
 
-  // Calculate summary
   const summary = {
     total: results.length,
     passed: results.filter(r => r.status === 'passed').length,
@@ -449,21 +169,18 @@ export async function GET(request: Request) {
     skipped: results.filter(r => r.status === 'skipped').length,
   };
 
-  console.log('\n=== Test Summary ===');
-  console.log(`Total: ${summary.total}`);
-  console.log(`Passed: ${summary.passed}`);
-  console.log(`Failed: ${summary.failed}`);
-  console.log(`Skipped: ${summary.skipped}`);
-  console.log('\n=== Tests Complete ===\n');
+  console.log('\n=== Test Summary ===', summary);
 
   return NextResponse.json({
     summary,
     results,
-    apiUrl: ONCHAIN_API_URL,
+    purpose,
+    terms,
+    facilitators: facilitators.map((facilitator) => facilitator.id),
     timestamp: new Date().toISOString(),
     note: paymentHeader
-      ? 'Tests 3-5 ran with provided payment header'
-      : 'Tests 3-5 skipped (no payment header provided). Add ?paymentHeader=... to URL to test verify/settle endpoints.',
+      ? 'Verify/settle ran with the provided payment header'
+      : 'Verify/settle skipped (no payment header provided). Add ?paymentHeader=... to test them.',
   }, {
     headers: {
       'Cache-Control': 'no-store',
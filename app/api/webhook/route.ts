@@ -1,16 +1,27 @@
 /**
  * Webhook Endpoint for Farcaster Mini App Notifications
  *
- * Receives POST events from Farcaster/Base platform:
- * - User added app
- * - Notification delivered
- * - User removed app
- * - etc.
+ * Receives signed JSON Farcaster Signature (JFS) events from Farcaster clients:
+ * - miniapp_added / frame_added (may include notificationDetails)
+ * - miniapp_removed / frame_removed
+ * - notifications_enabled (includes notificationDetails)
+ * - notifications_disabled
+ *
+ * Unsigned or forged events are rejected (see lib/farcaster-jfs.ts).
+ * Notification tokens are stored per FID (see lib/notification-tokens.ts);
+ * notificationDetails with a url off the Farcaster notification API are ignored.
  *
  * Reference: .docs/LOG.md lines 432-438
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { verifyJsonFarcasterSignature, JfsVerificationError } from '@/lib/farcaster-jfs';
+import {
+  saveNotificationToken,
+  disableNotificationToken,
+  isAllowedNotificationUrl,
+  type NotificationDetails,
+} from '@/lib/notification-tokens';
 
 // CORS headers for webhook requests
 const corsHeaders = {
@@ -19,6 +30,19 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'Content-Type',
 };
 
+interface WebhookEvent {
+  event?: string;
+  notificationDetails?: Partial<NotificationDetails>;
+}
+
+function isNotificationDetails(details: WebhookEvent['notificationDetails']): details is NotificationDetails {
+  return (
+    typeof details?.url === 'string' &&
+    typeof details?.token === 'string' &&
+    isAllowedNotificationUrl(details.url)
+  );
+}
+
 // Handle OPTIONS preflight
 export async function OPTIONS() {
   return NextResponse.json({}, { headers: corsHeaders });
@@ -26,47 +50,73 @@ export async function OPTIONS() {
 
 // Handle POST webhook events
 export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid JSON body' },
+      { status: 400, headers: corsHeaders }
+    );
+  }
+
+  let fid: number;
+  let appKey: string;
+  let payload: WebhookEvent;
+
+  try {
+    ({ fid, appKey, payload } = await verifyJsonFarcasterSignature<WebhookEvent>(body));
+  } catch (error) {
+    if (error instanceof JfsVerificationError) {
+      console.error('[WEBHOOK] ❌ Rejected event:', { code: error.code, message: error.message });
+
+      // KeyRegistry outage → let the client retry later
+      const status =
+        error.code === 'KEY_CHECK_FAILED' ? 503 : error.code === 'INVALID_ENVELOPE' ? 400 : 401;
+
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status, headers: corsHeaders }
+      );
+    }
+    throw error;
+  }
+
+  console.log('[WEBHOOK] Verified event:', { fid, event: payload.event });
+
   try {
-    const body = await request.json();
-
-    // Log webhook event for debugging
-    console.log('[WEBHOOK] Received notification event:', {
-      timestamp: new Date().toISOString(),
-      event: body,
-    });
-
-    // Handle different event types
-    const eventType = body.type || body.event_type;
-
-    switch (eventType) {
-      case 'user_added_app':
-        console.log('[WEBHOOK] User added app:', {
-          fid: body.user?.fid,
-          username: body.user?.username,
-        });
-        // TODO: Track user adoption metrics
+    switch (payload.event) {
+      case 'miniapp_added':
+      case 'frame_added':
+        if (isNotificationDetails(payload.notificationDetails)) {
+          await saveNotificationToken(fid, payload.notificationDetails, appKey, payload.event);
+        }
         break;
 
-      case 'notification_delivered':
-        console.log('[WEBHOOK] Notification delivered:', {
-          notificationId: body.notification_id,
-          fid: body.user?.fid,
-        });
-        // TODO: Track notification delivery metrics
+      case 'notifications_enabled':
+        if (!isNotificationDetails(payload.notificationDetails)) {
+          return NextResponse.json(
+            { success: false, error: 'notifications_enabled requires notificationDetails' },
+            { status: 400, headers: corsHeaders }
+          );
+        }
+        await saveNotificationToken(fid, payload.notificationDetails, appKey, payload.event);
         break;
 
-      case 'user_removed_app':
-        console.log('[WEBHOOK] User removed app:', {
-          fid: body.user?.fid,
-        });
-        // TODO: Track churn metrics
+      case 'miniapp_removed':
+      case 'frame_removed':
+      case 'notifications_disabled':
+        await disableNotificationToken(fid, payload.event);
         break;
 
       default:
-        console.log('[WEBHOOK] Unknown event type:', eventType);
+        console.log('[WEBHOOK] Unknown event type:', payload.event);
+        return NextResponse.json(
+          { success: false, error: `Unknown event: ${payload.event}` },
+          { status: 400, headers: corsHeaders }
+        );
     }
 
-    // Return success response
     return NextResponse.json(
       { success: true, received: true },
       { headers: corsHeaders }
@@ -74,14 +124,13 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     console.error('[WEBHOOK] Error processing webhook:', error);
 
-    // Return error response
     return NextResponse.json(
       {
         success: false,
-        error: error instanceof Error ? error.message : 'Invalid request',
+        error: error instanceof Error ? error.message : 'Failed to process event',
       },
       {
-        status: 400,
+        status: 500,
         headers: corsHeaders,
       }
     );
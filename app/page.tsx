@@ -13,8 +13,10 @@ import { SuccessModal } from "@/components/SuccessModal";
 import { TopSection } from "@/components/TopSection";
 import { SplashScreen } from "@/components/SplashScreen";
 import { BeforeMintShareBar } from "@/components/BeforeMintShareBar";
+import { GenerationVersions } from "@/components/GenerationVersions";
 import { useWarplets } from "@/hooks/useWarplets";
 import { useGenerationStorage } from "@/hooks/useGenerationStorage";
+import { useGenerationJob, JOB_STAGE_LABELS } from "@/hooks/useGenerationJob";
 import { useSplashTransition } from "@/hooks/useSplashTransition";
 import { checkFidMinted, sanitizeImageData } from "@/lib/generators";
 import { GEOPLET_CONFIG } from "@/lib/contracts";
@@ -38,10 +40,15 @@ export default function Home() {
   const { address } = useAccount();
   const { nft, fid, username, isLoading: isLoadingWarplet, hasWarplet } = useWarplets();
   const {
-    saveGeneration,
     loadGeneration,
     isLoading: isLoadingStorage,
   } = useGenerationStorage();
+  const {
+    status: generationStatus,
+    findActiveJob,
+    startJob,
+    waitForJob,
+  } = useGenerationJob();
 
   // Initialize Farcaster SDK with environment detection
   useEffect(() => {
@@ -121,10 +128,18 @@ export default function Home() {
       try {
         console.log("[PAYMENT-CHECK] Checking payment status for FID:", fid);
 
-        const response = await fetch(`/api/payment-tracking/${fid}`);
+        // Forward the outreach campaign param (?c=) for funnel attribution
+        const campaign = new URLSearchParams(window.location.search).get("c");
+        const response = await sdk.quickAuth.fetch(
+          `/api/payment-tracking/${fid}${campaign ? `?c=${encodeURIComponent(campaign)}` : ""}`
+        );
         const data = await response.json();
 
-        if (data.success && data.data.status === "settled") {
+        // Paid but not minted (ledger status settled, or failed after settlement)
+        if (
+          data.success &&
+          (data.data.status === "settled" || data.data.status === "failed")
+        ) {
           console.log("[PAYMENT-CHECK] ✅ Settled payment found:", {
             fid,
             settlement_tx_hash: data.data.settlement_tx_hash,
@@ -226,68 +241,65 @@ export default function Home() {
         );
         setIsMinted(false);
 
-        // Pre-check OpenAI availability
-        console.log("[AUTO-GEN] Step 0: Checking OpenAI availability...");
-        const precheckResponse = await fetch("/api/openai-precheck", {
-          method: "GET",
-          headers: { "Content-Type": "application/json" },
-        });
+        // Resume a job started before the app was closed
+        let job = await findActiveJob(fid);
+
+        if (job) {
+          console.log("[AUTO-GEN] Resuming in-flight generation job:", {
+            jobId: job.id,
+            status: job.status,
+          });
+        } else {
+          // The free generation is once per FID - show the saved one if it exists
+          const savedImage = await loadGeneration(fid);
+          if (savedImage) {
+            console.log("[AUTO-GEN] Saved generation found, skipping generation");
+            setGeneratedImage(savedImage);
+            setHasAutoGenerated(true);
+            return;
+          }
 
-        const precheckData = await precheckResponse.json();
+          // Pre-check image provider availability
+          console.log("[AUTO-GEN] Step 0: Checking image provider availability...");
+          const precheckResponse = await fetch("/api/openai-precheck", {
+            method: "GET",
+            headers: { "Content-Type": "application/json" },
+          });
 
-        if (!precheckResponse.ok || !precheckData.available) {
-          throw new Error(
-            precheckData.reason || "OpenAI service temporarily unavailable"
-          );
-        }
+          const precheckData = await precheckResponse.json();
+
+          if (!precheckResponse.ok || !precheckData.available) {
+            throw new Error(
+              precheckData.reason || "Image generation temporarily unavailable"
+            );
+          }
 
-        console.log("[AUTO-GEN] ✅ OpenAI service available");
+          console.log("[AUTO-GEN] ✅ Image provider available");
 
-        // Call generation API
-        const response = await fetch("/api/generate-image", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
+          // Queue generation (runs server-side even if the connection drops)
+          job = await startJob({
             imageUrl: nft.thumbnailUrl || nft.imageUrl,
             tokenId: nft.tokenId,
             name: `Warplet #${nft.tokenId}`,
-            fid: fid.toString(), // Add FID for free generation check
-          }),
-        });
-
-        const data = await response.json();
+            fid,
+            username,
+          });
 
-        if (!data.success || !data.imageData) {
-          throw new Error(data.error || "Generation failed");
+          console.log("[AUTO-GEN] Generation job queued:", job.id);
         }
 
-        // Save to Supabase
-        console.log("[AUTO-GEN] Attempting to save to Supabase", {
+        // The job saves the result to Supabase itself
+        const completed = await waitForJob(job.id);
+
+        console.log("[AUTO-GEN] ✅ Generation saved", {
           fid,
-          username,
-          imageSize: data.imageData.length,
-          imageSizeKB: (data.imageData.length / 1024).toFixed(2),
+          jobId: completed.id,
+          provider: completed.provider,
+          imageSizeKB: ((completed.imageData?.length ?? 0) / 1024).toFixed(2),
         });
 
-        const saved = await saveGeneration(fid, data.imageData, username || `fid-${fid}`);
-        if (!saved) {
-          console.error("[AUTO-GEN] ❌ FAILED TO SAVE:", {
-            fid,
-            imageDataLength: data.imageData.length,
-          });
-          toast.error(
-            `Failed to save image for FID ${fid}. Image may be too large. Check console for details.`,
-            {
-              duration: 5000,
-            }
-          );
-          // Note: Image still displays in memory, but won't persist after app closure
-        } else {
-          console.log("[AUTO-GEN] ✅ Saved to Supabase successfully");
-        }
-
         // Update state
-        setGeneratedImage(data.imageData);
+        setGeneratedImage(completed.imageData);
         setHasAutoGenerated(true);
         console.log("[AUTO-GEN] Auto-generation completed successfully");
       } catch (error) {
@@ -328,7 +340,7 @@ export default function Home() {
     }, 5000);
 
     return () => clearTimeout(timer);
-  }, [address, nft, fid, hasAutoGenerated, isGenerating, saveGeneration]);
+  }, [address, nft, fid, hasAutoGenerated, isGenerating, loadGeneration, findActiveJob, startJob, waitForJob]);
 
   return (
     <>
@@ -365,10 +377,25 @@ export default function Home() {
                   warpletTokenId={nft?.tokenId || null}
                   generatedImage={generatedImage}
                   isGenerating={isGenerating}
+                  generationStage={generationStatus ? JOB_STAGE_LABELS[generationStatus] : null}
                   isMinted={isMinted}
                 />
               </div>
 
+              {/* Version history + regenerate (unminted only) */}
+              {!isMinted && !isGenerating && generatedImage && fid && nft && (
+                <GenerationVersions
+                  fid={fid}
+                  source={{
+                    imageUrl: nft.thumbnailUrl || nft.imageUrl,
+                    tokenId: nft.tokenId,
+                    name: `Warplet #${nft.tokenId}`,
+                    username,
+                  }}
+                  onImageChange={setGeneratedImage}
+                />
+              )}
+
               {/* Badge Section - Trust signals and features */}
               <BadgeSection />
 
@@ -1,18 +1,28 @@
 import { Metadata } from "next";
 import SharePageClient from "./SharePageClient";
+import { CAMPAIGN_PARAM, parseCampaignParam } from "@/lib/funnel";
 
 const appUrl = process.env.NEXT_PUBLIC_APP_URL || "https://geoplet.geoart.studio";
 
 interface SharePageProps {
   params: Promise<{ fid: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
 }
 
 export async function generateMetadata({
   params,
+  searchParams,
 }: SharePageProps): Promise<Metadata> {
   try {
     const { fid } = await params;
 
+    // Outreach casts carry ?c=<campaign id> → forward it to the app for attribution
+    const query = await searchParams;
+    const campaignId = parseCampaignParam(
+      typeof query[CAMPAIGN_PARAM] === "string" ? query[CAMPAIGN_PARAM] : null
+    );
+    const launchUrl = campaignId ? `${appUrl}/?${CAMPAIGN_PARAM}=${campaignId}` : appUrl;
+
     return {
       title: "Your Geoplet is Waiting!",
       description: "Your personalized Geoplet is ready to be minted. When geometric art meets Warplet!",
@@ -36,7 +46,7 @@ export async function generateMetadata({
             action: {
               type: "launch_frame",
               name: "Geoplet",
-              url: appUrl,
+              url: launchUrl,
               splashImageUrl: `${appUrl}/splash.webp`,
               splashBackgroundColor: "#f3daa1",
             },
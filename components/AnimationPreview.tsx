@@ -0,0 +1,80 @@
+'use client';
+
+/**
+ * AnimationPreview Component
+ *
+ * Renders the animation a Geoplet would get from the animated upgrade
+ * (/api/animation-preview/[tokenId]) in a sandboxed iframe - same HTML the
+ * contract stores, so what you see is what gets written on-chain.
+ */
+
+import { useEffect, useState } from 'react';
+import { decodeAnimationHtml } from '@/lib/animation';
+
+interface AnimationPreviewProps {
+  tokenId: number;
+}
+
+export function AnimationPreview({ tokenId }: AnimationPreviewProps) {
+  const [html, setHtml] = useState<string | null>(null);
+  const [sizeKB, setSizeKB] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadPreview = async () => {
+      setHtml(null);
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/animation-preview/${tokenId}`);
+        const data = await response.json();
+
+        if (!response.ok || !data.success) {
+          throw new Error(data.error || 'Failed to load preview');
+        }
+
+        if (!cancelled) {
+          setHtml(decodeAnimationHtml(data.animation));
+          setSizeKB(data.sizeKB);
+        }
+      } catch (err) {
+        console.error('[ANIMATION-PREVIEW] Failed to load preview:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load preview');
+        }
+      }
+    };
+
+    loadPreview();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tokenId]);
+
+  return (
+    <div className="space-y-2">
+      <div className="relative w-full aspect-square rounded-xl overflow-hidden bg-gray-100">
+        {html ? (
+          <iframe
+            srcDoc={html}
+            sandbox=""
+            title={`Geoplet #${tokenId} animation preview`}
+            className="absolute inset-0 w-full h-full border-0"
+          />
+        ) : (
+          <div className="absolute inset-0 flex items-center justify-center text-sm text-black/50">
+            {error ?? 'Building animation...'}
+          </div>
+        )}
+      </div>
+      {sizeKB !== null && (
+        <p className="text-xs text-black/40 text-center">
+          {sizeKB.toFixed(1)}KB of 24KB on-chain budget
+        </p>
+      )}
+    </div>
+  );
+}
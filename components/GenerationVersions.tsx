@@ -0,0 +1,122 @@
+'use client';
+
+/**
+ * GenerationVersions Component
+ *
+ * Version picker + regenerate for an unminted Geoplet
+ * - Thumbnails of every generated version, tap one to mint it instead
+ * - "Regenerate" is free while the FID has free regenerations left,
+ *   then PAYMENT_CONFIG.REGENERATE via x402 (a failed paid one is retried free)
+ */
+
+import { RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { RotatingText } from './RotatingText';
+import { useGenerationVersions } from '@/hooks/useGenerationVersions';
+import { JOB_STAGE_LABELS, type GenerationJobInput } from '@/hooks/useGenerationJob';
+import { haptics } from '@/lib/haptics';
+
+interface GenerationVersionsProps {
+  fid: number;
+  source: Omit<GenerationJobInput, 'fid'>;   // Warplet to regenerate from
+  onImageChange: (imageData: string) => void;
+}
+
+function toDataUri(imageData: string): string {
+  return imageData.startsWith('data:') ? imageData : `data:image/webp;base64,${imageData}`;
+}
+
+export function GenerationVersions({ fid, source, onImageChange }: GenerationVersionsProps) {
+  const {
+    versions,
+    selectedId,
+    quota,
+    isRegenerating,
+    paymentStatus,
+    jobStatus,
+    selectVersion,
+    regenerate,
+  } = useGenerationVersions(fid);
+
+  const handleSelect = async (versionId: string) => {
+    if (versionId === selectedId || isRegenerating) return;
+
+    try {
+      const version = await selectVersion(versionId);
+      onImageChange(version.imageData);
+      haptics.tap();
+    } catch (error) {
+      console.error('[GEN-VERSION] Select failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to select version');
+    }
+  };
+
+  const handleRegenerate = async () => {
+    try {
+      const imageData = await regenerate(source);
+      onImageChange(imageData);
+      haptics.success();
+      toast.success('New version ready!');
+    } catch (error) {
+      console.error('[GEN-VERSION] Regenerate failed:', error);
+      haptics.error();
+      toast.error(error instanceof Error ? error.message : 'Regeneration failed');
+    }
+  };
+
+  const getButtonContent = () => {
+    if (isRegenerating) {
+      if (jobStatus) return JOB_STAGE_LABELS[jobStatus];
+      if (paymentStatus !== 'idle' && paymentStatus !== 'success') {
+        return <RotatingText messages={['Initiating x402...', 'Verifying payment...']} interval={2000} />;
+      }
+      return 'Queueing...';
+    }
+
+    const label =
+      quota?.hasCredit
+        ? 'Regenerate (paid)'
+        : quota && quota.freeRemaining > 0
+        ? `Regenerate (${quota.freeRemaining} free)`
+        : `Regenerate (${quota?.price ?? '…'} USDC)`;
+
+    return (
+      <span className="flex items-center gap-1">
+        <RefreshCw className="w-4 h-4" />
+        {label}
+      </span>
+    );
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      {versions.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto max-w-full px-2" role="listbox" aria-label="Generated versions">
+          {versions.map((version) => (
+            <button
+              key={version.id}
+              role="option"
+              aria-selected={version.id === selectedId}
+              onClick={() => handleSelect(version.id)}
+              disabled={isRegenerating}
+              className={`relative shrink-0 w-14 h-14 rounded-lg overflow-hidden border-2 cursor-pointer ${
+                version.id === selectedId ? 'border-black' : 'border-transparent opacity-70'
+              }`}
+            >
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img src={toDataUri(version.imageData)} alt={`Version ${version.version}`} className="w-full h-full object-cover" />
+              <span className="absolute bottom-0 right-0 bg-black/60 text-white text-[10px] px-1 rounded-tl">
+                v{version.version}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <Button size="sm" variant="outline" onClick={handleRegenerate} disabled={isRegenerating || !quota} className="w-fit">
+        {getButtonContent()}
+      </Button>
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ interface HeroSectionProps {
   warpletTokenId: string | null;
   generatedImage: string | null;
   isGenerating?: boolean;
+  generationStage?: string | null;   // Current job step (see hooks/useGenerationJob.ts)
   isMinted?: boolean;
   error?: string | null;
 }
@@ -18,6 +19,7 @@ export function HeroSection({
   warpletTokenId,
   generatedImage,
   isGenerating = false,
+  generationStage = null,
   isMinted = false,
   error = null,
 }: HeroSectionProps) {
@@ -92,6 +94,9 @@ export function HeroSection({
                 interval={2000}
                 className="text-lg font-medium"
               />
+              {generationStage && (
+                <p className="text-sm text-black/60">{generationStage}</p>
+              )}
             </div>
           </div>
         )}
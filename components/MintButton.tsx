@@ -6,11 +6,14 @@
  * Handles minting of generated Geoplet ($1 USDC)
  * - Enabled when generated image exists
  * - Integrates x402 payment verification
+ * - Pays with Base USDC, or with Solana USDC (Farcaster Solana wallet)
+ *   when the Base balance is too low
  * - Shows success modal
  */
 
 import { useState, useCallback, useRef, useEffect } from "react";
 import { useAccount } from "wagmi";
+import { sdk } from "@farcaster/miniapp-sdk";
 import { Button } from "./ui/button";
 import { Sparkles } from "lucide-react";
 import { useWarplets } from "@/hooks/useWarplets";
@@ -22,7 +25,7 @@ import { haptics } from "@/lib/haptics";
 import { toast } from "sonner";
 import { TokenUSDC } from "@web3icons/react";
 import { RotatingText } from "./RotatingText";
-import { PAYMENT_CONFIG } from "@/lib/payment-config";
+import { PAYMENT_CONFIG, type PaymentNetwork } from "@/lib/payment-config";
 import { useContractSimulation } from "@/hooks/useContractSimulation";
 import { gsap } from "gsap";
 
@@ -59,6 +62,7 @@ export function MintButton({
   const { checkEligibility, simulateMint } = useContractSimulation();
 
   const [state, setState] = useState<ButtonState>("idle");
+  const [hasSolanaWallet, setHasSolanaWallet] = useState(false);
   const [isCheckingMintStatus, setIsCheckingMintStatus] = useState(false);
   // State managed but not read - used for cleanup/reset logic throughout mint flow
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -66,6 +70,7 @@ export function MintButton({
     useState<MintSignatureResponse | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
   const successCalledRef = useRef(false);
+  const submittedHashRef = useRef<string | null>(null);
   const buttonRef = useRef<HTMLButtonElement>(null);
 
   // Button hover/press animation
@@ -88,6 +93,16 @@ export function MintButton({
     };
   }, []);
 
+  // Solana wallet = alternative payment source (no bridging needed)
+  useEffect(() => {
+    sdk.wallet
+      .getSolanaProvider()
+      .then((provider) => setHasSolanaWallet(!!provider))
+      .catch(() => setHasSolanaWallet(false));
+  }, []);
+
+  const paymentNetwork: PaymentNetwork = hasEnoughUSDC ? "base" : "solana";
+
   // Check FID and USDC balance on mount
   useEffect(() => {
     async function checkInitialState() {
@@ -102,14 +117,29 @@ export function MintButton({
         return;
       }
 
-      if (!hasEnoughUSDC) {
+      if (!hasEnoughUSDC && !hasSolanaWallet) {
         setState("insufficient_usdc");
       } else {
         setState("idle");
       }
     }
     checkInitialState();
-  }, [fid, hasEnoughUSDC]);
+  }, [fid, hasEnoughUSDC, hasSolanaWallet]);
+
+  // Report submitted mint transaction (payment ledger: settled → mint_submitted)
+  useEffect(() => {
+    if (txHash && fid && submittedHashRef.current !== txHash) {
+      submittedHashRef.current = txHash;
+
+      sdk.quickAuth.fetch(`/api/payment-tracking/${fid}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status: "mint_submitted", tx_hash: txHash }),
+      }).catch((err) => {
+        console.error("[MINT] Failed to report submitted mint:", err);
+      });
+    }
+  }, [txHash, fid]);
 
   // Handle mint success
   useEffect(() => {
@@ -117,12 +147,12 @@ export function MintButton({
       successCalledRef.current = true;
 
       // Update payment tracking status to 'minted' with mint tx hash
-      fetch(`/api/payment-tracking/${fid}`, {
+      sdk.quickAuth.fetch(`/api/payment-tracking/${fid}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           status: "minted",
-          mint_tx_hash: txHash,
+          tx_hash: txHash,
         }),
       }).catch((err) => {
         console.error("[MINT] Failed to update payment tracking:", err);
@@ -159,6 +189,7 @@ export function MintButton({
     }
 
     abortControllerRef.current = new AbortController();
+    let paymentSettled = false;
 
     try {
       // Validate image size
@@ -196,9 +227,10 @@ export function MintButton({
       console.log("[MINT] Step 1: Starting payment verification", {
         fid,
         address,
+        paymentNetwork,
       });
       setState("paying");
-      const signature = await requestMintSignature(fid.toString());
+      const signature = await requestMintSignature(fid.toString(), paymentNetwork);
 
       if (abortControllerRef.current.signal.aborted) {
         setSignatureData(null);
@@ -275,6 +307,7 @@ export function MintButton({
       }
 
       console.log("[MINT] ✅ Payment settled:", settleData.txHash);
+      paymentSettled = true;
 
       if (abortControllerRef.current.signal.aborted) {
         setSignatureData(null);
@@ -303,6 +336,17 @@ export function MintButton({
       const errorMessage =
         error instanceof Error ? error.message : "Failed to mint";
 
+      // Paid but not minted: mark failed so the recovery path (MintPaidButton) opens
+      if (paymentSettled) {
+        sdk.quickAuth.fetch(`/api/payment-tracking/${fid}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ status: "failed", error: errorMessage }),
+        }).catch((err) => {
+          console.error("[MINT] Failed to update status to failed:", err);
+        });
+      }
+
       // Handle specific errors
       if (errorMessage.toLowerCase().includes("minted")) {
         setState("already_minted");
@@ -328,6 +372,7 @@ export function MintButton({
     simulateMint,
     mintNFT,
     address,
+    paymentNetwork,
   ]);
 
   // Button content
@@ -415,7 +460,8 @@ export function MintButton({
           <div className="text-lg flex flex-row font-semiboLD">
             <Sparkles className="w-5 h-5" />
             MINT ( <TokenUSDC className="w-12 h-12" variant="branded" />
-            {PAYMENT_CONFIG.MINT.price})
+            {PAYMENT_CONFIG.MINT.price}
+            {paymentNetwork === "solana" && " on Solana"})
           </div>
         );
     }
@@ -12,6 +12,7 @@
 
 import { useState, useCallback, useRef, useEffect } from "react";
 import { useAccount } from "wagmi";
+import { sdk } from "@farcaster/miniapp-sdk";
 import { Button } from "./ui/button";
 import { Sparkles } from "lucide-react";
 import { useWarplets } from "@/hooks/useWarplets";
@@ -53,6 +54,7 @@ export function MintPaidButton({
     useState<MintSignatureResponse | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
   const successCalledRef = useRef(false);
+  const submittedHashRef = useRef<string | null>(null);
   const buttonRef = useRef<HTMLButtonElement>(null);
 
   // Button hover/press animation
@@ -75,18 +77,33 @@ export function MintPaidButton({
     };
   }, []);
 
+  // Report submitted mint transaction (payment ledger: settled → mint_submitted)
+  useEffect(() => {
+    if (txHash && fid && submittedHashRef.current !== txHash) {
+      submittedHashRef.current = txHash;
+
+      sdk.quickAuth.fetch(`/api/payment-tracking/${fid}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status: "mint_submitted", tx_hash: txHash }),
+      }).catch((err) => {
+        console.error("[MINT-PAID] Failed to report submitted mint:", err);
+      });
+    }
+  }, [txHash, fid]);
+
   // Handle mint success
   useEffect(() => {
     if (isSuccess && txHash && fid && !successCalledRef.current) {
       successCalledRef.current = true;
 
       // Update payment tracking status to 'minted' with mint tx hash
-      fetch(`/api/payment-tracking/${fid}`, {
+      sdk.quickAuth.fetch(`/api/payment-tracking/${fid}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           status: "minted",
-          mint_tx_hash: txHash,
+          tx_hash: txHash,
         }),
       }).catch((err) => {
         console.error("[MINT-PAID] Failed to update payment tracking:", err);
@@ -168,7 +185,7 @@ export function MintPaidButton({
       });
       setState("getting_signature");
 
-      const signatureResponse = await fetch("/api/get-mint-signature-paid", {
+      const signatureResponse = await sdk.quickAuth.fetch("/api/get-mint-signature-paid", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -243,10 +260,10 @@ export function MintPaidButton({
 
       // Update payment tracking to 'failed' status
       if (fid) {
-        fetch(`/api/payment-tracking/${fid}`, {
+        sdk.quickAuth.fetch(`/api/payment-tracking/${fid}`, {
           method: "PATCH",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ status: "failed" }),
+          body: JSON.stringify({ status: "failed", error: errorMessage }),
         }).catch((err) => {
           console.error("[MINT-PAID] Failed to update status to failed:", err);
         });
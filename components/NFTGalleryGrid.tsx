@@ -9,7 +9,15 @@ import { getNFTById, GEOPLET_ADDRESS } from "@/lib/rarible";
 import { GEOPLET_CONFIG } from "@/lib/contracts";
 import { SHARE_CONFIG } from "@/lib/share-config";
 import { ExpandableShareButton } from "./ExpandableShareButton";
+import { VaultPanel } from "./VaultPanel";
+import { AnimationGenerator } from "./AnimationGenerator";
 import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import { toast } from "sonner";
 import { haptics } from "@/lib/haptics";
 import { usePublicClient } from "wagmi";
@@ -149,6 +157,9 @@ export function NFTGalleryGrid({
   const [featuredError, setFeaturedError] = useState<string | null>(null);
   const cachedFidRef = useRef<number | null>(null);
 
+  // Selected gallery tile (detail dialog with vault balances)
+  const [selectedNFT, setSelectedNFT] = useState<GeopletNFT | null>(null);
+
   useEffect(() => {
     if (!userFid) {
       // Intentional: Clear featured NFT state when user logs out or FID becomes unavailable
@@ -437,6 +448,12 @@ export function NFTGalleryGrid({
                   />
                 </div>
               </div>
+
+              {/* Animated upgrade (x402) */}
+              <AnimationGenerator tokenId={myGeoplet.tokenId} />
+
+              {/* Token-bound vault balances */}
+              <VaultPanel tokenId={myGeoplet.tokenId} />
             </>
           ) : (
             <div className="flex items-center justify-center">
@@ -459,7 +476,10 @@ export function NFTGalleryGrid({
           return (
             <div key={nft.tokenId} className="flex flex-col gap-1">
               {/* NFT Image */}
-              <div className="group relative aspect-square rounded-xl overflow-hidden cursor-pointer transition-colors">
+              <div
+                className="group relative aspect-square rounded-xl overflow-hidden cursor-pointer transition-colors"
+                onClick={() => setSelectedNFT(nft)}
+              >
                 <div className="relative w-full h-full">
                   <NFTImage
                     src={nft.image}
@@ -490,6 +510,31 @@ export function NFTGalleryGrid({
           ))}
       </div>
 
+      {/* NFT Detail Dialog */}
+      <Dialog
+        open={selectedNFT !== null}
+        onOpenChange={(open) => !open && setSelectedNFT(null)}
+      >
+        <DialogContent className="max-w-sm">
+          {selectedNFT && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{selectedNFT.name}</DialogTitle>
+              </DialogHeader>
+              <div className="relative w-full aspect-square rounded-xl overflow-hidden">
+                <NFTImage
+                  src={selectedNFT.image}
+                  alt={selectedNFT.name}
+                  className="object-contain rounded-xl"
+                  tokenId={selectedNFT.tokenId}
+                />
+              </div>
+              <VaultPanel tokenId={selectedNFT.tokenId} />
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Infinite scroll trigger */}
       {hasMore && (
         <div
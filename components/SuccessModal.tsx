@@ -3,7 +3,7 @@
 import Image from "next/image";
 import { useCallback } from "react";
 import { Dialog, DialogContent } from "./ui/dialog";
-import { ExternalLink } from "lucide-react";
+import { Bell, ExternalLink } from "lucide-react";
 import { sdk } from "@farcaster/miniapp-sdk";
 import { toast } from "sonner";
 import { haptics } from "@/lib/haptics";
@@ -63,6 +63,25 @@ export function SuccessModal({
     haptics.tap();
   }, [fid]);
 
+  // Mini app notifications - the token reaches us via the signed webhook, never from the client
+  const handleEnableNotifications = useCallback(async () => {
+    try {
+      const result = await sdk.actions.addMiniApp();
+
+      haptics.success();
+      toast.success(
+        result.notificationDetails
+          ? "Notifications enabled!"
+          : "Geoplet added - enable notifications in your app settings"
+      );
+    } catch (error) {
+      console.error("Add mini app error:", error);
+      if (error instanceof Error && error.name === "AddMiniApp.RejectedByUser") return;
+      haptics.error();
+      toast.error("Failed to enable notifications");
+    }
+  }, []);
+
   // Transform raw base64 to data URI if needed (KISS: display layer transformation)
   const displayImage =
     image && !image.startsWith("data:")
@@ -180,6 +199,18 @@ export function SuccessModal({
               </svg>
             </button>
           </div>
+
+          {/* Notifications prompt */}
+          <div className="flex justify-center">
+            <button
+              type="button"
+              onClick={handleEnableNotifications}
+              className="text-sm text-amber-900 hover:underline flex items-center gap-1"
+            >
+              <Bell className="w-4 h-4" />
+              <span>Get notified about your Geoplet</span>
+            </button>
+          </div>
         </div>
       </DialogContent>
     </Dialog>
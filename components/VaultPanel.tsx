@@ -0,0 +1,176 @@
+"use client";
+
+/**
+ * VaultPanel Component
+ *
+ * Shows the ERC20 balances held inside a Geoplet (token-bound treasury)
+ * - Balances for every supported vault token
+ * - Withdraw per token (NFT holder, once withdrawals are enabled)
+ * - Deposit form (collection owner only - depositToToken is onlyOwner)
+ */
+
+import { useState } from "react";
+import { formatUnits } from "viem";
+import { Button } from "./ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { useVault } from "@/hooks/useVault";
+import { VAULT_TOKENS } from "@/lib/vault-config";
+import { GEOPLET_CONFIG } from "@/lib/contracts";
+import { haptics } from "@/lib/haptics";
+import { toast } from "sonner";
+
+interface VaultPanelProps {
+  tokenId: number;
+}
+
+export function VaultPanel({ tokenId }: VaultPanelProps) {
+  const {
+    balances,
+    withdrawalsEnabled,
+    isHolder,
+    isContractOwner,
+    isLoading,
+    action,
+    txHash,
+    deposit,
+    withdraw,
+  } = useVault(tokenId);
+
+  const [depositSymbol, setDepositSymbol] = useState(VAULT_TOKENS[0].symbol);
+  const [depositAmount, setDepositAmount] = useState("");
+
+  const isBusy = action !== null;
+
+  const handleWithdraw = async (symbol: string) => {
+    const entry = balances.find((b) => b.token.symbol === symbol);
+    if (!entry) return;
+
+    try {
+      await withdraw(entry.token);
+      haptics.success();
+      toast.success(`Withdrew ${symbol} from Geoplet #${tokenId}`);
+    } catch (error) {
+      console.error("[VAULT] Withdraw failed:", error);
+      haptics.error();
+      toast.error(error instanceof Error ? error.message : "Withdraw failed");
+    }
+  };
+
+  const handleDeposit = async () => {
+    const token = VAULT_TOKENS.find((t) => t.symbol === depositSymbol);
+    if (!token || !depositAmount) return;
+
+    try {
+      await deposit(token, depositAmount);
+      haptics.success();
+      toast.success(`Deposited ${depositAmount} ${token.symbol} into Geoplet #${tokenId}`);
+      setDepositAmount("");
+    } catch (error) {
+      console.error("[VAULT] Deposit failed:", error);
+      haptics.error();
+      toast.error(error instanceof Error ? error.message : "Deposit failed");
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2 rounded-xl border border-black/8 p-3">
+      <p className="text-xs font-medium text-black/60">Vault</p>
+
+      {/* Balances */}
+      {isLoading ? (
+        <p className="text-xs text-black/40">Loading balances...</p>
+      ) : (
+        <ul className="flex flex-col gap-1">
+          {balances.map(({ token, balance }) => (
+            <li
+              key={token.address}
+              className="flex items-center justify-between gap-2 text-sm"
+            >
+              <span>
+                {formatUnits(balance, token.decimals)} {token.symbol}
+              </span>
+              {isHolder && withdrawalsEnabled && balance > BigInt(0) && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-7 text-xs"
+                  disabled={isBusy}
+                  onClick={() => handleWithdraw(token.symbol)}
+                >
+                  {action === "withdrawing" ? "Withdrawing..." : "Withdraw"}
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {isHolder && !withdrawalsEnabled && (
+        <p className="text-[10px] text-black/40">
+          Withdrawals are not enabled yet.
+        </p>
+      )}
+
+      {/* Deposit (collection owner only) */}
+      {isContractOwner ? (
+        <div className="flex flex-col gap-2 border-t border-black/8 pt-2">
+          <div className="flex gap-2">
+            <Select value={depositSymbol} onValueChange={setDepositSymbol}>
+              <SelectTrigger size="sm" className="w-24">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {VAULT_TOKENS.map((token) => (
+                  <SelectItem key={token.address} value={token.symbol}>
+                    {token.symbol}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <input
+              type="text"
+              inputMode="decimal"
+              placeholder="0.00"
+              value={depositAmount}
+              onChange={(e) => setDepositAmount(e.target.value.replace(/[^0-9.]/g, ""))}
+              className="min-w-0 flex-1 rounded-md border border-black/10 px-2 text-sm"
+              aria-label="Deposit amount"
+            />
+          </div>
+          <Button
+            size="sm"
+            disabled={isBusy || !depositAmount || Number(depositAmount) <= 0}
+            onClick={handleDeposit}
+          >
+            {action === "approving"
+              ? "Approving..."
+              : action === "depositing"
+              ? "Depositing..."
+              : "Deposit"}
+          </Button>
+        </div>
+      ) : (
+        <p className="text-[10px] text-black/40">
+          Deposits are made by the Geoplets team.
+        </p>
+      )}
+
+      {txHash && (
+        <a
+          href={`${GEOPLET_CONFIG.explorers.basescan}/tx/${txHash}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-[10px] text-black/40 underline"
+        >
+          View last transaction
+        </a>
+      )}
+    </div>
+  );
+}
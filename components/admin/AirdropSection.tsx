@@ -0,0 +1,391 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { formatUnits } from "viem";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { useAirdrop, resolveAmounts, type ApprovalInfo } from "@/hooks/useAirdrop";
+import { VAULT_TOKENS } from "@/lib/vault-config";
+import { GEOPLET_CONFIG } from "@/lib/contracts";
+import type { RarityLevel } from "@/lib/rarity";
+import {
+  AIRDROP_CHUNK_SIZE,
+  MAX_CONTRACT_BATCH,
+  chunkList,
+  parseAirdropList,
+  type AirdropEntry,
+} from "@/lib/airdrop";
+import type { AirdropBatch } from "@/lib/supabase";
+
+type HolderSource = "all" | "rarity" | "pasted";
+
+const RARITY_LEVELS: RarityLevel[] = ["Common", "Uncommon", "Rare", "Epic", "Legendary"];
+
+/**
+ * AirdropSection Component
+ *
+ * Admin console for batch ERC20 deposits into Geoplets (community rewards)
+ * - Select holders: all minted, by rarity, or pasted token IDs ("id" or "id:amount")
+ * - Shows total, owner wallet balance and approval requirement
+ * - Splits into gas-safe chunks and records every tx hash
+ */
+export function AirdropSection() {
+  const {
+    holders,
+    isLoadingHolders,
+    loadHolders,
+    getApprovalInfo,
+    runAirdrop,
+    chunks,
+    isRunning,
+    isApproving,
+  } = useAirdrop();
+
+  const [source, setSource] = useState<HolderSource>("all");
+  const [rarity, setRarity] = useState<RarityLevel>("Legendary");
+  const [pasted, setPasted] = useState("");
+  const [tokenSymbol, setTokenSymbol] = useState(VAULT_TOKENS[0].symbol);
+  const [amount, setAmount] = useState("");
+  const [chunkSize, setChunkSize] = useState(AIRDROP_CHUNK_SIZE);
+  const [approval, setApproval] = useState<ApprovalInfo | null>(null);
+  const [history, setHistory] = useState<AirdropBatch[]>([]);
+
+  const token = VAULT_TOKENS.find((t) => t.symbol === tokenSymbol) ?? VAULT_TOKENS[0];
+
+  // Resolve selected recipients
+  const parsed = useMemo(() => parseAirdropList(pasted), [pasted]);
+
+  const entries: AirdropEntry[] = useMemo(() => {
+    if (source === "pasted") return parsed.entries;
+
+    return holders
+      .filter((h) => source === "all" || h.rarity?.toLowerCase() === rarity.toLowerCase())
+      .map((h) => ({ tokenId: h.tokenId }));
+  }, [source, rarity, holders, parsed.entries]);
+
+  // Total (upper bound - burned IDs are skipped by the contract)
+  const total = useMemo(() => {
+    try {
+      return resolveAmounts(entries, amount, token.decimals).reduce(
+        (sum, value) => sum + value,
+        BigInt(0)
+      );
+    } catch {
+      return null; // Invalid amount input
+    }
+  }, [entries, amount, token.decimals]);
+
+  const chunkCount = chunkList(entries, chunkSize).length;
+
+  // Load holder list once when a holder-based source is used
+  useEffect(() => {
+    if (source !== "pasted" && holders.length === 0 && !isLoadingHolders) {
+      loadHolders().catch((error) => {
+        console.error("[AIRDROP] Failed to load holders:", error);
+        toast.error("Failed to load holders");
+      });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [source]);
+
+  // Refresh balance/allowance whenever the total changes
+  useEffect(() => {
+    if (!total || total === BigInt(0)) {
+      setApproval(null);
+      return;
+    }
+
+    getApprovalInfo(token, total)
+      .then(setApproval)
+      .catch((error) => console.error("[AIRDROP] Failed to read allowance:", error));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token.address, total]);
+
+  const fetchHistory = async () => {
+    try {
+      const response = await fetch("/api/admin/airdrop?limit=20");
+      const data = await response.json();
+      if (data.success) {
+        setHistory(data.batches);
+      }
+    } catch (error) {
+      console.error("[AIRDROP] Failed to load history:", error);
+    }
+  };
+
+  useEffect(() => {
+    fetchHistory();
+  }, []);
+
+  const handleRun = async () => {
+    try {
+      const result = await runAirdrop({ token, entries, amountPerToken: amount, chunkSize });
+      toast.success(`Airdrop complete: ${result.chunks} batch(es) confirmed`);
+    } catch (error) {
+      console.error("[AIRDROP] Airdrop failed:", error);
+      toast.error(error instanceof Error ? error.message : "Airdrop failed");
+    } finally {
+      fetchHistory();
+      if (total) {
+        getApprovalInfo(token, total).then(setApproval).catch(() => undefined);
+      }
+    }
+  };
+
+  const hasAmounts =
+    entries.length > 0 &&
+    (entries.every((e) => e.amount) || Number(amount) > 0);
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-3">
+      <Card className="p-6 lg:col-span-2">
+        <h3 className="text-lg font-semibold mb-4">Airdrop to Geoplets</h3>
+
+        {/* Recipients */}
+        <div className="mb-4 grid gap-4 sm:grid-cols-2">
+          <div>
+            <label className="text-sm font-medium mb-2 block">Recipients</label>
+            <Select value={source} onValueChange={(v) => setSource(v as HolderSource)}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All minted Geoplets</SelectItem>
+                <SelectItem value="rarity">Filter by rarity</SelectItem>
+                <SelectItem value="pasted">Pasted token IDs</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {source === "rarity" && (
+            <div>
+              <label className="text-sm font-medium mb-2 block">Rarity</label>
+              <Select value={rarity} onValueChange={(v) => setRarity(v as RarityLevel)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RARITY_LEVELS.map((level) => (
+                    <SelectItem key={level} value={level}>
+                      {level}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        {source === "pasted" && (
+          <div className="mb-4">
+            <label className="text-sm font-medium mb-2 block">Token IDs</label>
+            <Textarea
+              value={pasted}
+              onChange={(e) => setPasted(e.target.value)}
+              placeholder={"One per line or comma separated.\nUse \"tokenId:amount\" per line for custom amounts."}
+              rows={6}
+              className="font-mono text-xs"
+            />
+            {parsed.invalid.length > 0 && (
+              <p className="text-xs text-destructive mt-1">
+                Ignored {parsed.invalid.length} invalid value(s): {parsed.invalid.slice(0, 5).join(", ")}
+                {parsed.invalid.length > 5 ? "…" : ""}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Token + amount */}
+        <div className="mb-4 grid gap-4 sm:grid-cols-3">
+          <div>
+            <label className="text-sm font-medium mb-2 block">Token</label>
+            <Select value={tokenSymbol} onValueChange={setTokenSymbol}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {VAULT_TOKENS.map((t) => (
+                  <SelectItem key={t.address} value={t.symbol}>
+                    {t.symbol}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="text-sm font-medium mb-2 block">Amount per Geoplet</label>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value.replace(/[^0-9.]/g, ""))}
+              placeholder="0.00"
+              className="h-9 w-full rounded-md border px-3 text-sm"
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium mb-2 block">Batch size</label>
+            <input
+              type="number"
+              min={1}
+              max={MAX_CONTRACT_BATCH}
+              value={chunkSize}
+              onChange={(e) =>
+                setChunkSize(
+                  Math.min(MAX_CONTRACT_BATCH, Math.max(1, parseInt(e.target.value, 10) || 1))
+                )
+              }
+              className="h-9 w-full rounded-md border px-3 text-sm"
+            />
+          </div>
+        </div>
+
+        {/* Summary */}
+        <div className="mb-4 p-3 bg-muted rounded-lg text-sm space-y-1">
+          <p>
+            Recipients:{" "}
+            <strong>{isLoadingHolders ? "Loading..." : entries.length}</strong>
+            {" · "}Transactions: <strong>{chunkCount}</strong>
+          </p>
+          <p>
+            Total:{" "}
+            <strong>
+              {total !== null ? `${formatUnits(total, token.decimals)} ${token.symbol}` : "Invalid amount"}
+            </strong>
+            <span className="text-xs text-muted-foreground"> (burned IDs are skipped, not charged)</span>
+          </p>
+          {approval && (
+            <p className="flex flex-wrap items-center gap-2">
+              Wallet: {formatUnits(approval.balance, token.decimals)} {token.symbol}
+              {!approval.hasEnoughBalance && <Badge variant="destructive">Insufficient balance</Badge>}
+              {approval.needsApproval ? (
+                <Badge variant="secondary">Approval required</Badge>
+              ) : (
+                <Badge variant="outline">Approved</Badge>
+              )}
+            </p>
+          )}
+        </div>
+
+        {approval && !approval.hasEnoughBalance && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertDescription>
+              The owner wallet does not hold enough {token.symbol} for this airdrop.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Button
+          onClick={handleRun}
+          disabled={
+            isRunning ||
+            !hasAmounts ||
+            total === null ||
+            (approval !== null && !approval.hasEnoughBalance)
+          }
+          className="w-full"
+          size="lg"
+        >
+          {isApproving
+            ? "Approving..."
+            : isRunning
+            ? "Sending batches..."
+            : `Airdrop to ${entries.length} Geoplet(s)`}
+        </Button>
+
+        {/* Current run progress */}
+        {chunks.length > 0 && (
+          <div className="mt-4 space-y-2">
+            {chunks.map((chunk) => (
+              <div
+                key={chunk.index}
+                className="flex items-center justify-between gap-2 text-xs"
+              >
+                <span>
+                  Batch {chunk.index + 1}/{chunks.length} · {chunk.tokenIds.length} Geoplets
+                </span>
+                <span className="flex items-center gap-2">
+                  {chunk.txHash && (
+                    <a
+                      href={`${GEOPLET_CONFIG.explorers.basescan}/tx/${chunk.txHash}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="font-mono underline"
+                    >
+                      {chunk.txHash.slice(0, 10)}…
+                    </a>
+                  )}
+                  <Badge variant={chunk.status === "failed" ? "destructive" : "secondary"}>
+                    {chunk.status}
+                  </Badge>
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+
+      {/* History */}
+      <Card className="p-6 lg:col-span-1">
+        <h3 className="text-lg font-semibold mb-4">Recent Batches</h3>
+        {history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No airdrops recorded yet</p>
+        ) : (
+          <div className="space-y-3">
+            {history.map((batch) => {
+              const historyToken = VAULT_TOKENS.find(
+                (t) => t.address.toLowerCase() === batch.token_address
+              );
+              const decimals = historyToken?.decimals ?? 18;
+
+              return (
+                <div key={batch.id} className="text-xs space-y-1 border-b pb-2">
+                  <div className="flex items-center justify-between">
+                    <span>
+                      {formatUnits(BigInt(batch.total_amount), decimals)} {batch.token_symbol} →{" "}
+                      {batch.token_ids.length} Geoplets
+                    </span>
+                    <Badge
+                      variant={
+                        batch.status === "failed"
+                          ? "destructive"
+                          : batch.status === "confirmed"
+                          ? "outline"
+                          : "secondary"
+                      }
+                    >
+                      {batch.status}
+                    </Badge>
+                  </div>
+                  <a
+                    href={`${GEOPLET_CONFIG.explorers.basescan}/tx/${batch.tx_hash}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-mono text-muted-foreground underline"
+                  >
+                    {batch.tx_hash.slice(0, 18)}…
+                  </a>
+                  <p className="text-muted-foreground">
+                    {new Date(batch.created_at).toLocaleString()} · batch {batch.chunk_index + 1}/
+                    {batch.chunk_count}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
@@ -14,185 +14,438 @@ import {
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
+import { useCampaigns, isCampaignActive } from "@/hooks/useCampaigns";
+import { useTemplates } from "@/hooks/useTemplates";
+import type { CampaignSummary } from "@/lib/outreach-campaigns";
+import type { TemplatePreview } from "@/lib/outreach-templates";
+import type { OutreachRecipient } from "@/lib/supabase";
 
 interface ComposeSectionProps {
-  selectedUsernames: string[];
   selectedFids: number[];
   onSendSuccess: () => void;
 }
 
-const MESSAGE_TEMPLATES = {
-  friendly:
-    "your Geoplet is doing a little happy dance… mint it whenever you wanna join in 💃✨", // Preview only - will cycle through variations
-  urgent:
-    "Don't miss out! Your Geoplet is waiting to be minted. Claim it now! 🎨",
-  reminder: "Your generated Geoplet is ready to mint! 🖼️",
-  custom: "",
-};
+const CUSTOM = "custom";
 
+// Farcaster cast limit (match CAST_MAX_CHARS in lib/outreach-templates.ts, server-only module)
+const MAX_CHARS = 320;
+
+const STATUS_VARIANT = {
+  scheduled: "outline",
+  running: "default",
+  paused: "secondary",
+  completed: "secondary",
+  cancelled: "destructive",
+  queued: "outline",
+  sent: "default",
+  failed: "destructive",
+  skipped: "secondary",
+} as const;
+
+function CampaignProgressBar({ campaign }: { campaign: CampaignSummary }) {
+  const { total, sent, failed, skipped, queued } = campaign.progress;
+  const done = total - queued;
+
+  return (
+    <div>
+      <div className="h-2 w-full rounded-full bg-muted overflow-hidden">
+        <div
+          className="h-full bg-primary transition-all"
+          style={{ width: `${total > 0 ? (done / total) * 100 : 0}%` }}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground mt-1">
+        {sent} sent · {failed} failed · {skipped} skipped · {queued} queued
+      </p>
+    </div>
+  );
+}
+
+/**
+ * ComposeSection Component
+ *
+ * Outreach campaigns (see lib/outreach-campaigns.ts)
+ * - Compose: name, library template or custom copy, audience (selected users or
+ *   everyone not contacted), optional schedule
+ * - Preview renders the copy for real recipients, incl. the A/B variant each one gets
+ * - Casts go out through the resumable worker, driven from here while the page is open
+ * - History: per-campaign progress, pause/resume/cancel, per-recipient status + cast hash
+ */
 export function ComposeSection({
-  selectedUsernames,
   selectedFids,
   onSendSuccess,
 }: ComposeSectionProps) {
-  const [template, setTemplate] = useState<string>("friendly");
-  const [message, setMessage] = useState(MESSAGE_TEMPLATES.friendly);
-  const [isSending, setIsSending] = useState(false);
+  const [templateId, setTemplateId] = useState<string>(CUSTOM);
+  const [message, setMessage] = useState("");
+  const [previews, setPreviews] = useState<TemplatePreview[]>([]);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [name, setName] = useState("");
+  const [audienceType, setAudienceType] = useState<"fids" | "not_contacted">("fids");
+  const [scheduledAt, setScheduledAt] = useState("");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [recipients, setRecipients] = useState<OutreachRecipient[]>([]);
+
+  const { campaigns, isCreating, isDriving, load, create, act, drive, loadRecipients } =
+    useCampaigns();
+  const { templates, load: loadTemplates, preview } = useTemplates();
+
+  const runWorker = async () => {
+    try {
+      await drive();
+      onSendSuccess();
+    } catch (error) {
+      console.error("[OUTREACH] Worker failed:", error);
+      toast.error(error instanceof Error ? error.message : "Outreach worker failed");
+    }
+  };
+
+  // Load history and resume any campaign that is still running
+  useEffect(() => {
+    load()
+      .then((loaded) => {
+        if (loaded.some(isCampaignActive)) runWorker();
+      })
+      .catch((error) => {
+        console.error("[OUTREACH] Failed to load campaigns:", error);
+        toast.error("Failed to load campaigns");
+      });
+
+    loadTemplates()
+      .then((loaded) => {
+        if (loaded.length > 0) setTemplateId(loaded[0].id);
+      })
+      .catch((error) => {
+        console.error("[OUTREACH] Failed to load templates:", error);
+        toast.error("Failed to load templates");
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const selectedTemplate = templates.find((template) => template.id === templateId);
 
   const handleTemplateChange = (value: string) => {
-    setTemplate(value);
-    if (value !== "custom") {
-      setMessage(MESSAGE_TEMPLATES[value as keyof typeof MESSAGE_TEMPLATES]);
+    setTemplateId(value);
+    setPreviews([]);
+  };
+
+  // Render for real recipients: selected users, or the next few not contacted
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    try {
+      const rendered = await preview(
+        templateId === CUSTOM ? { body: message } : { templateId },
+        audienceType === "fids" ? selectedFids : []
+      );
+      setPreviews(rendered);
+      if (rendered.length === 0) toast.info("No unconverted users to preview");
+    } catch (error) {
+      console.error("[OUTREACH] Preview failed:", error);
+      toast.error(error instanceof Error ? error.message : "Preview failed");
+    } finally {
+      setIsPreviewing(false);
     }
   };
 
-  const handleSendCast = async () => {
-    if (selectedFids.length === 0) {
+  const handleCreateCampaign = async () => {
+    if (audienceType === "fids" && selectedFids.length === 0) {
       toast.error("Please select at least one user");
       return;
     }
 
-    if (!message.trim()) {
+    if (templateId === CUSTOM && !message.trim()) {
       toast.error("Message cannot be empty");
       return;
     }
 
-    setIsSending(true);
-
     try {
-      const response = await fetch("/api/admin/send-cast", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          fids: selectedFids,
-          message: message.trim(),
-          template: template, // Pass template type for variation cycling
-        }),
+      const campaign = await create({
+        name: name.trim() || `${selectedTemplate?.name ?? "Custom"} ${new Date().toLocaleString()}`,
+        ...(templateId === CUSTOM ? { message: message.trim() } : { templateId }),
+        audience:
+          audienceType === "fids"
+            ? { type: "fids", fids: selectedFids }
+            : { type: "not_contacted" },
+        scheduledAt: scheduledAt ? new Date(scheduledAt).toISOString() : undefined,
       });
 
-      const data = await response.json();
-
-      if (!data.success) {
-        toast.error(data.error || "Failed to send cast");
-        return;
-      }
-
-      // Show detailed results
-      const { summary } = data;
-      if (summary.failed > 0) {
-        toast.success(
-          `Sent ${summary.successful} casts successfully. ${summary.failed} failed.`
-        );
-      } else {
-        toast.success(`Successfully sent ${summary.successful} cast(s)!`);
-      }
-
-      setMessage(
-        MESSAGE_TEMPLATES[template as keyof typeof MESSAGE_TEMPLATES] || ""
+      toast.success(
+        scheduledAt
+          ? `Campaign scheduled for ${new Date(scheduledAt).toLocaleString()}`
+          : `Campaign started: ${campaign.progress.queued} cast(s) queued`
       );
+
+      setName("");
+      setScheduledAt("");
+      setPreviews([]);
       onSendSuccess();
+
+      if (!scheduledAt) runWorker();
     } catch (error) {
-      console.error("Error sending cast:", error);
-      toast.error("Failed to send cast. Please try again.");
-    } finally {
-      setIsSending(false);
+      console.error("Error creating campaign:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to create campaign");
+    }
+  };
+
+  const handleAction = async (campaign: CampaignSummary, action: "pause" | "resume" | "cancel") => {
+    try {
+      await act(campaign.id, action);
+      toast.success(`Campaign ${action === "cancel" ? "cancelled" : `${action}d`}`);
+      if (action === "resume") runWorker();
+    } catch (error) {
+      console.error("[OUTREACH] Action failed:", error);
+      toast.error(error instanceof Error ? error.message : `Failed to ${action} campaign`);
     }
   };
 
-  // Individual cast format: "Hey! @username {message}"
-  // Preview shows example for first selected user
-  const previewUsername = selectedUsernames[0] || "username";
-  const fullMessage = message.trim()
-    ? `Hey! @${previewUsername} ${message}`
-    : `Hey! @${previewUsername}`;
-  const charCount = fullMessage.length;
-  const maxChars = 320; // Farcaster limit
+  const handleToggleDetails = async (campaign: CampaignSummary) => {
+    if (expandedId === campaign.id) {
+      setExpandedId(null);
+      return;
+    }
+
+    try {
+      setRecipients(await loadRecipients(campaign.id));
+      setExpandedId(campaign.id);
+    } catch (error) {
+      console.error("[OUTREACH] Failed to load recipients:", error);
+      toast.error("Failed to load recipients");
+    }
+  };
+
+  const tooLong = previews.some((item) => item.length > MAX_CHARS);
+
+  const activeCampaign = campaigns.find((campaign) => campaign.status === "running");
+  const recipientCount = audienceType === "fids" ? selectedFids.length : null;
 
   return (
-    <Card className="p-6">
-      <h3 className="text-lg font-semibold mb-4">Compose Cast</h3>
-
-      {/* Template Selector */}
-      <div className="mb-4">
-        <label className="text-sm font-medium mb-2 block">
-          Message Template
-        </label>
-        <Select value={template} onValueChange={handleTemplateChange}>
-          <SelectTrigger>
-            <SelectValue placeholder="Select a template" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="friendly">Friendly Reminder (varies per user)</SelectItem>
-            <SelectItem value="urgent">Urgent Call-to-Action</SelectItem>
-            <SelectItem value="reminder">Simple Reminder</SelectItem>
-            <SelectItem value="custom">Custom Message</SelectItem>
-          </SelectContent>
-        </Select>
-      </div>
+    <div className="space-y-4">
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold mb-4">Compose Campaign</h3>
 
-      {/* Message Composer */}
-      <div className="mb-4">
-        <label className="text-sm font-medium mb-2 block">Message</label>
-        <Textarea
-          value={message}
-          onChange={(e) => {
-            setMessage(e.target.value);
-            if (template !== "custom") setTemplate("custom");
-          }}
-          placeholder="Type your message..."
-          rows={4}
-          className="resize-none"
-        />
-      </div>
+        {/* Campaign Name */}
+        <div className="mb-4">
+          <label className="text-sm font-medium mb-2 block">Campaign Name</label>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Weekend reminder"
+            className="h-9 w-full rounded-md border px-3 text-sm"
+          />
+        </div>
 
-      {/* Preview */}
-      {selectedUsernames.length > 0 && (
+        {/* Template Selector */}
         <div className="mb-4">
           <label className="text-sm font-medium mb-2 block">
-            Preview{template === "friendly" ? " (message will vary per user)" : " (Individual Cast)"}
+            Message Template
           </label>
-          <div className="p-3 bg-muted rounded-lg text-sm">
-            <p className="whitespace-pre-wrap">{fullMessage}</p>
+          <Select value={templateId} onValueChange={handleTemplateChange}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select a template" />
+            </SelectTrigger>
+            <SelectContent>
+              {templates.map((template) => {
+                const active = template.variants.filter((variant) => variant.active).length;
+                return (
+                  <SelectItem key={template.id} value={template.id}>
+                    {template.name}
+                    {active > 1 ? ` (${active} variants)` : ""}
+                  </SelectItem>
+                );
+              })}
+              <SelectItem value={CUSTOM}>Custom Message</SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground mt-1">
+            Edit copy and A/B variants in the Templates tab.
+          </p>
+        </div>
+
+        {/* Audience + Schedule */}
+        <div className="mb-4 grid gap-4 sm:grid-cols-2">
+          <div>
+            <label className="text-sm font-medium mb-2 block">Audience</label>
+            <Select value={audienceType} onValueChange={(v) => setAudienceType(v as typeof audienceType)}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="fids">Selected users ({selectedFids.length})</SelectItem>
+                <SelectItem value="not_contacted">Everyone not contacted</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="text-sm font-medium mb-2 block">Send at (optional)</label>
+            <input
+              type="datetime-local"
+              value={scheduledAt}
+              onChange={(e) => setScheduledAt(e.target.value)}
+              className="h-9 w-full rounded-md border px-3 text-sm"
+            />
           </div>
-          <div className="flex items-center justify-between mt-2">
-            <Badge variant={charCount > maxChars ? "destructive" : "secondary"}>
-              {charCount} / {maxChars} characters
-            </Badge>
-            <p className="text-xs text-muted-foreground">
-              {selectedUsernames.length} individual cast(s) with personalized
-              images
+        </div>
+
+        {/* Message Composer */}
+        {templateId === CUSTOM && (
+          <div className="mb-4">
+            <label className="text-sm font-medium mb-2 block">Message</label>
+            <Textarea
+              value={message}
+              onChange={(e) => {
+                setMessage(e.target.value);
+                setPreviews([]);
+              }}
+              placeholder="Type your message..."
+              rows={4}
+              className="resize-none"
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              Variables: {"{username} {days_since_generation} {rarity} {price}"} · &ldquo;Hey!
+              @username&rdquo; is prepended when {"{username}"} is missing
             </p>
           </div>
-          {charCount > maxChars && (
+        )}
+
+        {/* Preview */}
+        <div className="mb-4">
+          <div className="flex items-center justify-between mb-2">
+            <label className="text-sm font-medium">Preview (Individual Casts)</label>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handlePreview}
+              disabled={isPreviewing || (templateId === CUSTOM && !message.trim())}
+            >
+              {isPreviewing ? "Rendering..." : "Preview"}
+            </Button>
+          </div>
+          {previews.length > 0 && (
+            <div className="space-y-2">
+              {previews.map((item) => (
+                <div key={item.fid} className="p-3 bg-muted rounded-lg text-sm">
+                  <p className="whitespace-pre-wrap">{item.text}</p>
+                  <div className="flex items-center gap-2 mt-2">
+                    {item.variantLabel && (
+                      <Badge variant="outline">Variant {item.variantLabel}</Badge>
+                    )}
+                    <Badge variant={item.length > MAX_CHARS ? "destructive" : "secondary"}>
+                      {item.length} / {MAX_CHARS} characters
+                    </Badge>
+                  </div>
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                {recipientCount ?? "All uncontacted"} individual cast(s) with
+                personalized images
+              </p>
+            </div>
+          )}
+          {tooLong && (
             <Alert variant="destructive" className="mt-2">
               <AlertDescription>
-                Message exceeds {maxChars} character limit. Please shorten your
+                Message exceeds {MAX_CHARS} character limit. Please shorten your
                 message.
               </AlertDescription>
             </Alert>
           )}
         </div>
-      )}
-
-      {/* Send Button */}
-      <Button
-        onClick={handleSendCast}
-        disabled={
-          isSending || selectedFids.length === 0 || charCount > maxChars
-        }
-        className="w-full"
-        size="lg"
-      >
-        {isSending
-          ? "Sending..."
-          : `Send Cast to ${selectedFids.length} User(s)`}
-      </Button>
-
-      {selectedFids.length === 0 && (
-        <p className="text-sm text-muted-foreground text-center mt-2">
-          Select users above to compose a cast
-        </p>
-      )}
-    </Card>
+
+        {/* Send Button */}
+        <Button
+          onClick={handleCreateCampaign}
+          disabled={
+            isCreating || recipientCount === 0 || tooLong
+          }
+          className="w-full"
+          size="lg"
+        >
+          {isCreating
+            ? "Creating..."
+            : `${scheduledAt ? "Schedule" : "Start"} Campaign${recipientCount !== null ? ` (${recipientCount} User(s))` : ""}`}
+        </Button>
+
+        {recipientCount === 0 && (
+          <p className="text-sm text-muted-foreground text-center mt-2">
+            Select users above to compose a cast
+          </p>
+        )}
+
+        {/* Live Progress */}
+        {activeCampaign && (
+          <div className="mt-4">
+            <p className="text-sm font-medium mb-2">
+              Sending &ldquo;{activeCampaign.name}&rdquo;{isDriving ? "..." : ""}
+            </p>
+            <CampaignProgressBar campaign={activeCampaign} />
+          </div>
+        )}
+      </Card>
+
+      {/* Campaign History */}
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold mb-4">Campaigns</h3>
+        {campaigns.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No campaigns yet.</p>
+        ) : (
+          <div className="space-y-4 max-h-[32rem] overflow-y-auto">
+            {campaigns.map((campaign) => (
+              <div key={campaign.id} className="space-y-2 border-b pb-4 last:border-b-0">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm font-medium truncate">{campaign.name}</p>
+                  <Badge variant={STATUS_VARIANT[campaign.status]}>{campaign.status}</Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {campaign.template} ·{" "}
+                  {campaign.status === "scheduled"
+                    ? `sends ${new Date(campaign.scheduled_at).toLocaleString()}`
+                    : new Date(campaign.created_at).toLocaleString()}
+                </p>
+                <CampaignProgressBar campaign={campaign} />
+
+                <div className="flex flex-wrap gap-2">
+                  {(campaign.status === "scheduled" || campaign.status === "running") && (
+                    <Button size="sm" variant="outline" onClick={() => handleAction(campaign, "pause")}>
+                      Pause
+                    </Button>
+                  )}
+                  {campaign.status === "paused" && (
+                    <Button size="sm" variant="outline" onClick={() => handleAction(campaign, "resume")}>
+                      Resume
+                    </Button>
+                  )}
+                  {["scheduled", "running", "paused"].includes(campaign.status) && (
+                    <Button size="sm" variant="outline" onClick={() => handleAction(campaign, "cancel")}>
+                      Cancel
+                    </Button>
+                  )}
+                  <Button size="sm" variant="ghost" onClick={() => handleToggleDetails(campaign)}>
+                    {expandedId === campaign.id ? "Hide" : "Recipients"}
+                  </Button>
+                </div>
+
+                {expandedId === campaign.id && (
+                  <div className="space-y-1 text-xs">
+                    {recipients.map((recipient) => (
+                      <div key={recipient.id} className="flex flex-wrap items-center gap-2">
+                        <Badge variant={STATUS_VARIANT[recipient.status]}>{recipient.status}</Badge>
+                        <span>@{recipient.username ?? recipient.fid}</span>
+                        {recipient.cast_hash && (
+                          <span className="font-mono text-muted-foreground">
+                            {recipient.cast_hash.slice(0, 10)}
+                          </span>
+                        )}
+                        {recipient.last_error && (
+                          <span className="text-destructive">{recipient.last_error}</span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+    </div>
   );
 }
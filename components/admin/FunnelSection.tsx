@@ -0,0 +1,207 @@
+"use client";
+
+import { useEffect } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { useFunnelAnalytics } from "@/hooks/useFunnelAnalytics";
+import type { FunnelStage } from "@/lib/funnel";
+
+const STAGE_LABELS: Record<FunnelStage, string> = {
+  app_opened: "App opened",
+  warplet_found: "Warplet found",
+  generation_succeeded: "Generated",
+  saved: "Saved",
+  payment_verified: "Payment verified",
+  payment_settled: "Settled",
+  minted: "Minted",
+};
+
+function percent(value: number | null) {
+  return value === null ? "—" : `${(value * 100).toFixed(1)}%`;
+}
+
+function formatDuration(seconds: number | null) {
+  if (seconds === null) return "—";
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
+  if (seconds < 86400) return `${(seconds / 3600).toFixed(1)}h`;
+  return `${(seconds / 86400).toFixed(1)}d`;
+}
+
+/**
+ * FunnelSection Component
+ *
+ * Conversion analytics (see lib/funnel.ts)
+ * - Funnel: users per stage with step + overall conversion
+ * - Weekly cohorts (by first app open): generated vs minted, avg time to mint
+ * - Outreach campaigns: casts sent → opens (?c= tracking) → mints, median time to mint
+ */
+export function FunnelSection() {
+  const { report, isLoading, load } = useFunnelAnalytics();
+
+  const handleLoad = async () => {
+    try {
+      await load();
+    } catch (error) {
+      console.error("[FUNNEL] Failed to load:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to load funnel");
+    }
+  };
+
+  useEffect(() => {
+    handleLoad();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const maxStageUsers = Math.max(1, ...(report?.stages.map((stage) => stage.users) ?? []));
+  const maxCohortUsers = Math.max(1, ...(report?.cohorts.map((cohort) => cohort.users) ?? []));
+  const cohorts = [...(report?.cohorts ?? [])].reverse(); // Oldest → newest
+
+  return (
+    <div className="space-y-6">
+      {/* Funnel */}
+      <Card className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-semibold">Conversion Funnel</h3>
+            <p className="text-sm text-muted-foreground">
+              Unique users reaching each step (all time)
+            </p>
+          </div>
+          <Button variant="outline" onClick={handleLoad} disabled={isLoading}>
+            {isLoading ? "Loading..." : "Refresh"}
+          </Button>
+        </div>
+
+        {report && (
+          <div className="space-y-2">
+            {report.stages.map((stage) => (
+              <div key={stage.stage} className="grid grid-cols-[8rem_1fr_7rem] items-center gap-3 text-sm">
+                <span className="text-muted-foreground">{STAGE_LABELS[stage.stage]}</span>
+                <div className="h-6 rounded bg-muted overflow-hidden">
+                  <div
+                    className="h-full rounded bg-primary"
+                    style={{ width: `${(stage.users / maxStageUsers) * 100}%` }}
+                  />
+                </div>
+                <span className="text-right tabular-nums">
+                  {stage.users}
+                  {stage.fromPrevious !== null && (
+                    <span className="text-xs text-muted-foreground"> · {percent(stage.fromPrevious)}</span>
+                  )}
+                </span>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground pt-2">
+              Overall conversion (opened → minted):{" "}
+              {percent(report.stages[report.stages.length - 1].fromStart)}
+            </p>
+          </div>
+        )}
+      </Card>
+
+      {/* Weekly Cohorts */}
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold mb-1">Weekly Cohorts</h3>
+        <p className="text-sm text-muted-foreground mb-4">
+          Users by week of first app open: <span className="text-primary">minted</span> of total
+        </p>
+
+        {cohorts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No cohort data yet.</p>
+        ) : (
+          <>
+            <div className="flex items-end gap-2 h-40 mb-2">
+              {cohorts.map((cohort) => (
+                <div
+                  key={cohort.week}
+                  className="flex-1 flex flex-col justify-end bg-muted rounded-t"
+                  style={{ height: `${(cohort.users / maxCohortUsers) * 100}%` }}
+                  title={`${cohort.minted}/${cohort.users} minted`}
+                >
+                  <div
+                    className="bg-primary rounded-t"
+                    style={{ height: `${cohort.users > 0 ? (cohort.minted / cohort.users) * 100 : 0}%` }}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2 mb-4">
+              {cohorts.map((cohort) => (
+                <span key={cohort.week} className="flex-1 text-center text-[10px] text-muted-foreground">
+                  {new Date(cohort.week).toLocaleDateString(undefined, { month: "short", day: "numeric" })}
+                </span>
+              ))}
+            </div>
+
+            <table className="w-full text-sm">
+              <thead className="text-left text-muted-foreground">
+                <tr>
+                  <th className="font-medium py-1">Week</th>
+                  <th className="font-medium py-1 text-right">Users</th>
+                  <th className="font-medium py-1 text-right">Generated</th>
+                  <th className="font-medium py-1 text-right">Minted</th>
+                  <th className="font-medium py-1 text-right">Conversion</th>
+                  <th className="font-medium py-1 text-right">Avg time to mint</th>
+                </tr>
+              </thead>
+              <tbody className="tabular-nums">
+                {report?.cohorts.map((cohort) => (
+                  <tr key={cohort.week} className="border-t">
+                    <td className="py-1">{new Date(cohort.week).toLocaleDateString()}</td>
+                    <td className="py-1 text-right">{cohort.users}</td>
+                    <td className="py-1 text-right">{cohort.generated}</td>
+                    <td className="py-1 text-right">{cohort.minted}</td>
+                    <td className="py-1 text-right">
+                      {percent(cohort.users > 0 ? cohort.minted / cohort.users : null)}
+                    </td>
+                    <td className="py-1 text-right">{formatDuration(cohort.avgSecondsToMint)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+      </Card>
+
+      {/* Campaign Attribution */}
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold mb-1">Outreach Attribution</h3>
+        <p className="text-sm text-muted-foreground mb-4">
+          Recipients who minted after their cast was sent
+        </p>
+
+        {!report || report.campaigns.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No campaigns yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="text-left text-muted-foreground">
+              <tr>
+                <th className="font-medium py-1">Campaign</th>
+                <th className="font-medium py-1 text-right">Casts</th>
+                <th className="font-medium py-1 text-right">Opens</th>
+                <th className="font-medium py-1 text-right">Mints</th>
+                <th className="font-medium py-1 text-right">Conversion</th>
+                <th className="font-medium py-1 text-right">Median time to mint</th>
+              </tr>
+            </thead>
+            <tbody className="tabular-nums">
+              {report.campaigns.map((campaign) => (
+                <tr key={campaign.campaignId} className="border-t">
+                  <td className="py-1 truncate max-w-48">{campaign.name}</td>
+                  <td className="py-1 text-right">{campaign.castsSent}</td>
+                  <td className="py-1 text-right">{campaign.opens}</td>
+                  <td className="py-1 text-right">{campaign.mints}</td>
+                  <td className="py-1 text-right">
+                    {percent(campaign.castsSent > 0 ? campaign.mints / campaign.castsSent : null)}
+                  </td>
+                  <td className="py-1 text-right">{formatDuration(campaign.medianSecondsToMint)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </Card>
+    </div>
+  );
+}
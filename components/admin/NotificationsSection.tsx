@@ -0,0 +1,280 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { useNotifications, type NotificationAudience } from "@/hooks/useNotifications";
+import type { NotificationSendResult } from "@/lib/notifications";
+import type { NotificationTrigger } from "@/lib/notification-triggers";
+
+// Protocol limits - match lib/notifications.ts (server-only module)
+const TITLE_MAX = 32;
+const BODY_MAX = 128;
+
+const TRIGGERS: { trigger: NotificationTrigger; label: string; description: string }[] = [
+  { trigger: "ready_to_mint", label: "Ready to mint", description: "Unminted generations (once per day)" },
+  { trigger: "mint_confirmed", label: "Mint confirmed", description: "Mints in the last 24h" },
+  { trigger: "deposit_received", label: "Deposit received", description: "Vault deposits in the last 24h" },
+];
+
+const STATUS_VARIANT = {
+  sent: "default",
+  invalid: "destructive",
+  rate_limited: "secondary",
+  failed: "destructive",
+} as const;
+
+interface NotificationsSectionProps {
+  selectedFids: number[];
+}
+
+function summarize(result: NotificationSendResult) {
+  return [
+    `${result.sent.length} sent`,
+    result.duplicate.length > 0 && `${result.duplicate.length} already received`,
+    result.noToken.length > 0 && `${result.noToken.length} without notifications`,
+    result.suppressed.length > 0 && `${result.suppressed.length} suppressed`,
+    result.invalid.length > 0 && `${result.invalid.length} invalid`,
+    result.rateLimited.length > 0 && `${result.rateLimited.length} rate limited`,
+    result.failed.length > 0 && `${result.failed.length} failed`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+/**
+ * NotificationsSection Component
+ *
+ * Farcaster mini app notifications
+ * - Compose: title/body/target path to all, unminted or selected users
+ * - Triggers: re-runnable lifecycle notifications (deduped per FID)
+ * - Recent deliveries with per-FID status
+ */
+export function NotificationsSection({ selectedFids }: NotificationsSectionProps) {
+  const {
+    stats,
+    deliveries,
+    isLoading,
+    isSending,
+    runningTrigger,
+    load,
+    send,
+    resetCompose,
+    runTrigger,
+  } = useNotifications();
+
+  const [title, setTitle] = useState("");
+  const [body, setBody] = useState("");
+  const [targetPath, setTargetPath] = useState("/");
+  const [audience, setAudience] = useState<NotificationAudience>("unminted");
+  const [lastResult, setLastResult] = useState<NotificationSendResult | null>(null);
+
+  const handleLoad = async () => {
+    try {
+      await load();
+    } catch (error) {
+      console.error("[NOTIFICATIONS] Failed to load:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to load notifications");
+    }
+  };
+
+  useEffect(() => {
+    handleLoad();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleSend = async () => {
+    if (audience === "fids" && selectedFids.length === 0) {
+      toast.error("Select users in the Outreach tab first");
+      return;
+    }
+
+    try {
+      const result = await send({
+        title: title.trim(),
+        body: body.trim(),
+        targetPath,
+        audience,
+        fids: audience === "fids" ? selectedFids : undefined,
+      });
+      setLastResult(result);
+
+      if (result.failed.length > 0 || result.rateLimited.length > 0) {
+        toast.warning(`${summarize(result)} - send again to retry`);
+      } else {
+        toast.success(summarize(result));
+      }
+    } catch (error) {
+      console.error("[NOTIFICATIONS] Send failed:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to send notification");
+    }
+  };
+
+  const handleNew = () => {
+    resetCompose();
+    setTitle("");
+    setBody("");
+    setLastResult(null);
+  };
+
+  const handleTrigger = async (trigger: NotificationTrigger) => {
+    try {
+      const result = await runTrigger(trigger);
+      toast.success(summarize(result));
+    } catch (error) {
+      console.error("[NOTIFICATIONS] Trigger failed:", error);
+      toast.error(error instanceof Error ? error.message : "Trigger failed");
+    }
+  };
+
+  const canSend =
+    title.trim().length > 0 &&
+    title.length <= TITLE_MAX &&
+    body.trim().length > 0 &&
+    body.length <= BODY_MAX &&
+    targetPath.startsWith("/");
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-3">
+      <Card className="p-6 lg:col-span-2">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-semibold">Send Notification</h3>
+            {stats && (
+              <p className="text-sm text-muted-foreground">
+                {stats.enabled} enabled · {stats.invalid} invalid · {stats.rateLimited} rate limited
+              </p>
+            )}
+          </div>
+          <Button variant="outline" onClick={handleLoad} disabled={isLoading}>
+            {isLoading ? "Loading..." : "Refresh"}
+          </Button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="text-sm font-medium mb-2 block">
+              Title ({title.length}/{TITLE_MAX})
+            </label>
+            <input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              maxLength={TITLE_MAX}
+              placeholder="Your Geoplet is ready"
+              className="h-9 w-full rounded-md border px-3 text-sm"
+            />
+          </div>
+
+          <div>
+            <label className="text-sm font-medium mb-2 block">
+              Body ({body.length}/{BODY_MAX})
+            </label>
+            <Textarea
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              maxLength={BODY_MAX}
+              rows={3}
+            />
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <label className="text-sm font-medium mb-2 block">Opens</label>
+              <input
+                value={targetPath}
+                onChange={(e) => setTargetPath(e.target.value)}
+                placeholder="/gallery"
+                className="h-9 w-full rounded-md border px-3 text-sm font-mono"
+              />
+            </div>
+
+            <div>
+              <label className="text-sm font-medium mb-2 block">Audience</label>
+              <Select value={audience} onValueChange={(v) => setAudience(v as NotificationAudience)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="unminted">Generated but unminted</SelectItem>
+                  <SelectItem value="all">Everyone with notifications</SelectItem>
+                  <SelectItem value="fids">Selected users ({selectedFids.length})</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <Button onClick={handleSend} disabled={!canSend || isSending}>
+              {isSending ? "Sending..." : lastResult ? "Send again" : "Send"}
+            </Button>
+            {lastResult && (
+              <Button variant="outline" onClick={handleNew} disabled={isSending}>
+                New notification
+              </Button>
+            )}
+          </div>
+
+          {lastResult && (
+            <p className="text-sm text-muted-foreground">{summarize(lastResult)}</p>
+          )}
+        </div>
+      </Card>
+
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold mb-4">Triggers</h3>
+        <div className="space-y-3">
+          {TRIGGERS.map(({ trigger, label, description }) => (
+            <div key={trigger} className="flex items-center justify-between gap-2">
+              <div>
+                <p className="text-sm font-medium">{label}</p>
+                <p className="text-xs text-muted-foreground">{description}</p>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleTrigger(trigger)}
+                disabled={runningTrigger !== null}
+              >
+                {runningTrigger === trigger ? "Running..." : "Run"}
+              </Button>
+            </div>
+          ))}
+        </div>
+      </Card>
+
+      <Card className="p-6 lg:col-span-3">
+        <h3 className="text-lg font-semibold mb-4">Recent Deliveries</h3>
+        {deliveries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No notifications sent yet.</p>
+        ) : (
+          <div className="space-y-2 text-sm">
+            {deliveries.map((delivery) => (
+              <div key={delivery.id} className="flex flex-wrap items-center gap-2">
+                <Badge variant={STATUS_VARIANT[delivery.status]}>{delivery.status}</Badge>
+                <Badge variant="outline">{delivery.trigger}</Badge>
+                <span className="font-mono">FID {delivery.fid}</span>
+                <span>{delivery.title}</span>
+                {delivery.error && (
+                  <span className="text-destructive text-xs">{delivery.error}</span>
+                )}
+                <span className="text-muted-foreground text-xs ml-auto">
+                  {new Date(delivery.updated_at).toLocaleString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { formatUnits } from "viem";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { useRefunds } from "@/hooks/useRefunds";
+import { GEOPLET_CONFIG } from "@/lib/contracts";
+import type { RefundCandidate } from "@/lib/refunds";
+
+// Matches REFUND_MIN_AGE_HOURS in lib/refunds.ts (server-only module)
+const DEFAULT_OLDER_THAN_HOURS = 24;
+
+function shortAddress(address: string) {
+  return `${address.slice(0, 6)}…${address.slice(-4)}`;
+}
+
+/**
+ * RefundsSection Component
+ *
+ * Admin refund queue for payments that settled but never minted/upgraded
+ * - Settled payments older than N hours that were never fulfilled themselves
+ *   (incl. duplicate payments for an already minted FID - see lib/refunds.ts)
+ * - Refund sends USDC from the connected owner wallet to the original payer
+ * - Ledger moves refund_pending → refunded once the transfer is verified
+ */
+export function RefundsSection() {
+  const { refunds, isLoading, loadRefunds, sendRefund, confirmRefund, processingId } =
+    useRefunds();
+  const [olderThanHours, setOlderThanHours] = useState(DEFAULT_OLDER_THAN_HOURS);
+
+  const handleLoad = async () => {
+    try {
+      await loadRefunds(olderThanHours);
+    } catch (error) {
+      console.error("[REFUNDS] Failed to load queue:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to load refund queue");
+    }
+  };
+
+  useEffect(() => {
+    handleLoad();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleRefund = async (refund: RefundCandidate) => {
+    try {
+      const result = await sendRefund(refund);
+      if (result === "pending") {
+        toast.info(`Refund for FID ${refund.fid} submitted - confirm once mined`);
+      } else {
+        toast.success(`Refunded FID ${refund.fid}`);
+      }
+    } catch (error) {
+      console.error("[REFUNDS] Refund failed:", error);
+      toast.error(error instanceof Error ? error.message : "Refund failed");
+    }
+  };
+
+  const handleConfirm = async (refund: RefundCandidate) => {
+    try {
+      const result = await confirmRefund(refund);
+      if (result === "pending") {
+        toast.info("Refund transaction not mined yet");
+      } else {
+        toast.success(`Refunded FID ${refund.fid}`);
+      }
+    } catch (error) {
+      console.error("[REFUNDS] Confirm failed:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to confirm refund");
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-wrap items-end justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold">Refund Queue</h3>
+          <p className="text-sm text-muted-foreground">
+            Settled payments never minted/upgraded (incl. duplicates)
+          </p>
+        </div>
+        <div className="flex items-end gap-2">
+          <div>
+            <label className="text-sm font-medium mb-2 block">Older than (hours)</label>
+            <input
+              type="number"
+              min={0}
+              value={olderThanHours}
+              onChange={(e) => setOlderThanHours(Math.max(0, parseFloat(e.target.value) || 0))}
+              className="h-9 w-32 rounded-md border px-3 text-sm"
+            />
+          </div>
+          <Button variant="outline" onClick={handleLoad} disabled={isLoading}>
+            {isLoading ? "Scanning..." : "Refresh"}
+          </Button>
+        </div>
+      </div>
+
+      {refunds.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {isLoading ? "Checking payments against on-chain events..." : "No payments waiting for a refund"}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {refunds.map((refund) => {
+            const isProcessing = processingId === refund.ledgerId;
+
+            return (
+              <div
+                key={refund.ledgerId}
+                className="flex flex-wrap items-center justify-between gap-3 border-b pb-3 text-sm"
+              >
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">FID {refund.fid}</span>
+                    <Badge variant="outline">{refund.purpose}</Badge>
+                    <Badge
+                      variant={
+                        refund.status === "refunded"
+                          ? "outline"
+                          : refund.status === "failed"
+                          ? "destructive"
+                          : "secondary"
+                      }
+                    >
+                      {refund.status}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {formatUnits(BigInt(refund.amount), 6)} USDC from{" "}
+                    <span className="font-mono">
+                      {refund.payer ? shortAddress(refund.payer) : "unknown payer"}
+                    </span>{" "}
+                    · {new Date(refund.settledAt).toLocaleString()}
+                  </p>
+                  <p className="text-xs text-muted-foreground flex gap-3">
+                    <a
+                      href={`${GEOPLET_CONFIG.explorers.basescan}/tx/${refund.settlementTxHash}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="underline"
+                    >
+                      Settlement
+                    </a>
+                    {refund.refundTxHash && (
+                      <a
+                        href={`${GEOPLET_CONFIG.explorers.basescan}/tx/${refund.refundTxHash}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="underline"
+                      >
+                        Refund tx
+                      </a>
+                    )}
+                    {refund.lastError && <span>{refund.lastError}</span>}
+                  </p>
+                </div>
+
+                {refund.status === "refunded" ? null : refund.status === "refund_pending" ? (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleConfirm(refund)}
+                    disabled={isProcessing}
+                  >
+                    {isProcessing ? "Confirming..." : "Confirm refund"}
+                  </Button>
+                ) : (
+                  <Button
+                    size="sm"
+                    onClick={() => handleRefund(refund)}
+                    disabled={isProcessing || !refund.payer || processingId !== null}
+                  >
+                    {isProcessing ? "Refunding..." : "Refund"}
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+}
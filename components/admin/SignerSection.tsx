@@ -0,0 +1,91 @@
+"use client";
+
+import { useEffect } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { useSignerRotation } from "@/hooks/useSignerRotation";
+
+/**
+ * SignerSection Component
+ *
+ * Voucher signer status and rotation
+ * - Lists configured signers (SIGNER_* / NEXT_SIGNER_*) and which one the contract accepts
+ * - Rotate calls setSignerWallet(next) from the owner wallet, then confirms server-side
+ */
+export function SignerSection() {
+  const { status, isLoading, isRotating, loadStatus, rotate } = useSignerRotation();
+
+  const handleLoad = async () => {
+    try {
+      await loadStatus();
+    } catch (error) {
+      console.error("[SIGNER] Failed to load status:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to load signer status");
+    }
+  };
+
+  useEffect(() => {
+    handleLoad();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleRotate = async () => {
+    try {
+      const result = await rotate();
+      if (result.pending) {
+        toast.info("Rotation submitted - refresh once the transaction is mined");
+      } else {
+        toast.success(`Signer rotated (${result.revokedVouchers ?? 0} outstanding vouchers revoked)`);
+      }
+    } catch (error) {
+      console.error("[SIGNER] Rotation failed:", error);
+      toast.error(error instanceof Error ? error.message : "Rotation failed");
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold">Voucher Signer</h3>
+          <p className="text-sm text-muted-foreground">
+            Key that signs mint and upgrade vouchers
+          </p>
+        </div>
+        <Button variant="outline" onClick={handleLoad} disabled={isLoading}>
+          {isLoading ? "Loading..." : "Refresh"}
+        </Button>
+      </div>
+
+      {status && (
+        <div className="space-y-3 text-sm">
+          <p>
+            <span className="text-muted-foreground">Contract signerWallet: </span>
+            <span className="font-mono">{status.onchainSigner}</span>
+          </p>
+
+          {status.signers.map((signer) => (
+            <div key={signer.slot} className="flex items-center gap-2">
+              <Badge variant="outline">{signer.slot}</Badge>
+              <Badge variant="secondary">{signer.backend}</Badge>
+              <span className="font-mono">{signer.address}</span>
+              {signer.active && <Badge>active</Badge>}
+            </div>
+          ))}
+
+          {status.rotationPending ? (
+            <Button onClick={handleRotate} disabled={isRotating}>
+              {isRotating ? "Rotating..." : "Rotate to next signer"}
+            </Button>
+          ) : (
+            <p className="text-muted-foreground">
+              Configure NEXT_SIGNER_* to prepare a rotation.
+            </p>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -10,7 +10,7 @@ interface StatsCardsProps {
 }
 
 export function StatsCards({ totalUnconverted, contacted, pending }: StatsCardsProps) {
-  const conversionRate = totalUnconverted > 0
+  const contactRate = totalUnconverted > 0
     ? ((contacted / totalUnconverted) * 100).toFixed(1)
     : "0.0";
 
@@ -43,7 +43,7 @@ export function StatsCards({ totalUnconverted, contacted, pending }: StatsCardsP
           </div>
           <p className="text-2xl font-bold text-green-700">{contacted}</p>
           <p className="text-xs text-muted-foreground">
-            {conversionRate}% contact rate
+            {contactRate}% contact rate
           </p>
         </div>
       </Card>
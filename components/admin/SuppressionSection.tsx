@@ -0,0 +1,123 @@
+"use client";
+
+import { useEffect } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { useSuppressions } from "@/hooks/useSuppressions";
+
+interface SuppressionSectionProps {
+  selectedFids: number[];
+  onChange: () => void;
+}
+
+/**
+ * SuppressionSection Component
+ *
+ * Outreach opt-outs (see lib/outreach-suppression.ts)
+ * - Contact policy: cooldown between contacts, max contacts per user
+ * - Opt selected users out, scan bot replies for "stop" keywords
+ * - Opt-out list with remove (user asked to hear from us again)
+ */
+export function SuppressionSection({ selectedFids, onChange }: SuppressionSectionProps) {
+  const { optOuts, policy, isLoading, isScanning, load, optOut, optIn, scan } = useSuppressions();
+
+  const handleLoad = async () => {
+    try {
+      await load();
+    } catch (error) {
+      console.error("[SUPPRESSION] Failed to load:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to load opt-outs");
+    }
+  };
+
+  useEffect(() => {
+    handleLoad();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleOptOut = async () => {
+    try {
+      await optOut(selectedFids);
+      toast.success(`${selectedFids.length} user(s) opted out`);
+      onChange();
+    } catch (error) {
+      console.error("[SUPPRESSION] Opt-out failed:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to opt out users");
+    }
+  };
+
+  const handleOptIn = async (fid: number) => {
+    try {
+      await optIn([fid]);
+      toast.success(`FID ${fid} can be contacted again`);
+      onChange();
+    } catch (error) {
+      console.error("[SUPPRESSION] Remove failed:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to remove opt-out");
+    }
+  };
+
+  const handleScan = async () => {
+    try {
+      const result = await scan();
+      toast.success(`Scanned ${result.scanned} replies: ${result.added.length} new opt-out(s)`);
+      if (result.added.length > 0) onChange();
+    } catch (error) {
+      console.error("[SUPPRESSION] Scan failed:", error);
+      toast.error(error instanceof Error ? error.message : "Opt-out scan failed");
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-semibold mb-1">Suppression</h3>
+      {policy && (
+        <p className="text-xs text-muted-foreground mb-4">
+          At most {policy.maxContacts} contacts per user, {policy.cooldownHours}h apart. Casts and
+          notifications both count; opted-out users are never contacted.
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={handleOptOut}
+          disabled={selectedFids.length === 0}
+        >
+          Opt Out Selected ({selectedFids.length})
+        </Button>
+        <Button size="sm" variant="outline" onClick={handleScan} disabled={isScanning}>
+          {isScanning ? "Scanning..." : "Scan Replies"}
+        </Button>
+      </div>
+
+      {isLoading && optOuts.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Loading...</p>
+      ) : optOuts.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No opt-outs yet.</p>
+      ) : (
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {optOuts.map((entry) => (
+            <div key={entry.fid} className="flex items-start justify-between gap-2 text-xs">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">FID {entry.fid}</span>
+                  <Badge variant={entry.source === "reply" ? "destructive" : "secondary"}>
+                    {entry.source}
+                  </Badge>
+                </div>
+                {entry.note && <p className="text-muted-foreground truncate">{entry.note}</p>}
+              </div>
+              <Button size="sm" variant="ghost" onClick={() => handleOptIn(entry.fid)}>
+                Remove
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,299 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { useTemplates } from "@/hooks/useTemplates";
+import type { TemplateWithVariants, VariantInput } from "@/lib/outreach-templates";
+
+// Match TEMPLATE_VARIABLES in lib/outreach-templates.ts (server-only module)
+const VARIABLES = ["username", "days_since_generation", "rarity", "price"];
+
+type DraftVariant = VariantInput & { sent: number; mints: number };
+
+function toDraft(template: TemplateWithVariants): DraftVariant[] {
+  return template.variants.map((variant) => ({
+    id: variant.id,
+    label: variant.label,
+    body: variant.body,
+    weight: variant.weight,
+    active: variant.active,
+    sent: variant.stats.sent,
+    mints: variant.stats.mints,
+  }));
+}
+
+function nextLabel(variants: DraftVariant[]) {
+  const used = new Set(variants.map((variant) => variant.label));
+  for (let code = 65; code <= 90; code++) {
+    const label = String.fromCharCode(code);
+    if (!used.has(label)) return label;
+  }
+  return `V${variants.length + 1}`;
+}
+
+/**
+ * TemplatesSection Component
+ *
+ * Outreach template library (see lib/outreach-templates.ts)
+ * - Edit copy without a deploy: variables, weighted A/B variants, active flags
+ * - Per-variant casts sent → mints (recipients who minted after their cast)
+ * - Create / archive templates
+ */
+export function TemplatesSection() {
+  const { templates, isLoading, isSaving, load, create, save } = useTemplates();
+
+  const [showArchived, setShowArchived] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [variants, setVariants] = useState<DraftVariant[]>([]);
+  const [newKey, setNewKey] = useState("");
+  const [newName, setNewName] = useState("");
+
+  const selected = templates.find((template) => template.id === selectedId) ?? null;
+
+  const select = (template: TemplateWithVariants | null) => {
+    setSelectedId(template?.id ?? null);
+    setName(template?.name ?? "");
+    setVariants(template ? toDraft(template) : []);
+  };
+
+  const handleLoad = async (includeArchived = showArchived) => {
+    try {
+      const loaded = await load(includeArchived);
+      select(loaded.find((template) => template.id === selectedId) ?? loaded[0] ?? null);
+    } catch (error) {
+      console.error("[TEMPLATES] Failed to load:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to load templates");
+    }
+  };
+
+  useEffect(() => {
+    handleLoad();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const updateVariant = (index: number, changes: Partial<DraftVariant>) => {
+    setVariants((current) =>
+      current.map((variant, i) => (i === index ? { ...variant, ...changes } : variant))
+    );
+  };
+
+  const handleSave = async () => {
+    if (!selected) return;
+
+    try {
+      await save(selected.id, {
+        name,
+        variants: variants.map(({ id, label, body, weight, active }) => ({ id, label, body, weight, active })),
+      });
+      toast.success("Template saved");
+      await handleLoad();
+    } catch (error) {
+      console.error("[TEMPLATES] Save failed:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save template");
+    }
+  };
+
+  const handleArchive = async () => {
+    if (!selected) return;
+
+    try {
+      await save(selected.id, { archived: !selected.archived });
+      toast.success(selected.archived ? "Template restored" : "Template archived");
+      await handleLoad();
+    } catch (error) {
+      console.error("[TEMPLATES] Archive failed:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to archive template");
+    }
+  };
+
+  const handleCreate = async () => {
+    try {
+      const template = await create({
+        key: newKey,
+        name: newName,
+        variants: [{ label: "A", body: "Hey! @{username} your Geoplet is ready to mint for {price} 🖼️", weight: 1, active: true }],
+      });
+      toast.success(`Template "${template.name}" created`);
+      setNewKey("");
+      setNewName("");
+      setSelectedId(template.id);
+      const loaded = await load(showArchived);
+      select(loaded.find((item) => item.id === template.id) ?? null);
+    } catch (error) {
+      console.error("[TEMPLATES] Create failed:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to create template");
+    }
+  };
+
+  const totalWeight = variants
+    .filter((variant) => variant.active)
+    .reduce((total, variant) => total + (variant.weight || 0), 0);
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-3">
+      {/* Template List */}
+      <Card className="p-6 lg:col-span-1">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold">Templates</h3>
+          <Button variant="outline" size="sm" onClick={() => handleLoad()} disabled={isLoading}>
+            {isLoading ? "Loading..." : "Refresh"}
+          </Button>
+        </div>
+
+        <div className="space-y-2 mb-4">
+          {templates.map((template) => (
+            <button
+              key={template.id}
+              onClick={() => select(template)}
+              className={`w-full rounded-md border p-3 text-left text-sm ${
+                template.id === selectedId ? "border-primary bg-muted" : ""
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium truncate">{template.name}</span>
+                {template.archived && <Badge variant="secondary">archived</Badge>}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {template.key} · {template.variants.filter((variant) => variant.active).length} active variant(s)
+              </p>
+            </button>
+          ))}
+          {templates.length === 0 && !isLoading && (
+            <p className="text-sm text-muted-foreground">No templates yet.</p>
+          )}
+        </div>
+
+        <label className="flex items-center gap-2 text-sm mb-6">
+          <Checkbox
+            checked={showArchived}
+            onCheckedChange={(checked) => {
+              setShowArchived(checked === true);
+              handleLoad(checked === true);
+            }}
+          />
+          Show archived
+        </label>
+
+        {/* New Template */}
+        <div className="space-y-2 border-t pt-4">
+          <p className="text-sm font-medium">New Template</p>
+          <input
+            value={newKey}
+            onChange={(e) => setNewKey(e.target.value)}
+            placeholder="key (e.g. weekend)"
+            className="h-9 w-full rounded-md border px-3 text-sm"
+          />
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Name"
+            className="h-9 w-full rounded-md border px-3 text-sm"
+          />
+          <Button
+            className="w-full"
+            onClick={handleCreate}
+            disabled={isSaving || !newKey.trim() || !newName.trim()}
+          >
+            Create Template
+          </Button>
+        </div>
+      </Card>
+
+      {/* Editor */}
+      <Card className="p-6 lg:col-span-2">
+        {!selected ? (
+          <p className="text-sm text-muted-foreground">Select a template to edit.</p>
+        ) : (
+          <>
+            <div className="flex items-center justify-between gap-4 mb-4">
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="h-9 w-full rounded-md border px-3 text-sm font-medium"
+              />
+              <Button variant="outline" onClick={handleArchive} disabled={isSaving}>
+                {selected.archived ? "Restore" : "Archive"}
+              </Button>
+            </div>
+
+            <p className="text-xs text-muted-foreground mb-4">
+              Variables: {VARIABLES.map((variable) => `{${variable}}`).join(" ")} · Each FID always
+              gets the same variant, picked by weight among active variants.
+            </p>
+
+            <div className="space-y-4 mb-4">
+              {variants.map((variant, index) => {
+                const share = variant.active && totalWeight > 0 ? variant.weight / totalWeight : 0;
+                return (
+                  <div key={variant.id ?? `new-${index}`} className="rounded-md border p-3 space-y-2">
+                    <div className="flex flex-wrap items-center gap-3 text-sm">
+                      <input
+                        value={variant.label}
+                        onChange={(e) => updateVariant(index, { label: e.target.value })}
+                        className="h-8 w-16 rounded-md border px-2 text-sm"
+                        aria-label="Variant label"
+                      />
+                      <label className="flex items-center gap-1">
+                        Weight
+                        <input
+                          type="number"
+                          min={1}
+                          value={variant.weight}
+                          onChange={(e) => updateVariant(index, { weight: Number(e.target.value) })}
+                          className="h-8 w-16 rounded-md border px-2 text-sm"
+                        />
+                      </label>
+                      <label className="flex items-center gap-1">
+                        <Checkbox
+                          checked={variant.active}
+                          onCheckedChange={(checked) => updateVariant(index, { active: checked === true })}
+                        />
+                        Active
+                      </label>
+                      <span className="text-xs text-muted-foreground">
+                        {(share * 100).toFixed(0)}% of sends
+                      </span>
+                      <span className="ml-auto text-xs tabular-nums text-muted-foreground">
+                        {variant.sent} sent · {variant.mints} minted ·{" "}
+                        {variant.sent > 0 ? `${((variant.mints / variant.sent) * 100).toFixed(1)}%` : "—"}
+                      </span>
+                    </div>
+                    <Textarea
+                      value={variant.body}
+                      onChange={(e) => updateVariant(index, { body: e.target.value })}
+                      rows={3}
+                      className="resize-none"
+                    />
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() =>
+                  setVariants((current) => [
+                    ...current,
+                    { label: nextLabel(current), body: "", weight: 1, active: true, sent: 0, mints: 0 },
+                  ])
+                }
+              >
+                Add Variant
+              </Button>
+              <Button onClick={handleSave} disabled={isSaving}>
+                {isSaving ? "Saving..." : "Save Template"}
+              </Button>
+            </div>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
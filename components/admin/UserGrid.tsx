@@ -4,10 +4,16 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
-import type { UnconvertedUser } from "@/lib/supabase";
+import type { OutreachUser, SuppressionReason } from "@/lib/outreach-suppression";
+
+const SUPPRESSION_LABEL: Record<SuppressionReason, string> = {
+  opted_out: "Opted out",
+  max_contacts: "Max contacts",
+  cooldown: "Cooldown",
+};
 
 interface UserGridProps {
-  users: UnconvertedUser[];
+  users: OutreachUser[];
   selectedFids: Set<number>;
   onToggleUser: (fid: number) => void;
   onToggleAll: () => void;
@@ -98,12 +104,31 @@ export function UserGrid({ users, selectedFids, onToggleUser, onToggleAll }: Use
                     <span className="text-muted-foreground">
                       Generated: {generatedDate}
                     </span>
-                    {user.cast_sent && (
-                      <Badge variant="secondary" className="text-xs">
-                        Contacted
-                      </Badge>
-                    )}
+                    <div className="flex gap-1">
+                      {user.cast_sent && (
+                        <Badge variant="secondary" className="text-xs">
+                          Contacted
+                        </Badge>
+                      )}
+                      {user.suppression && (
+                        <Badge
+                          variant={user.suppression.reason === "opted_out" ? "destructive" : "outline"}
+                          className="text-xs"
+                        >
+                          {SUPPRESSION_LABEL[user.suppression.reason]}
+                        </Badge>
+                      )}
+                    </div>
                   </div>
+
+                  {/* Why this user won't be contacted */}
+                  {user.suppression && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {user.suppression.detail}
+                      {user.suppression.until &&
+                        ` · until ${new Date(user.suppression.until).toLocaleString()}`}
+                    </p>
+                  )}
                 </div>
               </div>
             </Card>
@@ -1,18 +1,28 @@
 "use client";
 
-import { useAccount, useReadContract } from "wagmi";
+import { useCallback, useEffect, useState } from "react";
+import { useAccount, useReadContract, useSignMessage } from "wagmi";
+import { createSiweMessage } from "viem/siwe";
 import { GEOPLET_CONFIG } from "@/lib/contracts";
 
 /**
  * useAdminAuth Hook
  *
- * Verifies if the connected wallet is the contract owner.
- * Used to protect admin routes and functionality.
+ * Verifies if the connected wallet is the contract owner, and manages the
+ * server-side admin session (Sign-In with Ethereum, see lib/admin-auth.ts).
  *
- * @returns {Object} - { isOwner, isLoading, address, ownerAddress }
+ * The owner check only gates the UI. Admin API routes require the session
+ * cookie issued by signIn().
+ *
+ * @returns {Object} - { isOwner, isLoading, address, ownerAddress, isAuthenticated, isSigningIn, signIn, signOut }
  */
 export function useAdminAuth() {
-  const { address, isConnected } = useAccount();
+  const { address, isConnected, chainId } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+
+  const [sessionAddress, setSessionAddress] = useState<string | null>(null);
+  const [isCheckingSession, setIsCheckingSession] = useState(true);
+  const [isSigningIn, setIsSigningIn] = useState(false);
 
   // Read owner address from Geoplet contract
   const { data: ownerAddress, isLoading: isLoadingOwner } = useReadContract({
@@ -27,10 +37,97 @@ export function useAdminAuth() {
     ownerAddress &&
     address.toLowerCase() === (ownerAddress as string).toLowerCase();
 
+  // Restore existing session on mount
+  useEffect(() => {
+    const checkSession = async () => {
+      try {
+        const response = await fetch("/api/admin/auth/session");
+        const data = await response.json();
+        setSessionAddress(data.authenticated ? data.address : null);
+      } catch (error) {
+        console.error("[ADMIN-AUTH] Failed to check session:", error);
+        setSessionAddress(null);
+      } finally {
+        setIsCheckingSession(false);
+      }
+    };
+
+    checkSession();
+  }, []);
+
+  /**
+   * Sign in: fetch nonce → sign SIWE message → verify on server
+   */
+  const signIn = useCallback(async () => {
+    if (!address) {
+      throw new Error("Wallet not connected");
+    }
+
+    setIsSigningIn(true);
+    try {
+      const nonceResponse = await fetch("/api/admin/auth/nonce");
+      const nonceData = await nonceResponse.json();
+
+      if (!nonceData.success) {
+        throw new Error(nonceData.error || "Failed to get sign-in nonce");
+      }
+
+      const message = createSiweMessage({
+        address,
+        chainId: chainId ?? GEOPLET_CONFIG.chainId,
+        domain: window.location.host,
+        uri: window.location.origin,
+        nonce: nonceData.nonce,
+        version: "1",
+        statement: "Sign in to the Geoplet admin dashboard.",
+      });
+
+      const signature = await signMessageAsync({ message });
+
+      const verifyResponse = await fetch("/api/admin/auth/verify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ message, signature }),
+      });
+      const verifyData = await verifyResponse.json();
+
+      if (!verifyData.success) {
+        throw new Error(verifyData.error || "Admin sign-in failed");
+      }
+
+      setSessionAddress(verifyData.address);
+    } finally {
+      setIsSigningIn(false);
+    }
+  }, [address, chainId, signMessageAsync]);
+
+  /**
+   * Sign out: clear server session cookie
+   */
+  const signOut = useCallback(async () => {
+    try {
+      await fetch("/api/admin/auth/session", { method: "DELETE" });
+    } catch (error) {
+      console.error("[ADMIN-AUTH] Failed to sign out:", error);
+    } finally {
+      setSessionAddress(null);
+    }
+  }, []);
+
+  // Session only counts for the wallet currently connected
+  const isAuthenticated =
+    !!sessionAddress &&
+    !!address &&
+    sessionAddress.toLowerCase() === address.toLowerCase();
+
   return {
     isOwner,
-    isLoading: isLoadingOwner,
+    isLoading: isLoadingOwner || isCheckingSession,
     address,
     ownerAddress: ownerAddress as string | undefined,
+    isAuthenticated,
+    isSigningIn,
+    signIn,
+    signOut,
   };
 }
@@ -0,0 +1,311 @@
+// hooks/useAirdrop.ts
+
+/**
+ * useAirdrop Hook - Admin Batch Token Deposits
+ *
+ * Runs community reward airdrops from the admin dashboard instead of Etherscan.
+ *
+ * Flow:
+ * 1. Load holders (all minted Geoplets from Rarible, with rarity)
+ * 2. Compute total + check owner wallet balance/allowance
+ * 3. Approve the total once (if needed)
+ * 4. For each chunk: simulate → batchDepositEqual/batchDepositToTokens → record tx hash
+ *
+ * Contract: batch deposits are onlyOwner, max 500 token IDs per call.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useAccount, useChainId, usePublicClient, useWriteContract } from 'wagmi';
+import { erc20Abi, parseUnits } from 'viem';
+import { GEOPLET_CONFIG } from '@/lib/contracts';
+import { getNFTsFromCollection, GEOPLET_ADDRESS } from '@/lib/rarible';
+import { getRarityFromAttributes } from '@/lib/rarity';
+import { chunkList, type AirdropEntry } from '@/lib/airdrop';
+import type { VaultToken } from '@/lib/vault-config';
+import { useContractSimulation } from './useContractSimulation';
+
+export interface AirdropHolder {
+  tokenId: number;
+  owner?: string;
+  rarity: string | null;
+}
+
+export interface AirdropChunkResult {
+  index: number;
+  tokenIds: number[];
+  txHash?: `0x${string}`;
+  status: 'pending' | 'submitted' | 'confirmed' | 'failed';
+  error?: string;
+}
+
+export interface ApprovalInfo {
+  balance: bigint;
+  allowance: bigint;
+  total: bigint;
+  needsApproval: boolean;
+  hasEnoughBalance: boolean;
+}
+
+interface RunAirdropParams {
+  token: VaultToken;
+  entries: AirdropEntry[];
+  amountPerToken: string; // Used for entries without their own amount
+  chunkSize: number;
+}
+
+// Rarible page size for holder loading (collection is small, keep it simple)
+const HOLDER_PAGE_SIZE = 100;
+
+/**
+ * Resolve atomic amounts for every entry (per-token amount wins over the default)
+ */
+export function resolveAmounts(
+  entries: AirdropEntry[],
+  amountPerToken: string,
+  decimals: number
+): bigint[] {
+  return entries.map((entry) => parseUnits(entry.amount ?? (amountPerToken || '0'), decimals));
+}
+
+export function useAirdrop() {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const publicClient = usePublicClient({ chainId: GEOPLET_CONFIG.chainId });
+  const { writeContractAsync } = useWriteContract();
+  const { simulateBatchDeposit } = useContractSimulation();
+
+  const [holders, setHolders] = useState<AirdropHolder[]>([]);
+  const [isLoadingHolders, setIsLoadingHolders] = useState(false);
+  const [chunks, setChunks] = useState<AirdropChunkResult[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isApproving, setIsApproving] = useState(false);
+
+  /**
+   * Load every minted Geoplet (paginated Rarible collection)
+   */
+  const loadHolders = async () => {
+    setIsLoadingHolders(true);
+    try {
+      const all: AirdropHolder[] = [];
+      let continuation: string | undefined;
+
+      do {
+        const page = await getNFTsFromCollection(GEOPLET_ADDRESS, continuation, HOLDER_PAGE_SIZE);
+
+        for (const nft of page.items || []) {
+          const tokenId = parseInt(nft.tokenId, 10);
+          if (isNaN(tokenId) || tokenId <= 0) continue;
+
+          all.push({
+            tokenId,
+            owner: nft.owner,
+            rarity: getRarityFromAttributes(nft.attributes),
+          });
+        }
+
+        continuation = page.items?.length ? page.continuation : undefined;
+      } while (continuation);
+
+      all.sort((a, b) => a.tokenId - b.tokenId);
+      console.log('[AIRDROP] Loaded holders:', all.length);
+      setHolders(all);
+      return all;
+    } finally {
+      setIsLoadingHolders(false);
+    }
+  };
+
+  /**
+   * Read owner wallet balance + allowance for the airdrop total
+   */
+  const getApprovalInfo = async (token: VaultToken, total: bigint): Promise<ApprovalInfo | null> => {
+    if (!address || !publicClient) return null;
+
+    const [balance, allowance] = await Promise.all([
+      publicClient.readContract({
+        address: token.address,
+        abi: erc20Abi,
+        functionName: 'balanceOf',
+        args: [address],
+      }),
+      publicClient.readContract({
+        address: token.address,
+        abi: erc20Abi,
+        functionName: 'allowance',
+        args: [address, GEOPLET_CONFIG.address],
+      }),
+    ]);
+
+    return {
+      balance,
+      allowance,
+      total,
+      needsApproval: allowance < total,
+      hasEnoughBalance: balance >= total,
+    };
+  };
+
+  /**
+   * Record a chunk on the server (audit trail). Failures are logged, not thrown,
+   * so a DB hiccup never interrupts an on-chain airdrop mid-way.
+   */
+  const recordChunk = async (method: 'POST' | 'PATCH', body: object) => {
+    try {
+      const response = await fetch('/api/admin/airdrop', {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        console.error('[AIRDROP] Failed to record batch:', data.error);
+      }
+    } catch (error) {
+      console.error('[AIRDROP] Failed to record batch:', error);
+    }
+  };
+
+  /**
+   * Run the airdrop: approve once, then send each chunk sequentially.
+   * Stops at the first failed chunk so the admin can review before resuming.
+   */
+  const runAirdrop = async ({ token, entries, amountPerToken, chunkSize }: RunAirdropParams) => {
+    if (!address || !publicClient) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (chainId !== GEOPLET_CONFIG.chainId) {
+      throw new Error('Please switch to Base Mainnet');
+    }
+
+    if (entries.length === 0) {
+      throw new Error('No Geoplets selected');
+    }
+
+    const amounts = resolveAmounts(entries, amountPerToken, token.decimals);
+    if (amounts.some((amount) => amount <= BigInt(0))) {
+      throw new Error('Every Geoplet needs an amount greater than 0');
+    }
+
+    // Equal mode when every entry uses the same amount (cheaper calldata)
+    const isEqual = amounts.every((amount) => amount === amounts[0]);
+    const total = amounts.reduce((sum, amount) => sum + amount, BigInt(0));
+
+    const approval = await getApprovalInfo(token, total);
+    if (!approval?.hasEnoughBalance) {
+      throw new Error(`Insufficient ${token.symbol} balance in the owner wallet`);
+    }
+
+    const indexed = entries.map((entry, i) => ({ tokenId: entry.tokenId, amount: amounts[i] }));
+    const batches = chunkList(indexed, chunkSize);
+    const airdropId = crypto.randomUUID();
+
+    setChunks(
+      batches.map((batch, index) => ({
+        index,
+        tokenIds: batch.map((item) => item.tokenId),
+        status: 'pending',
+      }))
+    );
+    setIsRunning(true);
+
+    const updateChunk = (index: number, update: Partial<AirdropChunkResult>) =>
+      setChunks((prev) => prev.map((chunk) => (chunk.index === index ? { ...chunk, ...update } : chunk)));
+
+    try {
+      // Step 1: Approve the full total once
+      if (approval.needsApproval) {
+        setIsApproving(true);
+        console.log('[AIRDROP] Approving', total.toString(), token.symbol);
+
+        const approveHash = await writeContractAsync({
+          address: token.address,
+          abi: erc20Abi,
+          functionName: 'approve',
+          args: [GEOPLET_CONFIG.address, total],
+        });
+        await publicClient.waitForTransactionReceipt({ hash: approveHash });
+        setIsApproving(false);
+      }
+
+      // Step 2: One transaction per chunk
+      for (const [index, batch] of batches.entries()) {
+        const tokenIds = batch.map((item) => BigInt(item.tokenId));
+        const batchAmounts = batch.map((item) => item.amount);
+        const batchTotal = batchAmounts.reduce((sum, amount) => sum + amount, BigInt(0));
+
+        const simulation = await simulateBatchDeposit(
+          address,
+          tokenIds,
+          token.address,
+          isEqual ? batchAmounts[0] : batchAmounts
+        );
+
+        if (!simulation.success) {
+          updateChunk(index, { status: 'failed', error: simulation.error });
+          throw new Error(`Chunk ${index + 1}/${batches.length}: ${simulation.error}`);
+        }
+
+        const hash = isEqual
+          ? await writeContractAsync({
+              address: GEOPLET_CONFIG.address,
+              abi: GEOPLET_CONFIG.abi,
+              functionName: 'batchDepositEqual',
+              args: [tokenIds, token.address, batchAmounts[0]],
+            })
+          : await writeContractAsync({
+              address: GEOPLET_CONFIG.address,
+              abi: GEOPLET_CONFIG.abi,
+              functionName: 'batchDepositToTokens',
+              args: [tokenIds, token.address, batchAmounts],
+            });
+
+        updateChunk(index, { status: 'submitted', txHash: hash });
+        await recordChunk('POST', {
+          airdropId,
+          chunkIndex: index,
+          chunkCount: batches.length,
+          method: isEqual ? 'batchDepositEqual' : 'batchDepositToTokens',
+          tokenAddress: token.address,
+          tokenSymbol: token.symbol,
+          tokenIds: batch.map((item) => item.tokenId),
+          amounts: isEqual
+            ? [batchAmounts[0].toString()]
+            : batchAmounts.map((amount) => amount.toString()),
+          totalAmount: batchTotal.toString(),
+          txHash: hash,
+        });
+
+        const receipt = await publicClient.waitForTransactionReceipt({ hash });
+        const status = receipt.status === 'success' ? 'confirmed' : 'failed';
+
+        updateChunk(index, { status });
+        await recordChunk('PATCH', { txHash: hash, status });
+
+        if (status === 'failed') {
+          throw new Error(`Chunk ${index + 1}/${batches.length} reverted`);
+        }
+
+        console.log(`[AIRDROP] ✅ Chunk ${index + 1}/${batches.length} confirmed:`, hash);
+      }
+
+      return { airdropId, chunks: batches.length };
+    } finally {
+      setIsApproving(false);
+      setIsRunning(false);
+    }
+  };
+
+  return {
+    holders,
+    isLoadingHolders,
+    loadHolders,
+    getApprovalInfo,
+    runAirdrop,
+    chunks,
+    isRunning,
+    isApproving,
+  };
+}
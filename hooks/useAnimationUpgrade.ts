@@ -0,0 +1,256 @@
+// hooks/useAnimationUpgrade.ts
+
+/**
+ * useAnimationUpgrade Hook - Paid Animated Upgrade
+ *
+ * Upgrades a minted Geoplet to an on-chain HTML/SVG animation via
+ * upgradeToAnimated(UpgradeVoucher, base64HtmlAnimation, signature).
+ *
+ * Flow (mirrors MintButton):
+ * 1. x402 payment (PAYMENT_CONFIG.ANIMATION) → verified, NOT settled
+ * 2. Backend returns animation + EIP-712 UpgradeVoucher
+ * 3. Simulate upgradeToAnimated
+ * 4. Settle payment (/api/settle-payment, purpose: 'animation')
+ * 5. Submit transaction → PATCH /api/payment-tracking/[tokenId]?purpose=animation
+ *    (mint_submitted → minted, or failed)
+ *
+ * Recovery: if a payment was settled but the upgrade never landed
+ * (ledger status 'settled' or 'failed'), upgrade() re-requests a free voucher
+ * from /api/get-upgrade-signature-paid instead of charging again.
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { sdk } from '@farcaster/miniapp-sdk';
+import {
+  useAccount,
+  useChainId,
+  usePublicClient,
+  useReadContract,
+  useWriteContract,
+} from 'wagmi';
+import { GEOPLET_CONFIG } from '@/lib/contracts';
+import { PAYMENT_CONFIG } from '@/lib/payment-config';
+import { usePayment } from './usePayment';
+import { useContractSimulation } from './useContractSimulation';
+
+export type UpgradeState =
+  | 'idle'
+  | 'paying'
+  | 'simulating'
+  | 'settling'
+  | 'upgrading'
+  | 'success';
+
+interface UpgradePayload {
+  voucher: {
+    to: string;
+    tokenId: string;
+    nonce: string;
+    deadline: string;
+  };
+  signature: string;
+  animation: string;
+}
+
+export function useAnimationUpgrade(tokenId: number | null | undefined) {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const publicClient = usePublicClient({ chainId: GEOPLET_CONFIG.chainId });
+  const { writeContractAsync } = useWriteContract();
+  const { requestUpgradeSignature } = usePayment(PAYMENT_CONFIG.ANIMATION);
+  const { simulateUpgrade } = useContractSimulation();
+
+  const [state, setState] = useState<UpgradeState>('idle');
+  const [txHash, setTxHash] = useState<`0x${string}` | null>(null);
+  const [needsRecovery, setNeedsRecovery] = useState(false);
+
+  const { data: hasAnimation, refetch: refetchHasAnimation } = useReadContract({
+    address: GEOPLET_CONFIG.address,
+    abi: GEOPLET_CONFIG.abi,
+    functionName: 'hasAnimation',
+    args: tokenId ? [BigInt(tokenId)] : undefined,
+    chainId: GEOPLET_CONFIG.chainId,
+    query: { enabled: !!tokenId },
+  });
+
+  // Detect settled-but-not-upgraded payments
+  const checkRecovery = useCallback(async () => {
+    if (!tokenId) return;
+
+    try {
+      const response = await sdk.quickAuth.fetch(`/api/payment-tracking/${tokenId}?purpose=animation`);
+      if (!response.ok) {
+        setNeedsRecovery(false);
+        return;
+      }
+
+      const { data } = await response.json();
+      setNeedsRecovery(data?.status === 'settled' || data?.status === 'failed');
+    } catch (error) {
+      console.error('[UPGRADE] Failed to check recovery status:', error);
+    }
+  }, [tokenId]);
+
+  useEffect(() => {
+    checkRecovery();
+  }, [checkRecovery]);
+
+  const updateTracking = async (
+    status: 'mint_submitted' | 'minted' | 'failed',
+    hash?: string,
+    error?: string
+  ) => {
+    try {
+      await sdk.quickAuth.fetch(`/api/payment-tracking/${tokenId}?purpose=animation`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status, tx_hash: hash, error }),
+      });
+    } catch (err) {
+      // Don't block - tracking is secondary to the on-chain result
+      console.error('[UPGRADE] Failed to update tracking:', err);
+    }
+  };
+
+  /**
+   * Submit upgradeToAnimated. Payment is already settled at this point, so any
+   * failure marks the record 'failed' to keep the free recovery path open.
+   */
+  const submitUpgrade = async (payload: UpgradePayload) => {
+    if (!publicClient) {
+      throw new Error('Network client unavailable');
+    }
+
+    setState('upgrading');
+
+    try {
+      const hash = await writeContractAsync({
+        address: GEOPLET_CONFIG.address,
+        abi: GEOPLET_CONFIG.abi,
+        functionName: 'upgradeToAnimated',
+        args: [
+          {
+            to: payload.voucher.to as `0x${string}`,
+            tokenId: BigInt(payload.voucher.tokenId),
+            nonce: BigInt(payload.voucher.nonce),
+            deadline: BigInt(payload.voucher.deadline),
+          },
+          payload.animation,
+          payload.signature as `0x${string}`,
+        ],
+      });
+      setTxHash(hash);
+      await updateTracking('mint_submitted', hash);
+
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      if (receipt.status !== 'success') {
+        throw new Error('Upgrade transaction reverted');
+      }
+
+      await updateTracking('minted', hash);
+      console.log('[UPGRADE] ✅ Geoplet upgraded:', { tokenId, hash });
+      return hash;
+    } catch (error) {
+      await updateTracking('failed', undefined, error instanceof Error ? error.message : undefined);
+      setNeedsRecovery(true);
+      throw error;
+    }
+  };
+
+  /**
+   * Recovery path: payment already settled, get a fresh voucher for free
+   */
+  const recoverUpgrade = async () => {
+    setState('simulating');
+
+    const response = await sdk.quickAuth.fetch('/api/get-upgrade-signature-paid', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ userAddress: address, tokenId }),
+    });
+    const data = await response.json();
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || 'Failed to recover upgrade');
+    }
+
+    const simulation = await simulateUpgrade(data.voucher, data.animation, data.signature);
+    if (!simulation.success) {
+      throw new Error(simulation.error || 'Contract simulation failed');
+    }
+
+    return submitUpgrade(data);
+  };
+
+  /**
+   * Paid path: x402 → simulate → settle → upgrade
+   */
+  const paidUpgrade = async () => {
+    setState('paying');
+    const data = await requestUpgradeSignature(String(tokenId));
+
+    setState('simulating');
+    const simulation = await simulateUpgrade(data.voucher, data.animation, data.signature);
+    if (!simulation.success) {
+      // Payment verified but NOT settled - user is not charged
+      throw new Error(simulation.error || 'Contract simulation failed');
+    }
+
+    setState('settling');
+    const settleResponse = await fetch('/api/settle-payment', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        purpose: 'animation',
+        tokenId: String(tokenId),
+        paymentHeader: data.paymentHeader,
+        paymentId: data.paymentId,
+        userAddress: data.voucher.to,
+      }),
+    });
+    const settleData = await settleResponse.json();
+
+    if (!settleResponse.ok || !settleData.success) {
+      throw new Error(settleData.error || 'Payment settlement failed');
+    }
+
+    console.log('[UPGRADE] ✅ Payment settled:', settleData.txHash);
+    return submitUpgrade(data);
+  };
+
+  /**
+   * Upgrade the Geoplet (recovers automatically if already paid)
+   * @returns Upgrade transaction hash
+   */
+  const upgrade = async () => {
+    if (!address || !tokenId) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (chainId !== GEOPLET_CONFIG.chainId) {
+      throw new Error('Please switch to Base Mainnet');
+    }
+
+    try {
+      const hash = needsRecovery ? await recoverUpgrade() : await paidUpgrade();
+      setNeedsRecovery(false);
+      setState('success');
+      await refetchHasAnimation();
+      return hash;
+    } catch (error) {
+      setState('idle');
+      throw error;
+    }
+  };
+
+  return {
+    upgrade,
+    state,
+    txHash,
+    hasAnimation: hasAnimation === true,
+    needsRecovery,
+    price: PAYMENT_CONFIG.ANIMATION.price,
+  };
+}
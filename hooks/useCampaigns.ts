@@ -0,0 +1,158 @@
+// hooks/useCampaigns.ts
+
+/**
+ * useCampaigns Hook - Admin Outreach Campaigns
+ *
+ * Create campaigns, follow their progress and drive the outreach worker
+ * (see lib/outreach-campaigns.ts).
+ *
+ * While a campaign is running and the admin page is open, the hook keeps
+ * calling POST /api/admin/campaigns/run (one time-boxed tick per call).
+ * Closing the page just stops driving - the next tick (UI or CLI) resumes.
+ */
+
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { OutreachRecipient } from '@/lib/supabase';
+import type {
+  CampaignAction,
+  CampaignAudience,
+  CampaignSummary,
+  WorkerReport,
+} from '@/lib/outreach-campaigns';
+
+// Wait before the next tick when nothing was due (retry backoff / schedule)
+const IDLE_TICK_DELAY_MS = 15_000;
+
+export interface NewCampaign {
+  name: string;
+  templateId?: string;
+  message?: string;
+  audience: CampaignAudience;
+  scheduledAt?: string;
+}
+
+/**
+ * Running, or scheduled and already due
+ */
+export function isCampaignActive(campaign: CampaignSummary): boolean {
+  return (
+    campaign.status === 'running' ||
+    (campaign.status === 'scheduled' && new Date(campaign.scheduled_at).getTime() <= Date.now())
+  );
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  const data = await response.json();
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.details || data.error || 'Request failed');
+  }
+
+  return data as T;
+}
+
+export function useCampaigns() {
+  const [campaigns, setCampaigns] = useState<CampaignSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [isDriving, setIsDriving] = useState(false);
+  const [lastReport, setLastReport] = useState<WorkerReport | null>(null);
+  const drivingRef = useRef(false);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const data = await request<{ campaigns: CampaignSummary[] }>('/api/admin/campaigns');
+      setCampaigns(data.campaigns);
+      return data.campaigns;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  /**
+   * Run worker ticks until no campaign is active (or stop() is called)
+   */
+  const drive = useCallback(async () => {
+    if (drivingRef.current) return;
+    drivingRef.current = true;
+    setIsDriving(true);
+
+    try {
+      while (drivingRef.current) {
+        const { report } = await request<{ report: WorkerReport }>('/api/admin/campaigns/run', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({}),
+        });
+        setLastReport(report);
+
+        const latest = await load();
+        if (!latest.some(isCampaignActive)) break;
+
+        const processed = report.campaigns.some(
+          (campaign) => campaign.sent + campaign.failed + campaign.skipped + campaign.retried > 0
+        );
+        if (!processed || report.rateLimited) {
+          await new Promise((resolve) => setTimeout(resolve, IDLE_TICK_DELAY_MS));
+        }
+      }
+    } finally {
+      drivingRef.current = false;
+      setIsDriving(false);
+    }
+  }, [load]);
+
+  const stop = useCallback(() => {
+    drivingRef.current = false;
+  }, []);
+
+  // Stop driving when the admin page unmounts
+  useEffect(() => stop, [stop]);
+
+  const create = async (campaign: NewCampaign): Promise<CampaignSummary> => {
+    setIsCreating(true);
+    try {
+      const data = await request<{ campaign: CampaignSummary }>('/api/admin/campaigns', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(campaign),
+      });
+      await load();
+      return data.campaign;
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const act = async (id: string, action: CampaignAction) => {
+    await request(`/api/admin/campaigns/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action }),
+    });
+    await load();
+  };
+
+  const loadRecipients = async (id: string): Promise<OutreachRecipient[]> => {
+    const data = await request<{ recipients: OutreachRecipient[] }>(`/api/admin/campaigns/${id}`);
+    return data.recipients;
+  };
+
+  return {
+    campaigns,
+    isLoading,
+    isCreating,
+    isDriving,
+    lastReport,
+    load,
+    create,
+    act,
+    drive,
+    stop,
+    loadRecipients,
+  };
+}
@@ -1,9 +1,9 @@
 // hooks/useContractSimulation.ts
 //
 // Contract Simulation Hook
-// Simulates mint transaction BEFORE payment (TRUE blockchain simulation)
+// Simulates mint/upgrade transactions BEFORE payment settlement (TRUE blockchain simulation)
 
-import { createPublicClient, http } from 'viem';
+import { createPublicClient, http, erc20Abi, isAddressEqual, type Address } from 'viem';
 import { base } from 'viem/chains';
 import { GEOPLET_CONFIG } from '@/lib/contracts';
 
@@ -17,6 +17,16 @@ interface MintVoucher {
   deadline: string;
 }
 
+/**
+ * Upgrade voucher structure (must match backend lib/upgrade-voucher.ts)
+ */
+interface UpgradeVoucher {
+  to: string;
+  tokenId: string;
+  nonce: string;
+  deadline: string;
+}
+
 /**
  * Simulation result
  */
@@ -26,6 +36,14 @@ interface SimulationResult {
   canRetry?: boolean;
 }
 
+/**
+ * Vault deposit pre-flight result
+ * needsApproval: ERC20 allowance must be raised before depositToToken
+ */
+interface DepositCheckResult extends SimulationResult {
+  needsApproval?: boolean;
+}
+
 /**
  * Hook for TRUE contract simulation using viem
  *
@@ -221,7 +239,320 @@ export function useContractSimulation() {
     }
   };
 
-  return { checkEligibility, simulateMint };
+  /**
+   * Simulate upgradeToAnimated (run BEFORE settling the animation payment)
+   *
+   * @param voucher - Upgrade voucher from backend
+   * @param animation - Base64 HTML animation
+   * @param signature - EIP-712 signature
+   */
+  const simulateUpgrade = async (
+    voucher: UpgradeVoucher,
+    animation: string,
+    signature: string
+  ): Promise<SimulationResult> => {
+    try {
+      console.log('[UPGRADE-SIMULATION] Starting contract simulation...', {
+        tokenId: voucher.tokenId,
+        animationBytes: animation.length,
+      });
+
+      const publicClient = createPublicClient({
+        chain: base,
+        transport: http('https://mainnet.base.org'), // Base official RPC
+      });
+
+      await publicClient.simulateContract({
+        address: GEOPLET_CONFIG.address,
+        abi: GEOPLET_CONFIG.abi,
+        functionName: 'upgradeToAnimated',
+        args: [
+          {
+            to: voucher.to as `0x${string}`,
+            tokenId: BigInt(voucher.tokenId),
+            nonce: BigInt(voucher.nonce),
+            deadline: BigInt(voucher.deadline),
+          },
+          animation,
+          signature as `0x${string}`,
+        ],
+        account: voucher.to as `0x${string}`,
+      });
+
+      console.log('[UPGRADE-SIMULATION] ✅ Contract simulation passed');
+      return { success: true };
+    } catch (err: unknown) {
+      console.error('[UPGRADE-SIMULATION] ❌ Simulation failed:', err);
+      const parsed = parseContractError(err);
+      return { success: false, error: parsed.message, canRetry: parsed.canRetry };
+    }
+  };
+
+  /**
+   * Pre-flight check for depositing ERC20 into a Geoplet vault
+   *
+   * Checks (mirrors depositToToken require() statements):
+   * - Caller is contract owner (depositToToken is onlyOwner)
+   * - Token exists (minted and not burned)
+   * - Amount > 0 and caller holds enough of the ERC20
+   * - Allowance (returns needsApproval instead of failing)
+   *
+   * @param account - Depositor address
+   * @param tokenId - Geoplet token ID
+   * @param erc20Token - ERC20 token address
+   * @param amount - Amount in atomic units
+   * @returns Check result with approval requirement
+   */
+  const checkVaultDeposit = async (
+    account: Address,
+    tokenId: bigint,
+    erc20Token: Address,
+    amount: bigint
+  ): Promise<DepositCheckResult> => {
+    try {
+      console.log('[VAULT-PREFLIGHT] Checking deposit...', {
+        tokenId: tokenId.toString(),
+        erc20Token,
+        amount: amount.toString(),
+      });
+
+      if (amount <= BigInt(0)) {
+        return { success: false, error: 'Amount must be greater than 0', canRetry: true };
+      }
+
+      const publicClient = createPublicClient({
+        chain: base,
+        transport: http('https://mainnet.base.org'), // Base official RPC
+      });
+
+      // Check 1: Only contract owner can deposit
+      const owner = await publicClient.readContract({
+        address: GEOPLET_CONFIG.address,
+        abi: GEOPLET_CONFIG.abi,
+        functionName: 'owner',
+      });
+
+      if (!isAddressEqual(owner, account)) {
+        return {
+          success: false,
+          error: 'Only the collection owner can deposit into Geoplet vaults.',
+          canRetry: false,
+        };
+      }
+
+      // Check 2: Token exists (ownerOf reverts for unminted/burned tokens)
+      try {
+        await publicClient.readContract({
+          address: GEOPLET_CONFIG.address,
+          abi: GEOPLET_CONFIG.abi,
+          functionName: 'ownerOf',
+          args: [tokenId],
+        });
+      } catch {
+        return {
+          success: false,
+          error: `Geoplet #${tokenId.toString()} does not exist.`,
+          canRetry: false,
+        };
+      }
+
+      // Check 3: ERC20 balance + allowance
+      const [balance, allowance] = await Promise.all([
+        publicClient.readContract({
+          address: erc20Token,
+          abi: erc20Abi,
+          functionName: 'balanceOf',
+          args: [account],
+        }),
+        publicClient.readContract({
+          address: erc20Token,
+          abi: erc20Abi,
+          functionName: 'allowance',
+          args: [account, GEOPLET_CONFIG.address],
+        }),
+      ]);
+
+      if (balance < amount) {
+        return {
+          success: false,
+          error: 'Insufficient token balance for this deposit.',
+          canRetry: true,
+        };
+      }
+
+      console.log('[VAULT-PREFLIGHT] ✅ Deposit checks passed', {
+        needsApproval: allowance < amount,
+      });
+
+      return { success: true, needsApproval: allowance < amount };
+    } catch (err: unknown) {
+      console.error('[VAULT-PREFLIGHT] ❌ Deposit check failed:', err);
+      const parsed = parseContractError(err);
+      return { success: false, error: parsed.message, canRetry: parsed.canRetry };
+    }
+  };
+
+  /**
+   * Simulate depositToToken (run after approval)
+   */
+  const simulateVaultDeposit = async (
+    account: Address,
+    tokenId: bigint,
+    erc20Token: Address,
+    amount: bigint
+  ): Promise<SimulationResult> => {
+    try {
+      const publicClient = createPublicClient({
+        chain: base,
+        transport: http('https://mainnet.base.org'), // Base official RPC
+      });
+
+      await publicClient.simulateContract({
+        address: GEOPLET_CONFIG.address,
+        abi: GEOPLET_CONFIG.abi,
+        functionName: 'depositToToken',
+        args: [tokenId, erc20Token, amount],
+        account,
+      });
+
+      console.log('[VAULT-SIMULATION] ✅ Deposit simulation passed');
+      return { success: true };
+    } catch (err: unknown) {
+      console.error('[VAULT-SIMULATION] ❌ Deposit simulation failed:', err);
+      const parsed = parseContractError(err);
+      return { success: false, error: parsed.message, canRetry: parsed.canRetry };
+    }
+  };
+
+  /**
+   * Pre-flight + simulation for withdrawing a vault balance
+   *
+   * Checks (mirrors withdraw require() statements):
+   * - Withdrawals globally enabled
+   * - Caller owns the Geoplet
+   * - Vault holds a non-zero balance of the token
+   * Then runs simulateContract for anything else.
+   */
+  const simulateVaultWithdraw = async (
+    account: Address,
+    tokenId: bigint,
+    erc20Token: Address
+  ): Promise<SimulationResult> => {
+    try {
+      console.log('[VAULT-PREFLIGHT] Checking withdrawal...', {
+        tokenId: tokenId.toString(),
+        erc20Token,
+      });
+
+      const publicClient = createPublicClient({
+        chain: base,
+        transport: http('https://mainnet.base.org'), // Base official RPC
+      });
+
+      const [enabled, balance] = await Promise.all([
+        publicClient.readContract({
+          address: GEOPLET_CONFIG.address,
+          abi: GEOPLET_CONFIG.abi,
+          functionName: 'withdrawalsEnabled',
+        }),
+        publicClient.readContract({
+          address: GEOPLET_CONFIG.address,
+          abi: GEOPLET_CONFIG.abi,
+          functionName: 'getTokenBalance',
+          args: [tokenId, erc20Token],
+        }),
+      ]);
+
+      if (!enabled) {
+        return {
+          success: false,
+          error: 'Withdrawals are not enabled yet.',
+          canRetry: true,
+        };
+      }
+
+      if (balance === BigInt(0)) {
+        return {
+          success: false,
+          error: 'Nothing to withdraw for this token.',
+          canRetry: false,
+        };
+      }
+
+      await publicClient.simulateContract({
+        address: GEOPLET_CONFIG.address,
+        abi: GEOPLET_CONFIG.abi,
+        functionName: 'withdraw',
+        args: [tokenId, erc20Token],
+        account,
+      });
+
+      console.log('[VAULT-SIMULATION] ✅ Withdraw simulation passed');
+      return { success: true };
+    } catch (err: unknown) {
+      console.error('[VAULT-SIMULATION] ❌ Withdraw simulation failed:', err);
+      const parsed = parseContractError(err);
+      return { success: false, error: parsed.message, canRetry: parsed.canRetry };
+    }
+  };
+
+  /**
+   * Simulate an admin batch deposit (airdrop chunk)
+   *
+   * Equal mode → batchDepositEqual(tokenIds, erc20, amountPerToken)
+   * Per-token mode → batchDepositToTokens(tokenIds, erc20, amounts)
+   * Run after approval so allowance reverts don't mask real errors.
+   */
+  const simulateBatchDeposit = async (
+    account: Address,
+    tokenIds: bigint[],
+    erc20Token: Address,
+    amounts: bigint | bigint[]
+  ): Promise<SimulationResult> => {
+    try {
+      const publicClient = createPublicClient({
+        chain: base,
+        transport: http('https://mainnet.base.org'), // Base official RPC
+      });
+
+      if (Array.isArray(amounts)) {
+        await publicClient.simulateContract({
+          address: GEOPLET_CONFIG.address,
+          abi: GEOPLET_CONFIG.abi,
+          functionName: 'batchDepositToTokens',
+          args: [tokenIds, erc20Token, amounts],
+          account,
+        });
+      } else {
+        await publicClient.simulateContract({
+          address: GEOPLET_CONFIG.address,
+          abi: GEOPLET_CONFIG.abi,
+          functionName: 'batchDepositEqual',
+          args: [tokenIds, erc20Token, amounts],
+          account,
+        });
+      }
+
+      console.log('[AIRDROP-SIMULATION] ✅ Batch simulation passed', {
+        tokens: tokenIds.length,
+      });
+      return { success: true };
+    } catch (err: unknown) {
+      console.error('[AIRDROP-SIMULATION] ❌ Batch simulation failed:', err);
+      const parsed = parseContractError(err);
+      return { success: false, error: parsed.message, canRetry: parsed.canRetry };
+    }
+  };
+
+  return {
+    checkEligibility,
+    simulateMint,
+    simulateUpgrade,
+    checkVaultDeposit,
+    simulateVaultDeposit,
+    simulateVaultWithdraw,
+    simulateBatchDeposit,
+  };
 }
 
 /**
@@ -311,6 +642,92 @@ function parseContractError(error: unknown): { message: string; canRetry: boolea
     };
   }
 
+  // Animation upgrade errors
+  if (errorStr.includes('empty animation data')) {
+    return {
+      message: 'Animation data is empty. Please try again.',
+      canRetry: true,
+    };
+  }
+
+  if (errorStr.includes('animation too large')) {
+    return {
+      message: 'Animation too large (max 24KB).',
+      canRetry: false,
+    };
+  }
+
+  // Vault (ERC20 treasury) errors
+  if (errorStr.includes('withdrawals disabled')) {
+    return {
+      message: 'Withdrawals are not enabled yet.',
+      canRetry: true,
+    };
+  }
+
+  if (errorStr.includes('not token owner')) {
+    return {
+      message: 'Only the owner of this Geoplet can do that.',
+      canRetry: false,
+    };
+  }
+
+  if (errorStr.includes('no balance')) {
+    return {
+      message: 'Nothing to withdraw for this token.',
+      canRetry: false,
+    };
+  }
+
+  if (errorStr.includes("token doesn't exist")) {
+    return {
+      message: 'This Geoplet does not exist (not minted or burned).',
+      canRetry: false,
+    };
+  }
+
+  if (errorStr.includes('batch too large')) {
+    return {
+      message: 'Batch too large (max 500 tokens per transaction).',
+      canRetry: false,
+    };
+  }
+
+  if (errorStr.includes('no valid tokens')) {
+    return {
+      message: 'None of the selected Geoplets exist.',
+      canRetry: false,
+    };
+  }
+
+  if (errorStr.includes('length mismatch')) {
+    return {
+      message: 'Token IDs and amounts do not match.',
+      canRetry: false,
+    };
+  }
+
+  if (errorStr.includes('ownableunauthorizedaccount')) {
+    return {
+      message: 'Only the collection owner can do that.',
+      canRetry: false,
+    };
+  }
+
+  if (errorStr.includes('insufficientallowance') || errorStr.includes('exceeds allowance')) {
+    return {
+      message: 'Token approval too low. Please approve and try again.',
+      canRetry: true,
+    };
+  }
+
+  if (errorStr.includes('insufficientbalance') || errorStr.includes('exceeds balance')) {
+    return {
+      message: 'Insufficient token balance.',
+      canRetry: true,
+    };
+  }
+
   // Network/RPC errors
   if (errorStr.includes('insufficient funds')) {
     return {
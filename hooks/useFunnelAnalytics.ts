@@ -0,0 +1,37 @@
+// hooks/useFunnelAnalytics.ts
+
+/**
+ * useFunnelAnalytics Hook - Admin Conversion Funnel
+ *
+ * Loads the funnel, weekly cohorts and campaign attribution
+ * from GET /api/analytics/funnel (see lib/funnel.ts).
+ */
+
+'use client';
+
+import { useCallback, useState } from 'react';
+import type { FunnelReport } from '@/lib/funnel';
+
+export function useFunnelAnalytics() {
+  const [report, setReport] = useState<FunnelReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/analytics/funnel');
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.details || data.error || 'Failed to load funnel');
+      }
+
+      const { stages, cohorts, campaigns } = data as FunnelReport;
+      setReport({ stages, cohorts, campaigns });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  return { report, isLoading, load };
+}
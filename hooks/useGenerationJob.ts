@@ -0,0 +1,109 @@
+// hooks/useGenerationJob.ts
+
+/**
+ * useGenerationJob Hook - Asynchronous Image Generation
+ *
+ * Queues a generation job, polls it to completion and finds a FID's in-flight
+ * job so a reopened app can resume it (see lib/generation-jobs.ts).
+ * The server saves the result to unminted_geoplets - no client save needed.
+ * Every call goes through sdk.quickAuth.fetch - jobs are scoped to the token's FID.
+ */
+
+'use client';
+
+import { useCallback, useState } from 'react';
+import { sdk } from '@farcaster/miniapp-sdk';
+import type { GenerationJobStatus, GenerationJobView } from '@/lib/generation-jobs';
+
+const POLL_INTERVAL_MS = 2000;
+
+// Give up polling (the job keeps running server-side and is resumed on next open)
+const POLL_TIMEOUT_MS = 5 * 60_000;
+
+export const JOB_STAGE_LABELS: Record<GenerationJobStatus, string> = {
+  queued: 'Waiting in line...',
+  fetching_source: 'Fetching your Warplet...',
+  generating: 'Generating geometric art...',
+  compressing: 'Compressing for on-chain storage...',
+  saved: 'Saved!',
+  failed: 'Generation failed',
+};
+
+export interface GenerationJobInput {
+  fid: number;
+  username?: string | null;
+  imageUrl: string;
+  tokenId: string;
+  name?: string;
+  styleId?: string;
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await sdk.quickAuth.fetch(url, init);
+  const data = await response.json();
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.details || data.error || 'Request failed');
+  }
+
+  return data as T;
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function useGenerationJob() {
+  const [status, setStatus] = useState<GenerationJobStatus | null>(null);
+
+  const findActiveJob = useCallback(async (fid: number): Promise<GenerationJobView | null> => {
+    const data = await request<{ job: GenerationJobView | null }>(`/api/generate-image/jobs?fid=${fid}`);
+    return data.job;
+  }, []);
+
+  const startJob = useCallback(async (input: GenerationJobInput): Promise<GenerationJobView> => {
+    const data = await request<{ job: GenerationJobView }>('/api/generate-image', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });  // FID comes from the Quick Auth token
+
+    setStatus(data.job.status);
+    return data.job;
+  }, []);
+
+  /**
+   * Poll until the job is saved (returns it with imageData) or failed (throws)
+   * Network errors while polling are expected on mobile - keep going.
+   */
+  const waitForJob = useCallback(async (jobId: string): Promise<GenerationJobView> => {
+    const deadline = Date.now() + POLL_TIMEOUT_MS;
+
+    while (Date.now() < deadline) {
+      let job: GenerationJobView | null = null;
+
+      try {
+        job = (await request<{ job: GenerationJobView }>(`/api/generate-image/jobs/${jobId}`)).job;
+      } catch (error) {
+        // TypeError = fetch failed, SyntaxError = non-JSON gateway page
+        if (!(error instanceof TypeError) && !(error instanceof SyntaxError)) throw error;
+        console.warn('[GEN-JOB] Poll failed, retrying:', error);
+      }
+
+      if (job) {
+        setStatus(job.status);
+
+        if (job.status === 'saved') return job;
+        if (job.status === 'failed') {
+          throw new Error(job.error || 'Generation failed');
+        }
+      }
+
+      await sleep(POLL_INTERVAL_MS);
+    }
+
+    throw new Error('Generation is taking longer than expected. Reopen the app to check again.');
+  }, []);
+
+  return { status, findActiveJob, startJob, waitForJob };
+}
@@ -3,58 +3,45 @@
  *
  * Manages saving/loading/deleting generated images to/from Supabase
  * Ensures persistence of unminted generations across sessions
+ * Requests carry a Quick Auth token - the server only acts on the signed-in FID
  */
 
 "use client";
 
 import { useState, useCallback } from "react";
+import { sdk } from "@farcaster/miniapp-sdk";
 
 export function useGenerationStorage() {
   const [isSaving, setIsSaving] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
 
-  // Save generation to Supabase
+  // Save a generated version (generation_versions id) as the image to mint
   const saveGeneration = useCallback(
-    async (fid: number, imageData: string, username: string): Promise<boolean> => {
-      // Enhanced validation logging
+    async (fid: number, versionId: string, username: string): Promise<boolean> => {
       console.log('[SAVE-GEN] Starting save:', {
         fid,
-        fidType: typeof fid,
+        versionId,
         username,
-        imageDataLength: imageData?.length,
-        imageDataPrefix: imageData?.substring(0, 50),
         timestamp: new Date().toISOString()
       });
 
-      if (!fid || !imageData || !username) {
+      if (!fid || !versionId || !username) {
         console.error("[SAVE-GEN] ❌ Validation failed:", {
           fid,
           fidType: typeof fid,
-          hasImageData: !!imageData,
+          hasVersionId: !!versionId,
           hasUsername: !!username
         });
         return false;
       }
 
-      // Calculate image size (base64 decoded)
-      const base64Data = imageData.split(',')[1] || imageData;
-      const sizeInBytes = Buffer.from(base64Data, 'base64').length;
-      const sizeInKB = (sizeInBytes / 1024).toFixed(2);
-
-      console.log('[SAVE-GEN] Image size:', {
-        fid,
-        sizeInBytes,
-        sizeInKB: `${sizeInKB} KB`,
-        isWithinLimit: sizeInBytes <= 24576
-      });
-
       setIsSaving(true);
       try {
-        const response = await fetch("/api/save-generation", {
+        const response = await sdk.quickAuth.fetch("/api/save-generation", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ fid, image_data: imageData, username }),
+          body: JSON.stringify({ fid, version_id: versionId, username }),
         });
 
         const data = await response.json();
@@ -71,8 +58,7 @@ export function useGenerationStorage() {
           console.error("[SAVE-GEN] ❌ Save failed:", {
             fid,
             error: data.error,
-            status: response.status,
-            sizeInKB
+            status: response.status
           });
           return false;
         }
@@ -103,7 +89,7 @@ export function useGenerationStorage() {
 
       setIsLoading(true);
       try {
-        const response = await fetch(`/api/get-generation?fid=${fid}`);
+        const response = await sdk.quickAuth.fetch(`/api/get-generation?fid=${fid}`);
         const data = await response.json();
 
         if (!data.success) {
@@ -132,7 +118,7 @@ export function useGenerationStorage() {
 
       setIsDeleting(true);
       try {
-        const response = await fetch(`/api/delete-generation?fid=${fid}`, {
+        const response = await sdk.quickAuth.fetch(`/api/delete-generation?fid=${fid}`, {
           method: "DELETE",
         });
 
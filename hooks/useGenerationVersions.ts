@@ -0,0 +1,124 @@
+// hooks/useGenerationVersions.ts
+
+/**
+ * useGenerationVersions Hook - Version History + Regeneration
+ *
+ * Lists every image generated for a FID, picks the one to mint and requests
+ * new versions (free quota, then PAYMENT_CONFIG.REGENERATE via x402).
+ * See lib/generation-versions.ts.
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { sdk } from '@farcaster/miniapp-sdk';
+import { PAYMENT_CONFIG } from '@/lib/payment-config';
+import type { GenerationVersionView } from '@/lib/generation-versions';
+import { usePayment } from './usePayment';
+import { useGenerationJob, type GenerationJobInput } from './useGenerationJob';
+
+export interface RegenerationQuotaView {
+  freeQuota: number;
+  freeRemaining: number;
+  hasCredit: boolean;
+  price: string;
+}
+
+// Quick Auth token - the server only serves the signed-in FID's versions
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await sdk.quickAuth.fetch(url, init);
+  const data = await response.json();
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.details || data.error || 'Request failed');
+  }
+
+  return data as T;
+}
+
+export function useGenerationVersions(fid: number | null | undefined) {
+  const [versions, setVersions] = useState<GenerationVersionView[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [quota, setQuota] = useState<RegenerationQuotaView | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRegenerating, setIsRegenerating] = useState(false);
+
+  const { requestRegeneration, status: paymentStatus } = usePayment(PAYMENT_CONFIG.REGENERATE);
+  const { status: jobStatus, waitForJob } = useGenerationJob();
+
+  const refresh = useCallback(async () => {
+    if (!fid) return;
+
+    setIsLoading(true);
+    try {
+      const data = await request<{
+        versions: GenerationVersionView[];
+        selectedId: string | null;
+        quota: RegenerationQuotaView;
+      }>(`/api/generations/${fid}`);
+
+      setVersions(data.versions);
+      setSelectedId(data.selectedId);
+      setQuota(data.quota);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [fid]);
+
+  useEffect(() => {
+    refresh().catch((error) => {
+      console.error('[GEN-VERSION] Failed to load versions:', error);
+    });
+  }, [refresh]);
+
+  const selectVersion = useCallback(
+    async (versionId: string): Promise<GenerationVersionView> => {
+      if (!fid) throw new Error('FID is required');
+
+      const data = await request<{ version: GenerationVersionView }>(`/api/generations/${fid}/select`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ versionId }),
+      });
+
+      setSelectedId(data.version.id);
+      return data.version;
+    },
+    [fid]
+  );
+
+  /**
+   * Queue a new version and wait for it (returns the saved job's image)
+   */
+  const regenerate = useCallback(
+    async (source: Omit<GenerationJobInput, 'fid'>): Promise<string> => {
+      if (!fid) throw new Error('FID is required');
+
+      setIsRegenerating(true);
+      try {
+        const { job } = await requestRegeneration({ ...source, fid });
+        const completed = await waitForJob(job.id);
+        return completed.imageData ?? '';
+      } finally {
+        setIsRegenerating(false);
+        await refresh().catch((error) => {
+          console.error('[GEN-VERSION] Failed to reload versions:', error);
+        });
+      }
+    },
+    [fid, requestRegeneration, waitForJob, refresh]
+  );
+
+  return {
+    versions,
+    selectedId,
+    quota,
+    isLoading,
+    isRegenerating,
+    paymentStatus,
+    jobStatus,
+    refresh,
+    selectVersion,
+    regenerate,
+  };
+}
@@ -0,0 +1,124 @@
+// hooks/useNotifications.ts
+
+/**
+ * useNotifications Hook - Admin In-App Notifications
+ *
+ * Compose + send notifications and run lifecycle triggers
+ * (see lib/notifications.ts and lib/notification-triggers.ts).
+ *
+ * Each compose gets one notificationId: retrying a partially failed send
+ * reuses it, so users who already received it are skipped server-side.
+ */
+
+'use client';
+
+import { useCallback, useState } from 'react';
+import type { NotificationDelivery } from '@/lib/supabase';
+import type { NotificationSendResult } from '@/lib/notifications';
+import type { NotificationTrigger } from '@/lib/notification-triggers';
+
+export type NotificationAudience = 'all' | 'unminted' | 'fids';
+
+export interface NotificationStats {
+  enabled: number;
+  invalid: number;
+  rateLimited: number;
+}
+
+export interface ComposeNotification {
+  title: string;
+  body: string;
+  targetPath: string;
+  audience: NotificationAudience;
+  fids?: number[];
+}
+
+function newNotificationId() {
+  return `admin-${crypto.randomUUID()}`;
+}
+
+export function useNotifications() {
+  const [stats, setStats] = useState<NotificationStats | null>(null);
+  const [deliveries, setDeliveries] = useState<NotificationDelivery[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [runningTrigger, setRunningTrigger] = useState<NotificationTrigger | null>(null);
+  const [notificationId, setNotificationId] = useState(newNotificationId);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/admin/notifications');
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.details || data.error || 'Failed to load notifications');
+      }
+
+      setStats(data.stats);
+      setDeliveries(data.deliveries);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  /**
+   * Start a new compose (next send gets a fresh notificationId)
+   */
+  const resetCompose = () => setNotificationId(newNotificationId());
+
+  const send = async (compose: ComposeNotification): Promise<NotificationSendResult> => {
+    setIsSending(true);
+    try {
+      const response = await fetch('/api/admin/notifications', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...compose, notificationId }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.details || data.error || 'Failed to send notification');
+      }
+
+      await load();
+      return data.result;
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const runTrigger = async (trigger: NotificationTrigger): Promise<NotificationSendResult> => {
+    setRunningTrigger(trigger);
+    try {
+      const response = await fetch('/api/admin/notifications/triggers', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ trigger }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.details || data.error || 'Trigger failed');
+      }
+
+      await load();
+      return data.result;
+    } finally {
+      setRunningTrigger(null);
+    }
+  };
+
+  return {
+    stats,
+    deliveries,
+    notificationId,
+    isLoading,
+    isSending,
+    runningTrigger,
+    load,
+    send,
+    resetCompose,
+    runTrigger,
+  };
+}
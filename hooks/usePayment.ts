@@ -3,7 +3,22 @@
  *
  * Supports multiple payment flows:
  * - Mint: $2 USDC → Get Signature → Mint NFT
- * - Regenerate: $3 USDC → Generate Image
+ * - Animation: PAYMENT_CONFIG.ANIMATION → Upgrade Voucher → upgradeToAnimated
+ * - Regenerate: PAYMENT_CONFIG.REGENERATE ($0.90 USDC) → Generation Job
+ *   (free while the FID has free regenerations left - no 402, no signature)
+ *
+ * Networks: Base USDC by default (EIP-3009). Mint can also be paid with USDC
+ * on Solana (requestMintSignature(fid, 'solana')) - the Farcaster Solana wallet
+ * signs a transfer to the onchain.fi intermediate (see lib/solana-payment.ts).
+ *
+ * The payer always signs to terms.payTo - the address the server's selected
+ * facilitator needs (onchain.fi intermediate, or the treasury for the local
+ * relayer - see lib/facilitators.ts) - for terms.maxAmountRequired of
+ * terms.asset, as advertised by withX402 (lib/x402-route.ts). A paid response
+ * carries X-PAYMENT-RESPONSE, exposed as paymentResponse.
+ *
+ * Requests go through sdk.quickAuth.fetch - user-scoped endpoints take the
+ * FID from the Quick Auth token (see lib/quick-auth.ts).
  *
  * Manual 402 Payment Flow:
  * 1. Make initial request to backend (no payment header)
@@ -11,7 +26,7 @@
  * 3. Prompt user to authorize USDC payment (EIP-3009 signature)
  * 4. Generate x402 payment header with signature
  * 5. Retry request with X-Payment header
- * 6. Backend verifies payment and returns response
+ * 6. Backend verifies payment and returns response (+ X-PAYMENT-RESPONSE)
  *
  * Benefits of manual implementation:
  * - Full control over payment header format
@@ -32,15 +47,18 @@
 
 import { useState } from 'react';
 import { useAccount, useWalletClient } from 'wagmi';
-import { generatePaymentHeader } from '@/lib/payment-header';
-import type { PaymentRequired402Response } from '@/types/x402';
+import { sdk } from '@farcaster/miniapp-sdk';
+import { generatePaymentHeader, decodePaymentResponseHeader } from '@/lib/payment-header';
+import { generateSolanaPaymentHeader } from '@/lib/solana-payment';
+import type { PaymentRequired402Response, PaymentRequirements, X402PaymentResponse } from '@/types/x402';
 import {
   isAPIError,
   AppError,
   PaymentErrorCode,
   type APIError,
 } from '@/types/errors';
-import { ONCHAIN_FI_INTERMEDIATES } from '@/lib/payment-config';
+import type { PaymentNetwork } from '@/lib/payment-config';
+import type { GenerationJobView } from '@/lib/generation-jobs';
 
 // Use empty string for relative paths in client-side fetch
 // This ensures same-origin requests with all headers preserved (including X-Payment)
@@ -79,6 +97,39 @@ export interface MintSignatureResponse {
   paymentId: string;     // Required for settlement - from onchain.fi verify response
 }
 
+export interface UpgradeSignatureResponse {
+  voucher: {
+    to: string;
+    tokenId: string;
+    nonce: string;
+    deadline: string;
+  };
+  signature: string;
+  animation: string;     // Base64 HTML for upgradeToAnimated
+  paymentHeader: string; // For settlement after simulation
+  paymentId: string;     // Required for settlement - from onchain.fi verify response
+}
+
+export interface RegenerationResponse {
+  jobId: string;
+  job: GenerationJobView;
+  created: boolean;
+  paid: boolean;
+  paymentId: string | null;    // Ledger row (paid or credited regeneration)
+  freeRemaining?: number;
+}
+
+interface RequestOptions {
+  allowFree?: boolean;                                   // A 2xx first response is the result (no payment needed)
+  isValid?: (data: Record<string, unknown>) => boolean;  // Success response shape check
+  network?: PaymentNetwork;                              // Network to pay on (default 'base')
+}
+
+// Voucher flows (mint, animation) always pay and return a signed voucher
+function isVoucherResponse(data: Record<string, unknown>): boolean {
+  return !!data.voucher && !!data.signature && !!data.paymentId;
+}
+
 export function usePayment(config: PaymentConfig) {
   const { address, isConnected } = useAccount();
   const { data: walletClient } = useWalletClient();
@@ -86,9 +137,31 @@ export function usePayment(config: PaymentConfig) {
   const [error, setError] = useState<string | null>(null);
   const [signatureData, setSignatureData] = useState<MintSignatureResponse | null>(null);
   const [paymentTerms, setPaymentTerms] = useState<PaymentRequired402Response | null>(null);
+  const [paymentResponse, setPaymentResponse] = useState<X402PaymentResponse | null>(null);
+
+  /**
+   * Sign a USDC transfer with the Farcaster Solana wallet
+   *
+   * @param terms - Solana entry of the 402 response (transfer to payTo, fee payer in extra.feePayer)
+   */
+  const signSolanaPayment = async (terms: PaymentRequirements): Promise<string> => {
+    const provider = await sdk.wallet.getSolanaProvider();
+    if (!provider) {
+      throw new Error('Solana wallet not available');
+    }
+
+    const { publicKey } = await provider.request({ method: 'connect' });
+
+    return generateSolanaPaymentHeader(provider, {
+      payer: publicKey,
+      payTo: terms.payTo,
+      amount: terms.maxAmountRequired,
+      feePayer: terms.extra?.feePayer,
+    });
+  };
 
   /**
-   * Request mint signature with manual x402 payment flow
+   * Call config.endpoint with manual x402 payment flow
    *
    * Step 1: Make initial request (no payment)
    * Step 2: Receive 402 with payment terms
@@ -96,10 +169,18 @@ export function usePayment(config: PaymentConfig) {
    * Step 4: Generate payment header
    * Step 5: Retry with X-Payment header
    *
-   * @param fid - Farcaster ID
-   * @returns Mint signature and voucher data
+   * @param body - Request body (userAddress is added automatically)
+   * @param options - allowFree: accept a 2xx first response; isValid: response check;
+   *                  network: pay on 'base' (default) or 'solana'
+   * @returns Parsed success response (voucher + signature + paymentId by default)
    */
-  const requestMintSignature = async (fid: string): Promise<MintSignatureResponse> => {
+  const requestWithPayment = async <T extends object>(
+    body: Record<string, unknown>,
+    options: RequestOptions = {}
+  ): Promise<T> => {
+    const isValid = options.isValid ?? isVoucherResponse;
+    const network = options.network ?? 'base';
+
     try {
       if (!isConnected || !address) {
         throw new Error('Wallet not connected');
@@ -115,21 +196,35 @@ export function usePayment(config: PaymentConfig) {
 
       setStatus('fetching_terms');
       setError(null);
+      setPaymentResponse(null);
 
       console.log(`[x402 ${config.label}] Step 1: Requesting payment terms...`);
 
       // Step 1: Make initial request without payment header
-      const initialResponse = await fetch(`${API_BASE_URL}${config.endpoint}`, {
+      const initialResponse = await sdk.quickAuth.fetch(`${API_BASE_URL}${config.endpoint}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           userAddress: address,
-          fid,
+          ...body,
         }),
       });
 
+      // Free request (e.g. regeneration within the free quota) - nothing to pay
+      if (options.allowFree && initialResponse.ok) {
+        const data = await initialResponse.json();
+
+        if (!data.success || !isValid(data)) {
+          throw new AppError(PaymentErrorCode.API_ERROR, 'Invalid response from server');
+        }
+
+        console.log(`[x402 ${config.label}] No payment required`);
+        setStatus('success');
+        return data as T;
+      }
+
       // Step 2: Expect 402 Payment Required
       if (initialResponse.status !== 402) {
         // If not 402, something is wrong
@@ -148,39 +243,49 @@ export function usePayment(config: PaymentConfig) {
       const paymentTermsData = await initialResponse.json() as PaymentRequired402Response;
       setPaymentTerms(paymentTermsData);
 
+      const terms = paymentTermsData.accepts?.find((entry) => entry.network === network);
+
       console.log(`[x402 ${config.label}] Step 2: Received 402 Payment Required:`, {
-        amount: paymentTermsData.accepts[0]?.maxAmountRequired,
-        recipient: paymentTermsData.accepts[0]?.payTo,
-        description: paymentTermsData.accepts[0]?.description,
+        network,
+        amount: terms?.maxAmountRequired,
+        recipient: terms?.payTo,
+        description: terms?.description,
       });
 
       // Validate payment terms
-      if (!paymentTermsData.accepts?.[0]) {
-        throw new Error('Invalid payment terms received');
+      if (!terms) {
+        throw new Error(`Invalid payment terms received (no ${network} option)`);
       }
 
-      const terms = paymentTermsData.accepts[0];
+      // Never sign more than the price shown in the UI
+      if (terms.maxAmountRequired !== config.priceAtomic) {
+        throw new AppError(
+          PaymentErrorCode.API_ERROR,
+          `Unexpected payment amount (expected ${config.priceAtomic}, got ${terms.maxAmountRequired})`
+        );
+      }
 
       // Step 3: Prompt user to sign (UI will show modal)
       setStatus('awaiting_signature');
       console.log(`[x402 ${config.label}] Step 3: Awaiting user signature for payment authorization...`);
 
-      // Generate payment header with EIP-3009 signature
-      // CRITICAL: Sign to onchain.fi intermediate address, NOT final recipient
-      // The intermediate handles the transfer and forwards to final recipient
+      // Generate payment header (EIP-3009 signature, or signed Solana transfer)
+      // CRITICAL: Sign to terms.payTo - the address the server's facilitator settles from
+      // (onchain.fi intermediate forwards to the treasury, the local relayer pays it directly)
       setStatus('processing');
       console.log(`[x402 ${config.label}] Step 4: Generating payment header...`);
-      console.log(`[x402 ${config.label}] Signing to intermediate: ${ONCHAIN_FI_INTERMEDIATES.BASE_TO_BASE}`);
-      console.log(`[x402 ${config.label}] Final recipient (from terms): ${terms.payTo}`);
-
-      const paymentHeader = await generatePaymentHeader(walletClient, {
-        from: address,
-        to: ONCHAIN_FI_INTERMEDIATES.BASE_TO_BASE as `0x${string}`,  // Sign to intermediate, NOT final recipient
-        value: config.priceAtomic,
-        validAfter: '0',
-        usdcAddress: USDC_ADDRESS,
-        chainId: CHAIN_ID,
-      });
+      console.log(`[x402 ${config.label}] Signing to payTo (from terms): ${terms.payTo}`);
+
+      const paymentHeader = network === 'solana'
+        ? await signSolanaPayment(terms)
+        : await generatePaymentHeader(walletClient, {
+            from: address,
+            to: terms.payTo as `0x${string}`,
+            value: terms.maxAmountRequired,
+            validAfter: '0',
+            usdcAddress: (terms.asset || USDC_ADDRESS) as `0x${string}`,
+            chainId: CHAIN_ID,
+          });
 
       console.log(`[x402 ${config.label}] Payment header generated, length:`, paymentHeader.length);
 
@@ -188,7 +293,7 @@ export function usePayment(config: PaymentConfig) {
       setStatus('verifying');
       console.log(`[x402 ${config.label}] Step 5: Retrying request with payment header...`);
 
-      const paymentResponse = await fetch(`${API_BASE_URL}${config.endpoint}`, {
+      const paidResponse = await sdk.quickAuth.fetch(`${API_BASE_URL}${config.endpoint}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -196,12 +301,12 @@ export function usePayment(config: PaymentConfig) {
         },
         body: JSON.stringify({
           userAddress: address,
-          fid,
+          ...body,
         }),
       });
 
-      if (!paymentResponse.ok) {
-        const errorData = await paymentResponse.json().catch(() => null);
+      if (!paidResponse.ok) {
+        const errorData = await paidResponse.json().catch(() => null);
 
         // Check if error has error code structure
         if (errorData && isAPIError(errorData)) {
@@ -209,22 +314,24 @@ export function usePayment(config: PaymentConfig) {
         }
 
         // Fallback to generic error
-        const message = errorData?.message || errorData?.error || `HTTP ${paymentResponse.status}`;
+        const message = errorData?.message || errorData?.error || `HTTP ${paidResponse.status}`;
         throw new AppError(PaymentErrorCode.PAYMENT_VERIFICATION_FAILED, message);
       }
 
-      const data = await paymentResponse.json();
+      const data = await paidResponse.json();
 
-      if (!data.success || !data.voucher || !data.signature || !data.paymentId) {
+      if (!data.success || !isValid(data)) {
         throw new AppError(PaymentErrorCode.API_ERROR, 'Invalid response from server');
       }
 
-      console.log(`[x402 ${config.label}] Payment verified and signature received!`);
+      const receipt = decodePaymentResponseHeader(paidResponse.headers.get('X-PAYMENT-RESPONSE'));
+      setPaymentResponse(receipt);
+
+      console.log(`[x402 ${config.label}] Payment verified and signature received!`, receipt);
 
-      setSignatureData(data);
       setStatus('success');
 
-      return data;
+      return data as T;
     } catch (err: unknown) {
       console.error(`[x402 ${config.label}] Payment error:`, err);
 
@@ -261,6 +368,58 @@ export function usePayment(config: PaymentConfig) {
     }
   };
 
+  /**
+   * Request mint signature (x402 paid)
+   *
+   * @param fid - Farcaster ID
+   * @param network - Pay with USDC on Base (default) or Solana
+   * @returns Mint signature and voucher data
+   */
+  const requestMintSignature = async (
+    fid: string,
+    network: PaymentNetwork = 'base'
+  ): Promise<MintSignatureResponse> => {
+    const data = await requestWithPayment<MintSignatureResponse>({ fid }, { network });
+    setSignatureData(data);
+    return data;
+  };
+
+  /**
+   * Request animated upgrade voucher + animation (x402 paid)
+   *
+   * @param tokenId - Geoplet token ID (equals FID)
+   * @returns Upgrade voucher, signature and base64 HTML animation
+   */
+  const requestUpgradeSignature = async (tokenId: string): Promise<UpgradeSignatureResponse> => {
+    const data = await requestWithPayment<UpgradeSignatureResponse>({ tokenId });
+
+    if (!data.animation) {
+      throw new AppError(PaymentErrorCode.API_ERROR, 'Invalid response from server');
+    }
+
+    return data;
+  };
+
+  /**
+   * Request a new image version (free quota first, then x402 paid)
+   *
+   * @param input - FID + Warplet source (same fields as /api/generate-image)
+   * @returns Queued generation job - poll it with useGenerationJob().waitForJob
+   */
+  const requestRegeneration = async (input: {
+    fid: number;
+    imageUrl: string;
+    tokenId: string;
+    name?: string;
+    username?: string | null;
+    styleId?: string;
+  }): Promise<RegenerationResponse> => {
+    return requestWithPayment<RegenerationResponse>({ ...input }, {
+      allowFree: true,
+      isValid: (data) => !!data.jobId && !!data.job,
+    });
+  };
+
   /**
    * Reset payment state
    */
@@ -269,6 +428,7 @@ export function usePayment(config: PaymentConfig) {
     setError(null);
     setSignatureData(null);
     setPaymentTerms(null);
+    setPaymentResponse(null);
   };
 
   return {
@@ -277,12 +437,15 @@ export function usePayment(config: PaymentConfig) {
     error,
     signatureData,
     paymentTerms,
+    paymentResponse,  // Decoded X-PAYMENT-RESPONSE of the last paid request
     isConnected,
     address,
     price: config.price,
 
     // Actions
     requestMintSignature,
+    requestUpgradeSignature,
+    requestRegeneration,
     reset,
   };
 }
@@ -0,0 +1,169 @@
+// hooks/useRefunds.ts
+
+/**
+ * useRefunds Hook - Admin Refund Queue
+ *
+ * Lists settled-but-never-fulfilled payments (/api/admin/refunds) and refunds
+ * them in USDC from the connected owner wallet.
+ *
+ * Flow per refund:
+ * 1. POST → ledger refund_pending (reserved - a second admin gets a 409)
+ * 2. USDC transfer(payer, amount) from the owner wallet
+ *    (wallet rejected → DELETE releases the reservation)
+ * 3. PUT tx hash → attached to the reservation
+ * 4. Wait for receipt → PATCH → ledger refunded (server verifies the transfer)
+ *
+ * A refund left in refund_pending (tab closed, RPC error) can be confirmed later.
+ */
+
+'use client';
+
+import { useCallback, useState } from 'react';
+import { useAccount, useChainId, usePublicClient, useWriteContract } from 'wagmi';
+import { erc20Abi, type Address } from 'viem';
+import { GEOPLET_CONFIG } from '@/lib/contracts';
+import { BASE_USDC_ADDRESS } from '@/lib/payment-config';
+import type { RefundCandidate } from '@/lib/refunds';
+
+async function postRefund(method: 'POST' | 'PUT' | 'DELETE' | 'PATCH', body: Record<string, unknown>) {
+  const response = await fetch('/api/admin/refunds', {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to update refund');
+  }
+
+  return data;
+}
+
+export function useRefunds() {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const publicClient = usePublicClient({ chainId: GEOPLET_CONFIG.chainId });
+  const { writeContractAsync } = useWriteContract();
+
+  const [refunds, setRefunds] = useState<RefundCandidate[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  /**
+   * Load the queue (payments older than olderThanHours with no fulfillment event)
+   */
+  const loadRefunds = useCallback(async (olderThanHours: number) => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/admin/refunds?olderThanHours=${olderThanHours}`);
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load refund queue');
+      }
+
+      setRefunds(data.refunds || []);
+      return data.refunds as RefundCandidate[];
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const updateRefund = (ledgerId: string, update: Partial<RefundCandidate>) =>
+    setRefunds((prev) =>
+      prev.map((refund) => (refund.ledgerId === ledgerId ? { ...refund, ...update } : refund))
+    );
+
+  /**
+   * Confirm a submitted refund (server checks the receipt + USDC transfer)
+   */
+  const confirmRefund = async (refund: RefundCandidate) => {
+    setProcessingId(refund.ledgerId);
+    try {
+      const data = await postRefund('PATCH', { ledgerId: refund.ledgerId });
+
+      if (data.pending) {
+        return 'pending' as const;
+      }
+
+      updateRefund(refund.ledgerId, {
+        status: data.payment.status,
+        lastError: data.payment.last_error,
+      });
+
+      if (!data.success) {
+        throw new Error(data.error || 'Refund transaction failed');
+      }
+
+      return 'refunded' as const;
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  /**
+   * Send the USDC refund from the owner wallet and move the ledger state
+   */
+  const sendRefund = async (refund: RefundCandidate) => {
+    if (!address || !publicClient) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (chainId !== GEOPLET_CONFIG.chainId) {
+      throw new Error('Please switch to Base Mainnet');
+    }
+
+    if (!refund.payer) {
+      throw new Error('Payer address unknown for this payment');
+    }
+
+    setProcessingId(refund.ledgerId);
+    try {
+      // Reserve first - nothing is sent unless this admin holds the payment
+      await postRefund('POST', { ledgerId: refund.ledgerId });
+      updateRefund(refund.ledgerId, { status: 'refund_pending', refundTxHash: null });
+
+      let hash: `0x${string}`;
+      try {
+        hash = await writeContractAsync({
+          address: BASE_USDC_ADDRESS as Address,
+          abi: erc20Abi,
+          functionName: 'transfer',
+          args: [refund.payer as Address, BigInt(refund.amount)],
+        });
+      } catch (error) {
+        // Nothing sent - make the payment refundable again
+        await postRefund('DELETE', { ledgerId: refund.ledgerId })
+          .then(() => updateRefund(refund.ledgerId, { status: 'failed' }))
+          .catch((releaseError) => console.error('[REFUNDS] Failed to release reservation:', releaseError));
+        throw error;
+      }
+
+      console.log('[REFUNDS] Refund submitted:', { fid: refund.fid, hash });
+
+      // The reservation stays locked if this fails - the refund is never sent twice
+      await postRefund('PUT', { ledgerId: refund.ledgerId, txHash: hash }).catch((error) => {
+        throw new Error(
+          `Refund ${hash} sent but not recorded (${error instanceof Error ? error.message : 'unknown error'})`
+        );
+      });
+      updateRefund(refund.ledgerId, { refundTxHash: hash });
+
+      await publicClient.waitForTransactionReceipt({ hash });
+    } finally {
+      setProcessingId(null);
+    }
+
+    return confirmRefund({ ...refund, status: 'refund_pending' });
+  };
+
+  return {
+    refunds,
+    isLoading,
+    loadRefunds,
+    sendRefund,
+    confirmRefund,
+    processingId,
+  };
+}
@@ -0,0 +1,113 @@
+// hooks/useSignerRotation.ts
+
+/**
+ * useSignerRotation Hook - Admin Voucher Signer Rotation
+ *
+ * Shows which configured signer the contract accepts and rotates to the
+ * NEXT_SIGNER_* key (see lib/voucher-signer.ts).
+ *
+ * Flow:
+ * 1. Owner wallet calls setSignerWallet(next)
+ * 2. Wait for receipt
+ * 3. POST /api/admin/signer → server verifies SignerWalletUpdated and switches over
+ */
+
+'use client';
+
+import { useCallback, useState } from 'react';
+import { useAccount, useChainId, usePublicClient, useWriteContract } from 'wagmi';
+import type { Address, Hash } from 'viem';
+import { GEOPLET_CONFIG } from '@/lib/contracts';
+import type { SignerStatus } from '@/lib/voucher-signer';
+
+export function useSignerRotation() {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const publicClient = usePublicClient({ chainId: GEOPLET_CONFIG.chainId });
+  const { writeContractAsync } = useWriteContract();
+
+  const [status, setStatus] = useState<SignerStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRotating, setIsRotating] = useState(false);
+
+  const loadStatus = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/admin/signer');
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.details || data.error || 'Failed to load signer status');
+      }
+
+      const { onchainSigner, signers, rotationPending } = data as SignerStatus;
+      setStatus({ onchainSigner, signers, rotationPending });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  /**
+   * Confirm a setSignerWallet tx with the server (safe to call again later)
+   */
+  const confirmRotation = async (txHash: Hash) => {
+    const response = await fetch('/api/admin/signer', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ txHash }),
+    });
+    const data = await response.json();
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || 'Failed to confirm rotation');
+    }
+
+    await loadStatus();
+    return data as { pending?: boolean; revokedVouchers?: number };
+  };
+
+  /**
+   * Point the contract at the NEXT_SIGNER_* key
+   */
+  const rotate = async () => {
+    const next = status?.signers.find((signer) => signer.slot === 'next');
+
+    if (!next) {
+      throw new Error('No next signer configured (NEXT_SIGNER_*)');
+    }
+
+    if (!address || !publicClient) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (chainId !== GEOPLET_CONFIG.chainId) {
+      throw new Error('Please switch to Base Mainnet');
+    }
+
+    setIsRotating(true);
+    try {
+      const hash = await writeContractAsync({
+        address: GEOPLET_CONFIG.address,
+        abi: GEOPLET_CONFIG.abi,
+        functionName: 'setSignerWallet',
+        args: [next.address as Address],
+      });
+
+      console.log('[SIGNER] setSignerWallet submitted:', { hash, newSigner: next.address });
+
+      await publicClient.waitForTransactionReceipt({ hash });
+      return await confirmRotation(hash);
+    } finally {
+      setIsRotating(false);
+    }
+  };
+
+  return {
+    status,
+    isLoading,
+    isRotating,
+    loadStatus,
+    rotate,
+    confirmRotation,
+  };
+}
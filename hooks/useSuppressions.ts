@@ -0,0 +1,75 @@
+// hooks/useSuppressions.ts
+
+/**
+ * useSuppressions Hook - Admin Outreach Opt-Outs
+ *
+ * Lists opt-outs + contact policy, opts FIDs out/in and triggers the
+ * opt-out reply scan (see lib/outreach-suppression.ts).
+ */
+
+'use client';
+
+import { useCallback, useState } from 'react';
+import type { OutreachSuppression } from '@/lib/supabase';
+import type { OptOutScanResult } from '@/lib/outreach-suppression';
+
+export interface SuppressionPolicy {
+  cooldownHours: number;
+  maxContacts: number;
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  const data = await response.json();
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.details || data.error || 'Request failed');
+  }
+
+  return data as T;
+}
+
+export function useSuppressions() {
+  const [optOuts, setOptOuts] = useState<OutreachSuppression[]>([]);
+  const [policy, setPolicy] = useState<SuppressionPolicy | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isScanning, setIsScanning] = useState(false);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const data = await request<{ optOuts: OutreachSuppression[]; policy: SuppressionPolicy }>(
+        '/api/admin/suppressions'
+      );
+      setOptOuts(data.optOuts);
+      setPolicy(data.policy);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const update = async (method: 'POST' | 'DELETE', fids: number[], note?: string) => {
+    await request('/api/admin/suppressions', {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ fids, note }),
+    });
+    await load();
+  };
+
+  const optOut = (fids: number[], note?: string) => update('POST', fids, note);
+  const optIn = (fids: number[]) => update('DELETE', fids);
+
+  const scan = async (): Promise<OptOutScanResult> => {
+    setIsScanning(true);
+    try {
+      const result = await request<OptOutScanResult>('/api/admin/suppressions/scan', { method: 'POST' });
+      await load();
+      return result;
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  return { optOuts, policy, isLoading, isScanning, load, optOut, optIn, scan };
+}
@@ -0,0 +1,98 @@
+// hooks/useTemplates.ts
+
+/**
+ * useTemplates Hook - Admin Outreach Template Library
+ *
+ * Load, create and save templates + A/B variants, and render previews for
+ * real recipients (see lib/outreach-templates.ts).
+ */
+
+'use client';
+
+import { useCallback, useState } from 'react';
+import type { OutreachTemplate } from '@/lib/supabase';
+import type {
+  TemplatePreview,
+  TemplateWithVariants,
+  VariantInput,
+} from '@/lib/outreach-templates';
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  const data = await response.json();
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.details || data.error || 'Request failed');
+  }
+
+  return data as T;
+}
+
+function jsonInit(method: string, body: unknown): RequestInit {
+  return {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  };
+}
+
+export function useTemplates() {
+  const [templates, setTemplates] = useState<TemplateWithVariants[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const load = useCallback(async (includeArchived = false) => {
+    setIsLoading(true);
+    try {
+      const data = await request<{ templates: TemplateWithVariants[] }>(
+        `/api/admin/templates${includeArchived ? '?archived=true' : ''}`
+      );
+      setTemplates(data.templates);
+      return data.templates;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const create = async (template: { key: string; name: string; variants: VariantInput[] }) => {
+    setIsSaving(true);
+    try {
+      const data = await request<{ template: OutreachTemplate }>(
+        '/api/admin/templates',
+        jsonInit('POST', template)
+      );
+      return data.template;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const save = async (
+    id: string,
+    changes: { name?: string; archived?: boolean; variants?: VariantInput[] }
+  ) => {
+    setIsSaving(true);
+    try {
+      const data = await request<{ template: OutreachTemplate }>(
+        `/api/admin/templates/${id}`,
+        jsonInit('PATCH', changes)
+      );
+      return data.template;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const preview = useCallback(
+    async (source: { templateId: string } | { body: string }, fids: number[] = []) => {
+      const data = await request<{ previews: TemplatePreview[] }>(
+        '/api/admin/templates/preview',
+        jsonInit('POST', { ...source, fids })
+      );
+      return data.previews;
+    },
+    []
+  );
+
+  return { templates, isLoading, isSaving, load, create, save, preview };
+}
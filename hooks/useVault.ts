@@ -0,0 +1,223 @@
+// hooks/useVault.ts
+
+/**
+ * useVault Hook - Token-Bound ERC20 Treasury
+ *
+ * Reads and manages the ERC20 balances held inside a Geoplet.
+ *
+ * Contract rules (Geoplets.sol):
+ * - depositToToken(tokenId, erc20, amount): onlyOwner, requires ERC20 approval
+ * - withdraw(tokenId, erc20): NFT holder only, requires withdrawalsEnabled
+ *
+ * Flow:
+ * 1. Pre-flight check / simulation (useContractSimulation)
+ * 2. Approve ERC20 if allowance is too low (deposit only)
+ * 3. Send transaction → wait for receipt → refetch balances
+ */
+
+'use client';
+
+import { useState } from 'react';
+import {
+  useAccount,
+  useChainId,
+  usePublicClient,
+  useReadContracts,
+  useWriteContract,
+} from 'wagmi';
+import { erc20Abi, isAddressEqual, parseUnits } from 'viem';
+import { GEOPLET_CONFIG } from '@/lib/contracts';
+import { VAULT_TOKENS, type VaultToken } from '@/lib/vault-config';
+import { useContractSimulation } from './useContractSimulation';
+
+export interface VaultBalance {
+  token: VaultToken;
+  balance: bigint;
+}
+
+export type VaultAction = 'approving' | 'depositing' | 'withdrawing' | null;
+
+export function useVault(tokenId: number | null | undefined) {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const publicClient = usePublicClient({ chainId: GEOPLET_CONFIG.chainId });
+  const { writeContractAsync } = useWriteContract();
+  const { checkVaultDeposit, simulateVaultDeposit, simulateVaultWithdraw } =
+    useContractSimulation();
+
+  const [action, setAction] = useState<VaultAction>(null);
+  const [txHash, setTxHash] = useState<`0x${string}` | null>(null);
+
+  const id = tokenId != null ? BigInt(tokenId) : undefined;
+
+  // Batch all vault reads: one balance per supported token + contract state
+  const { data, isLoading, refetch } = useReadContracts({
+    contracts: [
+      ...VAULT_TOKENS.map((token) => ({
+        address: GEOPLET_CONFIG.address,
+        abi: GEOPLET_CONFIG.abi,
+        functionName: 'getTokenBalance' as const,
+        args: [id ?? BigInt(0), token.address] as const,
+        chainId: GEOPLET_CONFIG.chainId,
+      })),
+      {
+        address: GEOPLET_CONFIG.address,
+        abi: GEOPLET_CONFIG.abi,
+        functionName: 'withdrawalsEnabled',
+        chainId: GEOPLET_CONFIG.chainId,
+      },
+      {
+        address: GEOPLET_CONFIG.address,
+        abi: GEOPLET_CONFIG.abi,
+        functionName: 'ownerOf',
+        args: [id ?? BigInt(0)],
+        chainId: GEOPLET_CONFIG.chainId,
+      },
+      {
+        address: GEOPLET_CONFIG.address,
+        abi: GEOPLET_CONFIG.abi,
+        functionName: 'owner',
+        chainId: GEOPLET_CONFIG.chainId,
+      },
+    ],
+    query: {
+      enabled: id !== undefined,
+    },
+  });
+
+  const balances: VaultBalance[] = VAULT_TOKENS.map((token, i) => ({
+    token,
+    balance: (data?.[i]?.result as bigint | undefined) ?? BigInt(0),
+  }));
+
+  const withdrawalsEnabled = data?.[VAULT_TOKENS.length]?.result === true;
+  const holder = data?.[VAULT_TOKENS.length + 1]?.result as `0x${string}` | undefined;
+  const contractOwner = data?.[VAULT_TOKENS.length + 2]?.result as `0x${string}` | undefined;
+
+  const isHolder = !!address && !!holder && isAddressEqual(address, holder);
+  const isContractOwner =
+    !!address && !!contractOwner && isAddressEqual(address, contractOwner);
+
+  const ensureReady = () => {
+    if (!address || id === undefined) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (chainId !== GEOPLET_CONFIG.chainId) {
+      throw new Error('Please switch to Base Mainnet');
+    }
+
+    if (!publicClient) {
+      throw new Error('Network client unavailable');
+    }
+
+    return { account: address, tokenId: id, client: publicClient };
+  };
+
+  /**
+   * Deposit ERC20 into this Geoplet (contract owner only)
+   *
+   * @param token - Supported vault token
+   * @param amount - Human-readable amount (e.g. "5.25")
+   * @returns Deposit transaction hash
+   */
+  const deposit = async (token: VaultToken, amount: string) => {
+    const { account, tokenId: vaultId, client } = ensureReady();
+    const atomicAmount = parseUnits(amount, token.decimals);
+
+    try {
+      const check = await checkVaultDeposit(account, vaultId, token.address, atomicAmount);
+      if (!check.success) {
+        throw new Error(check.error || 'Deposit pre-check failed');
+      }
+
+      if (check.needsApproval) {
+        setAction('approving');
+        console.log('[VAULT] Approving', token.symbol, atomicAmount.toString());
+
+        const approveHash = await writeContractAsync({
+          address: token.address,
+          abi: erc20Abi,
+          functionName: 'approve',
+          args: [GEOPLET_CONFIG.address, atomicAmount],
+        });
+        await client.waitForTransactionReceipt({ hash: approveHash });
+      }
+
+      const simulation = await simulateVaultDeposit(account, vaultId, token.address, atomicAmount);
+      if (!simulation.success) {
+        throw new Error(simulation.error || 'Deposit simulation failed');
+      }
+
+      setAction('depositing');
+      const hash = await writeContractAsync({
+        address: GEOPLET_CONFIG.address,
+        abi: GEOPLET_CONFIG.abi,
+        functionName: 'depositToToken',
+        args: [vaultId, token.address, atomicAmount],
+      });
+      setTxHash(hash);
+
+      const receipt = await client.waitForTransactionReceipt({ hash });
+      if (receipt.status !== 'success') {
+        throw new Error('Deposit transaction reverted');
+      }
+
+      console.log('[VAULT] ✅ Deposited', amount, token.symbol, 'into #' + vaultId.toString());
+      await refetch();
+      return hash;
+    } finally {
+      setAction(null);
+    }
+  };
+
+  /**
+   * Withdraw the full balance of one token (NFT holder only)
+   *
+   * @param token - Supported vault token
+   * @returns Withdraw transaction hash
+   */
+  const withdraw = async (token: VaultToken) => {
+    const { account, tokenId: vaultId, client } = ensureReady();
+
+    try {
+      const simulation = await simulateVaultWithdraw(account, vaultId, token.address);
+      if (!simulation.success) {
+        throw new Error(simulation.error || 'Withdraw simulation failed');
+      }
+
+      setAction('withdrawing');
+      const hash = await writeContractAsync({
+        address: GEOPLET_CONFIG.address,
+        abi: GEOPLET_CONFIG.abi,
+        functionName: 'withdraw',
+        args: [vaultId, token.address],
+      });
+      setTxHash(hash);
+
+      const receipt = await client.waitForTransactionReceipt({ hash });
+      if (receipt.status !== 'success') {
+        throw new Error('Withdraw transaction reverted');
+      }
+
+      console.log('[VAULT] ✅ Withdrew', token.symbol, 'from #' + vaultId.toString());
+      await refetch();
+      return hash;
+    } finally {
+      setAction(null);
+    }
+  };
+
+  return {
+    balances,
+    withdrawalsEnabled,
+    isHolder,
+    isContractOwner,
+    isLoading,
+    action,
+    txHash,
+    deposit,
+    withdraw,
+    refetch,
+  };
+}
@@ -0,0 +1,268 @@
+/**
+ * Admin Authentication (Server-Side)
+ *
+ * Sign-In with Ethereum flow that protects every /api/admin and /api/analytics route.
+ *
+ * Flow:
+ * 1. GET  /api/admin/auth/nonce   → server issues a signed nonce cookie
+ * 2. Wallet signs a SIWE message containing that nonce
+ * 3. POST /api/admin/auth/verify  → server verifies signature + owner()/allowlist,
+ *    consumes the nonce (admin_auth_nonces) and issues a short-lived
+ *    HMAC-signed session cookie
+ * 4. Admin routes call requireAdminSession() and reject requests without it
+ *
+ * Nonces are single-use server-side: a captured nonce + message + signature
+ * can't be replayed, even before the nonce cookie expires.
+ *
+ * KISS Principle: Stateless HMAC-signed cookies (no session table), one
+ * consumed-nonce row per sign-in (see .docs/migration_admin_auth_nonces.sql).
+ * Security: httpOnly + SameSite=Strict cookies, on-chain owner check at sign-in.
+ *
+ * Requires environment variables:
+ * - ADMIN_SESSION_SECRET: Random secret (>= 32 chars) used to sign cookies
+ * - ADMIN_ALLOWLIST (optional): Comma-separated addresses allowed besides owner()
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { createPublicClient, http, isAddressEqual, getAddress, type Address } from 'viem';
+import { GEOPLET_CONFIG } from '@/lib/contracts';
+import { supabaseAdmin } from '@/lib/supabase';
+
+// Cookie names
+export const ADMIN_NONCE_COOKIE = 'geoplet_admin_nonce';
+export const ADMIN_SESSION_COOKIE = 'geoplet_admin_session';
+
+// Lifetimes (seconds)
+export const ADMIN_NONCE_TTL = 5 * 60; // 5 minutes to sign the message
+export const ADMIN_SESSION_TTL = 30 * 60; // 30 minute admin session
+
+/**
+ * Verified admin session payload
+ */
+export interface AdminSession {
+  address: Address;
+  issuedAt: number; // Unix seconds
+  expiresAt: number; // Unix seconds
+}
+
+interface SignedNonce {
+  nonce: string;
+  expiresAt: number;
+}
+
+const publicClient = createPublicClient({
+  chain: GEOPLET_CONFIG.chain,
+  transport: http(process.env.NEXT_PUBLIC_BASE_RPC_URL),
+});
+
+function getSessionSecret(): string {
+  const secret = process.env.ADMIN_SESSION_SECRET;
+
+  if (!secret || secret.length < 32) {
+    throw new Error('ADMIN_SESSION_SECRET is not configured (min 32 characters)');
+  }
+
+  return secret;
+}
+
+/**
+ * Sign a JSON payload as `<base64url(payload)>.<base64url(hmac)>`
+ */
+function signPayload(payload: object): string {
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  const mac = createHmac('sha256', getSessionSecret()).update(body).digest('base64url');
+  return `${body}.${mac}`;
+}
+
+/**
+ * Verify and decode a signed payload. Returns null if tampered or malformed.
+ */
+function verifyPayload<T>(token: string | undefined): T | null {
+  if (!token) return null;
+
+  const [body, mac] = token.split('.');
+  if (!body || !mac) return null;
+
+  const expected = createHmac('sha256', getSessionSecret()).update(body).digest();
+  const actual = Buffer.from(mac, 'base64url');
+
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(Buffer.from(body, 'base64url').toString()) as T;
+  } catch {
+    return null;
+  }
+}
+
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Parse ADMIN_ALLOWLIST into checksummed addresses (invalid entries are skipped)
+ */
+function getAllowlist(): Address[] {
+  const raw = process.env.ADMIN_ALLOWLIST || '';
+
+  return raw
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => /^0x[a-fA-F0-9]{40}$/.test(entry))
+    .map((entry) => getAddress(entry));
+}
+
+/**
+ * Check whether an address may administer the app:
+ * contract owner() or a member of ADMIN_ALLOWLIST
+ */
+export async function isAdminAddress(address: Address): Promise<boolean> {
+  if (getAllowlist().some((allowed) => isAddressEqual(allowed, address))) {
+    return true;
+  }
+
+  const owner = await publicClient.readContract({
+    address: GEOPLET_CONFIG.address,
+    abi: GEOPLET_CONFIG.abi,
+    functionName: 'owner',
+  });
+
+  return isAddressEqual(owner as Address, address);
+}
+
+/**
+ * Issue a fresh nonce and its signed cookie value
+ */
+export function issueNonce(): { nonce: string; cookie: string } {
+  // SIWE nonces must be alphanumeric (EIP-4361)
+  const nonce = randomBytes(16).toString('hex');
+  const cookie = signPayload({ nonce, expiresAt: now() + ADMIN_NONCE_TTL } satisfies SignedNonce);
+  return { nonce, cookie };
+}
+
+/**
+ * Read the nonce previously issued to this browser (null if missing/expired/tampered)
+ */
+export function readNonce(req: NextRequest): string | null {
+  const signed = verifyPayload<SignedNonce>(req.cookies.get(ADMIN_NONCE_COOKIE)?.value);
+
+  if (!signed || signed.expiresAt < now()) {
+    return null;
+  }
+
+  return signed.nonce;
+}
+
+/**
+ * Mark a nonce as used (call once the signature checks out)
+ * @returns false if it was already consumed - a replayed sign-in
+ */
+export async function consumeNonce(nonce: string): Promise<boolean> {
+  const { error } = await supabaseAdmin.from('admin_auth_nonces').insert({ nonce });
+
+  if (error) {
+    // Unique violation: this nonce already signed someone in
+    if (error.code === '23505') return false;
+    throw new Error(`Failed to record admin nonce: ${error.message}`);
+  }
+
+  // Rows past the nonce TTL can never match a live cookie again
+  await supabaseAdmin
+    .from('admin_auth_nonces')
+    .delete()
+    .lt('consumed_at', new Date((now() - ADMIN_NONCE_TTL) * 1000).toISOString());
+
+  return true;
+}
+
+/**
+ * Verify a signed SIWE message against the issued nonce and this app's domain.
+ * Supports smart contract wallets (ERC-1271/6492) via publicClient.verifySiweMessage.
+ */
+export async function verifySiweSignIn(params: {
+  message: string;
+  signature: `0x${string}`;
+  nonce: string;
+  domain: string;
+}): Promise<boolean> {
+  return publicClient.verifySiweMessage({
+    message: params.message,
+    signature: params.signature,
+    nonce: params.nonce,
+    domain: params.domain,
+  });
+}
+
+/**
+ * Create a signed session cookie value for a verified admin
+ */
+export function createSessionToken(address: Address): { token: string; session: AdminSession } {
+  const issuedAt = now();
+  const session: AdminSession = {
+    address: getAddress(address),
+    issuedAt,
+    expiresAt: issuedAt + ADMIN_SESSION_TTL,
+  };
+
+  return { token: signPayload(session), session };
+}
+
+/**
+ * Read the admin session from the request cookie (null if missing/expired/tampered)
+ */
+export function getAdminSession(req: NextRequest): AdminSession | null {
+  const session = verifyPayload<AdminSession>(req.cookies.get(ADMIN_SESSION_COOKIE)?.value);
+
+  if (!session || session.expiresAt < now()) {
+    return null;
+  }
+
+  return session;
+}
+
+/**
+ * Guard for admin/analytics routes
+ *
+ * Usage:
+ *   const auth = requireAdminSession(req);
+ *   if (auth instanceof NextResponse) return auth;
+ *
+ * @returns The verified session, or a 401 response to return as-is
+ */
+export function requireAdminSession(req: NextRequest): AdminSession | NextResponse {
+  try {
+    const session = getAdminSession(req);
+
+    if (!session) {
+      console.warn('[ADMIN-AUTH] ❌ Rejected request without valid session:', req.nextUrl.pathname);
+      return NextResponse.json(
+        { success: false, error: 'Admin authentication required' },
+        { status: 401 }
+      );
+    }
+
+    return session;
+  } catch (error) {
+    console.error('[ADMIN-AUTH] Session check failed:', error);
+    return NextResponse.json(
+      { success: false, error: 'Admin authentication not configured' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Shared cookie options (httpOnly, strict same-site, scoped to API routes)
+ */
+export function cookieOptions(maxAge: number) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict' as const,
+    path: '/api',
+    maxAge,
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * Airdrop Utilities
+ *
+ * Helpers for the admin airdrop console (batch ERC20 deposits into Geoplets).
+ *
+ * Contract limits (Geoplets.sol):
+ * - batchDepositEqual / batchDepositToTokens accept at most 500 token IDs
+ * - Non-existent token IDs are skipped (not charged), so totals are an upper bound
+ *
+ * KISS Principle: Pure functions, no chain or DB access.
+ */
+
+// Hard cap enforced by the contract ("Batch too large")
+export const MAX_CONTRACT_BATCH = 500;
+
+// Gas-safe chunk size (each deposit writes one storage slot + emits one event)
+export const AIRDROP_CHUNK_SIZE = 200;
+
+/**
+ * Pasted entry: token ID with optional per-token amount ("123" or "123:5.5")
+ */
+export interface AirdropEntry {
+  tokenId: number;
+  amount?: string;
+}
+
+/**
+ * Parse a pasted list of token IDs (one per line, or comma/space separated).
+ * Lines of the form "tokenId:amount" carry a per-token amount.
+ *
+ * @returns Unique entries (first occurrence wins) and the rejected raw values
+ */
+export function parseAirdropList(text: string): {
+  entries: AirdropEntry[];
+  invalid: string[];
+} {
+  const entries: AirdropEntry[] = [];
+  const invalid: string[] = [];
+  const seen = new Set<number>();
+
+  for (const rawLine of text.split(/\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    // "id:amount" on a single line → per-token amount
+    const pair = line.match(/^(\d+)\s*:\s*(\d+(?:\.\d+)?)$/);
+    const parts = pair ? [line] : line.split(/[\s,]+/).filter(Boolean);
+
+    for (const part of parts) {
+      const match = pair ?? part.match(/^(\d+)$/);
+      if (!match) {
+        invalid.push(part);
+        continue;
+      }
+
+      const tokenId = parseInt(match[1], 10);
+      if (!Number.isSafeInteger(tokenId) || tokenId <= 0) {
+        invalid.push(part);
+        continue;
+      }
+
+      if (seen.has(tokenId)) continue;
+      seen.add(tokenId);
+      entries.push(pair ? { tokenId, amount: pair[2] } : { tokenId });
+    }
+  }
+
+  return { entries, invalid };
+}
+
+/**
+ * Split a list into chunks of at most `size` items
+ */
+export function chunkList<T>(items: T[], size: number = AIRDROP_CHUNK_SIZE): T[][] {
+  const safeSize = Math.max(1, Math.min(size, MAX_CONTRACT_BATCH));
+  const chunks: T[][] = [];
+
+  for (let i = 0; i < items.length; i += safeSize) {
+    chunks.push(items.slice(i, i + safeSize));
+  }
+
+  return chunks;
+}
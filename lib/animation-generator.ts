@@ -0,0 +1,167 @@
+/**
+ * Animation Generator (Server-Side)
+ *
+ * Turns a minted Geoplet's 512x512 WebP (as produced by generateGeometricArt)
+ * into the base64 HTML animation for upgradeToAnimated.
+ *
+ * Steps:
+ * 1. Read the WebP from tokenURI (on-chain, no external services)
+ * 2. Extract a dominant-color palette with sharp
+ * 3. Re-encode a smaller copy of the image to fit the 24KB budget
+ * 4. Build the HTML (lib/animation.ts), stepping down image size / shape
+ *    count until it fits; falls back to shapes-only if nothing else does
+ *
+ * Deterministic: same image + FID → same animation, so recovery and
+ * previews can regenerate instead of storing the output.
+ *
+ * Used by:
+ * - /api/generate-animation (x402 paid upgrade)
+ * - /api/get-upgrade-signature-paid (recovery after settled payment)
+ * - /api/animation-preview/[tokenId] (in-app preview before upgrading)
+ */
+
+import sharp from 'sharp';
+import { createPublicClient, http } from 'viem';
+import { base } from 'viem/chains';
+import { GEOPLET_CONFIG } from '@/lib/contracts';
+import {
+  buildAnimationHtml,
+  encodeAnimationHtml,
+  validateAnimationSize,
+  DEFAULT_PALETTE,
+  type AnimationSource,
+} from '@/lib/animation';
+
+const publicClient = createPublicClient({
+  chain: base,
+  transport: http(process.env.NEXT_PUBLIC_BASE_RPC_URL),
+});
+
+const PALETTE_SIZE = 5;
+
+// Embedded image attempts, largest first (pixel size + WebP quality)
+const IMAGE_ATTEMPTS = [
+  { size: 320, quality: 60 },
+  { size: 256, quality: 55 },
+  { size: 224, quality: 45 },
+  { size: 160, quality: 40 },
+];
+
+// Shape counts tried for each image attempt
+const SHAPE_COUNTS = [18, 12, 6];
+
+/**
+ * Read the minted WebP (base64, no prefix) from tokenURI
+ * @throws Error if the token has no on-chain image
+ */
+export async function loadGeopletImage(tokenId: number): Promise<string> {
+  const tokenURI = await publicClient.readContract({
+    address: GEOPLET_CONFIG.address,
+    abi: GEOPLET_CONFIG.abi,
+    functionName: 'tokenURI',
+    args: [BigInt(tokenId)],
+  });
+
+  const jsonBase64 = tokenURI.split('data:application/json;base64,')[1];
+  if (!jsonBase64) {
+    throw new Error(`Unexpected tokenURI format for Geoplet #${tokenId}`);
+  }
+
+  const metadata = JSON.parse(Buffer.from(jsonBase64, 'base64').toString('utf8'));
+  const imageBase64 = (metadata.image as string | undefined)?.split('base64,')[1];
+
+  if (!imageBase64) {
+    throw new Error(`Geoplet #${tokenId} has no on-chain image`);
+  }
+
+  return imageBase64;
+}
+
+function toHex(r: number, g: number, b: number): string {
+  return `#${[r, g, b].map((c) => c.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Extract dominant colors by bucketing a 16x16 thumbnail
+ * Colors are ordered by frequency (ties broken by bucket key for stability).
+ */
+export async function extractPalette(image: Buffer): Promise<string[]> {
+  const { data } = await sharp(image)
+    .resize(16, 16, { fit: 'cover' })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const buckets = new Map<number, { count: number; r: number; g: number; b: number }>();
+
+  for (let i = 0; i < data.length; i += 3) {
+    const [r, g, b] = [data[i], data[i + 1], data[i + 2]];
+    const key = ((r >> 5) << 6) | ((g >> 5) << 3) | (b >> 5);
+    const bucket = buckets.get(key) ?? { count: 0, r: 0, g: 0, b: 0 };
+    bucket.count += 1;
+    bucket.r += r;
+    bucket.g += g;
+    bucket.b += b;
+    buckets.set(key, bucket);
+  }
+
+  const palette = [...buckets.entries()]
+    .sort(([keyA, a], [keyB, b]) => b.count - a.count || keyA - keyB)
+    .slice(0, PALETTE_SIZE)
+    .map(([, { count, r, g, b }]) =>
+      toHex(Math.round(r / count), Math.round(g / count), Math.round(b / count))
+    );
+
+  return palette.length > 0 ? palette : DEFAULT_PALETTE;
+}
+
+/**
+ * Build + encode + validate an animation from a WebP image
+ * @param fid - Token ID / FID (PRNG seed)
+ * @param imageBase64 - 512x512 WebP base64 (no data: prefix)
+ * @throws Error if even the shapes-only animation exceeds the contract limit
+ */
+export async function generateAnimationFromImage(fid: number, imageBase64: string): Promise<string> {
+  const image = Buffer.from(imageBase64, 'base64');
+  const palette = await extractPalette(image);
+
+  for (const { size, quality } of IMAGE_ATTEMPTS) {
+    const resized = await sharp(image)
+      .resize(size, size, { fit: 'contain', background: { r: 0, g: 0, b: 0, alpha: 0 } })
+      .webp({ quality, effort: 6 })
+      .toBuffer();
+
+    const source: AnimationSource = {
+      palette,
+      imageBase64: resized.toString('base64'),
+      imageSize: 320,
+    };
+
+    for (const shapeCount of SHAPE_COUNTS) {
+      const base64Html = encodeAnimationHtml(buildAnimationHtml(fid, source, { shapeCount }));
+      if (validateAnimationSize(base64Html).valid) {
+        return base64Html;
+      }
+    }
+  }
+
+  // Shapes + palette only (always small)
+  console.warn('[ANIMATION] ⚠️ Image does not fit budget, using shapes-only animation:', { fid });
+  const base64Html = encodeAnimationHtml(buildAnimationHtml(fid, { palette }));
+  const validation = validateAnimationSize(base64Html);
+
+  if (!validation.valid) {
+    throw new Error(validation.error);
+  }
+
+  return base64Html;
+}
+
+/**
+ * Generate the animation for a minted Geoplet (reads its image on-chain)
+ * @throws Error if the image cannot be read or the animation exceeds the contract limit
+ */
+export async function generateAnimation(tokenId: number): Promise<string> {
+  const imageBase64 = await loadGeopletImage(tokenId);
+  return generateAnimationFromImage(tokenId, imageBase64);
+}
@@ -0,0 +1,199 @@
+/**
+ * Animation Builder
+ *
+ * Builds the self-contained HTML/SVG animation stored on-chain by
+ * upgradeToAnimated (Geoplets.sol → SSTORE2, served as animation_url).
+ *
+ * Layers (back → front):
+ * 1. Pulsing palette background (fill cycles through the Geoplet's colors)
+ * 2. Parallax shape layers drifting at different depths
+ * 3. The Geoplet image itself, gently breathing
+ * 4. Rotating foreground shapes
+ *
+ * Contract limit: base64 HTML must be <= 24576 bytes ("Animation too large (24KB max)").
+ * No external assets - the HTML must render from the data URI alone.
+ *
+ * KISS Principle: Pure string building, seeded by FID so the same input
+ * always produces the same document (safe to regenerate for recovery).
+ * Image decoding/palette extraction lives in lib/animation-generator.ts (server-only).
+ */
+
+// Matches contract validation (Geoplets.sol: bytes(base64HtmlAnimation).length <= 24576)
+export const ANIMATION_MAX_BYTES = 24576;
+
+export interface AnimationSource {
+  palette: string[];     // Hex colors, most dominant first (at least 1)
+  imageBase64?: string;  // WebP base64 (no data: prefix), omitted for shapes-only output
+  imageSize?: number;    // Display size inside the 512x512 viewBox (default 320)
+}
+
+export interface AnimationOptions {
+  shapeCount?: number;   // Total parallax + foreground shapes
+}
+
+const DEFAULT_SHAPE_COUNT = 18;
+const VIEWBOX = 512;
+
+// Fallback palette when no image colors are available (Bauhaus primaries)
+export const DEFAULT_PALETTE = ['#e63946', '#f1c453', '#1d3557', '#457b9d', '#f1faee'];
+
+/**
+ * Seeded PRNG (mulberry32) - deterministic per FID
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Build a single shape element (circle, square or triangle)
+ */
+function buildShape(random: () => number, color: string, size: number, style: string): string {
+  const x = round(random() * VIEWBOX);
+  const y = round(random() * VIEWBOX);
+  const half = round(size / 2);
+  const kind = Math.floor(random() * 3);
+
+  if (kind === 0) {
+    return `<circle cx="${x}" cy="${y}" r="${half}" fill="${color}" style="${style}"/>`;
+  }
+
+  if (kind === 1) {
+    return `<rect x="${round(x - half)}" y="${round(y - half)}" width="${round(size)}" height="${round(size)}" fill="${color}" style="${style}"/>`;
+  }
+
+  return `<polygon points="${x},${round(y - half)} ${round(x + half)},${round(y + half)} ${round(x - half)},${round(y + half)}" fill="${color}" style="${style}"/>`;
+}
+
+/**
+ * Build animation HTML for a Geoplet
+ * @param fid - Token ID / FID, used as the PRNG seed
+ * @param source - Palette (and optionally the downscaled WebP) extracted from the minted image
+ */
+export function buildAnimationHtml(
+  fid: number,
+  source: AnimationSource,
+  options: AnimationOptions = {}
+): string {
+  const random = createRandom(fid);
+  const palette = source.palette.length > 0 ? source.palette : DEFAULT_PALETTE;
+  const pick = () => palette[Math.floor(random() * palette.length)];
+  const shapeCount = options.shapeCount ?? DEFAULT_SHAPE_COUNT;
+
+  // Drift direction shared by all layers; amplitude grows with depth (parallax)
+  const angle = random() * Math.PI * 2;
+  const dx = Math.cos(angle);
+  const dy = Math.sin(angle);
+  const period = 8 + Math.floor(random() * 6);
+  const depths = [6, 14, 26];
+
+  const keyframes = depths
+    .map(
+      (depth, i) =>
+        `@keyframes d${i}{0%,100%{transform:translate(0,0)}50%{transform:translate(${round(dx * depth)}px,${round(dy * depth)}px)}}`
+    )
+    .join('');
+
+  // Background pulse cycles through the palette and back
+  const pulseColors = [...palette, palette[0]];
+  const pulseStops = pulseColors
+    .map((color, i) => `${round((i / (pulseColors.length - 1)) * 100)}%{fill:${color}}`)
+    .join('');
+
+  const backCount = Math.ceil(shapeCount * 0.6);
+  const layers = depths.map(() => [] as string[]);
+
+  for (let i = 0; i < shapeCount; i++) {
+    const isBack = i < backCount;
+    const layer = isBack ? (i % 2) : 2;
+    const size = isBack ? 60 + random() * 120 : 16 + random() * 40;
+    const duration = round(10 + random() * 20);
+    const direction = random() < 0.5 ? 'normal' : 'reverse';
+    const opacity = isBack ? round(0.25 + random() * 0.35) : round(0.7 + random() * 0.3);
+    const style = `opacity:${opacity};animation:s ${duration}s linear infinite ${direction}`;
+    layers[layer].push(buildShape(random, pick(), size, style));
+  }
+
+  const groups = layers.map(
+    (shapes, i) => `<g style="animation:d${i} ${period + i * 2}s ease-in-out infinite">${shapes.join('')}</g>`
+  );
+
+  // Geoplet image sits between the back and front layers
+  let image = '';
+  if (source.imageBase64) {
+    const size = source.imageSize ?? 320;
+    const offset = (VIEWBOX - size) / 2;
+    image = `<g class="b"><image href="data:image/webp;base64,${source.imageBase64}" x="${offset}" y="${offset}" width="${size}" height="${size}"/></g>`;
+  }
+
+  const style = [
+    'html,body{margin:0;height:100%;overflow:hidden;background:#000}',
+    'svg{width:100%;height:100%;display:block}',
+    'svg *{transform-box:fill-box;transform-origin:center}',
+    `.p{animation:p ${period * 2}s ease-in-out infinite}`,
+    '.b{animation:b 6s ease-in-out infinite}',
+    `@keyframes p{${pulseStops}}`,
+    '@keyframes s{to{transform:rotate(360deg)}}',
+    '@keyframes b{0%,100%{transform:scale(1)}50%{transform:scale(1.04)}}',
+    keyframes,
+  ].join('');
+
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"><title>Geoplet #${fid}</title><style>${style}</style></head><body><svg viewBox="0 0 ${VIEWBOX} ${VIEWBOX}" preserveAspectRatio="xMidYMid slice" xmlns="http://www.w3.org/2000/svg"><rect class="p" width="${VIEWBOX}" height="${VIEWBOX}" fill="${palette[0]}"/>${groups[0]}${groups[1]}${image}${groups[2]}</svg></body></html>`;
+}
+
+/**
+ * Base64-encode animation HTML (works in Node and the browser)
+ * HTML is ASCII-only, so btoa is safe on the client.
+ */
+export function encodeAnimationHtml(html: string): string {
+  if (typeof Buffer !== 'undefined') {
+    return Buffer.from(html, 'utf8').toString('base64');
+  }
+  return btoa(html);
+}
+
+/**
+ * Decode a base64 animation back to HTML (for in-app previews)
+ */
+export function decodeAnimationHtml(base64Html: string): string {
+  if (typeof Buffer !== 'undefined') {
+    return Buffer.from(base64Html, 'base64').toString('utf8');
+  }
+  return atob(base64Html);
+}
+
+/**
+ * Validate encoded animation size against the contract limit
+ */
+export function validateAnimationSize(base64Html: string): {
+  valid: boolean;
+  sizeKB: number;
+  error?: string;
+} {
+  const sizeInBytes = base64Html.length;
+  const sizeInKB = sizeInBytes / 1024;
+
+  if (sizeInBytes === 0) {
+    return { valid: false, sizeKB: 0, error: 'Animation is empty' };
+  }
+
+  if (sizeInBytes > ANIMATION_MAX_BYTES) {
+    return {
+      valid: false,
+      sizeKB: sizeInKB,
+      error: `Animation too large: ${sizeInKB.toFixed(2)}KB. Maximum is 24KB.`,
+    };
+  }
+
+  return { valid: true, sizeKB: sizeInKB };
+}
@@ -0,0 +1,205 @@
+/**
+ * Art Style Registry
+ *
+ * Every style the generator can produce. A style owns its prompt, palette
+ * constraints and compression profile; /api/generate-image builds the final
+ * prompt from here instead of hard-coding one.
+ *
+ * - Seasonal styles carry a schedule (MM-DD window, UTC) and are only
+ *   available inside it - no code edit needed to switch them on/off
+ * - The default is the first active seasonal style, else DEFAULT_STYLE_ID
+ * - The chosen style id is saved with the generation (unminted_geoplets.style_id)
+ *   and returned as an "Art Style" attribute when the mint voucher is issued
+ *
+ * KISS Principle: Plain data - adding a style is adding an entry.
+ */
+
+export type ArtStyleId =
+  | 'bauhaus'
+  | 'suprematism'
+  | 'de-stijl'
+  | 'memphis'
+  | 'constructivism'
+  | 'halloween';
+
+export interface CompressionProfile {
+  size: number;              // Square output (px)
+  qualities: number[];       // WebP qualities tried in order until the target size fits
+  effort: number;            // WebP effort (0-6)
+}
+
+export interface ArtStyle {
+  id: ArtStyleId;
+  name: string;              // Also the "Art Style" attribute value
+  description: string;
+  prompt: string;            // Style-specific rules (shared rules are appended)
+  palette: string;           // Palette constraint line
+  swatches: { background: string; colors: string[] };  // Same palette as hex (local provider)
+  compression: CompressionProfile;
+  schedule?: { from: string; to: string };  // Seasonal window, 'MM-DD' inclusive (UTC)
+}
+
+export const DEFAULT_STYLE_ID: ArtStyleId = 'bauhaus';
+
+// Contract limit is 24KB - the first fitting quality under 20KB wins
+const DEFAULT_COMPRESSION: CompressionProfile = {
+  size: 512,
+  qualities: [70, 60, 50, 40],
+  effort: 6,
+};
+
+// Busier styles need lower qualities to fit on-chain
+const DENSE_COMPRESSION: CompressionProfile = {
+  size: 512,
+  qualities: [60, 50, 40, 30],
+  effort: 6,
+};
+
+// Rules every style shares (keep the Warplet recognisable + leave room around it)
+const SHARED_RULES = [
+  "Keep the character's exact pose as shown in reference image",
+  "Keep the character's exact body shape as shown in reference image",
+  'The character 50% smaller than reference image',
+  'Use clean sharp edges and straight lines',
+];
+
+export const ART_STYLES: readonly ArtStyle[] = [
+  {
+    id: 'bauhaus',
+    name: 'Bauhaus',
+    description: 'Primary shapes, balanced composition, flat color',
+    prompt: `Transform this image into bauhaus geometric art style:
+    - Build the character from circles, squares and triangles
+    - Use solid flat colors with subtle shading between shapes to create 3D depth`,
+    palette: 'Red, yellow, blue with black and off-white accents; plain solid pastel color background',
+    swatches: { background: '#f3e9d2', colors: ['#1d1d1b', '#1f4e9c', '#d62828', '#f6bd16', '#faf7f0'] },
+    compression: DEFAULT_COMPRESSION,
+  },
+  {
+    id: 'suprematism',
+    name: 'Suprematism',
+    description: 'Floating rectangles and bars on open space',
+    prompt: `Transform this image into suprematism geometric art style:
+    - Compose the character from tilted rectangles, bars and circles that appear to float
+    - Dynamic diagonal composition with overlapping planes`,
+    palette: 'Black, red and ochre shapes on a plain warm white background',
+    swatches: { background: '#f7f1e3', colors: ['#111111', '#c1272d', '#d9a441', '#3b3b98'] },
+    compression: DEFAULT_COMPRESSION,
+  },
+  {
+    id: 'de-stijl',
+    name: 'De Stijl',
+    description: 'Mondrian-like grid of primaries',
+    prompt: `Transform this image into De Stijl geometric art style:
+    - Only horizontal and vertical lines, rectangular color blocks separated by thick black lines
+    - No curves and no diagonals`,
+    palette: 'Pure red, yellow and blue blocks with white and black only; plain white background',
+    swatches: { background: '#ffffff', colors: ['#000000', '#1b3f9c', '#dd1c1a', '#f7d117', '#ffffff'] },
+    compression: DEFAULT_COMPRESSION,
+  },
+  {
+    id: 'memphis',
+    name: 'Memphis',
+    description: '80s playful patterns and squiggles',
+    prompt: `Transform this image into Memphis design style:
+    - Bold playful shapes, squiggles, confetti dots and zigzag patterns
+    - Thick black outlines around shapes`,
+    palette: 'Saturated pink, teal, yellow and purple; plain solid pastel background with a few scattered pattern shapes',
+    swatches: { background: '#fde2e4', colors: ['#222222', '#7b2cbf', '#00a6a6', '#ff4f9a', '#ffd23f'] },
+    compression: DENSE_COMPRESSION,
+  },
+  {
+    id: 'constructivism',
+    name: 'Constructivism',
+    description: 'Diagonals, bold bars, poster energy',
+    prompt: `Transform this image into Russian constructivism geometric art style:
+    - Strong diagonals, bold bars and circles with a poster-like composition
+    - Solid flat colors with hard shadows`,
+    palette: 'Red, black and cream only; plain cream background',
+    swatches: { background: '#efe6d0', colors: ['#111111', '#b3001b', '#e8dcc0'] },
+    compression: DEFAULT_COMPRESSION,
+  },
+  {
+    id: 'halloween',
+    name: 'Halloween',
+    description: 'Bauhaus + Suprematism with monster attributes',
+    prompt: `Transform this image into bauhaus and suprematism geometric art style:
+    - Add random monsters attributes for halloween party
+    - Use solid flat colors with subtle shading between shapes to create 3D depth`,
+    palette: 'Plain solid pastel color background with more empty space around the smaller character',
+    swatches: { background: '#e6dcf5', colors: ['#1b1b1b', '#5b2a86', '#3f8f3a', '#f26b1d', '#f5e6c8'] },
+    compression: DEFAULT_COMPRESSION,
+    schedule: { from: '10-01', to: '11-01' },
+  },
+];
+
+export class ArtStyleError extends Error {
+  constructor(public code: 'UNKNOWN_STYLE' | 'OUT_OF_SEASON', message: string) {
+    super(message);
+    this.name = 'ArtStyleError';
+  }
+}
+
+/**
+ * Whether a style can be used at `now` (non-seasonal styles always can)
+ * Windows may wrap the year end (e.g. 12-15 → 01-05).
+ */
+export function isStyleAvailable(style: ArtStyle, now = new Date()): boolean {
+  if (!style.schedule) return true;
+
+  const today = now.toISOString().slice(5, 10);
+  const { from, to } = style.schedule;
+
+  return from <= to ? today >= from && today <= to : today >= from || today <= to;
+}
+
+/**
+ * Styles selectable right now (seasonal first)
+ */
+export function getAvailableStyles(now = new Date()): ArtStyle[] {
+  const available = ART_STYLES.filter((style) => isStyleAvailable(style, now));
+  return [...available.filter((style) => style.schedule), ...available.filter((style) => !style.schedule)];
+}
+
+export function getDefaultStyle(now = new Date()): ArtStyle {
+  return getAvailableStyles(now)[0] ?? getArtStyle(DEFAULT_STYLE_ID)!;
+}
+
+export function getArtStyle(id: string): ArtStyle | undefined {
+  return ART_STYLES.find((style) => style.id === id);
+}
+
+/**
+ * Style for a generation request (default when no id is given)
+ * Throws ArtStyleError for unknown or out-of-season ids.
+ */
+export function resolveArtStyle(id?: string | null, now = new Date()): ArtStyle {
+  if (!id) return getDefaultStyle(now);
+
+  const style = getArtStyle(id);
+  if (!style) {
+    throw new ArtStyleError('UNKNOWN_STYLE', `Unknown art style: ${id}`);
+  }
+  if (!isStyleAvailable(style, now)) {
+    throw new ArtStyleError('OUT_OF_SEASON', `${style.name} is not available right now`);
+  }
+
+  return style;
+}
+
+/**
+ * Full prompt for the image model
+ */
+export function buildStylePrompt(style: ArtStyle): string {
+  return `${style.prompt}
+    - ${SHARED_RULES.join('\n    - ')}
+    - Palette: ${style.palette}`;
+}
+
+/**
+ * Mint metadata attribute for a saved style id
+ */
+export function getStyleAttribute(styleId: string | null | undefined): { trait_type: string; value: string } | null {
+  const style = styleId ? getArtStyle(styleId) : undefined;
+  return style ? { trait_type: 'Art Style', value: style.name } : null;
+}
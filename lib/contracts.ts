@@ -13,7 +13,8 @@ import {
   getGeopletAddress,
   EIP712_DOMAIN,
   EIP712_TYPES,
-  type MintVoucher
+  type MintVoucher,
+  type UpgradeVoucher
 } from '@/abi/GeopletsABI';
 import { base } from 'viem/chains';
 
@@ -46,4 +47,4 @@ export const GEOPLET_CONFIG = {
 } as const;
 
 // Re-export types for convenience
-export type { MintVoucher };
+export type { MintVoucher, UpgradeVoucher };
@@ -0,0 +1,445 @@
+/**
+ * x402 Facilitators (Server-Side)
+ *
+ * Everything that can verify and settle an x402 payment header. Paid routes
+ * (get-mint-signature, settle-payment, regenerate-image, generate-animation)
+ * go through this chain, never through a specific service.
+ *
+ * Facilitators:
+ * - onchainfi: api.onchain.fi/v1 (needs ONCHAIN_FI_API_KEY) - Base + Solana,
+ *              payer signs to the onchain.fi intermediate (ONCHAIN_FI_INTERMEDIATES)
+ * - local:     self-hosted - verifies EIP-3009 signatures with viem and submits
+ *              transferWithAuthorization from a relayer key (lib/local-facilitator.ts).
+ *              Base only, payer signs straight to the treasury.
+ *
+ * Chain per payment type (comma-separated, in fallback order, default "onchainfi"):
+ *   X402_FACILITATORS=onchainfi,local        all payment types
+ *   X402_FACILITATORS_MINT=local             override for one type (MINT / REGENERATE / ANIMATION)
+ *
+ * Fallback:
+ * - 402 terms advertise the first healthy facilitator supporting the network
+ *   (payTo = the address that facilitator needs the payer to sign to)
+ * - verify tries every facilitator the payment was signed to, skipping
+ *   unhealthy ones and falling through on errors
+ * - settle uses the facilitator that verified (payment_ledger.facilitator) -
+ *   the authorization can only be submitted where it was signed to
+ *
+ * KISS Principle: A facilitator is four functions - payTo, supported, verify, settle.
+ */
+
+import { PublicKey } from '@solana/web3.js';
+import {
+  BASE_USDC_ADDRESS,
+  SOLANA_USDC_MINT,
+  getOnchainFiRoute,
+  type PaymentNetwork,
+} from '@/lib/payment-config';
+import { getAssociatedTokenAddress, parseSolanaPayment } from '@/lib/solana-payment';
+import { createLocalFacilitatorFromEnv } from '@/lib/local-facilitator';
+import type { PaymentPurpose } from '@/lib/payment-ledger';
+import type { PaymentExpectation } from '@/lib/payment-verifier';
+
+export type FacilitatorId = 'onchainfi' | 'local';
+
+// What the payment must cover (checked by the facilitator)
+export interface PaymentTerms {
+  network: PaymentNetwork;
+  price: string;          // Human-readable USDC (onchain.fi expectedAmount)
+  priceAtomic: string;    // USDC atomic units
+  recipient: string;      // Treasury on Base (final destination)
+}
+
+export interface FacilitatorSupport {
+  available: boolean;
+  networks: PaymentNetwork[];
+  reason?: string;
+}
+
+export interface VerifyResult {
+  valid: boolean;
+  paymentId?: string;     // Facilitator reference, passed back to settle
+  reason?: string;
+}
+
+export interface SettleResult {
+  settled: boolean;
+  txHash?: string;
+  reason?: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * verify/settle resolve with valid/settled = false for a bad payment and
+ * throw when the facilitator itself is down (that triggers fallback).
+ */
+export interface Facilitator {
+  id: FacilitatorId;
+  payTo(network: PaymentNetwork): string | null;   // Address the payer signs to (null = network unsupported)
+  supported(): Promise<FacilitatorSupport>;
+  verify(paymentHeader: string, terms: PaymentTerms): Promise<VerifyResult>;
+  settle(paymentHeader: string, paymentId: string, network: PaymentNetwork): Promise<SettleResult>;
+}
+
+export interface FacilitatorVerifyResult extends VerifyResult {
+  facilitator: FacilitatorId | null;   // null = no configured facilitator accepted it
+}
+
+export class FacilitatorError extends Error {
+  constructor(
+    public code: 'NO_FACILITATOR_AVAILABLE' | 'ALL_FACILITATORS_FAILED',
+    message: string
+  ) {
+    super(message);
+    this.name = 'FacilitatorError';
+  }
+}
+
+export function facilitatorErrorStatus(error: FacilitatorError): number {
+  return error.code === 'NO_FACILITATOR_AVAILABLE' ? 503 : 502;
+}
+
+const ONCHAIN_API_URL = 'https://api.onchain.fi/v1';
+
+// onchain.fi answers that say nothing about the payment (bad key, quota)
+const FALLBACK_HTTP_STATUSES = [401, 403, 429];
+
+const FACILITATOR_IDS: readonly FacilitatorId[] = ['onchainfi', 'local'];
+
+// One health lookup per instance per minute
+const SUPPORT_TTL_MS = 60_000;
+const SUPPORT_TIMEOUT_MS = 5_000;
+
+/**
+ * Cache supported() results for SUPPORT_TTL_MS (a failed check = unavailable)
+ */
+function cacheSupport(check: () => Promise<FacilitatorSupport>): () => Promise<FacilitatorSupport> {
+  let cached: { support: FacilitatorSupport; checkedAt: number } | null = null;
+
+  return async () => {
+    if (cached && Date.now() - cached.checkedAt < SUPPORT_TTL_MS) {
+      return cached.support;
+    }
+
+    const support = await check().catch((error): FacilitatorSupport => ({
+      available: false,
+      networks: [],
+      reason: error instanceof Error ? error.message : 'Health check failed',
+    }));
+    cached = { support, checkedAt: Date.now() };
+    return support;
+  };
+}
+
+/**
+ * onchain.fi aggregator (direct API calls, no SDK)
+ * Without an API key it reports itself unavailable instead of throwing.
+ */
+export function createOnchainFiFacilitator(apiKey: string | undefined): Facilitator {
+  const headers = {
+    'X-API-Key': apiKey ?? '',
+    'Content-Type': 'application/json',
+  };
+
+  const post = async (path: string, body: Record<string, unknown>) => {
+    if (!apiKey) {
+      throw new Error('ONCHAIN_FI_API_KEY not configured');
+    }
+
+    const response = await fetch(`${ONCHAIN_API_URL}${path}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+    });
+
+    // 5xx = service down, 401/403/429 = our key or quota → caller falls back
+    if (response.status >= 500 || FALLBACK_HTTP_STATUSES.includes(response.status)) {
+      throw new Error(`onchain.fi ${path} failed: HTTP ${response.status}`);
+    }
+
+    // Other 4xx carry a JSON verdict (invalid payment). Anything that isn't
+    // JSON - an HTML error page, a proxy response - is a broken service too.
+    const isJson = response.headers.get('content-type')?.includes('application/json');
+    const data = isJson ? await response.json().catch(() => null) : null;
+
+    if (!data || typeof data !== 'object') {
+      throw new Error(`onchain.fi ${path} failed: HTTP ${response.status} (malformed response)`);
+    }
+
+    return { response, data };
+  };
+
+  return {
+    id: 'onchainfi',
+    payTo: (network) => getOnchainFiRoute(network).intermediate,
+    async supported() {
+      if (!apiKey) {
+        return { available: false, networks: [], reason: 'ONCHAIN_FI_API_KEY not configured' };
+      }
+
+      const response = await fetch(`${ONCHAIN_API_URL}/supported`, {
+        headers: { 'X-API-Key': apiKey },
+        signal: AbortSignal.timeout(SUPPORT_TIMEOUT_MS),
+      });
+      const data = await response.json().catch(() => null);
+
+      if (!response.ok || data?.status !== 'success') {
+        return { available: false, networks: [], reason: `onchain.fi /supported: HTTP ${response.status}` };
+      }
+
+      const listed: string[] | undefined = data.data?.networks;
+      const networks = (['base', 'solana'] as PaymentNetwork[]).filter(
+        (network) => !listed || listed.includes(network)
+      );
+
+      return { available: networks.length > 0, networks };
+    },
+
+    async verify(paymentHeader, terms) {
+      const route = getOnchainFiRoute(terms.network);
+      const { response, data } = await post('/verify', {
+        paymentHeader,
+        sourceNetwork: route.sourceNetwork,            // 'solana' for cross-chain Solana → Base
+        destinationNetwork: route.destinationNetwork,
+        intermediateAddress: route.intermediate,       // Address the payer signed/transferred to
+        expectedAmount: terms.price,                   // Decimal format per onchain.fi spec
+        expectedToken: 'USDC',
+        recipientAddress: terms.recipient,
+        priority: 'balanced',
+      });
+
+      console.log('[FACILITATOR][ONCHAIN.FI] Verify response summary:', {
+        status: response.status,
+        valid: data.data?.valid,
+        facilitator: data.data?.facilitator,
+      });
+
+      if (!response.ok || data.status !== 'success' || !data.data?.valid) {
+        return { valid: false, reason: data.data?.reason || data.message || 'Payment verification failed' };
+      }
+
+      return { valid: true, paymentId: data.data.paymentId };
+    },
+
+    async settle(paymentHeader, paymentId, network) {
+      const route = getOnchainFiRoute(network);
+      const { response, data } = await post('/settle', {
+        paymentId,                                     // Required: from verify response
+        paymentHeader,
+        sourceNetwork: route.sourceNetwork,
+        destinationNetwork: route.destinationNetwork,
+        intermediateAddress: route.intermediate,
+        priority: 'balanced',
+      });
+
+      if (!response.ok || data.status !== 'success' || !data.data?.settled) {
+        return {
+          settled: false,
+          reason: data.data?.reason || 'Payment settlement failed',
+          details: { httpStatus: response.status },
+        };
+      }
+
+      return {
+        settled: true,
+        txHash: data.data.txHash,
+        details: { facilitator: data.data.facilitator },
+      };
+    },
+  };
+}
+
+function createFacilitator(id: FacilitatorId): Facilitator {
+  switch (id) {
+    case 'onchainfi':
+      return createOnchainFiFacilitator(process.env.ONCHAIN_FI_API_KEY);
+    case 'local':
+      return createLocalFacilitatorFromEnv();
+  }
+}
+
+const facilitators: Partial<Record<FacilitatorId, Facilitator>> = {};
+
+/**
+ * Configured facilitator (one instance per id, health cached)
+ */
+export function getFacilitator(id: FacilitatorId): Facilitator {
+  if (!facilitators[id]) {
+    const facilitator = createFacilitator(id);
+    facilitators[id] = { ...facilitator, supported: cacheSupport(() => facilitator.supported()) };
+  }
+
+  return facilitators[id];
+}
+
+export function isFacilitatorId(id: unknown): id is FacilitatorId {
+  return FACILITATOR_IDS.includes(id as FacilitatorId);
+}
+
+/**
+ * Facilitator chain for a payment type (X402_FACILITATORS_<TYPE>, then X402_FACILITATORS)
+ */
+export function getFacilitators(purpose: PaymentPurpose): Facilitator[] {
+  const ids = (
+    process.env[`X402_FACILITATORS_${purpose.toUpperCase()}`] ||
+    process.env.X402_FACILITATORS ||
+    'onchainfi'
+  )
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+  for (const id of ids) {
+    if (!isFacilitatorId(id)) {
+      throw new Error(`Unknown x402 facilitator: ${id}`);
+    }
+  }
+
+  return [...new Set(ids as FacilitatorId[])].map(getFacilitator);
+}
+
+/**
+ * First healthy facilitator for a payment type + network (for the 402 terms)
+ * @throws FacilitatorError NO_FACILITATOR_AVAILABLE
+ */
+export async function selectFacilitator(purpose: PaymentPurpose, network: PaymentNetwork): Promise<Facilitator> {
+  const reasons: string[] = [];
+
+  for (const facilitator of getFacilitators(purpose)) {
+    if (!facilitator.payTo(network)) continue;
+
+    const support = await facilitator.supported();
+    if (support.available && support.networks.includes(network)) {
+      return facilitator;
+    }
+
+    reasons.push(`${facilitator.id}: ${support.reason || `${network} not supported`}`);
+  }
+
+  throw new FacilitatorError(
+    'NO_FACILITATOR_AVAILABLE',
+    `No x402 facilitator available for ${purpose} on ${network}${reasons.length ? ` (${reasons.join('; ')})` : ''}`
+  );
+}
+
+/**
+ * Base payments a route accepts - one per configured facilitator payTo, so a
+ * header signed to a fallback facilitator passes pre-verification too
+ * (lib/payment-verifier.ts)
+ */
+export function getPaymentExpectations(
+  purpose: PaymentPurpose,
+  priceAtomic: string,
+  asset: string = BASE_USDC_ADDRESS
+): PaymentExpectation[] {
+  const payTos = getFacilitators(purpose)
+    .map((facilitator) => facilitator.payTo('base'))
+    .filter((payTo): payTo is string => !!payTo);
+
+  return [...new Set(payTos)].map((payTo) => ({
+    network: 'base',
+    payTo,
+    asset,
+    maxAmountRequired: priceAtomic,
+  }));
+}
+
+/**
+ * Does the payment header transfer to this payTo address?
+ * Base: authorization.to. Solana: the transfer's destination token account.
+ */
+function isSignedTo(paymentHeader: string, network: PaymentNetwork, payTo: string): boolean {
+  try {
+    const decoded = JSON.parse(Buffer.from(paymentHeader, 'base64').toString());
+
+    if (network === 'solana') {
+      const { destination } = parseSolanaPayment(decoded.payload?.transaction);
+      const mint = new PublicKey(SOLANA_USDC_MINT);
+      return destination === getAssociatedTokenAddress(new PublicKey(payTo), mint).toBase58();
+    }
+
+    return String(decoded.payload?.authorization?.to ?? '').toLowerCase() === payTo.toLowerCase();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Verify with the configured facilitators the payment was signed to
+ * Unhealthy ones are skipped, errors fall through to the next.
+ *
+ * @throws FacilitatorError when every matching facilitator is down
+ */
+export async function verifyWithFailover(
+  purpose: PaymentPurpose,
+  paymentHeader: string,
+  terms: PaymentTerms
+): Promise<FacilitatorVerifyResult> {
+  const candidates = getFacilitators(purpose).filter((facilitator) => {
+    const payTo = facilitator.payTo(terms.network);
+    return !!payTo && isSignedTo(paymentHeader, terms.network, payTo);
+  });
+
+  if (candidates.length === 0) {
+    return { valid: false, facilitator: null, reason: 'Payment is not signed to a configured facilitator' };
+  }
+
+  const errors: string[] = [];
+
+  for (const facilitator of candidates) {
+    const support = await facilitator.supported();
+    if (!support.available) {
+      errors.push(`${facilitator.id}: unavailable (${support.reason || 'health check failed'})`);
+      continue;
+    }
+
+    try {
+      const result = await facilitator.verify(paymentHeader, terms);
+
+      console.log(`[FACILITATOR] ${result.valid ? '✅' : '❌'} Verify:`, {
+        facilitator: facilitator.id,
+        purpose,
+        network: terms.network,
+        reason: result.reason,
+      });
+
+      return { ...result, facilitator: facilitator.id };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Verification failed';
+      errors.push(`${facilitator.id}: ${message}`);
+      console.error('[FACILITATOR] ❌ Facilitator failed, trying next:', { facilitator: facilitator.id, error: message });
+    }
+  }
+
+  throw new FacilitatorError('ALL_FACILITATORS_FAILED', errors.join('; '));
+}
+
+/**
+ * Settle with the facilitator that verified the payment
+ * @throws Error when the facilitator is missing or unknown - never settle through a guess
+ */
+export async function settleWithFacilitator(
+  facilitatorId: string | null | undefined,
+  paymentHeader: string,
+  paymentId: string,
+  network: PaymentNetwork
+): Promise<SettleResult & { facilitator: FacilitatorId }> {
+  if (!facilitatorId) {
+    throw new Error('Payment has no recorded facilitator - cannot settle');
+  }
+
+  const id = facilitatorId;
+  if (!isFacilitatorId(id)) {
+    throw new Error(`Unknown x402 facilitator: ${id}`);
+  }
+
+  const result = await getFacilitator(id).settle(paymentHeader, paymentId, network);
+
+  console.log(`[FACILITATOR] ${result.settled ? '✅' : '❌'} Settle:`, {
+    facilitator: id,
+    network,
+    txHash: result.txHash,
+    reason: result.reason,
+  });
+
+  return { ...result, facilitator: id };
+}
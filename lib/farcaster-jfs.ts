@@ -0,0 +1,143 @@
+/**
+ * JSON Farcaster Signature Verification (Server-Side)
+ *
+ * Mini app webhook events arrive as a JFS envelope:
+ *   { header, payload, signature }  (each base64url)
+ *   header    → { fid, type: 'app_key', key: '0x<ed25519 public key>' }
+ *   signature → ed25519 over the ASCII bytes of `${header}.${payload}`
+ *
+ * A valid envelope also requires the app key to be an active signer for the
+ * FID in the Farcaster KeyRegistry (Optimism), otherwise anyone could sign
+ * events for any FID with a throwaway key.
+ *
+ * KISS Principle: Node crypto for ed25519, one KeyRegistry read - no extra SDK.
+ *
+ * Optional environment variables:
+ * - OPTIMISM_RPC_URL: RPC for KeyRegistry lookups (defaults to the public endpoint)
+ */
+
+import { createPublicKey, verify } from 'crypto';
+import { createPublicClient, http, parseAbi, type Hex } from 'viem';
+import { optimism } from 'viem/chains';
+
+// Farcaster KeyRegistry on Optimism
+const KEY_REGISTRY_ADDRESS = '0x00000000Fc1237824fb747aBDE0FF18990E59b7e';
+
+const KEY_REGISTRY_ABI = parseAbi([
+  'function keyDataOf(uint256 fid, bytes key) view returns ((uint8 state, uint32 keyType))',
+]);
+
+// KeyRegistry enums
+const KEY_STATE_ADDED = 1;
+const KEY_TYPE_ED25519 = 1;
+
+// SPKI DER prefix for a raw 32-byte ed25519 public key
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+const optimismClient = createPublicClient({
+  chain: optimism,
+  transport: http(process.env.OPTIMISM_RPC_URL),
+});
+
+export type JfsErrorCode =
+  | 'INVALID_ENVELOPE'
+  | 'INVALID_SIGNATURE'
+  | 'INVALID_APP_KEY'
+  | 'KEY_CHECK_FAILED';
+
+export class JfsVerificationError extends Error {
+  constructor(public code: JfsErrorCode, message: string) {
+    super(message);
+    this.name = 'JfsVerificationError';
+  }
+}
+
+export interface VerifiedJfs<T = unknown> {
+  fid: number;
+  appKey: Hex;
+  payload: T;
+}
+
+function decodeJson(value: string, part: string) {
+  try {
+    return JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+  } catch {
+    throw new JfsVerificationError('INVALID_ENVELOPE', `Malformed JFS ${part}`);
+  }
+}
+
+/**
+ * Is appKey an active ed25519 signer for fid?
+ */
+async function isActiveAppKey(fid: number, appKey: Hex): Promise<boolean> {
+  try {
+    const keyData = await optimismClient.readContract({
+      address: KEY_REGISTRY_ADDRESS,
+      abi: KEY_REGISTRY_ABI,
+      functionName: 'keyDataOf',
+      args: [BigInt(fid), appKey],
+    });
+
+    return keyData.state === KEY_STATE_ADDED && keyData.keyType === KEY_TYPE_ED25519;
+  } catch (error) {
+    throw new JfsVerificationError(
+      'KEY_CHECK_FAILED',
+      `KeyRegistry lookup failed: ${error instanceof Error ? error.message : 'unknown error'}`
+    );
+  }
+}
+
+/**
+ * Verify a JFS envelope and return the signer FID + decoded payload
+ * Throws JfsVerificationError for anything unsigned, forged or revoked.
+ */
+export async function verifyJsonFarcasterSignature<T = unknown>(body: unknown): Promise<VerifiedJfs<T>> {
+  const envelope = body as { header?: unknown; payload?: unknown; signature?: unknown } | null;
+
+  if (
+    typeof envelope?.header !== 'string' ||
+    typeof envelope.payload !== 'string' ||
+    typeof envelope.signature !== 'string'
+  ) {
+    throw new JfsVerificationError('INVALID_ENVELOPE', 'Expected a signed { header, payload, signature } envelope');
+  }
+
+  const header = decodeJson(envelope.header, 'header');
+  const payload = decodeJson(envelope.payload, 'payload') as T;
+
+  if (
+    !Number.isInteger(header?.fid) ||
+    header.type !== 'app_key' ||
+    typeof header.key !== 'string' ||
+    !/^0x[a-fA-F0-9]{64}$/.test(header.key)
+  ) {
+    throw new JfsVerificationError('INVALID_ENVELOPE', 'JFS header must be { fid, type: "app_key", key }');
+  }
+
+  const signedData = Buffer.from(`${envelope.header}.${envelope.payload}`, 'utf8');
+  const signature = Buffer.from(envelope.signature, 'base64url');
+
+  // Node throws on keys that aren't valid ed25519 points - that's a bad signature, not a 500
+  let valid: boolean;
+  try {
+    const publicKey = createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, Buffer.from(header.key.slice(2), 'hex')]),
+      format: 'der',
+      type: 'spki',
+    });
+
+    valid = signature.length === 64 && verify(null, signedData, publicKey, signature);
+  } catch {
+    valid = false;
+  }
+
+  if (!valid) {
+    throw new JfsVerificationError('INVALID_SIGNATURE', 'JFS signature does not match app key');
+  }
+
+  if (!(await isActiveAppKey(header.fid, header.key as Hex))) {
+    throw new JfsVerificationError('INVALID_APP_KEY', `App key is not an active signer for FID ${header.fid}`);
+  }
+
+  return { fid: header.fid, appKey: header.key as Hex, payload };
+}
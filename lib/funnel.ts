@@ -0,0 +1,190 @@
+/**
+ * Conversion Funnel (Server-Side)
+ *
+ * Records the first time each FID reaches a funnel stage, from the routes
+ * that already handle that step:
+ *
+ *   app_opened           GET   /api/payment-tracking/[fid]   (page.tsx on load)
+ *   warplet_found        GET   /api/rarible                  (Warplet lookup by FID)
+ *   generation_succeeded generation job worker            (lib/generation-jobs.ts)
+ *   saved                generation job worker + POST /api/save-generation
+ *   payment_verified     POST  /api/get-mint-signature
+ *   payment_settled      POST  /api/settle-payment
+ *   minted               PATCH /api/payment-tracking/[fid]   (+ reconciliation fixes)
+ *
+ * Campaign attribution: outreach casts embed /share/unminted/[fid]?c=<campaign id>,
+ * which launches the app with the same param; the app_opened call forwards it
+ * and the open is stored in campaign_opens.
+ *
+ * Recording is best effort - analytics never fail a user request.
+ *
+ * KISS Principle: Unique (fid, stage) rows + SQL views do the aggregation
+ * (see .docs/migration_funnel_events.sql).
+ */
+
+import { supabaseAdmin, type FunnelEvent } from '@/lib/supabase';
+
+export type FunnelStage = FunnelEvent['stage'];
+
+export const FUNNEL_STAGES: readonly FunnelStage[] = [
+  'app_opened',
+  'warplet_found',
+  'generation_succeeded',
+  'saved',
+  'payment_verified',
+  'payment_settled',
+  'minted',
+];
+
+// Query param carrying the outreach campaign id
+export const CAMPAIGN_PARAM = 'c';
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface FunnelStageReport {
+  stage: FunnelStage;
+  users: number;
+  fromPrevious: number | null;   // Step conversion (0-1)
+  fromStart: number | null;      // Conversion from app_opened (0-1)
+}
+
+export interface FunnelCohort {
+  week: string;
+  users: number;
+  generated: number;
+  minted: number;
+  avgSecondsToMint: number | null;
+}
+
+export interface CampaignAttribution {
+  campaignId: string;
+  name: string;
+  createdAt: string;
+  castsSent: number;
+  opens: number;
+  mints: number;
+  medianSecondsToMint: number | null;
+}
+
+export interface FunnelReport {
+  stages: FunnelStageReport[];
+  cohorts: FunnelCohort[];
+  campaigns: CampaignAttribution[];
+}
+
+/**
+ * Campaign id from a tracking param (null if absent/malformed)
+ */
+export function parseCampaignParam(value: string | null | undefined): string | null {
+  return value && UUID_REGEX.test(value) ? value : null;
+}
+
+/**
+ * Record that a FID reached a stage (first occurrence wins)
+ */
+export async function recordFunnelEvent(
+  fid: number,
+  stage: FunnelStage,
+  campaignId?: string | null
+): Promise<void> {
+  if (!Number.isInteger(fid) || fid <= 0) return;
+
+  try {
+    const { error } = await supabaseAdmin
+      .from('funnel_events')
+      .upsert(
+        { fid, stage, campaign_id: campaignId ?? null },
+        { onConflict: 'fid,stage', ignoreDuplicates: true }
+      );
+
+    if (error) {
+      console.error('[FUNNEL] ⚠️  Failed to record event:', { fid, stage, error: error.message });
+    }
+  } catch (error) {
+    console.error('[FUNNEL] ⚠️  Failed to record event:', { fid, stage, error });
+  }
+}
+
+/**
+ * Record an app open from a campaign cast (once per campaign + FID)
+ */
+export async function recordCampaignOpen(campaignId: string, fid: number): Promise<void> {
+  if (!Number.isInteger(fid) || fid <= 0) return;
+
+  try {
+    const { error } = await supabaseAdmin
+      .from('campaign_opens')
+      .upsert(
+        { campaign_id: campaignId, fid },
+        { onConflict: 'campaign_id,fid', ignoreDuplicates: true }
+      );
+
+    if (error) {
+      console.error('[FUNNEL] ⚠️  Failed to record campaign open:', { campaignId, fid, error: error.message });
+    }
+  } catch (error) {
+    console.error('[FUNNEL] ⚠️  Failed to record campaign open:', { campaignId, fid, error });
+  }
+}
+
+function ratio(numerator: number, denominator: number | undefined): number | null {
+  return denominator ? numerator / denominator : null;
+}
+
+/**
+ * Funnel, weekly cohorts and campaign attribution for the admin page
+ */
+export async function getFunnelReport(options: { cohortWeeks?: number; campaigns?: number } = {}): Promise<FunnelReport> {
+  const [stageCounts, cohorts, campaigns] = await Promise.all([
+    supabaseAdmin.from('funnel_stage_counts').select('*'),
+    supabaseAdmin
+      .from('funnel_weekly_cohorts')
+      .select('*')
+      .order('cohort_week', { ascending: false })
+      .limit(options.cohortWeeks ?? 12),
+    supabaseAdmin
+      .from('campaign_attribution')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(options.campaigns ?? 20),
+  ]);
+
+  const error = stageCounts.error || cohorts.error || campaigns.error;
+  if (error) {
+    throw new Error(`Failed to load funnel analytics: ${error.message}`);
+  }
+
+  const counts = new Map<string, number>(
+    (stageCounts.data ?? []).map((row: { stage: string; users: number }) => [row.stage, Number(row.users)])
+  );
+  const start = counts.get('app_opened');
+
+  return {
+    stages: FUNNEL_STAGES.map((stage, i) => {
+      const users = counts.get(stage) ?? 0;
+      return {
+        stage,
+        users,
+        fromPrevious: i === 0 ? null : ratio(users, counts.get(FUNNEL_STAGES[i - 1])),
+        fromStart: i === 0 ? null : ratio(users, start),
+      };
+    }),
+    cohorts: (cohorts.data ?? []).map((row) => ({
+      week: row.cohort_week,
+      users: Number(row.users),
+      generated: Number(row.generated),
+      minted: Number(row.minted),
+      avgSecondsToMint: row.avg_seconds_to_mint === null ? null : Number(row.avg_seconds_to_mint),
+    })),
+    campaigns: (campaigns.data ?? []).map((row) => ({
+      campaignId: row.campaign_id,
+      name: row.name,
+      createdAt: row.created_at,
+      castsSent: Number(row.casts_sent),
+      opens: Number(row.opens),
+      mints: Number(row.mints),
+      medianSecondsToMint:
+        row.median_seconds_to_mint === null ? null : Number(row.median_seconds_to_mint),
+    })),
+  };
+}
@@ -0,0 +1,488 @@
+/**
+ * Generation Jobs (Server-Side)
+ *
+ * Image generation runs outside the request: POST /api/generate-image only
+ * queues a job and returns its id, so a dropped mobile connection no longer
+ * loses the result. Clients poll GET /api/generate-image/jobs/[id].
+ *
+ * Job lifecycle:
+ *   queued → fetching_source → generating → compressing → saved
+ *   any step → queued  (transient error, retried after RETRY_DELAYS_MS)
+ *   any step → failed  (invalid source, or GENERATION_MAX_ATTEMPTS reached)
+ *
+ * - The worker starts right after the POST response (next/server after())
+ * - Every poll restarts a due job nobody holds (instance died, retry waiting),
+ *   one worker per job via a lease (locked_until)
+ * - One in-flight job per FID: POST returns the existing job instead
+ * - On success the image is saved as a new version (lib/generation-versions.ts),
+ *   selected for minting and kept on the job for the polling client
+ * - Paid regenerations (kind 'regenerate' + payment_id) move their ledger row
+ *   mint_submitted → minted when saved, → failed when the job fails (credit)
+ * - Each attempt is recorded in generation_runs (lib/image-providers.ts)
+ *
+ * KISS Principle: The database is the queue - no extra infrastructure.
+ */
+
+import sharp from 'sharp';
+import { recordFunnelEvent } from '@/lib/funnel';
+import { transitionPayment } from '@/lib/payment-ledger';
+import { saveGenerationVersion } from '@/lib/generation-versions';
+import { buildStylePrompt, getArtStyle, type ArtStyle } from '@/lib/art-styles';
+import {
+  generateWithFailover,
+  recordGenerationRun,
+  ImageProviderError,
+  type ChainResult,
+} from '@/lib/image-providers';
+import { supabaseAdmin, type GenerationJob } from '@/lib/supabase';
+
+export const GENERATION_MAX_ATTEMPTS = 3;
+
+// Wait before attempt 2, 3
+const RETRY_DELAYS_MS = [5_000, 20_000];
+
+// Covers fetch + provider chain + compression; a crashed worker's job is picked up after it
+const JOB_LEASE_MS = 3 * 60_000;
+
+// Contract limit: 24KB (24576 bytes), target: <20KB for safety margin
+const TARGET_SIZE = 20 * 1024;
+const MAX_SIZE = 24 * 1024;
+
+// Whitelist allowed image domains (SSRF prevention)
+const ALLOWED_DOMAINS = [
+  'base-mainnet.g.alchemy.com',
+  'nft-cdn.alchemy.com',
+  'ipfs.io',
+  'gateway.pinata.cloud',
+  'res.cloudinary.com',        // Cloudinary CDN (Warpcast/Farcaster images)
+  'imagedelivery.net',          // Cloudflare Images (Warpcast/Farcaster images)
+  'ipfs.raribleuserdata.com',   // Rarible IPFS gateway
+  'api.rarible.org',            // Rarible API embedded content
+];
+
+export type GenerationJobStatus = GenerationJob['status'];
+
+export const TERMINAL_JOB_STATUSES: readonly GenerationJobStatus[] = ['saved', 'failed'];
+
+// Client view of a job (GET /api/generate-image/jobs/[id])
+export interface GenerationJobView {
+  id: string;
+  kind: GenerationJob['kind'];
+  fid: number;
+  tokenId: string;
+  styleId: string;
+  status: GenerationJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  provider: GenerationJob['provider'];
+  error: string | null;
+  imageData: string | null;      // Only once saved
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type GenerationJobErrorCode = 'INVALID_INPUT' | 'INVALID_SOURCE' | 'NOT_FOUND' | 'DB_ERROR';
+
+export class GenerationJobError extends Error {
+  constructor(public code: GenerationJobErrorCode, message: string) {
+    super(message);
+    this.name = 'GenerationJobError';
+  }
+}
+
+export function generationJobErrorStatus(error: GenerationJobError): number {
+  switch (error.code) {
+    case 'INVALID_INPUT':
+    case 'INVALID_SOURCE':
+      return 400;
+    case 'NOT_FOUND':
+      return 404;
+    case 'DB_ERROR':
+      return 500;
+  }
+}
+
+/**
+ * Reject source URLs outside the CDN whitelist
+ */
+function assertAllowedSource(imageUrl: string) {
+  let url: URL;
+  try {
+    url = new URL(imageUrl);
+  } catch {
+    throw new GenerationJobError('INVALID_SOURCE', 'Invalid image URL format');
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new GenerationJobError('INVALID_SOURCE', 'Invalid image URL format');
+  }
+
+  if (!ALLOWED_DOMAINS.some((domain) => url.hostname.includes(domain))) {
+    throw new GenerationJobError(
+      'INVALID_SOURCE',
+      `Invalid image URL domain: ${url.hostname}. Only whitelisted CDN domains allowed (Alchemy, IPFS, Cloudinary, Cloudflare).`
+    );
+  }
+}
+
+/**
+ * Fetch the original Warplet image
+ */
+async function fetchSourceImage(imageUrl: string): Promise<Buffer> {
+  assertAllowedSource(imageUrl);
+
+  const response = await fetch(imageUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch image: ${response.status} ${response.statusText}`);
+  }
+
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Compress for on-chain storage with the style's profile
+ * Adaptive: progressively lower quality until the image is under TARGET_SIZE.
+ */
+async function compressForChain(image: Buffer, style: ArtStyle): Promise<{ data: Buffer; quality: number }> {
+  const { size, qualities, effort } = style.compression;
+
+  let compressed: Buffer | null = null;
+  let finalQuality = qualities[0];
+
+  for (const quality of qualities) {
+    compressed = await sharp(image)
+      .resize(size, size, { fit: 'contain', background: { r: 0, g: 0, b: 0, alpha: 0 } })
+      .webp({ quality, effort })
+      .toBuffer();
+
+    finalQuality = quality;
+    if (compressed.length <= TARGET_SIZE) break;
+  }
+
+  if (!compressed) {
+    throw new Error('Compression failed - no buffer generated');
+  }
+
+  if (compressed.length > MAX_SIZE) {
+    throw new Error(
+      `Image too large even after aggressive compression: ${(compressed.length / 1024).toFixed(2)} KB. Maximum is 24 KB.`
+    );
+  }
+
+  return { data: compressed, quality: finalQuality };
+}
+
+export function toJobView(job: GenerationJob): GenerationJobView {
+  return {
+    id: job.id,
+    kind: job.kind,
+    fid: job.fid,
+    tokenId: job.token_id,
+    styleId: job.style_id,
+    status: job.status,
+    attempts: job.attempts,
+    maxAttempts: GENERATION_MAX_ATTEMPTS,
+    provider: job.provider,
+    error: job.last_error,
+    imageData: job.status === 'saved' ? job.image_data : null,
+    createdAt: job.created_at,
+    updatedAt: job.updated_at,
+  };
+}
+
+export async function getGenerationJob(id: string): Promise<GenerationJob> {
+  const { data, error } = await supabaseAdmin
+    .from('generation_jobs')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw new GenerationJobError('DB_ERROR', `Failed to load job: ${error.message}`);
+  }
+  if (!data) {
+    throw new GenerationJobError('NOT_FOUND', 'Generation job not found');
+  }
+
+  return data;
+}
+
+/**
+ * In-flight job for a FID (null if none)
+ */
+export async function getActiveGenerationJob(fid: number): Promise<GenerationJob | null> {
+  const { data, error } = await supabaseAdmin
+    .from('generation_jobs')
+    .select('*')
+    .eq('fid', fid)
+    .not('status', 'in', `(${TERMINAL_JOB_STATUSES.join(',')})`)
+    .maybeSingle();
+
+  if (error) {
+    throw new GenerationJobError('DB_ERROR', `Failed to load active job: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Queue a generation (returns the FID's in-flight job if there is one)
+ */
+export async function createGenerationJob(input: {
+  fid: number;
+  username: string;
+  tokenId: string;
+  name: string;
+  imageUrl: string;
+  style: ArtStyle;
+  kind?: GenerationJob['kind'];
+  paymentId?: string | null;
+}): Promise<{ job: GenerationJob; created: boolean }> {
+  if (!Number.isInteger(input.fid) || input.fid <= 0) {
+    throw new GenerationJobError('INVALID_INPUT', 'Invalid FID');
+  }
+
+  assertAllowedSource(input.imageUrl);
+
+  const existing = await getActiveGenerationJob(input.fid);
+  if (existing) {
+    return { job: existing, created: false };
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('generation_jobs')
+    .insert({
+      fid: input.fid,
+      username: input.username,
+      token_id: input.tokenId,
+      name: input.name,
+      image_url: input.imageUrl,
+      style_id: input.style.id,
+      kind: input.kind ?? 'generate',
+      payment_id: input.paymentId ?? null,
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    // Lost a race with another request for the same FID (idx_generation_jobs_active_fid)
+    if (error.code === '23505') {
+      const active = await getActiveGenerationJob(input.fid);
+      if (active) return { job: active, created: false };
+    }
+    throw new GenerationJobError('DB_ERROR', `Failed to queue generation: ${error.message}`);
+  }
+
+  console.log('[GEN-JOB] Queued:', { id: data.id, fid: input.fid, kind: data.kind, style: input.style.id });
+
+  return { job: data, created: true };
+}
+
+/**
+ * Whether a job is waiting for a worker (due, unleased, not finished)
+ */
+export function isJobDue(job: GenerationJob, now = Date.now()): boolean {
+  return (
+    !TERMINAL_JOB_STATUSES.includes(job.status) &&
+    new Date(job.next_attempt_at).getTime() <= now &&
+    (!job.locked_until || new Date(job.locked_until).getTime() < now)
+  );
+}
+
+/**
+ * Take the job lease and count the attempt (null if not due or held by another worker)
+ */
+async function claimJob(job: GenerationJob): Promise<GenerationJob | null> {
+  const now = new Date();
+  const { data, error } = await supabaseAdmin
+    .from('generation_jobs')
+    .update({
+      status: 'fetching_source',
+      attempts: job.attempts + 1,
+      locked_until: new Date(now.getTime() + JOB_LEASE_MS).toISOString(),
+      updated_at: now.toISOString(),
+    })
+    .eq('id', job.id)
+    .eq('attempts', job.attempts)
+    .not('status', 'in', `(${TERMINAL_JOB_STATUSES.join(',')})`)
+    .lte('next_attempt_at', now.toISOString())
+    .or(`locked_until.is.null,locked_until.lt."${now.toISOString()}"`)
+    .select('*');
+
+  if (error) {
+    throw new GenerationJobError('DB_ERROR', `Failed to claim job: ${error.message}`);
+  }
+
+  return data?.[0] ?? null;
+}
+
+async function updateJob(id: string, fields: Partial<GenerationJob>) {
+  const { error } = await supabaseAdmin
+    .from('generation_jobs')
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) {
+    throw new GenerationJobError('DB_ERROR', `Failed to update job: ${error.message}`);
+  }
+}
+
+/**
+ * Settle the paid regeneration's ledger row with the job outcome
+ * Best-effort: the job result stands even if the ledger write fails.
+ */
+async function recordJobPayment(job: GenerationJob, outcome: 'minted' | 'failed', error?: string) {
+  if (!job.payment_id) return;
+
+  try {
+    await transitionPayment(job.payment_id, outcome, {
+      actor: 'system',
+      fields: outcome === 'failed' ? { last_error: error ?? 'Regeneration failed' } : {},
+      details: { step: 'regenerate', jobId: job.id },
+    });
+  } catch (ledgerErr) {
+    console.error('[GEN-JOB] ⚠️  Failed to record regeneration payment outcome:', {
+      jobId: job.id,
+      paymentId: job.payment_id,
+      outcome,
+      error: ledgerErr,
+    });
+  }
+}
+
+/**
+ * Run one attempt of a job (no-op if it isn't due or another worker holds it)
+ * Never throws for generation failures - they are recorded on the job.
+ */
+export async function processGenerationJob(id: string): Promise<GenerationJob | null> {
+  const job = await claimJob(await getGenerationJob(id));
+  if (!job) return null;
+
+  const startedAt = Date.now();
+  // Seasonal styles stay valid for jobs queued inside their window
+  const style = getArtStyle(job.style_id);
+  let chain: ChainResult | null = null;
+
+  try {
+    if (!style) {
+      throw new GenerationJobError('INVALID_INPUT', `Unknown art style: ${job.style_id}`);
+    }
+
+    const source = await fetchSourceImage(job.image_url);
+
+    await updateJob(job.id, { status: 'generating' });
+    chain = await generateWithFailover({ source, style, prompt: buildStylePrompt(style) });
+
+    await updateJob(job.id, { status: 'compressing' });
+    const { data, quality } = await compressForChain(chain.image, style);
+    const imageData = data.toString('base64');
+
+    // Saved as a new version and selected - this is where the app (and minting) reads it.
+    // Keyed by job id: if an earlier attempt saved but lost its lease before the
+    // job update below, this returns that version instead of adding another.
+    const version = await saveGenerationVersion({
+      fid: job.fid,
+      username: job.username,
+      imageData,
+      styleId: job.style_id,
+      provider: chain.provider.id,
+      jobId: job.id,
+      paymentId: job.payment_id,
+    });
+    await updateJob(job.id, {
+      status: 'saved',
+      provider: version.provider ?? chain.provider.id,
+      image_data: version.image_data,
+      last_error: null,
+      locked_until: null,
+      completed_at: new Date().toISOString(),
+    });
+
+    await recordGenerationRun({
+      jobId: job.id,
+      fid: job.fid,
+      tokenId: job.token_id,
+      styleId: job.style_id,
+      provider: chain.provider,
+      attempts: chain.attempts,
+      latencyMs: Date.now() - startedAt,
+    });
+    await recordJobPayment(job, 'minted');
+    await recordFunnelEvent(job.fid, 'generation_succeeded');
+    await recordFunnelEvent(job.fid, 'saved');
+
+    console.log('[GEN-JOB] ✅ Saved:', {
+      id: job.id,
+      fid: job.fid,
+      version: version.version,
+      provider: chain.provider.id,
+      sizeKB: (data.length / 1024).toFixed(2),
+      quality,
+      latencyMs: Date.now() - startedAt,
+    });
+
+    return {
+      ...job,
+      status: 'saved',
+      image_data: version.image_data,
+      provider: version.provider ?? chain.provider.id,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Image generation failed';
+    const permanent = error instanceof GenerationJobError && ['INVALID_SOURCE', 'INVALID_INPUT'].includes(error.code);
+    const exhausted = job.attempts >= GENERATION_MAX_ATTEMPTS;
+
+    await recordGenerationRun({
+      jobId: job.id,
+      fid: job.fid,
+      tokenId: job.token_id,
+      styleId: job.style_id,
+      // Provider succeeded but a later step (compression, save) failed
+      provider: null,
+      attempts: error instanceof ImageProviderError ? error.attempts : chain?.attempts ?? [],
+      latencyMs: Date.now() - startedAt,
+      error: message,
+    });
+
+    if (permanent || exhausted) {
+      await updateJob(job.id, {
+        status: 'failed',
+        last_error: message,
+        locked_until: null,
+        completed_at: new Date().toISOString(),
+      });
+      await recordJobPayment(job, 'failed', message);
+      console.error('[GEN-JOB] ❌ Failed:', { id: job.id, fid: job.fid, attempts: job.attempts, error: message });
+      return { ...job, status: 'failed', last_error: message };
+    }
+
+    const delay = RETRY_DELAYS_MS[Math.min(job.attempts - 1, RETRY_DELAYS_MS.length - 1)];
+    await updateJob(job.id, {
+      status: 'queued',
+      last_error: message,
+      locked_until: null,
+      next_attempt_at: new Date(Date.now() + delay).toISOString(),
+    });
+    console.warn('[GEN-JOB] ⚠️  Attempt failed, will retry:', {
+      id: job.id,
+      attempt: job.attempts,
+      retryInMs: delay,
+      error: message,
+    });
+    return { ...job, status: 'queued', last_error: message };
+  }
+}
+
+/**
+ * Work a job until it is saved, failed or held by another worker
+ * Sleeps through retry delays, so a job finishes even if its client stopped polling.
+ */
+export async function runGenerationJob(id: string): Promise<void> {
+  for (;;) {
+    const job = await processGenerationJob(id);
+    if (!job || job.status !== 'queued') return;
+
+    const delay = RETRY_DELAYS_MS[Math.min(job.attempts - 1, RETRY_DELAYS_MS.length - 1)];
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+}
@@ -0,0 +1,310 @@
+/**
+ * Generation Versions (Server-Side)
+ *
+ * Every image generated for a FID is kept in generation_versions, so the user
+ * can browse past variants and pick which one to mint. unminted_geoplets holds
+ * a copy of the selected version (version_id) - that row is what minting reads.
+ *
+ * Pricing per FID:
+ * - First generation: free (POST /api/generate-image, once)
+ * - Next REGENERATION_FREE_QUOTA regenerations: free
+ * - After that: PAYMENT_CONFIG.REGENERATE via x402 (POST /api/regenerate-image)
+ * - A paid regeneration whose job failed is credited back (one free retry)
+ *
+ * New versions are selected automatically; older ones stay selectable.
+ *
+ * KISS Principle: Append-only history table, version = max + 1 per FID.
+ */
+
+import { getLatestSettledPayment, isRecoverable } from '@/lib/payment-ledger';
+import { PAYMENT_CONFIG } from '@/lib/payment-config';
+import {
+  supabaseAdmin,
+  type GenerationVersion,
+  type PaymentLedgerEntry,
+} from '@/lib/supabase';
+
+// Free regenerations per FID (after the first generation)
+export const REGENERATION_FREE_QUOTA = parseInt(process.env.REGENERATION_FREE_QUOTA || '2', 10);
+
+// Concurrent saves for one FID can pick the same version number
+const VERSION_INSERT_ATTEMPTS = 3;
+
+// Client view of a version (GET /api/generations/[fid])
+export interface GenerationVersionView {
+  id: string;
+  version: number;
+  imageData: string;
+  styleId: string | null;
+  provider: GenerationVersion['provider'];
+  paid: boolean;
+  createdAt: string;
+}
+
+export interface RegenerationQuota {
+  freeQuota: number;
+  freeUsed: number;
+  freeRemaining: number;
+  credit: PaymentLedgerEntry | null;   // Paid regeneration that failed - next one is on the house
+  price: string;
+}
+
+export type GenerationVersionErrorCode = 'INVALID_INPUT' | 'NOT_FOUND' | 'DB_ERROR';
+
+export class GenerationVersionError extends Error {
+  constructor(public code: GenerationVersionErrorCode, message: string) {
+    super(message);
+    this.name = 'GenerationVersionError';
+  }
+}
+
+export function generationVersionErrorStatus(error: GenerationVersionError): number {
+  switch (error.code) {
+    case 'INVALID_INPUT':
+      return 400;
+    case 'NOT_FOUND':
+      return 404;
+    case 'DB_ERROR':
+      return 500;
+  }
+}
+
+export function toVersionView(version: GenerationVersion): GenerationVersionView {
+  return {
+    id: version.id,
+    version: version.version,
+    imageData: version.image_data,
+    styleId: version.style_id,
+    provider: version.provider,
+    paid: !!version.payment_id,
+    createdAt: version.created_at,
+  };
+}
+
+export async function listGenerationVersions(fid: number): Promise<GenerationVersion[]> {
+  const { data, error } = await supabaseAdmin
+    .from('generation_versions')
+    .select('*')
+    .eq('fid', fid)
+    .order('version', { ascending: true });
+
+  if (error) {
+    throw new GenerationVersionError('DB_ERROR', `Failed to load versions: ${error.message}`);
+  }
+
+  return data ?? [];
+}
+
+/**
+ * Version currently copied to unminted_geoplets (null if none / saved before versioning)
+ */
+export async function getSelectedVersionId(fid: number): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from('unminted_geoplets')
+    .select('version_id')
+    .eq('fid', fid)
+    .maybeSingle();
+
+  if (error) {
+    throw new GenerationVersionError('DB_ERROR', `Failed to load selection: ${error.message}`);
+  }
+
+  return data?.version_id ?? null;
+}
+
+/**
+ * Whether the FID already used its free first generation
+ */
+export async function hasGeneration(fid: number): Promise<boolean> {
+  const { count, error } = await supabaseAdmin
+    .from('generation_versions')
+    .select('id', { count: 'exact', head: true })
+    .eq('fid', fid);
+
+  if (error) {
+    throw new GenerationVersionError('DB_ERROR', `Failed to count versions: ${error.message}`);
+  }
+
+  return (count ?? 0) > 0;
+}
+
+async function getLatestVersionNumber(fid: number): Promise<number> {
+  const { data, error } = await supabaseAdmin
+    .from('generation_versions')
+    .select('version')
+    .eq('fid', fid)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new GenerationVersionError('DB_ERROR', `Failed to load latest version: ${error.message}`);
+  }
+
+  return data?.version ?? 0;
+}
+
+async function getVersionByJobId(jobId: string): Promise<GenerationVersion | null> {
+  const { data, error } = await supabaseAdmin
+    .from('generation_versions')
+    .select('*')
+    .eq('job_id', jobId)
+    .maybeSingle();
+
+  if (error) {
+    throw new GenerationVersionError('DB_ERROR', `Failed to load job version: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Append a version and select it (copy to unminted_geoplets)
+ * Idempotent per jobId (unique job_id): a retried job re-selects the version
+ * its earlier attempt saved instead of appending - and counting - a second one.
+ */
+export async function saveGenerationVersion(input: {
+  fid: number;
+  username: string;
+  imageData: string;
+  styleId: string | null;
+  provider?: GenerationVersion['provider'];
+  jobId?: string;
+  paymentId?: string | null;
+}): Promise<GenerationVersion> {
+  let version = input.jobId ? await getVersionByJobId(input.jobId) : null;
+
+  for (let attempt = 1; !version; attempt++) {
+    const { data, error } = await supabaseAdmin
+      .from('generation_versions')
+      .insert({
+        fid: input.fid,
+        version: (await getLatestVersionNumber(input.fid)) + 1,
+        image_data: input.imageData,
+        style_id: input.styleId,
+        provider: input.provider ?? null,
+        job_id: input.jobId ?? null,
+        payment_id: input.paymentId ?? null,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        // Unique job_id: another attempt of this job already saved it
+        version = input.jobId ? await getVersionByJobId(input.jobId) : null;
+        if (version) break;
+
+        // Unique (fid, version): another save took this number - try the next one
+        if (attempt < VERSION_INSERT_ATTEMPTS) continue;
+      }
+      throw new GenerationVersionError('DB_ERROR', `Failed to save version: ${error.message}`);
+    }
+
+    version = data as GenerationVersion;
+  }
+
+  const { error } = await supabaseAdmin.from('unminted_geoplets').upsert(
+    {
+      fid: input.fid,
+      image_data: version.image_data,
+      username: input.username,
+      style_id: version.style_id,
+      version_id: version.id,
+      created_at: new Date().toISOString(),
+    },
+    { onConflict: 'fid' }
+  );
+
+  if (error) {
+    throw new GenerationVersionError('DB_ERROR', `Failed to select version: ${error.message}`);
+  }
+
+  console.log('[GEN-VERSION] ✅ Saved:', { fid: input.fid, version: version.version, id: version.id });
+
+  return version;
+}
+
+/**
+ * Pick a past version to mint (copies its image to unminted_geoplets)
+ * With a username the row is upserted, so a deleted selection can be restored.
+ */
+export async function selectGenerationVersion(
+  fid: number,
+  versionId: string,
+  options: { username?: string } = {}
+): Promise<GenerationVersion> {
+  const { data: version, error: loadError } = await supabaseAdmin
+    .from('generation_versions')
+    .select('*')
+    .eq('id', versionId)
+    .eq('fid', fid)
+    .maybeSingle();
+
+  if (loadError) {
+    throw new GenerationVersionError('DB_ERROR', `Failed to load version: ${loadError.message}`);
+  }
+  if (!version) {
+    throw new GenerationVersionError('NOT_FOUND', 'Version not found for this FID');
+  }
+
+  const selection = {
+    image_data: version.image_data,
+    style_id: version.style_id,
+    version_id: version.id,
+  };
+
+  const { data, error } = options.username
+    ? await supabaseAdmin
+        .from('unminted_geoplets')
+        .upsert(
+          { fid, username: options.username, created_at: new Date().toISOString(), ...selection },
+          { onConflict: 'fid' }
+        )
+        .select('fid')
+    : await supabaseAdmin
+        .from('unminted_geoplets')
+        .update(selection)
+        .eq('fid', fid)
+        .select('fid');
+
+  if (error) {
+    throw new GenerationVersionError('DB_ERROR', `Failed to select version: ${error.message}`);
+  }
+  if (!data?.length) {
+    throw new GenerationVersionError('NOT_FOUND', 'No saved generation for this FID');
+  }
+
+  console.log('[GEN-VERSION] Selected:', { fid, version: version.version, id: version.id });
+
+  return version;
+}
+
+/**
+ * Free regenerations left + any paid-but-failed credit
+ * Free regenerations that failed don't count against the quota.
+ */
+export async function getRegenerationQuota(fid: number): Promise<RegenerationQuota> {
+  const { count, error } = await supabaseAdmin
+    .from('generation_jobs')
+    .select('id', { count: 'exact', head: true })
+    .eq('fid', fid)
+    .eq('kind', 'regenerate')
+    .is('payment_id', null)
+    .neq('status', 'failed');
+
+  if (error) {
+    throw new GenerationVersionError('DB_ERROR', `Failed to count regenerations: ${error.message}`);
+  }
+
+  const latestPaid = await getLatestSettledPayment(fid, 'regenerate');
+  const freeUsed = count ?? 0;
+
+  return {
+    freeQuota: REGENERATION_FREE_QUOTA,
+    freeUsed,
+    freeRemaining: Math.max(REGENERATION_FREE_QUOTA - freeUsed, 0),
+    credit: latestPaid && isRecoverable(latestPaid) ? latestPaid : null,
+    price: PAYMENT_CONFIG.REGENERATE.price,
+  };
+}
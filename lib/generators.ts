@@ -5,11 +5,17 @@ import { WarpletNFT } from '@/hooks/useWarplets';
 
 /**
  * Generate geometric art from Warplet NFT
+ * Queues a generation job and polls it until saved (see lib/generation-jobs.ts)
+ * styleId: art style from GET /api/styles (server default when omitted)
  */
-export async function generateImage(nft: WarpletNFT): Promise<string> {
+export async function generateImage(
+  nft: WarpletNFT,
+  fid: number,
+  styleId?: string
+): Promise<string> {
   haptics.tap();
 
-  const response = await fetch('/api/generate-image', {
+  const response = await sdk.quickAuth.fetch('/api/generate-image', {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -18,19 +24,34 @@ export async function generateImage(nft: WarpletNFT): Promise<string> {
       imageUrl: nft.imageUrl,
       tokenId: nft.tokenId,
       name: nft.name,
+      fid,
+      styleId,
     }),
   });
 
-  if (!response.ok) {
-    const errorData = await response.json();
-    throw new Error(errorData.error || 'Generation failed');
+  const queued = await response.json();
+
+  if (!response.ok || !queued.success) {
+    throw new Error(queued.error || 'Generation failed');
   }
 
-  const result = await response.json();
+  for (;;) {
+    await new Promise((resolve) => setTimeout(resolve, 2000));
 
-  haptics.success();
+    const poll = await sdk.quickAuth.fetch(`/api/generate-image/jobs/${queued.jobId}`);
+    const { job, error } = await poll.json();
 
-  return result.imageData;
+    if (!poll.ok || !job) {
+      throw new Error(error || 'Generation failed');
+    }
+    if (job.status === 'failed') {
+      throw new Error(job.error || 'Generation failed');
+    }
+    if (job.status === 'saved') {
+      haptics.success();
+      return job.imageData;
+    }
+  }
 }
 
 /**
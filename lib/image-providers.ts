@@ -0,0 +1,404 @@
+/**
+ * Image Providers (Server-Side)
+ *
+ * Everything that can turn a Warplet image + art style into a new image.
+ * The generation worker (lib/generation-jobs.ts) asks the provider chain,
+ * never a specific vendor.
+ *
+ * Providers:
+ * - openai: gpt-image-1 images.edit (needs OPENAI_API_KEY)
+ * - local:  deterministic procedural geometric art rendered with sharp
+ *           (no network - for development, tests and outages)
+ *
+ * Chain (IMAGE_PROVIDERS, comma-separated, default "openai"):
+ *   IMAGE_PROVIDERS=openai,local   OpenAI, fall back to local art
+ *   IMAGE_PROVIDERS=local          offline development
+ * Providers are tried in order; unhealthy ones are skipped, failures fall
+ * through to the next. Every generation attempt is recorded in generation_runs
+ * (provider, latency, per-provider errors, cost estimate).
+ *
+ * KISS Principle: A provider is three functions - generate, health, estimateCost.
+ */
+
+import { createHash } from 'crypto';
+import OpenAI from 'openai';
+import { toFile } from 'openai/uploads';
+import sharp from 'sharp';
+import { checkOpenAIAvailability } from '@/lib/openai-health';
+import { supabaseAdmin, type GenerationRun } from '@/lib/supabase';
+import type { ArtStyle, ArtStyleId } from '@/lib/art-styles';
+
+export type ImageProviderId = 'openai' | 'local';
+
+export interface ImageGenerationInput {
+  source: Buffer;            // Original Warplet image
+  style: ArtStyle;
+  prompt: string;            // buildStylePrompt(style)
+}
+
+export interface ProviderHealth {
+  available: boolean;
+  reason?: string;
+}
+
+export interface ImageProvider {
+  id: ImageProviderId;
+  model: string;
+  generate(input: ImageGenerationInput): Promise<Buffer>;  // Square image, any sharp-readable format
+  health(): Promise<ProviderHealth>;
+  estimateCost(): number;                                 // USD per image
+}
+
+export type ProviderAttempt = GenerationRun['attempts'][number];
+
+export interface ChainResult {
+  image: Buffer;
+  provider: ImageProvider;
+  attempts: ProviderAttempt[];
+}
+
+export interface ChainHealth extends ProviderHealth {
+  providers: { id: ImageProviderId; available: boolean; reason?: string }[];
+}
+
+export class ImageProviderError extends Error {
+  constructor(
+    public code: 'NO_PROVIDER_AVAILABLE' | 'ALL_PROVIDERS_FAILED',
+    message: string,
+    public attempts: ProviderAttempt[]
+  ) {
+    super(message);
+    this.name = 'ImageProviderError';
+  }
+}
+
+// gpt-image-1 edit, 1024x1024 high quality + high-fidelity input image (approximate list price)
+const OPENAI_COST_PER_IMAGE_USD = 0.19;
+
+const IMAGE_PROVIDER_IDS: readonly ImageProviderId[] = ['openai', 'local'];
+
+/**
+ * OpenAI gpt-image-1 (image-to-image edit)
+ * Without an API key the provider reports itself unavailable instead of throwing,
+ * so "openai,local" still works on machines without a key.
+ */
+export function createOpenAIProvider(apiKey: string | undefined): ImageProvider {
+  const openai = apiKey ? new OpenAI({ apiKey }) : null;
+
+  const generate = async (input: ImageGenerationInput, retryCount = 0): Promise<Buffer> => {
+    if (!openai) {
+      throw new Error('OpenAI API key not configured');
+    }
+
+    // Note: images.generate() with referenced_image does NOT exist in OpenAI SDK
+    // input_fidelity: 'high' makes the model preserve pose/features more consistently
+    const response = await openai.images.edit({
+      model: 'gpt-image-1',
+      image: await toFile(input.source, 'warplet.png', { type: 'image/png' }),
+      prompt: input.prompt,
+      n: 1,
+      size: '1024x1024',
+      input_fidelity: 'high',
+    });
+
+    // gpt-image-1 always returns base64-encoded images (b64_json), not URLs
+    const b64Json = response.data?.[0]?.b64_json;
+
+    if (!b64Json) {
+      // Empty responses happen occasionally - retry once before failing over
+      if (retryCount < 1) {
+        console.warn('[IMAGE-PROVIDER] ⚠️  Empty response from gpt-image-1, retrying...');
+        return generate(input, retryCount + 1);
+      }
+      throw new Error('No image data returned by gpt-image-1');
+    }
+
+    return Buffer.from(b64Json, 'base64');
+  };
+
+  return {
+    id: 'openai',
+    model: 'gpt-image-1',
+    generate: (input) => generate(input),
+    health: async () => {
+      const { available, reason } = await checkOpenAIAvailability();
+      return { available, reason };
+    },
+    estimateCost: () => OPENAI_COST_PER_IMAGE_USD,
+  };
+}
+
+type LocalShape = 'circle' | 'square' | 'triangle' | 'quarter' | 'bar';
+
+// Shape vocabulary per style (mirrors each style's prompt)
+const LOCAL_SHAPES: Record<ArtStyleId, LocalShape[]> = {
+  bauhaus: ['circle', 'square', 'triangle', 'quarter'],
+  suprematism: ['bar', 'square', 'circle'],
+  'de-stijl': ['square'],
+  memphis: ['circle', 'triangle', 'quarter'],
+  constructivism: ['triangle', 'bar', 'quarter'],
+  halloween: ['triangle', 'circle', 'quarter', 'square'],
+};
+
+const LOCAL_CANVAS = 1024;
+const LOCAL_GRID = 16;                           // Source sampled into GRID x GRID cells
+const LOCAL_FIGURE = LOCAL_CANVAS / 2;           // Character 50% of the canvas (same rule as the prompt)
+const LOCAL_BACKGROUND_DISTANCE = 48;            // RGB distance from the corner color that counts as figure
+
+type Rgb = [number, number, number];
+
+function hexToRgb(hex: string): Rgb {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+function luminance([r, g, b]: Rgb): number {
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+function distance(a: Rgb, b: Rgb): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+}
+
+/**
+ * Seeded PRNG (mulberry32) - same seed, same art
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shapeSvg(shape: LocalShape, x: number, y: number, size: number, fill: string, rotation: number, stroke: string): string {
+  const cx = x + size / 2;
+  const cy = y + size / 2;
+  const transform = `transform="rotate(${rotation} ${cx} ${cy})"`;
+
+  switch (shape) {
+    case 'circle':
+      return `<circle cx="${cx}" cy="${cy}" r="${size / 2}" fill="${fill}" ${stroke}/>`;
+    case 'square':
+      return `<rect x="${x}" y="${y}" width="${size}" height="${size}" fill="${fill}" ${stroke}/>`;
+    case 'triangle':
+      return `<polygon points="${x},${y + size} ${x + size},${y + size} ${cx},${y}" fill="${fill}" ${transform} ${stroke}/>`;
+    case 'quarter':
+      return `<path d="M${x} ${y + size} L${x} ${y} A${size} ${size} 0 0 1 ${x + size} ${y + size} Z" fill="${fill}" ${transform} ${stroke}/>`;
+    case 'bar':
+      return `<rect x="${x}" y="${y + size / 3}" width="${size}" height="${size / 3}" fill="${fill}" transform="rotate(${rotation + 45} ${cx} ${cy})" ${stroke}/>`;
+  }
+}
+
+/**
+ * Procedural geometric art from the source Warplet (no network)
+ * - Source sampled into a grid; cells far from the corner color are the character
+ * - Each character cell becomes a style shape in the swatch matching its brightness
+ * - A few large seeded shapes fill the background
+ * Deterministic: seeded by sha256(source image + style id).
+ */
+export function createLocalProvider(): ImageProvider {
+  return {
+    id: 'local',
+    model: 'procedural-v1',
+    async generate({ source, style }) {
+      const seed = createHash('sha256').update(source).update(style.id).digest();
+      const random = createRandom(seed.readUInt32BE(0));
+
+      const { data } = await sharp(source)
+        .resize(LOCAL_GRID, LOCAL_GRID, { fit: 'cover' })
+        .removeAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+
+      const cells: Rgb[] = [];
+      for (let i = 0; i < LOCAL_GRID * LOCAL_GRID; i++) {
+        cells.push([data[i * 3], data[i * 3 + 1], data[i * 3 + 2]]);
+      }
+
+      const last = LOCAL_GRID - 1;
+      const corners = [0, last, last * LOCAL_GRID, LOCAL_GRID * LOCAL_GRID - 1].map((i) => cells[i]);
+      const background: Rgb = [0, 1, 2].map(
+        (channel) => corners.reduce((total, corner) => total + corner[channel], 0) / corners.length
+      ) as Rgb;
+
+      const colors = [...style.swatches.colors].sort((a, b) => luminance(hexToRgb(a)) - luminance(hexToRgb(b)));
+      const shapes = LOCAL_SHAPES[style.id];
+      // De Stijl blocks are separated by thick black lines
+      const stroke = style.id === 'de-stijl' ? 'stroke="#000000" stroke-width="6"' : '';
+
+      const parts: string[] = [
+        `<rect width="${LOCAL_CANVAS}" height="${LOCAL_CANVAS}" fill="${style.swatches.background}"/>`,
+      ];
+
+      // Background composition (kept light so the character reads first)
+      for (let i = 0; i < 3; i++) {
+        const size = 200 + Math.floor(random() * 240);
+        const x = Math.floor(random() * (LOCAL_CANVAS - size));
+        const y = Math.floor(random() * (LOCAL_CANVAS - size));
+        const shape = shapes[Math.floor(random() * shapes.length)];
+        const fill = colors[Math.floor(random() * colors.length)];
+        parts.push(`<g opacity="0.25">${shapeSvg(shape, x, y, size, fill, Math.floor(random() * 4) * 90, '')}</g>`);
+      }
+
+      // Character, centered at 50% size
+      const cellSize = LOCAL_FIGURE / LOCAL_GRID;
+      const offset = (LOCAL_CANVAS - LOCAL_FIGURE) / 2;
+
+      cells.forEach((cell, i) => {
+        if (distance(cell, background) < LOCAL_BACKGROUND_DISTANCE) return;
+
+        const shade = Math.min(colors.length - 1, Math.floor((luminance(cell) / 256) * colors.length));
+        const shape = shapes[Math.floor(random() * shapes.length)];
+        const rotation = Math.floor(random() * 4) * 90;
+        const x = offset + (i % LOCAL_GRID) * cellSize;
+        const y = offset + Math.floor(i / LOCAL_GRID) * cellSize;
+
+        // Square underlay keeps the silhouette solid behind round/angled shapes
+        parts.push(`<rect x="${x}" y="${y}" width="${cellSize}" height="${cellSize}" fill="${colors[shade]}" ${stroke}/>`);
+        parts.push(shapeSvg(shape, x, y, cellSize, colors[(shade + 1) % colors.length], rotation, ''));
+      });
+
+      const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${LOCAL_CANVAS}" height="${LOCAL_CANVAS}">${parts.join('')}</svg>`;
+
+      return sharp(Buffer.from(svg)).png().toBuffer();
+    },
+    health: async () => ({ available: true }),
+    estimateCost: () => 0,
+  };
+}
+
+function createProvider(id: ImageProviderId): ImageProvider {
+  switch (id) {
+    case 'openai':
+      return createOpenAIProvider(process.env.OPENAI_API_KEY);
+    case 'local':
+      return createLocalProvider();
+  }
+}
+
+let configuredProviders: ImageProvider[] | null = null;
+
+/**
+ * Provider chain from IMAGE_PROVIDERS (in failover order)
+ */
+export function getImageProviders(): ImageProvider[] {
+  if (!configuredProviders) {
+    const ids = (process.env.IMAGE_PROVIDERS || 'openai')
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean);
+
+    for (const id of ids) {
+      if (!IMAGE_PROVIDER_IDS.includes(id as ImageProviderId)) {
+        throw new Error(`Unknown image provider in IMAGE_PROVIDERS: ${id}`);
+      }
+    }
+
+    configuredProviders = [...new Set(ids)].map((id) => createProvider(id as ImageProviderId));
+  }
+
+  return configuredProviders;
+}
+
+/**
+ * Chain health - available when at least one provider is
+ */
+export async function checkImageProviders(): Promise<ChainHealth> {
+  const providers = await Promise.all(
+    getImageProviders().map(async (provider) => ({ id: provider.id, ...(await provider.health()) }))
+  );
+  const available = providers.some((provider) => provider.available);
+
+  return {
+    available,
+    reason: available ? undefined : providers.map((provider) => provider.reason).filter(Boolean).join('; '),
+    providers,
+  };
+}
+
+/**
+ * Generate with the first healthy provider, failing over on errors
+ * Throws ImageProviderError (with every attempt) when no provider produced an image.
+ */
+export async function generateWithFailover(input: ImageGenerationInput): Promise<ChainResult> {
+  const attempts: ProviderAttempt[] = [];
+
+  for (const provider of getImageProviders()) {
+    const startedAt = Date.now();
+    const health = await provider.health();
+
+    if (!health.available) {
+      attempts.push({
+        provider: provider.id,
+        latency_ms: Date.now() - startedAt,
+        error: `Unavailable: ${health.reason || 'health check failed'}`,
+      });
+      continue;
+    }
+
+    try {
+      const image = await provider.generate(input);
+      attempts.push({ provider: provider.id, latency_ms: Date.now() - startedAt, error: null });
+
+      console.log('[IMAGE-PROVIDER] ✅ Generated:', {
+        provider: provider.id,
+        style: input.style.id,
+        latencyMs: Date.now() - startedAt,
+      });
+
+      return { image, provider, attempts };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Generation failed';
+      attempts.push({ provider: provider.id, latency_ms: Date.now() - startedAt, error: message });
+      console.error('[IMAGE-PROVIDER] ❌ Provider failed, trying next:', { provider: provider.id, error: message });
+    }
+  }
+
+  const tried = attempts.filter((attempt) => !attempt.error?.startsWith('Unavailable'));
+
+  throw new ImageProviderError(
+    tried.length === 0 ? 'NO_PROVIDER_AVAILABLE' : 'ALL_PROVIDERS_FAILED',
+    attempts.map((attempt) => `${attempt.provider}: ${attempt.error}`).join('; ') || 'No image provider configured',
+    attempts
+  );
+}
+
+/**
+ * Record one generation attempt (best effort - never fails the request)
+ */
+export async function recordGenerationRun(run: {
+  jobId?: string;
+  fid: number | null;
+  tokenId: string;
+  styleId: string;
+  provider: ImageProvider | null;
+  attempts: ProviderAttempt[];
+  latencyMs: number;
+  error?: string;
+}): Promise<void> {
+  try {
+    const { error } = await supabaseAdmin.from('generation_runs').insert({
+      job_id: run.jobId ?? null,
+      fid: run.fid && Number.isInteger(run.fid) ? run.fid : null,
+      token_id: run.tokenId,
+      style_id: run.styleId,
+      provider: run.provider?.id ?? null,
+      model: run.provider?.model ?? null,
+      status: run.provider ? 'succeeded' : 'failed',
+      latency_ms: run.latencyMs,
+      attempts: run.attempts,
+      cost_usd: run.provider?.estimateCost() ?? 0,
+      error: run.error ?? null,
+    });
+
+    if (error) {
+      console.error('[IMAGE-PROVIDER] ⚠️  Failed to record run:', error.message);
+    }
+  } catch (error) {
+    console.error('[IMAGE-PROVIDER] ⚠️  Failed to record run:', error);
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * Local x402 Facilitator (Server-Side)
+ *
+ * Self-hosted alternative to onchain.fi for Base USDC payments:
+ * - verify: lib/payment-verifier.ts against its own RPC - EIP-3009 signature,
+ *   amount, recipient, validity window, authorizationState and balance
+ * - settle: transferWithAuthorization submitted from a relayer key
+ *   (the relayer pays gas, USDC moves payer → treasury directly)
+ *
+ * The payer signs to the treasury (payTo = RECIPIENT_ADDRESS), so no
+ * intermediate is involved. Works against a local Anvil fork of Base
+ * (LOCAL_FACILITATOR_RPC_URL=http://127.0.0.1:8545) for tests - see
+ * npm run facilitator:check.
+ *
+ * Env:
+ *   LOCAL_FACILITATOR_RELAYER_KEY   relayer private key (needs ETH for gas)
+ *   LOCAL_FACILITATOR_RPC_URL       optional, defaults to NEXT_PUBLIC_BASE_RPC_URL
+ *
+ * KISS Principle: One contract call per settlement, no queue.
+ */
+
+import {
+  BaseError,
+  createPublicClient,
+  createWalletClient,
+  http,
+  type Address,
+  type Hex,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { base } from 'viem/chains';
+import { BASE_USDC_ADDRESS, RECIPIENT_ADDRESS } from '@/lib/payment-config';
+import { preVerifyPayment, USDC_EIP3009_ABI } from '@/lib/payment-verifier';
+import { validatePaymentHeader, type X402Authorization } from '@/types/x402';
+import { PaymentErrorCode } from '@/types/errors';
+import type { Facilitator, VerifyResult } from '@/lib/facilitators';
+
+// Wait this long for the settlement receipt
+const SETTLE_RECEIPT_TIMEOUT_MS = 60_000;
+
+export interface LocalFacilitatorConfig {
+  relayerKey: string | undefined;
+  rpcUrl: string | undefined;
+  recipient: string;
+  usdcAddress: string;
+}
+
+/**
+ * Decode a Base x402 header into its authorization + signature
+ * @throws Error if the header isn't a valid EIP-3009 payment
+ */
+function decodeAuthorization(paymentHeader: string): { authorization: X402Authorization; signature: Hex } {
+  const decoded = JSON.parse(Buffer.from(paymentHeader, 'base64').toString());
+  validatePaymentHeader(decoded);
+  return { authorization: decoded.payload.authorization, signature: decoded.payload.signature };
+}
+
+export function createLocalFacilitator(config: LocalFacilitatorConfig): Facilitator {
+  const publicClient = createPublicClient({ chain: base, transport: http(config.rpcUrl) });
+  const account = config.relayerKey ? privateKeyToAccount(config.relayerKey as Hex) : null;
+  const walletClient = account
+    ? createWalletClient({ account, chain: base, transport: http(config.rpcUrl) })
+    : null;
+  const usdcAddress = config.usdcAddress as Address;
+
+  const verify = async (paymentHeader: string, priceAtomic: string): Promise<VerifyResult> => {
+    const result = await preVerifyPayment(
+      paymentHeader,
+      [{ network: 'base', payTo: config.recipient, asset: usdcAddress, maxAmountRequired: priceAtomic }],
+      { client: publicClient }
+    );
+
+    // Signature or on-chain state unchecked (RPC down) - treat as down, not as an invalid payment
+    // (settling unchecked could burn relayer gas on a revert)
+    if (!result.valid && result.code === PaymentErrorCode.NETWORK_ERROR) {
+      throw new Error('Local facilitator RPC unavailable');
+    }
+
+    if (!result.valid) {
+      return { valid: false, reason: result.message };
+    }
+
+    if (!result.chainChecked) {
+      throw new Error('Local facilitator RPC unavailable');
+    }
+
+    return { valid: true, paymentId: `local:${result.authorization.nonce}` };
+  };
+
+  return {
+    id: 'local',
+    payTo: (network) => (network === 'base' ? config.recipient : null),
+
+    async supported() {
+      if (!account) {
+        return { available: false, networks: [], reason: 'LOCAL_FACILITATOR_RELAYER_KEY not configured' };
+      }
+
+      const [chainId, gas] = await Promise.all([
+        publicClient.getChainId(),
+        publicClient.getBalance({ address: account.address }),
+      ]);
+
+      if (chainId !== base.id) {
+        return { available: false, networks: [], reason: `RPC is chain ${chainId}, expected Base (${base.id})` };
+      }
+      if (gas === BigInt(0)) {
+        return { available: false, networks: [], reason: `Relayer ${account.address} has no ETH for gas` };
+      }
+
+      return { available: true, networks: ['base'] };
+    },
+
+    async verify(paymentHeader, terms) {
+      if (terms.network !== 'base') {
+        return { valid: false, reason: `Local facilitator does not support ${terms.network}` };
+      }
+
+      return verify(paymentHeader, terms.priceAtomic);
+    },
+
+    async settle(paymentHeader, paymentId, network) {
+      if (!walletClient || !account) {
+        throw new Error('LOCAL_FACILITATOR_RELAYER_KEY not configured');
+      }
+      if (network !== 'base') {
+        return { settled: false, reason: `Local facilitator does not support ${network}` };
+      }
+
+      const { authorization: auth, signature } = decodeAuthorization(paymentHeader);
+      if (paymentId !== `local:${auth.nonce}`) {
+        return { settled: false, reason: 'Payment ID does not match the authorization' };
+      }
+
+      // Simulate first - a revert here costs no gas (nonce used, balance moved, expired...)
+      let request;
+      try {
+        ({ request } = await publicClient.simulateContract({
+          account,
+          address: usdcAddress,
+          abi: USDC_EIP3009_ABI,
+          functionName: 'transferWithAuthorization',
+          args: [
+            auth.from,
+            auth.to,
+            BigInt(auth.value),
+            BigInt(auth.validAfter),
+            BigInt(auth.validBefore),
+            auth.nonce,
+            signature,
+          ],
+        }));
+      } catch (error) {
+        const reason = error instanceof BaseError ? error.shortMessage : 'simulation failed';
+        return { settled: false, reason: `transferWithAuthorization would revert: ${reason}` };
+      }
+
+      const txHash = await walletClient.writeContract(request);
+      const receipt = await publicClient.waitForTransactionReceipt({
+        hash: txHash,
+        timeout: SETTLE_RECEIPT_TIMEOUT_MS,
+      });
+
+      if (receipt.status !== 'success') {
+        return { settled: false, txHash, reason: 'transferWithAuthorization reverted' };
+      }
+
+      console.log('[LOCAL-FACILITATOR] ✅ Settled:', {
+        from: auth.from,
+        value: auth.value,
+        txHash,
+        relayer: account.address,
+      });
+
+      return { settled: true, txHash, details: { relayer: account.address } };
+    },
+  };
+}
+
+export function createLocalFacilitatorFromEnv(): Facilitator {
+  return createLocalFacilitator({
+    relayerKey: process.env.LOCAL_FACILITATOR_RELAYER_KEY,
+    rpcUrl: process.env.LOCAL_FACILITATOR_RPC_URL || process.env.NEXT_PUBLIC_BASE_RPC_URL,
+    recipient: RECIPIENT_ADDRESS,
+    usdcAddress: BASE_USDC_ADDRESS,
+  });
+}
@@ -0,0 +1,151 @@
+/**
+ * Mint Voucher (Server-Side)
+ *
+ * Signs EIP-712 MintVoucher(address to,uint256 fid,uint256 nonce,uint256 deadline)
+ * for Geoplets.mintGeoplet and records it in the voucher registry.
+ *
+ * Used by:
+ * - /api/get-mint-signature (x402 paid mint)
+ * - /api/get-mint-signature-paid (recovery after settled payment)
+ *
+ * Security: Random nonce, 60-min deadline, per-FID outstanding limit
+ * (see lib/voucher-registry.ts), signed + verified by lib/voucher-signer.ts.
+ *
+ * The saved generation's art style is snapshotted on the voucher and returned
+ * as mint metadata attributes (see lib/art-styles.ts).
+ */
+
+import { createPublicClient, http, hashTypedData, type Address } from 'viem';
+import { base } from 'viem/chains';
+import { GEOPLET_CONFIG, type MintVoucher } from '@/lib/contracts';
+import {
+  assertVoucherCapacity,
+  generateVoucherNonce,
+  registerVoucher,
+  VoucherRegistryError,
+  VOUCHER_TTL_SECONDS,
+  type VoucherPurpose,
+} from '@/lib/voucher-registry';
+import { signVoucher } from '@/lib/voucher-signer';
+import { getStyleAttribute } from '@/lib/art-styles';
+import { supabaseAdmin } from '@/lib/supabase';
+
+const publicClient = createPublicClient({
+  chain: base,
+  transport: http(process.env.NEXT_PUBLIC_BASE_RPC_URL),
+});
+
+export interface MintVoucherResponse {
+  to: string;
+  fid: string;
+  nonce: string;
+  deadline: string;
+}
+
+export interface MintAttribute {
+  trait_type: string;
+  value: string;
+}
+
+const domain = {
+  ...GEOPLET_CONFIG.eip712.domain,
+  chainId: GEOPLET_CONFIG.chainId,
+  verifyingContract: GEOPLET_CONFIG.address,
+};
+
+/**
+ * Art style of the FID's saved generation (null if none / lookup fails)
+ */
+async function getGenerationStyle(fid: number): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from('unminted_geoplets')
+    .select('style_id')
+    .eq('fid', fid)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[MINT-VOUCHER] ⚠️  Failed to load generation style:', error.message);
+    return null;
+  }
+
+  return data?.style_id ?? null;
+}
+
+/**
+ * Issue a registered mint voucher
+ * Throws VoucherRegistryError('LIMIT_REACHED') if the FID has too many live vouchers.
+ */
+export async function issueMintVoucher(
+  to: Address,
+  fid: number,
+  options: { purpose: VoucherPurpose; paymentId?: string | null }
+): Promise<{ voucher: MintVoucherResponse; signature: `0x${string}`; attributes: MintAttribute[] }> {
+  await assertVoucherCapacity(fid, 'mint');
+
+  const styleId = await getGenerationStyle(fid);
+  const styleAttribute = getStyleAttribute(styleId);
+
+  // Deadline is checked against block.timestamp - log skew to catch clock drift
+  const now = Math.floor(Date.now() / 1000);
+  const block = await publicClient.getBlock();
+  console.log('🕐 TIME DIAGNOSTIC [mint-voucher]:', {
+    serverTime: now,
+    chainTime: Number(block.timestamp),
+    skewSeconds: now - Number(block.timestamp),
+    fid,
+  });
+
+  // Retry once on the (astronomically unlikely) nonce collision
+  for (let attempt = 1; ; attempt++) {
+    const voucher: MintVoucher = {
+      to,
+      fid: BigInt(fid),
+      nonce: generateVoucherNonce(),
+      deadline: BigInt(now + VOUCHER_TTL_SECONDS),
+    };
+
+    const typedData = {
+      domain,
+      types: GEOPLET_CONFIG.eip712.types,
+      primaryType: 'MintVoucher' as const,
+      message: voucher,
+    };
+
+    const { signature, signer } = await signVoucher(typedData);
+
+    // Same digest the contract stores in usedSignatures
+    const digest = hashTypedData(typedData);
+
+    try {
+      await registerVoucher({
+        fid,
+        to,
+        nonce: voucher.nonce,
+        deadline: voucher.deadline,
+        digest,
+        signer,
+        purpose: options.purpose,
+        paymentId: options.paymentId,
+        artStyle: styleId,
+      });
+    } catch (error) {
+      if (error instanceof VoucherRegistryError && error.code === 'NONCE_COLLISION' && attempt < 2) {
+        continue;
+      }
+      throw error;
+    }
+
+    console.log('[✓ Mint signature verified]', { signer, fid });
+
+    return {
+      voucher: {
+        to: voucher.to,
+        fid: voucher.fid.toString(),
+        nonce: voucher.nonce.toString(),
+        deadline: voucher.deadline.toString(),
+      },
+      signature,
+      attributes: styleAttribute ? [styleAttribute] : [],
+    };
+  }
+}
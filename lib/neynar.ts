@@ -32,3 +32,14 @@ export function getSignerUuid(): string {
 
   return signerUuid;
 }
+
+/**
+ * Verified Ethereum addresses of a FID (lowercase)
+ * Used to check that a wallet in a request belongs to the authenticated FID.
+ */
+export async function getVerifiedAddresses(fid: number): Promise<string[]> {
+  const { users } = await neynarClient.fetchBulkUsers({ fids: [fid] });
+  const addresses = users[0]?.verified_addresses?.eth_addresses ?? [];
+
+  return addresses.map((address) => address.toLowerCase());
+}
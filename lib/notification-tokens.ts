@@ -0,0 +1,105 @@
+/**
+ * Notification Tokens (Server-Side)
+ *
+ * Stores Farcaster mini app notification details (url + token) per FID,
+ * written by /api/webhook after JFS verification (see lib/farcaster-jfs.ts).
+ *
+ * Events:
+ * - miniapp_added / frame_added (with notificationDetails) → enable
+ * - notifications_enabled                                   → enable
+ * - miniapp_removed / frame_removed, notifications_disabled → disable
+ *
+ * The notification url comes from the client - only https URLs on the
+ * Farcaster notification API are stored or sent to (no SSRF).
+ *
+ * KISS Principle: One row per FID, disabled rows kept for history.
+ */
+
+import { supabaseAdmin, type NotificationToken } from '@/lib/supabase';
+
+export interface NotificationDetails {
+  url: string;
+  token: string;
+}
+
+// Hosts of the Farcaster notification API (notificationDetails.url)
+const NOTIFICATION_URL_HOSTS = ['api.farcaster.xyz', 'api.warpcast.com'];
+
+/**
+ * Notification url check - https on an allowlisted host only
+ */
+export function isAllowedNotificationUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'https:' && NOTIFICATION_URL_HOSTS.includes(parsed.hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Save (or replace) a FID's notification token and enable it
+ */
+export async function saveNotificationToken(
+  fid: number,
+  details: NotificationDetails,
+  appKey: string,
+  event: string
+): Promise<void> {
+  if (!isAllowedNotificationUrl(details.url)) {
+    throw new Error(`Notification url not allowed: ${details.url}`);
+  }
+
+  const { error } = await supabaseAdmin
+    .from('notification_tokens')
+    .upsert(
+      {
+        fid,
+        url: details.url,
+        token: details.token,
+        enabled: true,
+        invalid_at: null,
+        app_key: appKey,
+        last_event: event,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'fid' }
+    );
+
+  if (error) {
+    throw new Error(`Failed to save notification token: ${error.message}`);
+  }
+
+  console.log('[NOTIFICATIONS] ✅ Token saved:', { fid, event });
+}
+
+/**
+ * Disable a FID's notification token (no-op if none stored)
+ */
+export async function disableNotificationToken(fid: number, event: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('notification_tokens')
+    .update({ enabled: false, last_event: event, updated_at: new Date().toISOString() })
+    .eq('fid', fid);
+
+  if (error) {
+    throw new Error(`Failed to disable notification token: ${error.message}`);
+  }
+
+  console.log('[NOTIFICATIONS] Token disabled:', { fid, event });
+}
+
+export async function getNotificationToken(fid: number): Promise<NotificationToken | null> {
+  const { data, error } = await supabaseAdmin
+    .from('notification_tokens')
+    .select('*')
+    .eq('fid', fid)
+    .eq('enabled', true)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load notification token: ${error.message}`);
+  }
+
+  return data;
+}
@@ -0,0 +1,221 @@
+/**
+ * Notification Triggers (Server-Side)
+ *
+ * Lifecycle notifications built on lib/notifications.ts:
+ * - ready_to_mint:    unminted_geoplets rows whose FID is still unminted (once per day)
+ * - mint_confirmed:   GeopletMinted (once per FID)
+ * - deposit_received: TokenDeposited into a user's Geoplet (once per deposit)
+ *
+ * tokenId == FID, so on-chain events map straight to notification tokens.
+ * Event triggers scan a recent block window; deterministic notificationIds
+ * make re-running a scan safe.
+ *
+ * KISS Principle: Triggers only decide who/what - delivery + dedupe live in sendNotification.
+ */
+
+import { createPublicClient, http, formatUnits } from 'viem';
+import { base } from 'viem/chains';
+import { GEOPLET_CONFIG } from '@/lib/contracts';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getVaultToken } from '@/lib/vault-config';
+import { sendNotification, type NotificationSendResult } from '@/lib/notifications';
+
+const publicClient = createPublicClient({
+  chain: base,
+  transport: http(process.env.NEXT_PUBLIC_BASE_RPC_URL),
+});
+
+// ~24h of Base blocks (2s block time)
+export const NOTIFICATION_LOOKBACK_BLOCKS = BigInt(24 * 60 * 30);
+
+// Max block range per eth_getLogs call
+const LOG_CHUNK_BLOCKS = BigInt(9_000);
+
+export type NotificationTrigger = 'ready_to_mint' | 'mint_confirmed' | 'deposit_received';
+
+export const NOTIFICATION_TRIGGERS: readonly NotificationTrigger[] = [
+  'ready_to_mint',
+  'mint_confirmed',
+  'deposit_received',
+];
+
+/**
+ * FIDs with a saved generation that are still unminted on-chain
+ */
+export async function getReadyToMintFids(): Promise<number[]> {
+  const { data, error } = await supabaseAdmin.from('unminted_geoplets').select('fid');
+
+  if (error) {
+    throw new Error(`Failed to load unminted_geoplets: ${error.message}`);
+  }
+
+  const fids: number[] = [...new Set((data ?? []).map((row: { fid: number }) => row.fid))];
+  if (fids.length === 0) return [];
+
+  const minted = await publicClient.multicall({
+    contracts: fids.map((fid) => ({
+      address: GEOPLET_CONFIG.address,
+      abi: GEOPLET_CONFIG.abi,
+      functionName: 'isFidMinted' as const,
+      args: [BigInt(fid)],
+    })),
+    allowFailure: false,
+  });
+
+  return fids.filter((_, i) => !minted[i]);
+}
+
+/**
+ * "Your Geoplet is ready to mint" - at most once per FID per day
+ */
+export async function notifyReadyToMint(fids?: number[]): Promise<NotificationSendResult> {
+  const ready = await getReadyToMintFids();
+  const targets = fids ? ready.filter((fid) => fids.includes(fid)) : ready;
+  const day = new Date().toISOString().slice(0, 10);
+
+  return sendNotification(
+    {
+      notificationId: `ready-to-mint-${day}`,
+      title: 'Your Geoplet is ready',
+      body: 'Your Geoplet is waiting for you - mint it onchain whenever you like.',
+      targetPath: '/',
+      trigger: 'ready_to_mint',
+    },
+    targets
+  );
+}
+
+/**
+ * "Mint confirmed" for one FID (called once the mint tx is verified)
+ */
+export async function notifyMintConfirmed(fid: number): Promise<NotificationSendResult> {
+  return sendNotification(
+    {
+      notificationId: `mint-confirmed-${fid}`,
+      title: 'Geoplet minted!',
+      body: `Geoplet #${fid} is now onchain on Base. Tap to see it in the gallery.`,
+      targetPath: '/gallery',
+      trigger: 'mint_confirmed',
+      transactional: true,
+    },
+    [fid]
+  );
+}
+
+async function getRecentLogs<T extends 'GeopletMinted' | 'TokenDeposited'>(
+  eventName: T,
+  lookbackBlocks: bigint
+) {
+  const latest = await publicClient.getBlockNumber();
+  const fromBlock = latest > lookbackBlocks ? latest - lookbackBlocks : BigInt(0);
+  const logs = [];
+
+  for (let start = fromBlock; start <= latest; start += LOG_CHUNK_BLOCKS) {
+    const end = start + LOG_CHUNK_BLOCKS - BigInt(1) < latest ? start + LOG_CHUNK_BLOCKS - BigInt(1) : latest;
+
+    logs.push(
+      ...(await publicClient.getContractEvents({
+        address: GEOPLET_CONFIG.address,
+        abi: GEOPLET_CONFIG.abi,
+        eventName,
+        fromBlock: start,
+        toBlock: end,
+      }))
+    );
+  }
+
+  return logs;
+}
+
+function mergeResults(notificationId: string, results: NotificationSendResult[]): NotificationSendResult {
+  return results.reduce<NotificationSendResult>(
+    (merged, result) => ({
+      notificationId,
+      sent: [...merged.sent, ...result.sent],
+      invalid: [...merged.invalid, ...result.invalid],
+      rateLimited: [...merged.rateLimited, ...result.rateLimited],
+      failed: [...merged.failed, ...result.failed],
+      noToken: [...merged.noToken, ...result.noToken],
+      duplicate: [...merged.duplicate, ...result.duplicate],
+      suppressed: [...merged.suppressed, ...result.suppressed],
+    }),
+    { notificationId, sent: [], invalid: [], rateLimited: [], failed: [], noToken: [], duplicate: [], suppressed: [] }
+  );
+}
+
+/**
+ * Mint confirmations for every GeopletMinted in the window
+ */
+export async function notifyRecentMints(
+  lookbackBlocks = NOTIFICATION_LOOKBACK_BLOCKS
+): Promise<NotificationSendResult> {
+  const logs = await getRecentLogs('GeopletMinted', lookbackBlocks);
+  const fids = [...new Set(logs.map((log) => Number(log.args.tokenId)))];
+
+  const results = [];
+  for (const fid of fids) {
+    results.push(await notifyMintConfirmed(fid));
+  }
+
+  return mergeResults('mint-confirmed-*', results);
+}
+
+/**
+ * "Deposit received" for every TokenDeposited in the window
+ * Deposits of the same token + amount in one tx (batch airdrops) share a notificationId.
+ */
+export async function notifyRecentDeposits(
+  lookbackBlocks = NOTIFICATION_LOOKBACK_BLOCKS
+): Promise<NotificationSendResult> {
+  const logs = await getRecentLogs('TokenDeposited', lookbackBlocks);
+
+  const groups = new Map<string, { token: string; amount: bigint; fids: number[] }>();
+  for (const log of logs) {
+    const { tokenId, erc20Token, amount } = log.args;
+    if (tokenId === undefined || !erc20Token || amount === undefined) continue;
+
+    const key = `deposit-${log.transactionHash}-${erc20Token.slice(2, 10).toLowerCase()}-${amount}`;
+    const group = groups.get(key) ?? { token: erc20Token, amount, fids: [] };
+    group.fids.push(Number(tokenId));
+    groups.set(key, group);
+  }
+
+  const results = [];
+  for (const [notificationId, group] of groups) {
+    const token = getVaultToken(group.token);
+    const amount = token ? `${formatUnits(group.amount, token.decimals)} ${token.symbol}` : 'Tokens';
+
+    results.push(
+      await sendNotification(
+        {
+          notificationId,
+          title: 'Deposit received',
+          body: `${amount} landed in your Geoplet's vault.`,
+          targetPath: '/gallery',
+          trigger: 'deposit_received',
+          transactional: true,
+        },
+        group.fids
+      )
+    );
+  }
+
+  return mergeResults('deposit-*', results);
+}
+
+/**
+ * Run a trigger by name (admin "Run trigger" buttons)
+ */
+export async function runNotificationTrigger(
+  trigger: NotificationTrigger,
+  lookbackBlocks?: bigint
+): Promise<NotificationSendResult> {
+  switch (trigger) {
+    case 'ready_to_mint':
+      return notifyReadyToMint();
+    case 'mint_confirmed':
+      return notifyRecentMints(lookbackBlocks);
+    case 'deposit_received':
+      return notifyRecentDeposits(lookbackBlocks);
+  }
+}
@@ -0,0 +1,296 @@
+/**
+ * Mini App Notifications (Server-Side)
+ *
+ * Sends Farcaster mini app notifications to the per-FID url + token stored by
+ * /api/webhook (see lib/notification-tokens.ts).
+ *
+ * Protocol (per POST to a client's notification url):
+ *   { notificationId, title (≤32), body (≤128), targetUrl (app domain), tokens (≤100) }
+ *   → { result: { successfulTokens, invalidTokens, rateLimitedTokens } }
+ *
+ * - Tokens are grouped by url and sent in batches of NOTIFICATION_BATCH_SIZE
+ * - invalidTokens → token disabled (invalid_at), rateLimitedTokens → rate_limited_at
+ * - notification_deliveries dedupes per (notificationId, FID): a FID that was
+ *   already sent a notificationId is skipped; rate-limited/failed sends retry
+ * - Suppressed FIDs are skipped (lib/outreach-suppression.ts): opt-outs always,
+ *   cooldown + max contacts unless the notification is transactional
+ *
+ * KISS Principle: Deterministic notificationIds make every trigger idempotent.
+ */
+
+import { supabaseAdmin, type NotificationToken } from '@/lib/supabase';
+import { getSuppressions } from '@/lib/outreach-suppression';
+import { isAllowedNotificationUrl } from '@/lib/notification-tokens';
+
+// Protocol limits
+export const NOTIFICATION_BATCH_SIZE = 100;
+export const NOTIFICATION_TITLE_MAX = 32;
+export const NOTIFICATION_BODY_MAX = 128;
+export const NOTIFICATION_ID_MAX = 128;
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'https://geoplet.geoart.studio';
+
+export interface NotificationInput {
+  notificationId: string;
+  title: string;
+  body: string;
+  targetPath?: string;     // Path on the app domain (default "/")
+  trigger: string;         // e.g. 'admin', 'ready_to_mint', 'mint_confirmed'
+  transactional?: boolean; // Receipts (mint/deposit): only opt-outs apply, not counted as outreach
+}
+
+export interface NotificationSendResult {
+  notificationId: string;
+  sent: number[];
+  invalid: number[];
+  rateLimited: number[];
+  failed: number[];
+  noToken: number[];
+  duplicate: number[];
+  suppressed: number[];
+}
+
+export class NotificationValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotificationValidationError';
+  }
+}
+
+function validateInput(input: NotificationInput) {
+  if (!input.notificationId || input.notificationId.length > NOTIFICATION_ID_MAX) {
+    throw new NotificationValidationError(`notificationId must be 1-${NOTIFICATION_ID_MAX} characters`);
+  }
+  if (!input.title.trim() || input.title.length > NOTIFICATION_TITLE_MAX) {
+    throw new NotificationValidationError(`Title must be 1-${NOTIFICATION_TITLE_MAX} characters`);
+  }
+  if (!input.body.trim() || input.body.length > NOTIFICATION_BODY_MAX) {
+    throw new NotificationValidationError(`Body must be 1-${NOTIFICATION_BODY_MAX} characters`);
+  }
+  if (input.targetPath && !input.targetPath.startsWith('/')) {
+    throw new NotificationValidationError('Target must be a path on the app domain (e.g. /gallery)');
+  }
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Enabled tokens for the given FIDs ('all' = every enabled token)
+ */
+async function loadTokens(fids: number[] | 'all'): Promise<NotificationToken[]> {
+  const tokens: NotificationToken[] = [];
+  const fidChunks = fids === 'all' ? [null] : chunk(fids, 500);
+
+  for (const fidChunk of fidChunks) {
+    let query = supabaseAdmin
+      .from('notification_tokens')
+      .select('*')
+      .eq('enabled', true)
+      .is('invalid_at', null);
+
+    if (fidChunk) query = query.in('fid', fidChunk);
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to load notification tokens: ${error.message}`);
+    }
+
+    tokens.push(...(data ?? []));
+  }
+
+  return tokens;
+}
+
+/**
+ * FIDs that already received this notificationId
+ */
+async function loadDelivered(notificationId: string): Promise<Set<number>> {
+  const { data, error } = await supabaseAdmin
+    .from('notification_deliveries')
+    .select('fid')
+    .eq('notification_id', notificationId)
+    .eq('status', 'sent');
+
+  if (error) {
+    throw new Error(`Failed to load deliveries: ${error.message}`);
+  }
+
+  return new Set((data ?? []).map((row: { fid: number }) => row.fid));
+}
+
+async function recordDeliveries(
+  input: NotificationInput,
+  fids: number[],
+  status: 'sent' | 'invalid' | 'rate_limited' | 'failed',
+  error?: string
+) {
+  if (fids.length === 0) return;
+
+  const now = new Date().toISOString();
+  const { error: dbError } = await supabaseAdmin.from('notification_deliveries').upsert(
+    fids.map((fid) => ({
+      notification_id: input.notificationId,
+      fid,
+      trigger: input.trigger,
+      title: input.title,
+      status,
+      error: error ?? null,
+      updated_at: now,
+    })),
+    { onConflict: 'notification_id,fid' }
+  );
+
+  if (dbError) {
+    console.error('[NOTIFICATIONS] ⚠️  Failed to record deliveries:', dbError.message);
+  }
+}
+
+async function markTokens(fids: number[], fields: Partial<NotificationToken>) {
+  if (fids.length === 0) return;
+
+  const { error } = await supabaseAdmin
+    .from('notification_tokens')
+    .update(fields)
+    .in('fid', fids);
+
+  if (error) {
+    console.error('[NOTIFICATIONS] ⚠️  Failed to update tokens:', error.message);
+  }
+}
+
+/**
+ * Send one notification to a set of FIDs
+ */
+export async function sendNotification(
+  input: NotificationInput,
+  fids: number[] | 'all'
+): Promise<NotificationSendResult> {
+  validateInput(input);
+
+  const result: NotificationSendResult = {
+    notificationId: input.notificationId,
+    sent: [],
+    invalid: [],
+    rateLimited: [],
+    failed: [],
+    noToken: [],
+    duplicate: [],
+    suppressed: [],
+  };
+
+  const [tokens, delivered] = await Promise.all([
+    loadTokens(fids),
+    loadDelivered(input.notificationId),
+  ]);
+
+  if (fids !== 'all') {
+    const withToken = new Set(tokens.map((token) => token.fid));
+    result.noToken = [...new Set(fids)].filter((fid) => !withToken.has(fid));
+  }
+
+  const suppressions = await getSuppressions(
+    tokens.map((token) => token.fid),
+    { transactional: input.transactional }
+  );
+
+  const pending = tokens.filter((token) => {
+    if (delivered.has(token.fid)) {
+      result.duplicate.push(token.fid);
+      return false;
+    }
+    if (suppressions.has(token.fid)) {
+      result.suppressed.push(token.fid);
+      return false;
+    }
+    return true;
+  });
+
+  // Group by client notification url
+  const byUrl = new Map<string, NotificationToken[]>();
+  for (const token of pending) {
+    byUrl.set(token.url, [...(byUrl.get(token.url) ?? []), token]);
+  }
+
+  const targetUrl = `${APP_URL}${input.targetPath || '/'}`;
+
+  for (const [url, urlTokens] of byUrl) {
+    // Stored before the url allowlist existed - never POST to an arbitrary host
+    if (!isAllowedNotificationUrl(url)) {
+      const fids = urlTokens.map((token) => token.fid);
+      console.error('[NOTIFICATIONS] ❌ Notification url not allowed:', { url, count: fids.length });
+      result.failed.push(...fids);
+      await recordDeliveries(input, fids, 'failed', 'Notification url not allowed');
+      continue;
+    }
+
+    for (const batch of chunk(urlTokens, NOTIFICATION_BATCH_SIZE)) {
+      const fidByToken = new Map(batch.map((token) => [token.token, token.fid]));
+      const toFids = (list: string[] = []) =>
+        list.map((token) => fidByToken.get(token)).filter((fid): fid is number => fid !== undefined);
+
+      try {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            notificationId: input.notificationId,
+            title: input.title,
+            body: input.body,
+            targetUrl,
+            tokens: batch.map((token) => token.token),
+          }),
+        });
+
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+
+        const data = await response.json();
+        const sent = toFids(data.result?.successfulTokens);
+        const invalid = toFids(data.result?.invalidTokens);
+        const rateLimited = toFids(data.result?.rateLimitedTokens);
+
+        result.sent.push(...sent);
+        result.invalid.push(...invalid);
+        result.rateLimited.push(...rateLimited);
+
+        const now = new Date().toISOString();
+        await Promise.all([
+          recordDeliveries(input, sent, 'sent'),
+          recordDeliveries(input, invalid, 'invalid'),
+          recordDeliveries(input, rateLimited, 'rate_limited'),
+          markTokens(sent, { last_sent_at: now }),
+          markTokens(invalid, { invalid_at: now, enabled: false }),
+          markTokens(rateLimited, { rate_limited_at: now }),
+        ]);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        const batchFids = batch.map((token) => token.fid);
+
+        console.error('[NOTIFICATIONS] ❌ Batch failed:', { url, count: batch.length, error: message });
+        result.failed.push(...batchFids);
+        await recordDeliveries(input, batchFids, 'failed', message);
+      }
+    }
+  }
+
+  console.log('[NOTIFICATIONS] ✅ Sent:', {
+    notificationId: input.notificationId,
+    trigger: input.trigger,
+    sent: result.sent.length,
+    invalid: result.invalid.length,
+    rateLimited: result.rateLimited.length,
+    failed: result.failed.length,
+    duplicate: result.duplicate.length,
+    suppressed: result.suppressed.length,
+  });
+
+  return result;
+}
@@ -1,7 +1,8 @@
 // lib/openai-health.ts
 //
-// OpenAI Service Health Check (Simplified - KISS Principle)
-// Just validates API key is configured, lets OpenAI SDK handle failures
+// OpenAI Service Health Check (KISS Principle)
+// Validates the API key and that the image model is reachable, cached briefly
+// Used by the OpenAI image provider (lib/image-providers.ts)
 
 /**
  * Health check result
@@ -12,12 +13,23 @@ export interface OpenAIHealthCheck {
   checkedAt: number;
 }
 
+// Model the image provider calls
+const OPENAI_IMAGE_MODEL = 'gpt-image-1';
+
+// One lookup per instance per minute - generation traffic never waits on it twice
+const HEALTH_TTL_MS = 60_000;
+const HEALTH_TIMEOUT_MS = 5_000;
+
+let cachedHealth: OpenAIHealthCheck | null = null;
+
 /**
- * Check OpenAI API key configuration
+ * Check OpenAI API key + image model reachability
  *
- * SIMPLIFIED APPROACH (KISS):
- * - Only checks if API key exists
- * - Lets OpenAI SDK handle retries/errors (industry standard)
+ * APPROACH:
+ * - No API key → unavailable (no network call)
+ * - GET /v1/models/gpt-image-1 (free, no tokens) → 401 means the key is
+ *   rejected, 5xx / timeout means OpenAI is down
+ * - Result cached for HEALTH_TTL_MS
  * - Removed: status.openai.com check (external dependency)
  * - Removed: billing API check (returns 403 for most keys)
  *
@@ -26,39 +38,50 @@ export interface OpenAIHealthCheck {
 export async function checkOpenAIAvailability(): Promise<OpenAIHealthCheck> {
   const checkedAt = Date.now();
 
+  if (cachedHealth && checkedAt - cachedHealth.checkedAt < HEALTH_TTL_MS) {
+    return cachedHealth;
+  }
+
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    console.error('[OPENAI-HEALTH] ❌ OPENAI_API_KEY not configured');
+    return {
+      available: false,
+      reason: 'OpenAI API key not configured',
+      checkedAt,
+    };
+  }
+
   try {
-    // SIMPLIFIED: Just check if API key is configured
-    // Let OpenAI SDK handle retries and errors (KISS principle)
-    console.log('[OPENAI-HEALTH] Checking API key configuration...');
+    const response = await fetch(`https://api.openai.com/v1/models/${OPENAI_IMAGE_MODEL}`, {
+      headers: { Authorization: `Bearer ${apiKey}` },
+      signal: AbortSignal.timeout(HEALTH_TIMEOUT_MS),
+    });
 
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      console.error('[OPENAI-HEALTH] ❌ OPENAI_API_KEY not configured');
-      return {
+    if (response.ok) {
+      console.log('[OPENAI-HEALTH] ✅ API key valid, model reachable');
+      cachedHealth = { available: true, checkedAt };
+    } else if (response.status === 401 || response.status === 403) {
+      console.error('[OPENAI-HEALTH] ❌ API key rejected:', response.status);
+      cachedHealth = { available: false, reason: 'OpenAI API key rejected', checkedAt };
+    } else {
+      console.error('[OPENAI-HEALTH] ❌ Model lookup failed:', response.status);
+      cachedHealth = {
         available: false,
-        reason: 'OpenAI API key not configured',
+        reason: `OpenAI unavailable (HTTP ${response.status})`,
         checkedAt,
       };
     }
-
-    console.log('[OPENAI-HEALTH] ✅ API key configured');
-
-    // Assume available - let actual API calls fail fast if service is down
-    // This follows industry standard (Stripe, Vercel AI SDK, etc.)
-    return {
-      available: true,
-      checkedAt,
-    };
-
   } catch (error: unknown) {
     console.error('[OPENAI-HEALTH] ❌ Health check error:', error);
 
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-
-    return {
+    cachedHealth = {
       available: false,
       reason: `Health check failed: ${errorMessage}`,
       checkedAt,
     };
   }
+
+  return cachedHealth;
 }
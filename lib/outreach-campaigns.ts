@@ -0,0 +1,757 @@
+/**
+ * Outreach Campaigns (Server-Side)
+ *
+ * Durable admin casts: a campaign snapshots its audience into
+ * outreach_recipients (queued), and a resumable worker sends them in small
+ * time-boxed ticks (admin UI, /api/admin/campaigns/run, or `npm run outreach`).
+ *
+ * Copy comes from a template (lib/outreach-templates.ts - each recipient is
+ * assigned a weighted A/B variant at creation) or a custom message; variables
+ * are rendered per recipient at send time.
+ *
+ * Recipient lifecycle:
+ *   queued → sent     (Neynar cast hash recorded, cast_sent flag set)
+ *   queued → skipped  (no username, already minted, suppressed, campaign cancelled)
+ *   queued → failed   (permanent error, or transient error after OUTREACH_MAX_ATTEMPTS)
+ *
+ * - Suppression (opt-out, cooldown, max contacts - lib/outreach-suppression.ts)
+ *   is checked when recipients are queued and again right before each cast
+ * - One worker per campaign via a lease (locked_until)
+ * - Casts are paced by OUTREACH_CAST_INTERVAL_MS; a 429 ends the tick and
+ *   reschedules the recipient after Retry-After
+ * - Every cast carries a Neynar idempotency key (campaign + FID), so a tick that
+ *   dies between publishing and recording can't double-post on retry
+ *
+ * KISS Principle: The database is the queue - no extra infrastructure.
+ */
+
+import { createHash } from 'crypto';
+import { NeynarAPIClient } from '@neynar/nodejs-sdk';
+import { neynarClient, getSignerUuid } from '@/lib/neynar';
+import { CAMPAIGN_PARAM } from '@/lib/funnel';
+import {
+  describeSuppression,
+  getSuppressions,
+  scanOptOutReplies,
+} from '@/lib/outreach-suppression';
+import {
+  buildTemplateVariables,
+  findUnknownVariables,
+  getTemplate,
+  pickVariant,
+  renderTemplate,
+  TemplateError,
+} from '@/lib/outreach-templates';
+import {
+  supabaseAdmin,
+  type OutreachCampaign,
+  type OutreachRecipient,
+  type OutreachTemplateVariant,
+} from '@/lib/supabase';
+
+// Pause between casts (Neynar write rate limits)
+export const OUTREACH_CAST_INTERVAL_MS = 1000;
+
+// Transient failures (429 / 5xx / network) retry with exponential backoff
+export const OUTREACH_MAX_ATTEMPTS = 3;
+const RETRY_BASE_MS = 60_000;
+
+// Default time box per worker tick (fits a single serverless request)
+export const OUTREACH_TICK_BUDGET_MS = 20_000;
+
+// Lease outlives the tick so a crashed worker is picked up again
+const LEASE_MARGIN_MS = 30_000;
+
+const RECIPIENT_BATCH_SIZE = 25;
+
+// Worker ticks look for opt-out replies at most this often (per instance)
+const OPT_OUT_SCAN_INTERVAL_MS = 5 * 60_000;
+let lastOptOutScanAt = 0;
+
+// App URL for embeds
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'https://geoplet.geoart.studio';
+
+export type CampaignAudience = OutreachCampaign['audience'];
+export type CampaignAction = 'pause' | 'resume' | 'cancel';
+
+export interface CampaignProgress {
+  total: number;
+  queued: number;
+  sent: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface CampaignSummary extends OutreachCampaign {
+  progress: CampaignProgress;
+}
+
+export interface WorkerReport {
+  campaigns: { id: string; name: string; sent: number; failed: number; skipped: number; retried: number }[];
+  rateLimited: boolean;
+  remaining: number;           // Queued recipients left across processed campaigns
+}
+
+export type CampaignErrorCode =
+  | 'INVALID_INPUT'
+  | 'EMPTY_AUDIENCE'
+  | 'NOT_FOUND'
+  | 'INVALID_STATE'
+  | 'DB_ERROR';
+
+export class CampaignError extends Error {
+  constructor(public code: CampaignErrorCode, message: string) {
+    super(message);
+    this.name = 'CampaignError';
+  }
+}
+
+const EMPTY_PROGRESS: CampaignProgress = { total: 0, queued: 0, sent: 0, failed: 0, skipped: 0 };
+
+/**
+ * Neynar idempotency key (16 hex chars, stable per campaign + FID)
+ */
+function idempotencyKey(campaignId: string, fid: number): string {
+  return createHash('sha256').update(`${campaignId}:${fid}`).digest('hex').slice(0, 16);
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Resolve an audience against unconverted_users (generated, not paid)
+ */
+async function resolveAudience(
+  audience: CampaignAudience
+): Promise<{ fid: number; username: string | null }[]> {
+  let query = supabaseAdmin
+    .from('unconverted_users')
+    .select('fid, username')
+    .order('generated_at', { ascending: true });
+
+  if (audience.type === 'not_contacted') query = query.eq('cast_sent', false);
+  if (audience.type === 'fids') query = query.in('fid', audience.fids ?? []);
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new CampaignError('DB_ERROR', `Failed to resolve audience: ${error.message}`);
+  }
+
+  return data ?? [];
+}
+
+/**
+ * Template key + active variants for a new campaign
+ */
+async function loadCampaignTemplate(
+  templateId: string
+): Promise<{ key: string; variants: OutreachTemplateVariant[] }> {
+  try {
+    const { template, variants } = await getTemplate(templateId);
+    if (template.archived) {
+      throw new CampaignError('INVALID_INPUT', 'Template is archived');
+    }
+
+    const active = variants.filter((variant) => variant.active);
+    if (active.length === 0) {
+      throw new CampaignError('INVALID_INPUT', 'Template has no active variants');
+    }
+
+    return { key: template.key, variants: active };
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      throw new CampaignError(error.code === 'NOT_FOUND' ? 'INVALID_INPUT' : 'DB_ERROR', error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Create a campaign and snapshot its recipients
+ * Pass templateId (library template) or message (custom copy, may use variables).
+ */
+export async function createCampaign(
+  input: {
+    name: string;
+    templateId?: string | null;
+    message?: string;
+    audience: CampaignAudience;
+    scheduledAt?: string | null;
+  },
+  createdBy: string
+): Promise<CampaignSummary> {
+  const name = input.name?.trim();
+  const message = input.templateId ? '' : input.message?.trim();
+
+  if (!name) {
+    throw new CampaignError('INVALID_INPUT', 'Campaign name is required');
+  }
+  if (!input.templateId && !message) {
+    throw new CampaignError('INVALID_INPUT', 'Choose a template or write a message');
+  }
+
+  const unknownVariables = findUnknownVariables(message ?? '');
+  if (unknownVariables.length > 0) {
+    throw new CampaignError('INVALID_INPUT', `Unknown variables: ${unknownVariables.join(', ')}`);
+  }
+  if (!['not_contacted', 'all', 'fids'].includes(input.audience?.type)) {
+    throw new CampaignError('INVALID_INPUT', 'audience.type must be not_contacted, all or fids');
+  }
+  if (input.audience.type === 'fids' && !input.audience.fids?.length) {
+    throw new CampaignError('INVALID_INPUT', 'No users selected');
+  }
+
+  const scheduledAt = input.scheduledAt ? new Date(input.scheduledAt) : new Date();
+  if (Number.isNaN(scheduledAt.getTime())) {
+    throw new CampaignError('INVALID_INPUT', 'scheduledAt must be an ISO date');
+  }
+
+  const template = input.templateId ? await loadCampaignTemplate(input.templateId) : null;
+
+  const recipients = await resolveAudience(input.audience);
+  if (recipients.length === 0) {
+    throw new CampaignError('EMPTY_AUDIENCE', 'No unconverted users match this audience');
+  }
+
+  const { data: campaign, error } = await supabaseAdmin
+    .from('outreach_campaigns')
+    .insert({
+      name,
+      template: template?.key ?? 'custom',
+      template_id: input.templateId || null,
+      message,
+      audience: input.audience,
+      scheduled_at: scheduledAt.toISOString(),
+      created_by: createdBy,
+    })
+    .select()
+    .single();
+
+  if (error || !campaign) {
+    throw new CampaignError('DB_ERROR', `Failed to create campaign: ${error?.message}`);
+  }
+
+  const suppressions = await getSuppressions(recipients.map((recipient) => recipient.fid));
+
+  const rows = recipients.map((recipient, position) => {
+    const suppression = suppressions.get(recipient.fid);
+    const skipReason = !recipient.username
+      ? 'No username'
+      : suppression
+        ? describeSuppression(suppression)
+        : null;
+
+    return {
+      campaign_id: campaign.id,
+      position,
+      fid: recipient.fid,
+      username: recipient.username,
+      variant_id: template ? pickVariant(input.templateId!, template.variants, recipient.fid)?.id ?? null : null,
+      status: skipReason ? 'skipped' : 'queued',
+      last_error: skipReason,
+    };
+  });
+
+  for (let i = 0; i < rows.length; i += 500) {
+    const { error: insertError } = await supabaseAdmin
+      .from('outreach_recipients')
+      .insert(rows.slice(i, i + 500));
+
+    if (insertError) {
+      // Don't leave a half-populated campaign behind
+      await supabaseAdmin.from('outreach_campaigns').delete().eq('id', campaign.id);
+      throw new CampaignError('DB_ERROR', `Failed to queue recipients: ${insertError.message}`);
+    }
+  }
+
+  const skipped = rows.filter((row) => row.status === 'skipped').length;
+
+  console.log('[OUTREACH] ✅ Campaign created:', {
+    id: campaign.id,
+    name,
+    recipients: rows.length,
+    skipped,
+    scheduledAt: campaign.scheduled_at,
+    createdBy,
+  });
+
+  return {
+    ...campaign,
+    progress: { total: rows.length, queued: rows.length - skipped, sent: 0, failed: 0, skipped },
+  };
+}
+
+async function loadProgress(campaignIds: string[]): Promise<Map<string, CampaignProgress>> {
+  if (campaignIds.length === 0) return new Map();
+
+  const { data, error } = await supabaseAdmin
+    .from('outreach_campaign_progress')
+    .select('*')
+    .in('campaign_id', campaignIds);
+
+  if (error) {
+    throw new CampaignError('DB_ERROR', `Failed to load campaign progress: ${error.message}`);
+  }
+
+  return new Map(
+    (data ?? []).map((row: CampaignProgress & { campaign_id: string }) => [
+      row.campaign_id,
+      {
+        total: Number(row.total),
+        queued: Number(row.queued),
+        sent: Number(row.sent),
+        failed: Number(row.failed),
+        skipped: Number(row.skipped),
+      },
+    ])
+  );
+}
+
+/**
+ * Recent campaigns with progress counts (newest first)
+ */
+export async function listCampaigns(limit = 20): Promise<CampaignSummary[]> {
+  const { data, error } = await supabaseAdmin
+    .from('outreach_campaigns')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new CampaignError('DB_ERROR', `Failed to load campaigns: ${error.message}`);
+  }
+
+  const campaigns: OutreachCampaign[] = data ?? [];
+  const progress = await loadProgress(campaigns.map((campaign) => campaign.id));
+
+  return campaigns.map((campaign) => ({
+    ...campaign,
+    progress: progress.get(campaign.id) ?? EMPTY_PROGRESS,
+  }));
+}
+
+/**
+ * One campaign with its recipients (by position)
+ */
+export async function getCampaign(
+  id: string
+): Promise<{ campaign: CampaignSummary; recipients: OutreachRecipient[] }> {
+  const { data: campaign, error } = await supabaseAdmin
+    .from('outreach_campaigns')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw new CampaignError('DB_ERROR', `Failed to load campaign: ${error.message}`);
+  }
+  if (!campaign) {
+    throw new CampaignError('NOT_FOUND', 'Campaign not found');
+  }
+
+  const [progress, recipients] = await Promise.all([
+    loadProgress([id]),
+    supabaseAdmin
+      .from('outreach_recipients')
+      .select('*')
+      .eq('campaign_id', id)
+      .order('position', { ascending: true }),
+  ]);
+
+  if (recipients.error) {
+    throw new CampaignError('DB_ERROR', `Failed to load recipients: ${recipients.error.message}`);
+  }
+
+  return {
+    campaign: { ...campaign, progress: progress.get(id) ?? EMPTY_PROGRESS },
+    recipients: recipients.data ?? [],
+  };
+}
+
+/**
+ * Pause / resume / cancel a campaign
+ * Cancel skips every recipient still queued.
+ */
+export async function updateCampaignStatus(
+  id: string,
+  action: CampaignAction,
+  actor: string
+): Promise<OutreachCampaign> {
+  const transitions: Record<CampaignAction, { from: OutreachCampaign['status'][]; to: OutreachCampaign['status'] }> = {
+    pause: { from: ['scheduled', 'running'], to: 'paused' },
+    resume: { from: ['paused'], to: 'scheduled' },
+    cancel: { from: ['scheduled', 'running', 'paused'], to: 'cancelled' },
+  };
+
+  const transition = transitions[action];
+  if (!transition) {
+    throw new CampaignError('INVALID_INPUT', `Unknown action: ${action}`);
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('outreach_campaigns')
+    .update({ status: transition.to, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .in('status', transition.from)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new CampaignError('DB_ERROR', `Failed to update campaign: ${error.message}`);
+  }
+  if (!data) {
+    throw new CampaignError('INVALID_STATE', `Campaign cannot be ${action}d in its current state`);
+  }
+
+  if (action === 'cancel') {
+    const { error: skipError } = await supabaseAdmin
+      .from('outreach_recipients')
+      .update({ status: 'skipped', last_error: 'Campaign cancelled', updated_at: new Date().toISOString() })
+      .eq('campaign_id', id)
+      .eq('status', 'queued');
+
+    if (skipError) {
+      console.error('[OUTREACH] ⚠️  Failed to skip queued recipients:', skipError.message);
+    }
+  }
+
+  console.log('[OUTREACH] Campaign status changed:', { id, action, status: data.status, actor });
+
+  return data;
+}
+
+/**
+ * Take the campaign lease (null if another worker holds it)
+ */
+async function claimCampaign(campaign: OutreachCampaign, leaseMs: number): Promise<boolean> {
+  const now = new Date();
+  const { data, error } = await supabaseAdmin
+    .from('outreach_campaigns')
+    .update({
+      status: 'running',
+      locked_until: new Date(now.getTime() + leaseMs).toISOString(),
+      updated_at: now.toISOString(),
+    })
+    .eq('id', campaign.id)
+    .in('status', ['scheduled', 'running'])
+    .or(`locked_until.is.null,locked_until.lt."${now.toISOString()}"`)
+    .select('id');
+
+  if (error) {
+    throw new CampaignError('DB_ERROR', `Failed to claim campaign: ${error.message}`);
+  }
+
+  return (data?.length ?? 0) > 0;
+}
+
+async function updateRecipient(id: string, fields: Partial<OutreachRecipient>) {
+  const { error } = await supabaseAdmin
+    .from('outreach_recipients')
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) {
+    console.error('[OUTREACH] ⚠️  Failed to update recipient:', { id, error: error.message });
+  }
+}
+
+/**
+ * HTTP status + Retry-After (seconds) from a Neynar error, if any
+ */
+function describeNeynarError(error: unknown): { status?: number; retryAfterMs?: number; message: string } {
+  if (NeynarAPIClient.isApiErrorResponse(error)) {
+    const retryAfter = Number(error.response.headers?.['retry-after']);
+    return {
+      status: error.response.status,
+      retryAfterMs: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined,
+      message: error.response.data?.message || error.message,
+    };
+  }
+
+  return { message: error instanceof Error ? error.message : 'Unknown error' };
+}
+
+/**
+ * Send due recipients of one claimed campaign until the deadline
+ */
+async function processCampaign(
+  campaign: OutreachCampaign,
+  signerUuid: string,
+  deadline: number
+): Promise<{ sent: number; failed: number; skipped: number; retried: number; rateLimited: boolean }> {
+  const stats = { sent: 0, failed: 0, skipped: 0, retried: 0, rateLimited: false };
+
+  // Variant copy as edited now (inactive variants still serve recipients assigned earlier)
+  const variantBodies = new Map<string, string>();
+  if (campaign.template_id) {
+    const { data: variants, error } = await supabaseAdmin
+      .from('outreach_template_variants')
+      .select('id, body')
+      .eq('template_id', campaign.template_id);
+
+    if (error) {
+      throw new CampaignError('DB_ERROR', `Failed to load template variants: ${error.message}`);
+    }
+
+    for (const variant of variants ?? []) variantBodies.set(variant.id, variant.body);
+  }
+
+  while (Date.now() < deadline) {
+    // Re-read status each batch so pause/cancel take effect mid-run
+    const { data: current } = await supabaseAdmin
+      .from('outreach_campaigns')
+      .select('status')
+      .eq('id', campaign.id)
+      .single();
+
+    if (current?.status !== 'running') break;
+
+    const { data: batch, error } = await supabaseAdmin
+      .from('outreach_recipients')
+      .select('*')
+      .eq('campaign_id', campaign.id)
+      .eq('status', 'queued')
+      .lte('next_attempt_at', new Date().toISOString())
+      .order('position', { ascending: true })
+      .limit(RECIPIENT_BATCH_SIZE);
+
+    if (error) {
+      throw new CampaignError('DB_ERROR', `Failed to load recipients: ${error.message}`);
+    }
+
+    const recipients: OutreachRecipient[] = batch ?? [];
+    if (recipients.length === 0) break;
+
+    // Users who minted since the campaign was created are skipped
+    const { data: stillUnconverted, error: audienceError } = await supabaseAdmin
+      .from('unconverted_users')
+      .select('fid, generated_at')
+      .in('fid', recipients.map((recipient) => recipient.fid));
+
+    if (audienceError) {
+      throw new CampaignError('DB_ERROR', `Failed to check recipients: ${audienceError.message}`);
+    }
+
+    const unconverted = new Map<number, string>(
+      (stillUnconverted ?? []).map((row: { fid: number; generated_at: string }) => [row.fid, row.generated_at])
+    );
+
+    // Opt-outs and contacts since the campaign was created
+    const suppressions = await getSuppressions(recipients.map((recipient) => recipient.fid));
+
+    for (const recipient of recipients) {
+      if (Date.now() >= deadline) return stats;
+
+      if (!unconverted.has(recipient.fid)) {
+        await updateRecipient(recipient.id, { status: 'skipped', last_error: 'Already minted' });
+        stats.skipped++;
+        continue;
+      }
+
+      const suppression = suppressions.get(recipient.fid);
+      if (suppression) {
+        await updateRecipient(recipient.id, { status: 'skipped', last_error: describeSuppression(suppression) });
+        stats.skipped++;
+        continue;
+      }
+
+      const body = recipient.variant_id ? variantBodies.get(recipient.variant_id) : campaign.message;
+      if (!body) {
+        await updateRecipient(recipient.id, { status: 'failed', last_error: 'Template variant no longer exists' });
+        stats.failed++;
+        continue;
+      }
+
+      const variables = await buildTemplateVariables(
+        { fid: recipient.fid, username: recipient.username, generated_at: unconverted.get(recipient.fid) },
+        body
+      );
+      const castText = renderTemplate(body, variables);
+      const attempts = recipient.attempts + 1;
+
+      // Each user gets their own share page (which includes OG image metadata)
+      // Add cache-busting parameter to force Farcaster to refresh OG image,
+      // and the campaign id for attribution (see lib/funnel.ts)
+      const shareUrl = `${APP_URL}/share/unminted/${recipient.fid}?v=${Date.now()}&${CAMPAIGN_PARAM}=${campaign.id}`;
+
+      try {
+        const cast = await neynarClient.publishCast({
+          signerUuid,
+          text: castText,
+          embeds: [{ url: shareUrl }],
+          idem: idempotencyKey(campaign.id, recipient.fid),
+        });
+
+        await updateRecipient(recipient.id, {
+          status: 'sent',
+          cast_text: castText,
+          cast_hash: cast.cast.hash,
+          attempts,
+          last_error: null,
+          sent_at: new Date().toISOString(),
+        });
+
+        const { error: flagError } = await supabaseAdmin
+          .from('unminted_geoplets')
+          .update({ cast_sent: true })
+          .eq('fid', recipient.fid);
+
+        if (flagError) {
+          console.error('[OUTREACH] ⚠️  Cast sent but failed to set cast_sent:', flagError.message);
+        }
+
+        console.log('[OUTREACH] Sent to @' + recipient.username, { fid: recipient.fid, hash: cast.cast.hash });
+        stats.sent++;
+      } catch (sendError) {
+        const { status, retryAfterMs, message } = describeNeynarError(sendError);
+        const transient = status === undefined || status === 429 || status >= 500;
+
+        console.error('[OUTREACH] ❌ Cast failed for @' + recipient.username, { fid: recipient.fid, status, message });
+
+        if (transient && attempts < OUTREACH_MAX_ATTEMPTS) {
+          const delayMs = retryAfterMs ?? RETRY_BASE_MS * 2 ** (attempts - 1);
+          await updateRecipient(recipient.id, {
+            attempts,
+            last_error: message,
+            next_attempt_at: new Date(Date.now() + delayMs).toISOString(),
+          });
+          stats.retried++;
+        } else {
+          await updateRecipient(recipient.id, {
+            status: 'failed',
+            cast_text: castText,
+            attempts,
+            last_error: message,
+          });
+          stats.failed++;
+        }
+
+        // Rate limited → stop this tick, the next one resumes after Retry-After
+        if (status === 429) {
+          stats.rateLimited = true;
+          return stats;
+        }
+      }
+
+      await sleep(OUTREACH_CAST_INTERVAL_MS);
+    }
+  }
+
+  return stats;
+}
+
+/**
+ * Finish or release a campaign after a tick
+ * @returns queued recipients still left
+ */
+async function releaseCampaign(campaign: OutreachCampaign): Promise<number> {
+  const { count, error } = await supabaseAdmin
+    .from('outreach_recipients')
+    .select('id', { count: 'exact', head: true })
+    .eq('campaign_id', campaign.id)
+    .eq('status', 'queued');
+
+  if (error) {
+    throw new CampaignError('DB_ERROR', `Failed to count queued recipients: ${error.message}`);
+  }
+
+  const now = new Date().toISOString();
+  const remaining = count ?? 0;
+
+  await supabaseAdmin
+    .from('outreach_campaigns')
+    .update(
+      remaining === 0
+        ? { status: 'completed', completed_at: now, locked_until: null, updated_at: now }
+        : { locked_until: null, updated_at: now }
+    )
+    .eq('id', campaign.id)
+    .eq('status', 'running');
+
+  // Paused/cancelled mid-tick: just drop the lease
+  await supabaseAdmin
+    .from('outreach_campaigns')
+    .update({ locked_until: null })
+    .eq('id', campaign.id)
+    .neq('status', 'running');
+
+  return remaining;
+}
+
+/**
+ * One worker tick: send due recipients of due campaigns within the time budget
+ * Safe to run concurrently - each campaign is leased to one worker.
+ */
+export async function runOutreachWorker(
+  options: { budgetMs?: number; campaignId?: string } = {}
+): Promise<WorkerReport> {
+  const budgetMs = options.budgetMs ?? OUTREACH_TICK_BUDGET_MS;
+  const deadline = Date.now() + budgetMs;
+  const report: WorkerReport = { campaigns: [], rateLimited: false, remaining: 0 };
+
+  let query = supabaseAdmin
+    .from('outreach_campaigns')
+    .select('*')
+    .in('status', ['scheduled', 'running'])
+    .lte('scheduled_at', new Date().toISOString())
+    .order('scheduled_at', { ascending: true });
+
+  if (options.campaignId) query = query.eq('id', options.campaignId);
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new CampaignError('DB_ERROR', `Failed to load due campaigns: ${error.message}`);
+  }
+
+  const due: OutreachCampaign[] = data ?? [];
+  if (due.length === 0) return report;
+
+  const signerUuid = getSignerUuid();
+
+  // Pick up "stop" replies before casting again
+  if (Date.now() - lastOptOutScanAt >= OPT_OUT_SCAN_INTERVAL_MS) {
+    lastOptOutScanAt = Date.now();
+    try {
+      await scanOptOutReplies();
+    } catch (scanError) {
+      console.error('[OUTREACH] ⚠️  Opt-out scan failed:', scanError instanceof Error ? scanError.message : scanError);
+    }
+  }
+
+  for (const campaign of due) {
+    if (Date.now() >= deadline || report.rateLimited) break;
+    if (!(await claimCampaign(campaign, budgetMs + LEASE_MARGIN_MS))) continue;
+
+    try {
+      const stats = await processCampaign(campaign, signerUuid, deadline);
+      report.campaigns.push({ id: campaign.id, name: campaign.name, ...stats });
+      report.rateLimited = stats.rateLimited;
+    } finally {
+      report.remaining += await releaseCampaign(campaign);
+    }
+  }
+
+  console.log('[OUTREACH] Worker tick done:', report);
+
+  return report;
+}
+
+/**
+ * HTTP status for a campaign error (used by API routes)
+ */
+export function campaignErrorStatus(error: CampaignError): number {
+  switch (error.code) {
+    case 'INVALID_INPUT':
+    case 'EMPTY_AUDIENCE':
+      return 400;
+    case 'NOT_FOUND':
+      return 404;
+    case 'INVALID_STATE':
+      return 409;
+    default:
+      return 500;
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * Outreach Suppression (Server-Side)
+ *
+ * Decides who may be contacted. Enforced by every sender: the outreach worker
+ * (lib/outreach-campaigns.ts) and sendNotification (lib/notifications.ts).
+ *
+ * A FID is suppressed when:
+ * - opted_out:    listed in outreach_suppressions (reply keyword or admin)
+ * - max_contacts: already contacted OUTREACH_MAX_CONTACTS times
+ * - cooldown:     last contacted less than OUTREACH_COOLDOWN_MS ago
+ *
+ * Contacts = sent outreach casts + non-transactional notifications
+ * (outreach_contact_summary view). Transactional sends (mint receipts)
+ * only respect opt-outs.
+ *
+ * Opt-out replies are found by scanning the bot account's Neynar
+ * mentions/replies for OPT_OUT_KEYWORDS.
+ *
+ * KISS Principle: Policy lives in constants - change them here.
+ */
+
+import {
+  supabaseAdmin,
+  type OutreachSuppression,
+  type UnconvertedUser,
+} from '@/lib/supabase';
+
+// Minimum gap between two contacts with the same FID
+export const OUTREACH_COOLDOWN_MS = 72 * 60 * 60 * 1000;
+
+// Lifetime contacts per FID
+export const OUTREACH_MAX_CONTACTS = 3;
+
+// Whole-word match in a reply/mention to the bot account
+const OPT_OUT_KEYWORDS = /\b(stop|unsubscribe|opt[\s-]?out)\b/i;
+
+// Neynar notification pages per scan (25 per page)
+const OPT_OUT_SCAN_PAGES = 4;
+
+export type SuppressionReason = 'opted_out' | 'max_contacts' | 'cooldown';
+
+export interface SuppressionStatus {
+  reason: SuppressionReason;
+  detail: string;
+  until: string | null;        // Cooldown end (null = permanent)
+}
+
+// Admin user list row (GET /api/analytics/unconverted)
+export type OutreachUser = UnconvertedUser & { suppression: SuppressionStatus | null };
+
+export interface OptOutScanResult {
+  scanned: number;
+  added: number[];
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Suppression per FID (FIDs that may be contacted are absent from the map)
+ * @param options.transactional only opt-outs apply
+ */
+export async function getSuppressions(
+  fids: number[],
+  options: { transactional?: boolean } = {}
+): Promise<Map<number, SuppressionStatus>> {
+  const statuses = new Map<number, SuppressionStatus>();
+  const unique = [...new Set(fids)];
+
+  for (const fidChunk of chunk(unique, 500)) {
+    const [optOuts, contacts] = await Promise.all([
+      supabaseAdmin.from('outreach_suppressions').select('fid, source').in('fid', fidChunk),
+      options.transactional
+        ? Promise.resolve({ data: [], error: null })
+        : supabaseAdmin
+            .from('outreach_contact_summary')
+            .select('fid, contacts, last_contacted_at')
+            .in('fid', fidChunk),
+    ]);
+
+    const error = optOuts.error || contacts.error;
+    if (error) {
+      throw new Error(`Failed to load suppressions: ${error.message}`);
+    }
+
+    for (const row of (contacts.data ?? []) as { fid: number; contacts: number; last_contacted_at: string }[]) {
+      const count = Number(row.contacts);
+      const cooldownEnd = new Date(row.last_contacted_at).getTime() + OUTREACH_COOLDOWN_MS;
+
+      if (count >= OUTREACH_MAX_CONTACTS) {
+        statuses.set(row.fid, {
+          reason: 'max_contacts',
+          detail: `Contacted ${count} times (max ${OUTREACH_MAX_CONTACTS})`,
+          until: null,
+        });
+      } else if (cooldownEnd > Date.now()) {
+        statuses.set(row.fid, {
+          reason: 'cooldown',
+          detail: `Contacted ${new Date(row.last_contacted_at).toLocaleString()}`,
+          until: new Date(cooldownEnd).toISOString(),
+        });
+      }
+    }
+
+    // Opt-outs win over contact limits
+    for (const row of (optOuts.data ?? []) as Pick<OutreachSuppression, 'fid' | 'source'>[]) {
+      statuses.set(row.fid, {
+        reason: 'opted_out',
+        detail: row.source === 'reply' ? 'Asked us to stop' : 'Opted out by admin',
+        until: null,
+      });
+    }
+  }
+
+  return statuses;
+}
+
+/**
+ * Human-readable reason (stored as the recipient's last_error)
+ */
+export function describeSuppression(status: SuppressionStatus): string {
+  switch (status.reason) {
+    case 'opted_out':
+      return `Opted out: ${status.detail}`;
+    case 'max_contacts':
+      return status.detail;
+    case 'cooldown':
+      return `Cooldown until ${status.until}`;
+  }
+}
+
+/**
+ * Opt-outs, newest first
+ */
+export async function listOptOuts(): Promise<OutreachSuppression[]> {
+  const { data, error } = await supabaseAdmin
+    .from('outreach_suppressions')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load opt-outs: ${error.message}`);
+  }
+
+  return data ?? [];
+}
+
+/**
+ * Opt FIDs out (existing opt-outs are kept as they are)
+ */
+export async function addOptOuts(
+  entries: { fid: number; source: OutreachSuppression['source']; castHash?: string; note?: string }[],
+  actor: string | null
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  const { error } = await supabaseAdmin.from('outreach_suppressions').upsert(
+    entries.map((entry) => ({
+      fid: entry.fid,
+      source: entry.source,
+      cast_hash: entry.castHash ?? null,
+      note: entry.note ?? null,
+      created_by: actor,
+    })),
+    { onConflict: 'fid', ignoreDuplicates: true }
+  );
+
+  if (error) {
+    throw new Error(`Failed to save opt-outs: ${error.message}`);
+  }
+
+  console.log('[SUPPRESSION] ✅ Opted out:', { fids: entries.map((entry) => entry.fid), actor });
+}
+
+/**
+ * Remove opt-outs (the user asked to hear from us again)
+ */
+export async function removeOptOuts(fids: number[], actor: string): Promise<void> {
+  const { error } = await supabaseAdmin.from('outreach_suppressions').delete().in('fid', fids);
+
+  if (error) {
+    throw new Error(`Failed to remove opt-outs: ${error.message}`);
+  }
+
+  console.log('[SUPPRESSION] Opt-outs removed:', { fids, actor });
+}
+
+/**
+ * Scan recent mentions/replies to the bot account for opt-out keywords
+ * Safe to re-run - existing opt-outs are not overwritten.
+ */
+export async function scanOptOutReplies(): Promise<OptOutScanResult> {
+  // Lazy: lib/neynar throws without NEYNAR_API_KEY, and sendNotification
+  // imports this module without needing Neynar
+  const { neynarClient, getSignerUuid } = await import('@/lib/neynar');
+
+  const signer = await neynarClient.lookupSigner({ signerUuid: getSignerUuid() });
+  if (!signer.fid) {
+    throw new Error('Signer has no FID - cannot read replies');
+  }
+
+  const found = new Map<number, { castHash: string; text: string }>();
+  let scanned = 0;
+  let cursor: string | undefined;
+
+  for (let page = 0; page < OPT_OUT_SCAN_PAGES; page++) {
+    const response = await neynarClient.fetchAllNotifications({
+      fid: signer.fid,
+      type: ['mentions', 'replies'],
+      limit: 25,
+      cursor,
+    });
+
+    for (const notification of response.notifications) {
+      const cast = notification.cast;
+      if (!cast || cast.author.fid === signer.fid) continue;
+
+      scanned++;
+      if (OPT_OUT_KEYWORDS.test(cast.text) && !found.has(cast.author.fid)) {
+        found.set(cast.author.fid, { castHash: cast.hash, text: cast.text });
+      }
+    }
+
+    cursor = response.next?.cursor ?? undefined;
+    if (!cursor) break;
+  }
+
+  const existing = await getSuppressions([...found.keys()], { transactional: true });
+  const added = [...found.keys()].filter((fid) => !existing.has(fid));
+
+  await addOptOuts(
+    added.map((fid) => ({
+      fid,
+      source: 'reply' as const,
+      castHash: found.get(fid)!.castHash,
+      note: found.get(fid)!.text.slice(0, 280),
+    })),
+    null
+  );
+
+  console.log('[SUPPRESSION] Opt-out scan done:', { scanned, added: added.length });
+
+  return { scanned, added };
+}
@@ -0,0 +1,404 @@
+/**
+ * Outreach Templates (Server-Side)
+ *
+ * Persisted cast copy for outreach campaigns - admins edit it without a deploy.
+ *
+ * - Variables: {username} {days_since_generation} {rarity} {price}
+ * - A template has weighted variants; each FID is assigned one deterministically
+ *   (sha256(template id + FID) → weighted bucket), so re-sends and previews agree
+ * - Per-variant conversion = recipients who minted after their cast
+ *   (outreach_variant_conversion view over funnel_events)
+ *
+ * KISS Principle: Plain {placeholder} substitution - no template language.
+ */
+
+import { createHash } from 'crypto';
+import { PAYMENT_CONFIG } from '@/lib/payment-config';
+import { getWarpletRarity } from '@/lib/rarible-server';
+import {
+  supabaseAdmin,
+  type OutreachTemplate,
+  type OutreachTemplateVariant,
+} from '@/lib/supabase';
+
+export const TEMPLATE_VARIABLES = ['username', 'days_since_generation', 'rarity', 'price'] as const;
+
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number];
+export type TemplateVariables = Record<TemplateVariable, string>;
+
+// Farcaster cast limit
+export const CAST_MAX_CHARS = 320;
+
+const VARIABLE_REGEX = /\{(\w+)\}/g;
+
+export interface VariantStats {
+  sent: number;
+  mints: number;
+}
+
+export interface TemplateWithVariants extends OutreachTemplate {
+  variants: (OutreachTemplateVariant & { stats: VariantStats })[];
+}
+
+export interface VariantInput {
+  id?: string;
+  label: string;
+  body: string;
+  weight: number;
+  active: boolean;
+}
+
+export interface TemplatePreview {
+  fid: number;
+  username: string | null;
+  variantLabel: string | null;
+  text: string;
+  length: number;
+}
+
+export type TemplateErrorCode = 'INVALID_INPUT' | 'NOT_FOUND' | 'DB_ERROR';
+
+export class TemplateError extends Error {
+  constructor(public code: TemplateErrorCode, message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+/**
+ * Unknown {placeholders} in a body (typos would otherwise be cast verbatim)
+ */
+export function findUnknownVariables(body: string): string[] {
+  return [...body.matchAll(VARIABLE_REGEX)]
+    .map((match) => match[1])
+    .filter((name) => !TEMPLATE_VARIABLES.includes(name as TemplateVariable));
+}
+
+/**
+ * Render a body for one recipient
+ * Casts must mention the recipient, so "Hey! @{username} " is prepended when missing.
+ */
+export function renderTemplate(body: string, variables: TemplateVariables): string {
+  const withMention = body.includes('{username}') ? body : `Hey! @{username} ${body}`;
+
+  return withMention.replace(VARIABLE_REGEX, (placeholder, name: string) =>
+    name in variables ? variables[name as TemplateVariable] : placeholder
+  );
+}
+
+/**
+ * Deterministic weighted variant for a FID (null if no active variants)
+ */
+export function pickVariant<T extends Pick<OutreachTemplateVariant, 'id' | 'weight' | 'active'>>(
+  templateId: string,
+  variants: T[],
+  fid: number
+): T | null {
+  const active = variants
+    .filter((variant) => variant.active && variant.weight > 0)
+    .sort((a, b) => a.id.localeCompare(b.id));
+
+  const totalWeight = active.reduce((total, variant) => total + variant.weight, 0);
+  if (totalWeight === 0) return null;
+
+  const hash = createHash('sha256').update(`${templateId}:${fid}`).digest();
+  let bucket = hash.readUInt32BE(0) % totalWeight;
+
+  for (const variant of active) {
+    if (bucket < variant.weight) return variant;
+    bucket -= variant.weight;
+  }
+
+  return active[active.length - 1];
+}
+
+/**
+ * Variables for one recipient
+ * {rarity} needs a Rarible lookup, so it is only resolved when `body` uses it.
+ */
+export async function buildTemplateVariables(
+  recipient: { fid: number; username: string | null; generated_at?: string | null },
+  body: string
+): Promise<TemplateVariables> {
+  const days = recipient.generated_at
+    ? Math.max(0, Math.floor((Date.now() - new Date(recipient.generated_at).getTime()) / 86_400_000))
+    : 0;
+
+  const rarity = body.includes('{rarity}') ? await getWarpletRarity(recipient.fid) : null;
+
+  return {
+    username: recipient.username ?? String(recipient.fid),
+    days_since_generation: String(days),
+    rarity: rarity ?? 'one-of-a-kind',
+    price: `$${PAYMENT_CONFIG.MINT.price}`,
+  };
+}
+
+function validateVariants(variants: VariantInput[]) {
+  if (!Array.isArray(variants) || variants.length === 0) {
+    throw new TemplateError('INVALID_INPUT', 'A template needs at least one variant');
+  }
+
+  const labels = new Set<string>();
+  for (const variant of variants) {
+    const label = variant.label?.trim();
+    if (!label || labels.has(label)) {
+      throw new TemplateError('INVALID_INPUT', 'Variant labels must be unique and non-empty');
+    }
+    labels.add(label);
+
+    if (!variant.body?.trim()) {
+      throw new TemplateError('INVALID_INPUT', `Variant ${label} has no copy`);
+    }
+
+    const unknown = findUnknownVariables(variant.body);
+    if (unknown.length > 0) {
+      throw new TemplateError('INVALID_INPUT', `Variant ${label} uses unknown variables: ${unknown.join(', ')}`);
+    }
+
+    if (!Number.isInteger(variant.weight) || variant.weight <= 0) {
+      throw new TemplateError('INVALID_INPUT', `Variant ${label} weight must be a positive integer`);
+    }
+  }
+
+  if (!variants.some((variant) => variant.active)) {
+    throw new TemplateError('INVALID_INPUT', 'At least one variant must be active');
+  }
+}
+
+/**
+ * Templates with variants + per-variant conversion
+ */
+export async function listTemplates(options: { includeArchived?: boolean } = {}): Promise<TemplateWithVariants[]> {
+  let query = supabaseAdmin.from('outreach_templates').select('*').order('created_at', { ascending: true });
+  if (!options.includeArchived) query = query.eq('archived', false);
+
+  const [templates, variants, stats] = await Promise.all([
+    query,
+    supabaseAdmin.from('outreach_template_variants').select('*').order('label', { ascending: true }),
+    supabaseAdmin.from('outreach_variant_conversion').select('*'),
+  ]);
+
+  const error = templates.error || variants.error || stats.error;
+  if (error) {
+    throw new TemplateError('DB_ERROR', `Failed to load templates: ${error.message}`);
+  }
+
+  const statsByVariant = new Map<string, VariantStats>(
+    (stats.data ?? []).map((row: { variant_id: string; sent: number; mints: number }) => [
+      row.variant_id,
+      { sent: Number(row.sent), mints: Number(row.mints) },
+    ])
+  );
+
+  return (templates.data ?? []).map((template: OutreachTemplate) => ({
+    ...template,
+    variants: (variants.data ?? [])
+      .filter((variant: OutreachTemplateVariant) => variant.template_id === template.id)
+      .map((variant: OutreachTemplateVariant) => ({
+        ...variant,
+        stats: statsByVariant.get(variant.id) ?? { sent: 0, mints: 0 },
+      })),
+  }));
+}
+
+/**
+ * One template with all of its variants
+ */
+export async function getTemplate(
+  id: string
+): Promise<{ template: OutreachTemplate; variants: OutreachTemplateVariant[] }> {
+  const [template, variants] = await Promise.all([
+    supabaseAdmin.from('outreach_templates').select('*').eq('id', id).maybeSingle(),
+    supabaseAdmin.from('outreach_template_variants').select('*').eq('template_id', id),
+  ]);
+
+  const error = template.error || variants.error;
+  if (error) {
+    throw new TemplateError('DB_ERROR', `Failed to load template: ${error.message}`);
+  }
+  if (!template.data) {
+    throw new TemplateError('NOT_FOUND', 'Template not found');
+  }
+
+  return { template: template.data, variants: variants.data ?? [] };
+}
+
+/**
+ * Create a template with its variants
+ */
+export async function createTemplate(
+  input: { key: string; name: string; variants: VariantInput[] },
+  actor: string
+): Promise<OutreachTemplate> {
+  const key = input.key?.trim().toLowerCase();
+  const name = input.name?.trim();
+
+  if (!key || !/^[a-z0-9_-]+$/.test(key)) {
+    throw new TemplateError('INVALID_INPUT', 'Key must be lowercase letters, digits, - or _');
+  }
+  if (!name) {
+    throw new TemplateError('INVALID_INPUT', 'Template name is required');
+  }
+  validateVariants(input.variants);
+
+  const { data: template, error } = await supabaseAdmin
+    .from('outreach_templates')
+    .insert({ key, name, updated_by: actor })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new TemplateError('INVALID_INPUT', `Template key "${key}" already exists`);
+    }
+    throw new TemplateError('DB_ERROR', `Failed to create template: ${error.message}`);
+  }
+
+  const { error: variantError } = await supabaseAdmin.from('outreach_template_variants').insert(
+    input.variants.map((variant) => ({
+      template_id: template.id,
+      label: variant.label.trim(),
+      body: variant.body.trim(),
+      weight: variant.weight,
+      active: variant.active,
+    }))
+  );
+
+  if (variantError) {
+    await supabaseAdmin.from('outreach_templates').delete().eq('id', template.id);
+    throw new TemplateError('DB_ERROR', `Failed to create variants: ${variantError.message}`);
+  }
+
+  console.log('[TEMPLATES] ✅ Created:', { id: template.id, key, variants: input.variants.length, actor });
+
+  return template;
+}
+
+/**
+ * Update name/archived and save variants (existing by id, new ones inserted)
+ * Variants are deactivated rather than deleted so past sends keep their stats.
+ */
+export async function updateTemplate(
+  id: string,
+  input: { name?: string; archived?: boolean; variants?: VariantInput[] },
+  actor: string
+): Promise<OutreachTemplate> {
+  const { variants: existing } = await getTemplate(id);
+  const now = new Date().toISOString();
+
+  if (input.variants) {
+    validateVariants(input.variants);
+
+    for (const variant of input.variants) {
+      const fields = {
+        label: variant.label.trim(),
+        body: variant.body.trim(),
+        weight: variant.weight,
+        active: variant.active,
+        updated_at: now,
+      };
+
+      const { error } = variant.id
+        ? await supabaseAdmin
+            .from('outreach_template_variants')
+            .update(fields)
+            .eq('id', variant.id)
+            .eq('template_id', id)
+        : await supabaseAdmin.from('outreach_template_variants').insert({ ...fields, template_id: id });
+
+      if (error) {
+        throw new TemplateError('DB_ERROR', `Failed to save variant ${fields.label}: ${error.message}`);
+      }
+    }
+
+    // Variants dropped from the editor → inactive
+    const kept = new Set(input.variants.map((variant) => variant.id).filter(Boolean));
+    const dropped = existing.filter((variant) => !kept.has(variant.id)).map((variant) => variant.id);
+    if (dropped.length > 0) {
+      await supabaseAdmin
+        .from('outreach_template_variants')
+        .update({ active: false, updated_at: now })
+        .in('id', dropped);
+    }
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('outreach_templates')
+    .update({
+      ...(input.name?.trim() ? { name: input.name.trim() } : {}),
+      ...(typeof input.archived === 'boolean' ? { archived: input.archived } : {}),
+      updated_by: actor,
+      updated_at: now,
+    })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    throw new TemplateError('DB_ERROR', `Failed to update template: ${error.message}`);
+  }
+
+  console.log('[TEMPLATES] ✅ Updated:', { id, actor });
+
+  return data;
+}
+
+/**
+ * Render a template (or a custom body) for real unconverted users
+ */
+export async function previewTemplate(
+  source: { templateId: string } | { body: string },
+  fids: number[]
+): Promise<TemplatePreview[]> {
+  const unknown = 'body' in source ? findUnknownVariables(source.body) : [];
+  if (unknown.length > 0) {
+    throw new TemplateError('INVALID_INPUT', `Unknown variables: ${unknown.join(', ')}`);
+  }
+
+  const variants = 'templateId' in source ? (await getTemplate(source.templateId)).variants : [];
+
+  let query = supabaseAdmin
+    .from('unconverted_users')
+    .select('fid, username, generated_at')
+    .order('generated_at', { ascending: true })
+    .limit(5);
+
+  if (fids.length > 0) query = query.in('fid', fids.slice(0, 5));
+  else query = query.eq('cast_sent', false);
+
+  const { data, error } = await query;
+  if (error) {
+    throw new TemplateError('DB_ERROR', `Failed to load preview recipients: ${error.message}`);
+  }
+
+  return Promise.all(
+    (data ?? []).map(async (recipient: { fid: number; username: string | null; generated_at: string }) => {
+      const variant = 'templateId' in source ? pickVariant(source.templateId, variants, recipient.fid) : null;
+      const body = variant?.body ?? ('body' in source ? source.body : '');
+      const text = renderTemplate(body, await buildTemplateVariables(recipient, body));
+
+      return {
+        fid: recipient.fid,
+        username: recipient.username,
+        variantLabel: variant?.label ?? null,
+        text,
+        length: text.length,
+      };
+    })
+  );
+}
+
+/**
+ * HTTP status for a template error (used by API routes)
+ */
+export function templateErrorStatus(error: TemplateError): number {
+  switch (error.code) {
+    case 'INVALID_INPUT':
+      return 400;
+    case 'NOT_FOUND':
+      return 404;
+    default:
+      return 500;
+  }
+}
@@ -4,6 +4,10 @@
  * Centralized x402 payment settings for all payment flows
  * - Mint: $1.99 USDC (onchain NFT minting)
  * - Animation: $4.99 USDC (animation generation)
+ * - Regenerate: $0.90 USDC (new image once the free quota is used)
+ *
+ * Networks: payments settle to the treasury on Base. Mint also accepts USDC
+ * on Solana (cross-chain via onchain.fi, see getOnchainFiRoute).
  */
 
 export const PAYMENT_CONFIG = {
@@ -21,11 +25,25 @@ export const PAYMENT_CONFIG = {
     label: 'Animation',
     description: 'Generate animated version',
   },
+  REGENERATE: {
+    price: '0.9',
+    priceAtomic: '900000',
+    endpoint: '/api/regenerate-image',
+    label: 'Regenerate',
+    description: 'Generate a new version of your Geoplet',
+  },
 } as const;
 
 // USDC contract address on Base
 export const BASE_USDC_ADDRESS = process.env.BASE_USDC_ADDRESS || '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
 
+// USDC mint on Solana (SPL token, 6 decimals like Base USDC)
+export const SOLANA_USDC_MINT = process.env.NEXT_PUBLIC_SOLANA_USDC_MINT || 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+export const USDC_DECIMALS = 6;
+
+// Solana fee payer advertised in the 402 terms (unset = the payer pays the fee)
+export const SOLANA_FEE_PAYER = process.env.SOLANA_FEE_PAYER || undefined;
+
 // Recipient treasury address (final destination for funds)
 export const RECIPIENT_ADDRESS = process.env.NEXT_PUBLIC_RECIPIENT_ADDRESS!;
 
@@ -42,3 +60,28 @@ export const ONCHAIN_FI_INTERMEDIATES = {
   // Cross-chain Solana → Base
   SOLANA_TO_BASE: 'AGm6Dzvd5evgWGGZtyvJE7cCTg7DKC9dNmwdubJg2toq' as const,
 } as const;
+
+// Source networks the payer can sign on (funds always settle on Base)
+export type PaymentNetwork = 'base' | 'solana';
+
+export const DESTINATION_NETWORK: PaymentNetwork = 'base';
+
+export interface OnchainFiRoute {
+  sourceNetwork: PaymentNetwork;
+  destinationNetwork: PaymentNetwork;
+  intermediate: string;   // Address the payer signs/transfers to
+}
+
+/**
+ * Onchain.fi route for a payment signed on `sourceNetwork`
+ */
+export function getOnchainFiRoute(sourceNetwork: PaymentNetwork): OnchainFiRoute {
+  return {
+    sourceNetwork,
+    destinationNetwork: DESTINATION_NETWORK,
+    intermediate:
+      sourceNetwork === 'solana'
+        ? ONCHAIN_FI_INTERMEDIATES.SOLANA_TO_BASE
+        : ONCHAIN_FI_INTERMEDIATES.BASE_TO_BASE,
+  };
+}
@@ -11,6 +11,7 @@
 import { type Address, type WalletClient, encodePacked, keccak256 } from 'viem';
 import type {
   X402PaymentHeader,
+  X402PaymentResponse,
   X402Authorization,
   GeneratePaymentHeaderOptions,
 } from '@/types/x402';
@@ -22,6 +23,32 @@ import type {
 const TRANSFER_WITH_AUTHORIZATION_TYPEHASH =
   '0x7c7c6cdb67a18743f49ec6fa9b35f50d52ed05cbed4cc592e13b44501c1a2267';
 
+/**
+ * EIP-712 Types for transferWithAuthorization
+ */
+export const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'validAfter', type: 'uint256' },
+    { name: 'validBefore', type: 'uint256' },
+    { name: 'nonce', type: 'bytes32' },
+  ],
+} as const;
+
+/**
+ * EIP-712 Domain for USDC (FiatToken v2)
+ */
+export function getUSDCDomain(usdcAddress: Address, chainId: number) {
+  return {
+    name: 'USD Coin',
+    version: '2',
+    chainId,
+    verifyingContract: usdcAddress,
+  } as const;
+}
+
 /**
  * Generate a random 32-byte nonce for EIP-3009
  */
@@ -63,24 +90,7 @@ export async function generateEIP3009Signature(
   }
 
   // EIP-712 Domain for USDC on Base
-  const domain = {
-    name: 'USD Coin',
-    version: '2',
-    chainId,
-    verifyingContract: usdcAddress,
-  } as const;
-
-  // EIP-712 Types for transferWithAuthorization
-  const types = {
-    TransferWithAuthorization: [
-      { name: 'from', type: 'address' },
-      { name: 'to', type: 'address' },
-      { name: 'value', type: 'uint256' },
-      { name: 'validAfter', type: 'uint256' },
-      { name: 'validBefore', type: 'uint256' },
-      { name: 'nonce', type: 'bytes32' },
-    ],
-  } as const;
+  const domain = getUSDCDomain(usdcAddress, chainId);
 
   // Message data
   const message = {
@@ -96,7 +106,7 @@ export async function generateEIP3009Signature(
   const signature = await walletClient.signTypedData({
     account: from,
     domain,
-    types,
+    types: TRANSFER_WITH_AUTHORIZATION_TYPES,
     primaryType: 'TransferWithAuthorization',
     message,
   });
@@ -202,3 +212,19 @@ export function decodePaymentHeader(base64Header: string): X402PaymentHeader {
     throw new Error(`Failed to decode payment header: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
+
+/**
+ * Decode the X-PAYMENT-RESPONSE header of a paid response (for debugging/receipts)
+ *
+ * @param base64Header - Header value set by withX402 (lib/x402-route.ts)
+ * @returns Decoded response, or null if the header is missing or malformed
+ */
+export function decodePaymentResponseHeader(base64Header: string | null): X402PaymentResponse | null {
+  if (!base64Header) return null;
+
+  try {
+    return JSON.parse(Buffer.from(base64Header, 'base64').toString()) as X402PaymentResponse;
+  } catch {
+    return null;
+  }
+}
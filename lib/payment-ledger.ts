@@ -0,0 +1,432 @@
+/**
+ * Payment Ledger (Server-Side)
+ *
+ * Single source of truth for every x402 payment (mint, regenerate, animation).
+ * One row per EIP-3009 authorization (or signed Solana transfer), never one row per FID.
+ *
+ * State machine:
+ *   verified → settled → mint_submitted → minted
+ *   verified → failed                     (settlement failed, no funds moved)
+ *   settled | mint_submitted → failed     (paid, fulfillment failed → recovery)
+ *   failed → mint_submitted               (recovery retry)
+ *   settled | failed → refund_pending → refunded
+ *   refund_pending → failed               (refund tx reverted → back to the refund queue)
+ *   Only admin actors move a row out of refund_pending (the refund is in flight)
+ *
+ * "mint_submitted"/"minted" mean the paid-for action was submitted/confirmed
+ * (mint tx, upgradeToAnimated tx, regeneration job, ...), whatever the purpose.
+ *
+ * Idempotency: key = eip3009:<from>:<nonce> (Solana: solana:<payer>:<signature>),
+ * so replaying the same payment header always resolves to the same row. Transitions to the current status
+ * are no-ops, so retried requests are safe.
+ *
+ * History: every insert/status change is written to payment_events by a
+ * database trigger (see .docs/migration_payment_ledger.sql) using the
+ * updated_by + event_details set here. payment_events is append-only.
+ *
+ * KISS Principle: Transition table in code, conditional UPDATE for concurrency.
+ */
+
+import { supabaseAdmin, type PaymentLedgerEntry, type PaymentEvent } from '@/lib/supabase';
+import { parseSolanaPayment } from '@/lib/solana-payment';
+import type { PaymentNetwork } from '@/lib/payment-config';
+
+export type PaymentPurpose = PaymentLedgerEntry['purpose'];
+export type PaymentStatus = PaymentLedgerEntry['status'];
+
+export const PAYMENT_TRANSITIONS: Record<PaymentStatus, readonly PaymentStatus[]> = {
+  verified: ['settled', 'failed'],
+  settled: ['mint_submitted', 'failed', 'refund_pending'],
+  mint_submitted: ['minted', 'failed'],
+  minted: [],
+  failed: ['mint_submitted', 'refund_pending'],
+  refund_pending: ['refunded', 'failed'],
+  refunded: [],
+};
+
+export type PaymentLedgerErrorCode =
+  | 'INVALID_HEADER'
+  | 'NOT_FOUND'
+  | 'ILLEGAL_TRANSITION'
+  | 'CONFLICT'
+  | 'DB_ERROR';
+
+export class PaymentLedgerError extends Error {
+  constructor(public code: PaymentLedgerErrorCode, message: string) {
+    super(message);
+    this.name = 'PaymentLedgerError';
+  }
+}
+
+/**
+ * Who caused a transition: 'system', 'user', or 'admin:<address>'
+ */
+export type PaymentActor = string;
+
+export interface TransitionOptions {
+  actor: PaymentActor;
+  fields?: Partial<
+    Pick<
+      PaymentLedgerEntry,
+      'settlement_tx_hash' | 'fulfillment_tx_hash' | 'refund_tx_hash' | 'last_error' | 'onchain_payment_id'
+    >
+  >;
+  details?: Record<string, unknown>;
+  exclusive?: boolean;   // Already in the target status → CONFLICT instead of a no-op (reservations)
+}
+
+export function canTransition(from: PaymentStatus, to: PaymentStatus): boolean {
+  return PAYMENT_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Paid (funds moved) but not fulfilled - eligible for free recovery
+ */
+export function isRecoverable(entry: PaymentLedgerEntry): boolean {
+  return (entry.status === 'settled' || entry.status === 'failed') && !!entry.settlement_tx_hash;
+}
+
+/**
+ * Decode the payer authorization from a base64 x402 payment header
+ * Solana headers carry a signed transfer - its payer signature is the nonce.
+ */
+export function parsePaymentAuthorization(paymentHeader: string): {
+  network: PaymentNetwork;
+  from: string;
+  nonce: string;
+  value: string;
+} {
+  try {
+    const decoded = JSON.parse(Buffer.from(paymentHeader, 'base64').toString());
+
+    if (decoded.network === 'solana') {
+      if (typeof decoded.payload?.transaction !== 'string') {
+        throw new Error('Missing transaction');
+      }
+
+      const payment = parseSolanaPayment(decoded.payload.transaction);
+      return { network: 'solana', from: payment.payer, nonce: payment.signature, value: payment.amount };
+    }
+
+    const auth = decoded.payload?.authorization;
+
+    if (!auth?.from || !auth?.nonce || !auth?.value) {
+      throw new Error('Missing authorization fields');
+    }
+
+    return { network: 'base', from: auth.from, nonce: auth.nonce, value: auth.value };
+  } catch (error) {
+    throw new PaymentLedgerError(
+      'INVALID_HEADER',
+      `Invalid payment header: ${error instanceof Error ? error.message : 'malformed'}`
+    );
+  }
+}
+
+/**
+ * EIP-3009 nonces are unique per authorizer, so (from, nonce) identifies a payment
+ * (Solana: base58 payer is case-sensitive, the signature is unique per transaction)
+ */
+export function deriveIdempotencyKey(from: string, nonce: string, network: PaymentNetwork = 'base'): string {
+  if (network === 'solana') {
+    return `solana:${from}:${nonce.toLowerCase()}`;
+  }
+
+  return `eip3009:${from.toLowerCase()}:${nonce.toLowerCase()}`;
+}
+
+export async function getPaymentById(id: string): Promise<PaymentLedgerEntry | null> {
+  const { data, error } = await supabaseAdmin
+    .from('payment_ledger')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw new PaymentLedgerError('DB_ERROR', error.message);
+  }
+
+  return data;
+}
+
+export async function getPaymentByKey(idempotencyKey: string): Promise<PaymentLedgerEntry | null> {
+  const { data, error } = await supabaseAdmin
+    .from('payment_ledger')
+    .select('*')
+    .eq('idempotency_key', idempotencyKey)
+    .maybeSingle();
+
+  if (error) {
+    throw new PaymentLedgerError('DB_ERROR', error.message);
+  }
+
+  return data;
+}
+
+/**
+ * Ledger row for a payment header (null = never verified by a paid route)
+ * @throws PaymentLedgerError('INVALID_HEADER') for a malformed header
+ */
+export async function getPaymentByHeader(paymentHeader: string): Promise<PaymentLedgerEntry | null> {
+  const { network, from, nonce } = parsePaymentAuthorization(paymentHeader);
+  return getPaymentByKey(deriveIdempotencyKey(from, nonce, network));
+}
+
+/**
+ * Ledger row that already records this fulfillment/refund transaction (null = unused)
+ * One on-chain transaction can only ever close one payment.
+ */
+export async function getPaymentByTxHash(
+  field: 'fulfillment_tx_hash' | 'refund_tx_hash',
+  txHash: string
+): Promise<PaymentLedgerEntry | null> {
+  const { data, error } = await supabaseAdmin
+    .from('payment_ledger')
+    .select('*')
+    .ilike(field, txHash)   // Hex only - case-insensitive equality
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new PaymentLedgerError('DB_ERROR', error.message);
+  }
+
+  return data;
+}
+
+/**
+ * Latest payment that actually moved funds for a FID + purpose
+ * (verified-only rows are ignored - they were never charged)
+ */
+export async function getLatestSettledPayment(
+  fid: number,
+  purpose: PaymentPurpose
+): Promise<PaymentLedgerEntry | null> {
+  const { data, error } = await supabaseAdmin
+    .from('payment_ledger')
+    .select('*')
+    .eq('fid', fid)
+    .eq('purpose', purpose)
+    .not('settlement_tx_hash', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new PaymentLedgerError('DB_ERROR', error.message);
+  }
+
+  return data;
+}
+
+export async function getPaymentEvents(paymentId: string): Promise<PaymentEvent[]> {
+  const { data, error } = await supabaseAdmin
+    .from('payment_events')
+    .select('*')
+    .eq('payment_id', paymentId)
+    .order('id', { ascending: true });
+
+  if (error) {
+    throw new PaymentLedgerError('DB_ERROR', error.message);
+  }
+
+  return data ?? [];
+}
+
+/**
+ * Record a verified (not yet settled) payment
+ * Idempotent: the same payment header always returns the same row.
+ */
+export async function recordVerifiedPayment(input: {
+  purpose: PaymentPurpose;
+  fid: number;
+  userAddress: string;
+  paymentHeader: string;
+  onchainPaymentId?: string;
+  facilitator: string;              // Facilitator that verified it (settlement goes through the same one)
+}): Promise<PaymentLedgerEntry> {
+  const { network, from, nonce, value } = parsePaymentAuthorization(input.paymentHeader);
+  const idempotencyKey = deriveIdempotencyKey(from, nonce, network);
+
+  const existing = await getPaymentByKey(idempotencyKey);
+  if (existing) {
+    return existing;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('payment_ledger')
+    .insert({
+      idempotency_key: idempotencyKey,
+      purpose: input.purpose,
+      fid: input.fid,
+      user_address: input.userAddress,
+      payer_address: from,
+      amount: value,
+      eip3009_nonce: network === 'base' ? nonce : null,
+      source_network: network,
+      onchain_payment_id: input.onchainPaymentId ?? null,
+      facilitator: input.facilitator,
+      status: 'verified',
+      updated_by: 'system',
+      event_details: { onchainPaymentId: input.onchainPaymentId ?? null },
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // Unique violation: a concurrent request recorded the same payment first
+    if (error.code === '23505') {
+      const raced = await getPaymentByKey(idempotencyKey);
+      if (raced) return raced;
+    }
+    throw new PaymentLedgerError('DB_ERROR', error.message);
+  }
+
+  console.log('[LEDGER] ✅ Payment verified:', {
+    id: data.id,
+    purpose: input.purpose,
+    fid: input.fid,
+  });
+
+  return data;
+}
+
+/**
+ * Move a payment to a new status
+ * - Same status → no-op (idempotent retries), CONFLICT with options.exclusive
+ * - Illegal transition → PaymentLedgerError('ILLEGAL_TRANSITION')
+ * - Concurrent change → PaymentLedgerError('CONFLICT')
+ */
+export async function transitionPayment(
+  id: string,
+  to: PaymentStatus,
+  options: TransitionOptions
+): Promise<PaymentLedgerEntry> {
+  const current = await getPaymentById(id);
+  if (!current) {
+    throw new PaymentLedgerError('NOT_FOUND', `Payment ${id} not found`);
+  }
+
+  if (current.status === to) {
+    if (options.exclusive) {
+      throw new PaymentLedgerError('CONFLICT', `Payment ${id} is already "${to}"`);
+    }
+    return current;
+  }
+
+  if (!canTransition(current.status, to)) {
+    throw new PaymentLedgerError(
+      'ILLEGAL_TRANSITION',
+      `Cannot move payment from "${current.status}" to "${to}"`
+    );
+  }
+
+  // In-flight refund: only the admin refund flow may confirm or requeue it (no double refunds)
+  if (current.status === 'refund_pending' && !options.actor.startsWith('admin:')) {
+    throw new PaymentLedgerError(
+      'ILLEGAL_TRANSITION',
+      `Only an admin can move payment from "refund_pending" to "${to}"`
+    );
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('payment_ledger')
+    .update({
+      ...options.fields,
+      status: to,
+      updated_by: options.actor,
+      event_details: options.details ?? {},
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .eq('status', current.status)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new PaymentLedgerError('DB_ERROR', error.message);
+  }
+
+  if (!data) {
+    // Someone else moved it first - fine if they moved it where we wanted
+    const latest = await getPaymentById(id);
+    if (latest?.status === to && !options.exclusive) {
+      return latest;
+    }
+    throw new PaymentLedgerError(
+      'CONFLICT',
+      `Payment ${id} changed concurrently (now "${latest?.status}")`
+    );
+  }
+
+  console.log('[LEDGER] ✅ Transition:', {
+    id,
+    from: current.status,
+    to,
+    actor: options.actor,
+  });
+
+  return data;
+}
+
+/**
+ * Record the refund transaction on a reserved (refund_pending) payment
+ * Once set it never changes - the same hash again is a no-op.
+ */
+export async function attachRefundTx(
+  id: string,
+  txHash: string,
+  actor: PaymentActor
+): Promise<PaymentLedgerEntry> {
+  const other = await getPaymentByTxHash('refund_tx_hash', txHash);
+  if (other && other.id !== id) {
+    throw new PaymentLedgerError('CONFLICT', `Refund transaction already used for payment ${other.id}`);
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('payment_ledger')
+    .update({ refund_tx_hash: txHash, updated_by: actor, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', 'refund_pending')
+    .is('refund_tx_hash', null)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new PaymentLedgerError('DB_ERROR', error.message);
+  }
+
+  if (!data) {
+    const latest = await getPaymentById(id);
+    if (latest?.refund_tx_hash?.toLowerCase() === txHash.toLowerCase()) {
+      return latest;
+    }
+    throw new PaymentLedgerError(
+      'CONFLICT',
+      latest?.refund_tx_hash
+        ? `Payment ${id} already has refund transaction ${latest.refund_tx_hash}`
+        : `Payment ${id} is "${latest?.status}", not reserved for a refund`
+    );
+  }
+
+  console.log('[LEDGER] ✅ Refund tx attached:', { id, txHash, actor });
+
+  return data;
+}
+
+/**
+ * HTTP status for a ledger error (used by API routes)
+ */
+export function ledgerErrorStatus(error: PaymentLedgerError): number {
+  switch (error.code) {
+    case 'INVALID_HEADER':
+      return 400;
+    case 'NOT_FOUND':
+      return 404;
+    case 'ILLEGAL_TRANSITION':
+    case 'CONFLICT':
+      return 409;
+    default:
+      return 500;
+  }
+}
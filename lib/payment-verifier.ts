@@ -0,0 +1,275 @@
+/**
+ * x402 Payment Pre-Verification (Server-Side)
+ *
+ * Checks a Base EIP-3009 payment header locally before any facilitator call,
+ * so bad payments fail fast with a structured PaymentErrorCode instead of a
+ * generic "verification failed" from onchain.fi:
+ * - structure (validatePaymentHeader), network, payTo, asset and value
+ *   against the 402 requirements → INVALID_SIGNATURE
+ * - validity window → SIGNATURE_EXPIRED
+ * - signer recovered against the USDC EIP-712 domain == from == userAddress
+ *   → INVALID_SIGNATURE
+ * - on-chain: authorizationState(from, nonce) unused → INVALID_SIGNATURE,
+ *   USDC balance >= value → INSUFFICIENT_FUNDS
+ *
+ * The signature always has to be proven: a smart wallet signature that can't
+ * be checked because the RPC is down fails closed (NETWORK_ERROR 503). Only
+ * the nonce/balance reads are best effort - skipped when the RPC is
+ * unreachable (chainChecked: false), the facilitator still verifies. Solana
+ * headers are checked by lib/solana-payment.ts instead.
+ *
+ * KISS Principle: Pure checks first, two reads last.
+ */
+
+import {
+  createPublicClient,
+  erc20Abi,
+  http,
+  recoverTypedDataAddress,
+  type Address,
+  type PublicClient,
+  type Transport,
+} from 'viem';
+import { base } from 'viem/chains';
+import { TRANSFER_WITH_AUTHORIZATION_TYPES, getUSDCDomain } from '@/lib/payment-header';
+import { PaymentErrorCode, type APIError } from '@/types/errors';
+import {
+  validatePaymentHeader,
+  type PaymentRequirements,
+  type X402Authorization,
+  type X402EvmPaymentHeader,
+} from '@/types/x402';
+
+// FiatToken v2.2 EIP-3009 functions (bytes signature overload also accepts ERC-1271 wallets)
+export const USDC_EIP3009_ABI = [
+  {
+    name: 'authorizationState',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'authorizer', type: 'address' },
+      { name: 'nonce', type: 'bytes32' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+  {
+    name: 'transferWithAuthorization',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'from', type: 'address' },
+      { name: 'to', type: 'address' },
+      { name: 'value', type: 'uint256' },
+      { name: 'validAfter', type: 'uint256' },
+      { name: 'validBefore', type: 'uint256' },
+      { name: 'nonce', type: 'bytes32' },
+      { name: 'signature', type: 'bytes' },
+    ],
+    outputs: [],
+  },
+] as const;
+
+// The parts of a 402 `accepts` entry a payment header must match
+export type PaymentExpectation = Pick<PaymentRequirements, 'network' | 'payTo' | 'asset' | 'maxAmountRequired'>;
+
+export type PreVerifyResult =
+  | {
+      valid: true;
+      authorization: X402Authorization;
+      expectation: PaymentExpectation;   // The accepted entry the header matched
+      chainChecked: boolean;             // false = RPC unreachable, nonce/balance reads skipped
+    }
+  | {
+      valid: false;
+      code: PaymentErrorCode;
+      message: string;
+      status: number;
+      details?: APIError['details'];
+    };
+
+export interface PreVerifyOptions {
+  userAddress?: string;    // Payer must be this wallet (omit to accept any signer)
+  client?: PublicClient<Transport, typeof base>;   // Defaults to NEXT_PUBLIC_BASE_RPC_URL
+}
+
+const defaultClient = createPublicClient({
+  chain: base,
+  transport: http(process.env.NEXT_PUBLIC_BASE_RPC_URL),
+});
+
+function reject(
+  code: PaymentErrorCode,
+  message: string,
+  status: number,
+  details?: APIError['details']
+): PreVerifyResult {
+  console.warn('[PRE-VERIFY] ❌ Rejected:', { code, message });
+  return { valid: false, code, message, status, details };
+}
+
+// Case-insensitive, never throws on malformed input (unlike isAddressEqual)
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function decodeHeader(paymentHeader: string): X402EvmPaymentHeader {
+  const decoded = JSON.parse(Buffer.from(paymentHeader, 'base64').toString());
+  validatePaymentHeader(decoded);
+  return decoded;
+}
+
+/**
+ * Pre-verify a Base x402 payment header against the accepted 402 requirements
+ *
+ * @param paymentHeader - Base64 X-Payment header
+ * @param accepts - Accepted requirements (one per facilitator payTo)
+ * @returns valid + matched requirement, or a structured error (code + HTTP status)
+ */
+export async function preVerifyPayment(
+  paymentHeader: string,
+  accepts: PaymentExpectation[],
+  options: PreVerifyOptions = {}
+): Promise<PreVerifyResult> {
+  let header: X402EvmPaymentHeader;
+  try {
+    header = decodeHeader(paymentHeader);
+  } catch (error) {
+    return reject(
+      PaymentErrorCode.INVALID_SIGNATURE,
+      'Invalid payment header format',
+      400,
+      { validationErrors: [error instanceof Error ? error.message : 'Malformed header'] }
+    );
+  }
+
+  const { authorization: auth, signature } = header.payload;
+
+  // 402 requirements: network → payTo → amount
+  const forNetwork = accepts.filter((entry) => entry.network === header.network);
+  if (forNetwork.length === 0) {
+    return reject(PaymentErrorCode.INVALID_SIGNATURE, `Network "${header.network}" is not accepted`, 400);
+  }
+
+  const expectation = forNetwork.find((entry) => sameAddress(entry.payTo, auth.to));
+  if (!expectation) {
+    return reject(
+      PaymentErrorCode.INVALID_SIGNATURE,
+      `Invalid payTo (expected ${forNetwork.map((entry) => entry.payTo).join(' or ')}, got ${auth.to})`,
+      400
+    );
+  }
+
+  if (auth.value !== expectation.maxAmountRequired) {
+    return reject(
+      PaymentErrorCode.INVALID_SIGNATURE,
+      `Invalid payment value (expected ${expectation.maxAmountRequired}, got ${auth.value})`,
+      400
+    );
+  }
+
+  if (options.userAddress && !sameAddress(auth.from, options.userAddress)) {
+    return reject(PaymentErrorCode.INVALID_SIGNATURE, 'Payment must be signed by the connected wallet', 400);
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const validBefore = parseInt(auth.validBefore, 10);
+  if (now >= validBefore) {
+    return reject(PaymentErrorCode.SIGNATURE_EXPIRED, 'Payment signature expired', 402, { deadline: validBefore });
+  }
+  if (parseInt(auth.validAfter, 10) > now) {
+    return reject(PaymentErrorCode.INVALID_SIGNATURE, 'Payment signature is not valid yet', 400);
+  }
+
+  const domain = getUSDCDomain(expectation.asset as Address, base.id);
+  const message = {
+    from: auth.from,
+    to: auth.to,
+    value: BigInt(auth.value),
+    validAfter: BigInt(auth.validAfter),
+    validBefore: BigInt(auth.validBefore),
+    nonce: auth.nonce,
+  };
+
+  // EOA: recover the signer offline
+  let signerMatches = false;
+  try {
+    const signer = await recoverTypedDataAddress({
+      domain,
+      types: TRANSFER_WITH_AUTHORIZATION_TYPES,
+      primaryType: 'TransferWithAuthorization',
+      message,
+      signature,
+    });
+    signerMatches = sameAddress(signer, auth.from);
+  } catch {
+    // Not a 65-byte ECDSA signature - may still be a smart wallet signature
+  }
+
+  const client = options.client ?? defaultClient;
+
+  // Smart wallets (ERC-1271 / ERC-6492) can only be checked on-chain - never pass an unproven signature
+  if (!signerMatches) {
+    let valid: boolean;
+    try {
+      valid = await client.verifyTypedData({
+        address: auth.from,
+        domain,
+        types: TRANSFER_WITH_AUTHORIZATION_TYPES,
+        primaryType: 'TransferWithAuthorization',
+        message,
+        signature,
+      });
+    } catch (error) {
+      console.error('[PRE-VERIFY] ❌ Signature check failed (RPC unavailable):', {
+        error: error instanceof Error ? error.message : error,
+      });
+      return reject(PaymentErrorCode.NETWORK_ERROR, 'Could not verify the payment signature, please try again', 503);
+    }
+
+    if (!valid) {
+      return reject(PaymentErrorCode.INVALID_SIGNATURE, 'Payment signature does not match the payer', 400);
+    }
+  }
+
+  try {
+    const [used, balance] = await Promise.all([
+      client.readContract({
+        address: expectation.asset as Address,
+        abi: USDC_EIP3009_ABI,
+        functionName: 'authorizationState',
+        args: [auth.from, auth.nonce],
+      }),
+      client.readContract({
+        address: expectation.asset as Address,
+        abi: erc20Abi,
+        functionName: 'balanceOf',
+        args: [auth.from],
+      }),
+    ]);
+
+    if (used) {
+      return reject(PaymentErrorCode.INVALID_SIGNATURE, 'Payment authorization was already used', 409);
+    }
+
+    if (balance < BigInt(auth.value)) {
+      return reject(PaymentErrorCode.INSUFFICIENT_FUNDS, 'Insufficient USDC balance', 402, {
+        required: auth.value,
+        available: balance.toString(),
+      });
+    }
+  } catch (error) {
+    // Signature already proven - only the nonce/balance reads are skipped
+    console.warn('[PRE-VERIFY] ⚠️ On-chain checks skipped (RPC unavailable):', {
+      error: error instanceof Error ? error.message : error,
+    });
+    return { valid: true, authorization: auth, expectation, chainChecked: false };
+  }
+
+  console.log('[PRE-VERIFY] ✅ Payment pre-verified:', {
+    from: auth.from,
+    to: auth.to,
+    value: auth.value,
+  });
+
+  return { valid: true, authorization: auth, expectation, chainChecked: true };
+}
@@ -0,0 +1,188 @@
+/**
+ * Farcaster Quick Auth (Server-Side)
+ *
+ * User-scoped routes take the FID from a verified Quick Auth JWT, never from
+ * the request body or URL - otherwise anyone could read, overwrite or pay
+ * for another user's FID.
+ *
+ * Client: sdk.quickAuth.fetch() sends `Authorization: Bearer <jwt>`.
+ * Server: authenticateRequest(request) → { fid } (FID = token `sub`).
+ *
+ * Issuers:
+ * - https://auth.farcaster.xyz - production, JWKS fetched and cached by @farcaster/quick-auth
+ * - QUICK_AUTH_TEST_ISSUER - local HS256 issuer for offline tests/dev, only when
+ *   QUICK_AUTH_TEST_SECRET is set and NODE_ENV !== 'production'
+ *   (mint tokens with signTestQuickAuthToken / npm run auth:token)
+ *
+ * Audience: QUICK_AUTH_DOMAIN, or the host of NEXT_PUBLIC_APP_URL.
+ *
+ * KISS Principle: One verify per request, no server-side sessions.
+ */
+
+import { createClient, Errors } from '@farcaster/quick-auth';
+import { decodeJwt, jwtVerify, SignJWT, errors as joseErrors } from 'jose';
+
+export const QUICK_AUTH_TEST_ISSUER = 'quick-auth-test';
+
+// Local test tokens are short-lived like real ones (Quick Auth: 1 hour)
+const TEST_TOKEN_TTL_SECONDS = 60 * 60;
+
+const quickAuthClient = createClient();
+
+export interface QuickAuthSession {
+  fid: number;
+  issuer: string;
+  expiresAt: number;       // Unix seconds
+}
+
+export type QuickAuthErrorCode = 'MISSING_TOKEN' | 'INVALID_TOKEN' | 'FID_MISMATCH' | 'NOT_CONFIGURED';
+
+export class QuickAuthError extends Error {
+  constructor(public code: QuickAuthErrorCode, message: string) {
+    super(message);
+    this.name = 'QuickAuthError';
+  }
+}
+
+export function quickAuthErrorStatus(error: QuickAuthError): number {
+  switch (error.code) {
+    case 'MISSING_TOKEN':
+    case 'INVALID_TOKEN':
+      return 401;
+    case 'FID_MISMATCH':
+      return 403;
+    case 'NOT_CONFIGURED':
+      return 500;
+  }
+}
+
+/**
+ * Domain the token must be issued for (JWT `aud`)
+ */
+export function getQuickAuthDomain(): string {
+  if (process.env.QUICK_AUTH_DOMAIN) {
+    return process.env.QUICK_AUTH_DOMAIN;
+  }
+
+  if (process.env.NEXT_PUBLIC_APP_URL) {
+    return new URL(process.env.NEXT_PUBLIC_APP_URL).host;
+  }
+
+  throw new QuickAuthError('NOT_CONFIGURED', 'QUICK_AUTH_DOMAIN or NEXT_PUBLIC_APP_URL must be set');
+}
+
+/**
+ * Test issuer key (null = disabled, always disabled in production)
+ */
+function getTestIssuerKey(): Uint8Array | null {
+  const secret = process.env.QUICK_AUTH_TEST_SECRET;
+  if (!secret || process.env.NODE_ENV === 'production') {
+    return null;
+  }
+
+  if (secret.length < 32) {
+    throw new QuickAuthError('NOT_CONFIGURED', 'QUICK_AUTH_TEST_SECRET must be at least 32 characters');
+  }
+
+  return new TextEncoder().encode(secret);
+}
+
+function toSession(payload: { sub?: unknown; iss?: string; exp?: number }): QuickAuthSession {
+  const fid = Number(payload.sub);
+
+  if (!Number.isInteger(fid) || fid <= 0) {
+    throw new QuickAuthError('INVALID_TOKEN', 'Token subject is not a FID');
+  }
+
+  return { fid, issuer: payload.iss ?? '', expiresAt: payload.exp ?? 0 };
+}
+
+/**
+ * Verify a Quick Auth JWT and return the FID it was issued to
+ */
+export async function verifyQuickAuthToken(token: string): Promise<QuickAuthSession> {
+  const domain = getQuickAuthDomain();
+
+  let issuer: string | undefined;
+  try {
+    issuer = decodeJwt(token).iss;
+  } catch {
+    throw new QuickAuthError('INVALID_TOKEN', 'Malformed token');
+  }
+
+  try {
+    if (issuer === QUICK_AUTH_TEST_ISSUER) {
+      const key = getTestIssuerKey();
+      if (!key) {
+        throw new QuickAuthError('INVALID_TOKEN', 'Test issuer is disabled');
+      }
+
+      const { payload } = await jwtVerify(token, key, {
+        issuer: QUICK_AUTH_TEST_ISSUER,
+        audience: domain,
+        algorithms: ['HS256'],
+      });
+      return toSession(payload);
+    }
+
+    return toSession(await quickAuthClient.verifyJwt({ token, domain }));
+  } catch (error) {
+    if (error instanceof QuickAuthError) throw error;
+
+    if (error instanceof Errors.InvalidTokenError || error instanceof joseErrors.JOSEError) {
+      throw new QuickAuthError('INVALID_TOKEN', `Invalid token: ${error.message}`);
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Authenticate a request from its `Authorization: Bearer <jwt>` header
+ */
+export async function authenticateRequest(request: Request): Promise<QuickAuthSession> {
+  const authorization = request.headers.get('Authorization');
+
+  if (!authorization?.startsWith('Bearer ')) {
+    throw new QuickAuthError('MISSING_TOKEN', 'Missing Quick Auth token (Authorization: Bearer <token>)');
+  }
+
+  return verifyQuickAuthToken(authorization.slice('Bearer '.length).trim());
+}
+
+/**
+ * Reject a client-supplied FID that isn't the authenticated one
+ * (undefined/null = not supplied, the session FID is used)
+ */
+export function assertSessionFid(session: QuickAuthSession, fid: unknown): void {
+  if (fid === undefined || fid === null || fid === '') return;
+
+  if (Number(fid) !== session.fid) {
+    throw new QuickAuthError('FID_MISMATCH', `Authenticated as FID ${session.fid}, not FID ${fid}`);
+  }
+}
+
+/**
+ * Issue a token from the local test issuer (tests, scripts, local dev)
+ */
+export async function signTestQuickAuthToken(
+  fid: number,
+  options: { domain?: string; expiresInSeconds?: number } = {}
+): Promise<string> {
+  const key = getTestIssuerKey();
+  if (!key) {
+    throw new QuickAuthError(
+      'NOT_CONFIGURED',
+      'Test issuer is disabled (set QUICK_AUTH_TEST_SECRET outside production)'
+    );
+  }
+
+  return new SignJWT({})
+    .setProtectedHeader({ alg: 'HS256' })
+    .setIssuer(QUICK_AUTH_TEST_ISSUER)
+    .setAudience(options.domain ?? getQuickAuthDomain())
+    .setSubject(String(fid))
+    .setIssuedAt()
+    .setExpirationTime(`${options.expiresInSeconds ?? TEST_TOKEN_TTL_SECONDS}s`)
+    .sign(key);
+}
@@ -0,0 +1,52 @@
+/**
+ * Rarible API (Server-Side)
+ *
+ * Authenticated Rarible fetch shared by /api/rarible (client proxy) and
+ * server-only features that need NFT metadata (e.g. outreach {rarity}).
+ *
+ * Required environment variables:
+ * - RARIBLE_API_KEY
+ */
+
+import { getRarityFromAttributes } from '@/lib/rarity';
+import { WARPLET_ADDRESS, type RaribleItem } from '@/lib/rarible';
+
+const RARIBLE_API_KEY = process.env.RARIBLE_API_KEY || '';
+const RARIBLE_BASE_URL = 'https://api.rarible.org/v0.1';
+
+/**
+ * Fetch from Rarible API with authentication
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export async function raribleFetch(endpoint: string): Promise<any> {
+  if (!RARIBLE_API_KEY) {
+    throw new Error('RARIBLE_API_KEY not configured');
+  }
+
+  const response = await fetch(`${RARIBLE_BASE_URL}${endpoint}`, {
+    headers: {
+      'X-API-KEY': RARIBLE_API_KEY,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.text().catch(() => response.statusText);
+    throw new Error(`Rarible API error: ${response.status} ${error}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Rarity attribute of a user's Warplet (Warplet tokenId == FID), null if unknown
+ */
+export async function getWarpletRarity(fid: number): Promise<string | null> {
+  try {
+    const item: RaribleItem = await raribleFetch(`/items/BASE:${WARPLET_ADDRESS}:${fid}`);
+    return getRarityFromAttributes(item.meta?.attributes);
+  } catch (error) {
+    console.error('[RARIBLE] ⚠️  Failed to load Warplet rarity:', { fid, error });
+    return null;
+  }
+}
@@ -0,0 +1,410 @@
+/**
+ * On-Chain Reconciliation (Server-Side)
+ *
+ * Cross-checks what happened on-chain against what Supabase believes:
+ * - Geoplets contract: GeopletMinted + Transfer (burns)
+ * - USDC: Transfer events to RECIPIENT_ADDRESS
+ * - Supabase: payment_ledger (mint payments, incl. backfilled payment_tracking rows)
+ *   and unminted_geoplets
+ *
+ * Discrepancies:
+ * - paid_not_minted:        settled mint payment, FID never minted (→ refund queue)
+ * - minted_not_recorded:    FID minted but its payment is not marked minted  [auto-fix]
+ * - minted_without_payment: GeopletMinted with no settled mint payment on record
+ * - stale_unminted:         unminted_geoplets row for an already-minted FID   [auto-fix]
+ * - amount_mismatch:        charged/received amount differs from PAYMENT_CONFIG
+ *
+ * Current mint state comes from isFidMinted (catches mints older than the scan
+ * window); events supply tx hashes and window-local history.
+ *
+ * Run via /api/admin/reconcile or the CLI: npm run reconcile [-- --fix]
+ *
+ * KISS Principle: Report everything, only auto-fix what cannot lose money.
+ */
+
+import {
+  createPublicClient,
+  http,
+  erc20Abi,
+  zeroAddress,
+  type Address,
+} from 'viem';
+import { base } from 'viem/chains';
+import { GEOPLET_CONFIG } from '@/lib/contracts';
+import { PAYMENT_CONFIG, BASE_USDC_ADDRESS, RECIPIENT_ADDRESS } from '@/lib/payment-config';
+import { supabaseAdmin, type PaymentLedgerEntry } from '@/lib/supabase';
+import { PaymentLedgerError, transitionPayment, type PaymentPurpose } from '@/lib/payment-ledger';
+import { recordFunnelEvent } from '@/lib/funnel';
+
+const publicClient = createPublicClient({
+  chain: base,
+  transport: http(process.env.NEXT_PUBLIC_BASE_RPC_URL),
+});
+
+// ~7 days of Base blocks (2s block time)
+export const RECONCILE_LOOKBACK_BLOCKS = BigInt(7 * 24 * 60 * 30);
+
+// Max block range per eth_getLogs call
+const LOG_CHUNK_BLOCKS = BigInt(9_000);
+
+// isFidMinted calls per multicall
+const MULTICALL_BATCH = 200;
+
+const RECONCILE_ACTOR = 'system:reconcile';
+
+// Expected price per purpose (purposes without a config entry are not checked)
+const EXPECTED_AMOUNTS: Partial<Record<PaymentPurpose, string>> = {
+  mint: PAYMENT_CONFIG.MINT.priceAtomic,
+  animation: PAYMENT_CONFIG.ANIMATION.priceAtomic,
+};
+
+export type DiscrepancyType =
+  | 'paid_not_minted'
+  | 'minted_not_recorded'
+  | 'minted_without_payment'
+  | 'stale_unminted'
+  | 'amount_mismatch';
+
+export interface Discrepancy {
+  type: DiscrepancyType;
+  fid: number;
+  ledgerId?: string;
+  txHash?: string;
+  expected?: string;
+  actual?: string;
+  detail: string;
+  fixed?: boolean;
+  fixError?: string;
+}
+
+export interface ReconciliationReport {
+  fromBlock: string;
+  toBlock: string;
+  fix: boolean;
+  scanned: {
+    mintEvents: number;
+    burnEvents: number;
+    usdcTransfers: number;
+    ledgerRows: number;
+    unmintedRows: number;
+  };
+  discrepancies: Discrepancy[];
+  fixedCount: number;
+  startedAt: string;
+  finishedAt: string;
+}
+
+export interface ReconcileOptions {
+  fromBlock?: bigint;
+  toBlock?: bigint;
+  fix?: boolean;
+}
+
+/**
+ * Run fn over [fromBlock, toBlock] in LOG_CHUNK_BLOCKS ranges
+ */
+async function scanChunks<T>(
+  fromBlock: bigint,
+  toBlock: bigint,
+  fn: (start: bigint, end: bigint) => Promise<T[]>
+): Promise<T[]> {
+  const results: T[] = [];
+
+  for (let start = fromBlock; start <= toBlock; start += LOG_CHUNK_BLOCKS) {
+    const end = start + LOG_CHUNK_BLOCKS - BigInt(1) < toBlock ? start + LOG_CHUNK_BLOCKS - BigInt(1) : toBlock;
+    results.push(...(await fn(start, end)));
+  }
+
+  return results;
+}
+
+/**
+ * Current on-chain mint state for a list of FIDs
+ */
+async function getMintedFids(fids: number[]): Promise<Set<number>> {
+  const minted = new Set<number>();
+  const unique = [...new Set(fids)];
+
+  for (let i = 0; i < unique.length; i += MULTICALL_BATCH) {
+    const batch = unique.slice(i, i + MULTICALL_BATCH);
+    const results = await publicClient.multicall({
+      contracts: batch.map((fid) => ({
+        address: GEOPLET_CONFIG.address,
+        abi: GEOPLET_CONFIG.abi,
+        functionName: 'isFidMinted' as const,
+        args: [BigInt(fid)],
+      })),
+      allowFailure: false,
+    });
+
+    results.forEach((isMinted, j) => {
+      if (isMinted) minted.add(batch[j]);
+    });
+  }
+
+  return minted;
+}
+
+/**
+ * settled/failed → mint_submitted → minted, recording the mint tx if known
+ */
+async function markPaymentMinted(payment: PaymentLedgerEntry, mintTxHash?: string) {
+  const details = { reason: 'reconciliation', mintTxHash: mintTxHash ?? null };
+
+  if (payment.status !== 'mint_submitted') {
+    await transitionPayment(payment.id, 'mint_submitted', {
+      actor: RECONCILE_ACTOR,
+      fields: mintTxHash ? { fulfillment_tx_hash: mintTxHash } : undefined,
+      details,
+    });
+  }
+
+  await transitionPayment(payment.id, 'minted', {
+    actor: RECONCILE_ACTOR,
+    fields: mintTxHash ? { fulfillment_tx_hash: mintTxHash } : undefined,
+    details,
+  });
+
+  await recordFunnelEvent(payment.fid, 'minted');
+}
+
+export async function runReconciliation(
+  options: ReconcileOptions = {}
+): Promise<ReconciliationReport> {
+  const startedAt = new Date().toISOString();
+  const fix = options.fix ?? false;
+
+  const toBlock = options.toBlock ?? (await publicClient.getBlockNumber());
+  const fromBlock =
+    options.fromBlock ??
+    (toBlock > RECONCILE_LOOKBACK_BLOCKS ? toBlock - RECONCILE_LOOKBACK_BLOCKS : BigInt(0));
+
+  console.log('[RECONCILE] Scanning blocks:', { fromBlock, toBlock, fix });
+
+  // 1. On-chain events
+  const contractLogs = await scanChunks(fromBlock, toBlock, (start, end) =>
+    publicClient.getContractEvents({
+      address: GEOPLET_CONFIG.address,
+      abi: GEOPLET_CONFIG.abi,
+      fromBlock: start,
+      toBlock: end,
+    })
+  );
+
+  const mintTxByFid = new Map<number, string>();
+  const burnedFids = new Set<number>();
+
+  for (const log of contractLogs) {
+    if (log.eventName === 'GeopletMinted') {
+      mintTxByFid.set(Number(log.args.tokenId), log.transactionHash);
+    } else if (log.eventName === 'Transfer' && log.args.to === zeroAddress) {
+      burnedFids.add(Number(log.args.tokenId));
+    }
+  }
+
+  const usdcLogs = await scanChunks(fromBlock, toBlock, (start, end) =>
+    publicClient.getContractEvents({
+      address: BASE_USDC_ADDRESS as Address,
+      abi: erc20Abi,
+      eventName: 'Transfer',
+      args: { to: RECIPIENT_ADDRESS as Address },
+      fromBlock: start,
+      toBlock: end,
+    })
+  );
+
+  const receivedByTx = new Map<string, bigint>();
+  for (const log of usdcLogs) {
+    const hash = log.transactionHash.toLowerCase();
+    receivedByTx.set(hash, (receivedByTx.get(hash) ?? BigInt(0)) + log.args.value!);
+  }
+
+  // 2. Supabase state
+  const { data: ledgerData, error: ledgerError } = await supabaseAdmin
+    .from('payment_ledger')
+    .select('*')
+    .not('settlement_tx_hash', 'is', null)
+    .neq('status', 'refunded');
+
+  if (ledgerError) {
+    throw new PaymentLedgerError('DB_ERROR', ledgerError.message);
+  }
+
+  const { data: unmintedData, error: unmintedError } = await supabaseAdmin
+    .from('unminted_geoplets')
+    .select('fid');
+
+  if (unmintedError) {
+    throw new Error(`Failed to load unminted_geoplets: ${unmintedError.message}`);
+  }
+
+  const ledger: PaymentLedgerEntry[] = ledgerData ?? [];
+  const unmintedFids: number[] = (unmintedData ?? []).map((row: { fid: number }) => row.fid);
+  const mintPayments = ledger.filter((payment) => payment.purpose === 'mint');
+
+  const mintedFids = await getMintedFids([
+    ...mintPayments.map((payment) => payment.fid),
+    ...unmintedFids,
+  ]);
+
+  // Minted now, or minted inside the window (possibly burned since)
+  const wasMinted = (fid: number) => mintedFids.has(fid) || mintTxByFid.has(fid);
+
+  const discrepancies: Discrepancy[] = [];
+
+  // 3. Mint payments vs mint state
+  const paymentsByFid = new Map<number, PaymentLedgerEntry[]>();
+  for (const payment of mintPayments) {
+    paymentsByFid.set(payment.fid, [...(paymentsByFid.get(payment.fid) ?? []), payment]);
+  }
+
+  for (const [fid, payments] of paymentsByFid) {
+    const open = payments.filter((payment) => payment.status !== 'minted');
+
+    if (!wasMinted(fid)) {
+      for (const payment of open) {
+        discrepancies.push({
+          type: 'paid_not_minted',
+          fid,
+          ledgerId: payment.id,
+          txHash: payment.settlement_tx_hash!,
+          detail: `Payment is "${payment.status}" and FID ${fid} was never minted`,
+        });
+      }
+      continue;
+    }
+
+    // One mint fulfils one payment - extra payments for the same FID were never fulfilled
+    const alreadyRecorded = payments.some((payment) => payment.status === 'minted');
+    const fulfilled = alreadyRecorded
+      ? undefined
+      : open.find((payment) => payment.status === 'mint_submitted') ?? open[open.length - 1];
+
+    for (const payment of open) {
+      if (payment === fulfilled) {
+        discrepancies.push({
+          type: 'minted_not_recorded',
+          fid,
+          ledgerId: payment.id,
+          txHash: mintTxByFid.get(fid),
+          detail: `FID ${fid} is minted but payment is "${payment.status}"`,
+        });
+      } else if (payment.status !== 'refund_pending') {
+        discrepancies.push({
+          type: 'paid_not_minted',
+          fid,
+          ledgerId: payment.id,
+          txHash: payment.settlement_tx_hash!,
+          detail: `Duplicate payment for FID ${fid} (already minted)`,
+        });
+      }
+    }
+  }
+
+  // 4. Mints without a payment on record
+  for (const [fid, txHash] of mintTxByFid) {
+    if (!paymentsByFid.has(fid)) {
+      discrepancies.push({
+        type: 'minted_without_payment',
+        fid,
+        txHash,
+        detail: `GeopletMinted for FID ${fid} has no settled mint payment`,
+      });
+    }
+  }
+
+  // 5. Generations left behind for minted FIDs
+  for (const fid of new Set(unmintedFids)) {
+    if (mintedFids.has(fid)) {
+      discrepancies.push({
+        type: 'stale_unminted',
+        fid,
+        txHash: mintTxByFid.get(fid),
+        detail: `unminted_geoplets row for minted FID ${fid}`,
+      });
+    }
+  }
+
+  // 6. Amounts vs PAYMENT_CONFIG
+  for (const payment of ledger) {
+    const expected = EXPECTED_AMOUNTS[payment.purpose];
+    if (!expected) continue;
+
+    const received = receivedByTx.get(payment.settlement_tx_hash!.toLowerCase());
+
+    if (payment.amount && BigInt(payment.amount) !== BigInt(expected)) {
+      discrepancies.push({
+        type: 'amount_mismatch',
+        fid: payment.fid,
+        ledgerId: payment.id,
+        txHash: payment.settlement_tx_hash!,
+        expected,
+        actual: payment.amount,
+        detail: `Authorized ${payment.amount}, ${payment.purpose} costs ${expected}`,
+      });
+    } else if (received !== undefined && received !== BigInt(expected)) {
+      discrepancies.push({
+        type: 'amount_mismatch',
+        fid: payment.fid,
+        ledgerId: payment.id,
+        txHash: payment.settlement_tx_hash!,
+        expected,
+        actual: received.toString(),
+        detail: `Recipient received ${received}, ${payment.purpose} costs ${expected}`,
+      });
+    }
+  }
+
+  // 7. Safe auto-fixes
+  if (fix) {
+    for (const discrepancy of discrepancies) {
+      try {
+        if (discrepancy.type === 'minted_not_recorded') {
+          const payment = ledger.find((entry) => entry.id === discrepancy.ledgerId)!;
+          await markPaymentMinted(payment, discrepancy.txHash);
+          discrepancy.fixed = true;
+        } else if (discrepancy.type === 'stale_unminted') {
+          const { error } = await supabaseAdmin
+            .from('unminted_geoplets')
+            .delete()
+            .eq('fid', discrepancy.fid);
+
+          if (error) throw new Error(error.message);
+          discrepancy.fixed = true;
+        }
+      } catch (error) {
+        discrepancy.fixed = false;
+        discrepancy.fixError = error instanceof Error ? error.message : 'Unknown error';
+        console.error('[RECONCILE] ❌ Fix failed:', {
+          type: discrepancy.type,
+          fid: discrepancy.fid,
+          error: discrepancy.fixError,
+        });
+      }
+    }
+  }
+
+  const fixedCount = discrepancies.filter((discrepancy) => discrepancy.fixed).length;
+
+  console.log('[RECONCILE] ✅ Done:', {
+    discrepancies: discrepancies.length,
+    fixed: fixedCount,
+  });
+
+  return {
+    fromBlock: fromBlock.toString(),
+    toBlock: toBlock.toString(),
+    fix,
+    scanned: {
+      mintEvents: mintTxByFid.size,
+      burnEvents: burnedFids.size,
+      usdcTransfers: usdcLogs.length,
+      ledgerRows: ledger.length,
+      unmintedRows: unmintedFids.length,
+    },
+    discrepancies,
+    fixedCount,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+  };
+}
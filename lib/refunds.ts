@@ -0,0 +1,291 @@
+/**
+ * Refund Queue (Server-Side)
+ *
+ * Finds payments that were settled but never fulfilled, so an admin can
+ * refund them from the owner wallet (users stuck after e.g. an RPC outage).
+ *
+ * A payment is refundable when:
+ * - it moved funds (settlement_tx_hash set) and is settled / mint_submitted / failed
+ * - it is older than N hours (gives recovery a chance first)
+ * - it was not fulfilled itself - decided per payment, not per FID:
+ *   1. its own fulfillment_tx_hash emitted GeopletMinted / AnimationUpgraded for
+ *      its FID/tokenId → fulfilled
+ *   2. the FID/token is not minted/animated on-chain → refundable
+ *   3. it is minted/animated, but another row is already 'minted' (or fulfilled
+ *      per 1., or an older candidate claims it) → a duplicate payment, refundable
+ *
+ * Payer + amount come from the USDC Transfer in the settlement transaction.
+ * Base-signed payments only - Solana payers can't be refunded on Base.
+ * Refund tx flow: refund_pending (tx submitted) → refunded (receipt verified).
+ * A refund must come from the contract owner (or REFUND_WALLET_ADDRESS) and
+ * its transaction can back only one ledger row.
+ *
+ * KISS Principle: Bounded reads only - one multicall for the on-chain state,
+ * receipts of the candidates' own transactions (no event log scans).
+ */
+
+import {
+  createPublicClient,
+  http,
+  erc20Abi,
+  parseEventLogs,
+  isAddressEqual,
+  type Address,
+  type Hash,
+} from 'viem';
+import { base } from 'viem/chains';
+import { GEOPLET_CONFIG } from '@/lib/contracts';
+import { BASE_USDC_ADDRESS } from '@/lib/payment-config';
+import { supabaseAdmin, type PaymentLedgerEntry } from '@/lib/supabase';
+import { getPaymentByTxHash, PaymentLedgerError, type PaymentPurpose } from '@/lib/payment-ledger';
+
+const publicClient = createPublicClient({
+  chain: base,
+  transport: http(process.env.NEXT_PUBLIC_BASE_RPC_URL),
+});
+
+export const REFUND_MIN_AGE_HOURS = 24;
+
+// Optional dedicated refund wallet (besides the contract owner)
+const REFUND_WALLET_ADDRESS = process.env.REFUND_WALLET_ADDRESS;
+
+// Purposes with an on-chain fulfillment event (+ the view that reflects it)
+const FULFILLMENT: Partial<
+  Record<PaymentPurpose, { event: 'GeopletMinted' | 'AnimationUpgraded'; view: 'isFidMinted' | 'hasAnimation' }>
+> = {
+  mint: { event: 'GeopletMinted', view: 'isFidMinted' },
+  animation: { event: 'AnimationUpgraded', view: 'hasAnimation' },
+};
+
+export interface RefundCandidate {
+  ledgerId: string;
+  fid: number;
+  purpose: PaymentPurpose;
+  status: PaymentLedgerEntry['status'];
+  payer: string | null;
+  amount: string;              // USDC atomic units
+  settlementTxHash: string;
+  refundTxHash: string | null;
+  settledAt: string;
+  lastError: string | null;
+}
+
+/**
+ * Payer + amount of the USDC transfer in a settlement transaction
+ */
+export async function getSettlementTransfer(
+  settlementTxHash: string
+): Promise<{ payer: Address; amount: bigint; blockNumber: bigint } | null> {
+  const receipt = await publicClient
+    .getTransactionReceipt({ hash: settlementTxHash as Hash })
+    .catch(() => null);
+
+  if (!receipt || receipt.status !== 'success') {
+    return null;
+  }
+
+  const transfers = parseEventLogs({
+    abi: erc20Abi,
+    eventName: 'Transfer',
+    logs: receipt.logs.filter((log) => isAddressEqual(log.address, BASE_USDC_ADDRESS as Address)),
+  });
+
+  if (transfers.length === 0) {
+    return null;
+  }
+
+  // Facilitators may forward funds - the first transfer is the payer's authorization
+  return {
+    payer: transfers[0].args.from,
+    amount: transfers[0].args.value,
+    blockNumber: receipt.blockNumber,
+  };
+}
+
+/**
+ * Whether a payment's own fulfillment transaction minted/upgraded its FID/tokenId
+ */
+async function isOwnFulfillment(payment: PaymentLedgerEntry): Promise<boolean> {
+  const fulfillment = FULFILLMENT[payment.purpose];
+  if (!fulfillment || !payment.fulfillment_tx_hash) {
+    return false;
+  }
+
+  const receipt = await publicClient
+    .getTransactionReceipt({ hash: payment.fulfillment_tx_hash as Hash })
+    .catch(() => null);
+
+  if (!receipt || receipt.status !== 'success') {
+    return false;
+  }
+
+  return parseEventLogs({
+    abi: GEOPLET_CONFIG.abi,
+    eventName: fulfillment.event,
+    logs: receipt.logs.filter((log) => isAddressEqual(log.address, GEOPLET_CONFIG.address)),
+  }).some((log) => log.args.tokenId === BigInt(payment.fid));
+}
+
+/**
+ * "<purpose>:<fid>" keys already fulfilled by a 'minted' ledger row
+ */
+async function getMintedKeys(fids: number[]): Promise<Set<string>> {
+  const { data, error } = await supabaseAdmin
+    .from('payment_ledger')
+    .select('purpose, fid')
+    .in('fid', fids)
+    .in('purpose', Object.keys(FULFILLMENT))
+    .eq('status', 'minted');
+
+  if (error) {
+    throw new PaymentLedgerError('DB_ERROR', error.message);
+  }
+
+  return new Set((data ?? []).map((row) => `${row.purpose}:${row.fid}`));
+}
+
+/**
+ * Settled-but-unfulfilled payments older than olderThanHours
+ * Also returns refund_pending rows so in-flight refunds can be confirmed.
+ */
+export async function getRefundQueue(
+  olderThanHours = REFUND_MIN_AGE_HOURS
+): Promise<RefundCandidate[]> {
+  const cutoff = new Date(Date.now() - olderThanHours * 60 * 60 * 1000).toISOString();
+
+  const { data, error } = await supabaseAdmin
+    .from('payment_ledger')
+    .select('*')
+    .in('status', ['settled', 'mint_submitted', 'failed', 'refund_pending'])
+    .in('purpose', Object.keys(FULFILLMENT))
+    .eq('source_network', 'base')
+    .not('settlement_tx_hash', 'is', null)
+    .lt('created_at', cutoff)
+    .order('created_at', { ascending: true })
+    .limit(200);
+
+  if (error) {
+    throw new PaymentLedgerError('DB_ERROR', error.message);
+  }
+
+  const payments: PaymentLedgerEntry[] = data ?? [];
+  if (payments.length === 0) {
+    return [];
+  }
+
+  const [transfers, ownFulfillment, onchain, claimed] = await Promise.all([
+    Promise.all(payments.map((payment) => getSettlementTransfer(payment.settlement_tx_hash!))),
+    Promise.all(payments.map((payment) => isOwnFulfillment(payment))),
+    publicClient.multicall({
+      contracts: payments.map((payment) => ({
+        address: GEOPLET_CONFIG.address,
+        abi: GEOPLET_CONFIG.abi,
+        functionName: FULFILLMENT[payment.purpose]!.view,
+        args: [BigInt(payment.fid)],
+      })),
+      allowFailure: false,
+    }) as Promise<boolean[]>,
+    getMintedKeys([...new Set(payments.map((payment) => payment.fid))]),
+  ]);
+
+  // Payments whose own transaction fulfilled them claim their FID/token first
+  payments.forEach((payment, i) => {
+    if (ownFulfillment[i]) claimed.add(`${payment.purpose}:${payment.fid}`);
+  });
+
+  return payments
+    .map((payment, i): RefundCandidate | null => {
+      const key = `${payment.purpose}:${payment.fid}`;
+      const inFlight = payment.status === 'refund_pending';   // Always listed, so it can be confirmed
+
+      if (ownFulfillment[i] && !inFlight) {
+        return null;
+      }
+
+      // Minted/animated on-chain and nobody claims it yet: assume it was this
+      // (oldest) payment with a lost report - later ones are duplicates
+      if (onchain[i] && !claimed.has(key) && !inFlight) {
+        claimed.add(key);
+        return null;
+      }
+
+      const transfer = transfers[i];
+
+      return {
+        ledgerId: payment.id,
+        fid: payment.fid,
+        purpose: payment.purpose,
+        status: payment.status,
+        payer: transfer?.payer ?? payment.payer_address,
+        amount: transfer?.amount.toString() ?? payment.amount,
+        settlementTxHash: payment.settlement_tx_hash!,
+        refundTxHash: payment.refund_tx_hash,
+        settledAt: payment.created_at,
+        lastError: payment.last_error,
+      };
+    })
+    .filter((candidate): candidate is RefundCandidate => candidate !== null);
+}
+
+/**
+ * Wallets a refund may be sent from: contract owner() + REFUND_WALLET_ADDRESS
+ */
+async function getRefundSenders(): Promise<Address[]> {
+  const owner = await publicClient.readContract({
+    address: GEOPLET_CONFIG.address,
+    abi: GEOPLET_CONFIG.abi,
+    functionName: 'owner',
+  });
+
+  return REFUND_WALLET_ADDRESS && /^0x[a-fA-F0-9]{40}$/.test(REFUND_WALLET_ADDRESS)
+    ? [owner, REFUND_WALLET_ADDRESS as Address]
+    : [owner];
+}
+
+/**
+ * Check a refund transaction for a ledger row: successful USDC transfer of
+ * >= amount from the owner/refund wallet to the payer, not used by another row
+ * @returns null if still pending, otherwise whether it is a valid refund
+ */
+export async function verifyRefundTransaction(
+  ledgerId: string,
+  refundTxHash: string,
+  payer: string,
+  amount: string
+): Promise<{ valid: boolean; reason?: string } | null> {
+  const other = await getPaymentByTxHash('refund_tx_hash', refundTxHash);
+  if (other && other.id !== ledgerId) {
+    return { valid: false, reason: `Refund transaction already used for payment ${other.id}` };
+  }
+
+  const receipt = await publicClient
+    .getTransactionReceipt({ hash: refundTxHash as Hash })
+    .catch(() => null);
+
+  if (!receipt) {
+    return null;
+  }
+
+  if (receipt.status !== 'success') {
+    return { valid: false, reason: 'Refund transaction reverted' };
+  }
+
+  const transfers = parseEventLogs({
+    abi: erc20Abi,
+    eventName: 'Transfer',
+    logs: receipt.logs.filter((log) => isAddressEqual(log.address, BASE_USDC_ADDRESS as Address)),
+  });
+
+  const senders = await getRefundSenders();
+
+  const refunded = transfers.some(
+    (transfer) =>
+      senders.some((sender) => isAddressEqual(transfer.args.from, sender)) &&
+      isAddressEqual(transfer.args.to, payer as Address) &&
+      transfer.args.value >= BigInt(amount)
+  );
+
+  return refunded
+    ? { valid: true }
+    : { valid: false, reason: 'No matching USDC transfer from the owner/refund wallet to the payer' };
+}
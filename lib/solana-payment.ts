@@ -0,0 +1,265 @@
+/**
+ * Solana Payment Transaction (x402 "exact" scheme on Solana)
+ *
+ * Solana USDC has no EIP-3009, so the payer signs a transaction instead of an
+ * authorization: one SPL TransferChecked of USDC from the payer's associated
+ * token account to the onchain.fi intermediate's (SOLANA_TO_BASE), which
+ * bridges it to the treasury on Base. The facilitator submits it on settle.
+ *
+ * - Client: generateSolanaPaymentHeader(provider, options) → base64 X-Payment header
+ * - Server: parseSolanaPayment(header.payload.transaction) → payer, destination, amount
+ *
+ * Fee payer: `extra.feePayer` from the 402 terms when the facilitator pays
+ * fees (payer only partially signs), otherwise the payer.
+ *
+ * KISS Principle: Instructions built by hand, no spl-token dependency.
+ */
+
+import {
+  Connection,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { SOLANA_USDC_MINT, USDC_DECIMALS } from '@/lib/payment-config';
+import type { X402SolanaPaymentHeader } from '@/types/x402';
+
+const TOKEN_PROGRAM_ID = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
+const ASSOCIATED_TOKEN_PROGRAM_ID = new PublicKey('ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL');
+const COMPUTE_BUDGET_PROGRAM_ID = new PublicKey('ComputeBudget111111111111111111111111111111');
+
+// SPL Token instruction index: TransferChecked { amount: u64, decimals: u8 }
+const TRANSFER_CHECKED_INSTRUCTION = 12;
+
+const DEFAULT_SOLANA_RPC_URL = 'https://api.mainnet-beta.solana.com';
+
+export interface SolanaPaymentOptions {
+  payer: string;          // Payer wallet (base58)
+  payTo: string;          // Intermediate wallet - the transfer goes to its USDC token account
+  amount: string;         // USDC atomic units
+  feePayer?: string;      // Defaults to the payer
+  mint?: string;          // Defaults to SOLANA_USDC_MINT
+}
+
+export interface SolanaPayment {
+  payer: string;
+  feePayer: string;
+  source: string;         // Payer's token account
+  destination: string;    // Intermediate's token account
+  mint: string;
+  amount: string;
+  signature: string;      // Payer's signature (hex) - unique per transaction
+}
+
+// Wallet that can (partially) sign a transaction (e.g. sdk.wallet.getSolanaProvider())
+export interface SolanaTransactionSigner {
+  signTransaction<T extends VersionedTransaction>(transaction: T): Promise<{ signedTransaction: T }>;
+}
+
+export function getSolanaRpcUrl(): string {
+  return process.env.NEXT_PUBLIC_SOLANA_RPC_URL || DEFAULT_SOLANA_RPC_URL;
+}
+
+export function getAssociatedTokenAddress(owner: PublicKey, mint: PublicKey): PublicKey {
+  const [address] = PublicKey.findProgramAddressSync(
+    [owner.toBuffer(), TOKEN_PROGRAM_ID.toBuffer(), mint.toBuffer()],
+    ASSOCIATED_TOKEN_PROGRAM_ID
+  );
+  return address;
+}
+
+function createTransferCheckedInstruction(
+  source: PublicKey,
+  mint: PublicKey,
+  destination: PublicKey,
+  owner: PublicKey,
+  amount: bigint
+): TransactionInstruction {
+  const data = Buffer.alloc(10);
+  data.writeUInt8(TRANSFER_CHECKED_INSTRUCTION, 0);
+  data.writeBigUInt64LE(amount, 1);
+  data.writeUInt8(USDC_DECIMALS, 9);
+
+  return new TransactionInstruction({
+    programId: TOKEN_PROGRAM_ID,
+    keys: [
+      { pubkey: source, isSigner: false, isWritable: true },
+      { pubkey: mint, isSigner: false, isWritable: false },
+      { pubkey: destination, isSigner: false, isWritable: true },
+      { pubkey: owner, isSigner: true, isWritable: false },
+    ],
+    data,
+  });
+}
+
+/**
+ * Build the unsigned USDC transfer transaction
+ */
+export function buildSolanaPaymentTransaction(
+  options: SolanaPaymentOptions,
+  recentBlockhash: string
+): VersionedTransaction {
+  const payer = new PublicKey(options.payer);
+  const mint = new PublicKey(options.mint ?? SOLANA_USDC_MINT);
+
+  const instruction = createTransferCheckedInstruction(
+    getAssociatedTokenAddress(payer, mint),
+    mint,
+    getAssociatedTokenAddress(new PublicKey(options.payTo), mint),
+    payer,
+    BigInt(options.amount)
+  );
+
+  const message = new TransactionMessage({
+    payerKey: new PublicKey(options.feePayer ?? options.payer),
+    recentBlockhash,
+    instructions: [instruction],
+  }).compileToV0Message();
+
+  return new VersionedTransaction(message);
+}
+
+/**
+ * Build, sign and encode a Solana x402 payment header
+ *
+ * @param signer - Solana wallet (signs as the token owner)
+ * @param options - Payer, intermediate, amount (+ fee payer from the 402 terms)
+ * @returns Base64-encoded payment header
+ */
+export async function generateSolanaPaymentHeader(
+  signer: SolanaTransactionSigner,
+  options: SolanaPaymentOptions
+): Promise<string> {
+  const connection = new Connection(getSolanaRpcUrl(), 'confirmed');
+  const { blockhash } = await connection.getLatestBlockhash();
+
+  const { signedTransaction } = await signer.signTransaction(
+    buildSolanaPaymentTransaction(options, blockhash)
+  );
+
+  const paymentHeader: X402SolanaPaymentHeader = {
+    x402Version: 1,
+    scheme: 'exact',
+    network: 'solana',
+    payload: {
+      transaction: Buffer.from(signedTransaction.serialize()).toString('base64'),
+    },
+  };
+
+  console.log('[x402-SOLANA] Payment header generated:', {
+    payer: options.payer,
+    payTo: options.payTo,
+    amount: options.amount,
+    feePayer: options.feePayer ?? options.payer,
+  });
+
+  return Buffer.from(JSON.stringify(paymentHeader)).toString('base64');
+}
+
+/**
+ * Decode the USDC transfer from a signed payment transaction
+ * Only TransferChecked + compute budget instructions are allowed.
+ *
+ * @throws Error if the transaction is malformed or isn't a single signed transfer
+ */
+export function parseSolanaPayment(transactionBase64: string): SolanaPayment {
+  const transaction = VersionedTransaction.deserialize(Buffer.from(transactionBase64, 'base64'));
+  const { message } = transaction;
+
+  if (message.addressTableLookups.length > 0) {
+    throw new Error('Address lookup tables are not supported');
+  }
+
+  const accountKeys = message.staticAccountKeys;
+  let transfer: Omit<SolanaPayment, 'feePayer' | 'signature'> | null = null;
+  let ownerIndex = -1;
+
+  for (const instruction of message.compiledInstructions) {
+    const programId = accountKeys[instruction.programIdIndex];
+
+    if (programId.equals(COMPUTE_BUDGET_PROGRAM_ID)) continue;
+
+    if (!programId.equals(TOKEN_PROGRAM_ID)) {
+      throw new Error(`Unexpected program ${programId.toBase58()}`);
+    }
+
+    const data = Buffer.from(instruction.data);
+    if (data.length !== 10 || data[0] !== TRANSFER_CHECKED_INSTRUCTION || instruction.accountKeyIndexes.length !== 4) {
+      throw new Error('Token instruction is not a TransferChecked');
+    }
+
+    if (transfer) {
+      throw new Error('Transaction must contain exactly one transfer');
+    }
+
+    if (data[9] !== USDC_DECIMALS) {
+      throw new Error(`Unexpected token decimals ${data[9]}`);
+    }
+
+    const [source, mint, destination, owner] = instruction.accountKeyIndexes;
+    ownerIndex = owner;
+    transfer = {
+      payer: accountKeys[owner].toBase58(),
+      source: accountKeys[source].toBase58(),
+      destination: accountKeys[destination].toBase58(),
+      mint: accountKeys[mint].toBase58(),
+      amount: data.readBigUInt64LE(1).toString(),
+    };
+  }
+
+  if (!transfer) {
+    throw new Error('Transaction contains no USDC transfer');
+  }
+
+  // Owner must be a signer and must already have signed
+  const signature = ownerIndex < message.header.numRequiredSignatures
+    ? transaction.signatures[ownerIndex]
+    : undefined;
+
+  if (!signature || signature.every((byte) => byte === 0)) {
+    throw new Error('Transaction is not signed by the payer');
+  }
+
+  return {
+    ...transfer,
+    feePayer: accountKeys[0].toBase58(),
+    signature: `0x${Buffer.from(signature).toString('hex')}`,
+  };
+}
+
+/**
+ * Check a decoded transfer against the payment terms
+ * @returns Validation errors (empty = valid)
+ */
+export function validateSolanaPayment(
+  payment: SolanaPayment,
+  expected: { amount: string; payTo: string; feePayer?: string }
+): string[] {
+  const errors: string[] = [];
+  const mint = new PublicKey(SOLANA_USDC_MINT);
+
+  if (payment.mint !== mint.toBase58()) {
+    errors.push(`Invalid token mint (expected Solana USDC, got ${payment.mint})`);
+  }
+
+  const expectedDestination = getAssociatedTokenAddress(new PublicKey(expected.payTo), mint).toBase58();
+  if (payment.destination !== expectedDestination) {
+    errors.push(`Invalid transfer destination (expected USDC account of ${expected.payTo})`);
+  }
+
+  const expectedSource = getAssociatedTokenAddress(new PublicKey(payment.payer), mint).toBase58();
+  if (payment.source !== expectedSource) {
+    errors.push('Invalid transfer source (must be the payer\'s USDC account)');
+  }
+
+  if (payment.amount !== expected.amount) {
+    errors.push(`Invalid payment value (expected ${expected.amount}, got ${payment.amount})`);
+  }
+
+  if (expected.feePayer && payment.feePayer !== expected.feePayer) {
+    errors.push(`Invalid fee payer (expected ${expected.feePayer})`);
+  }
+
+  return errors;
+}
@@ -28,6 +28,8 @@ export interface UnmintedGeoplet {
   created_at: string;
   username: string;
   cast_sent: boolean;
+  style_id: string | null;     // lib/art-styles.ts id
+  version_id: string | null;   // Selected generation_versions row
 }
 
 export interface UnconvertedUser {
@@ -37,3 +39,233 @@ export interface UnconvertedUser {
   generated_at: string;
   cast_sent: boolean;
 }
+
+export interface AirdropBatch {
+  id: string;
+  airdrop_id: string;
+  chunk_index: number;
+  chunk_count: number;
+  method: 'batchDepositEqual' | 'batchDepositToTokens';
+  token_address: string;
+  token_symbol: string;
+  token_ids: number[];
+  amounts: string[];
+  total_amount: string;
+  tx_hash: string;
+  status: 'submitted' | 'confirmed' | 'failed';
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PaymentLedgerEntry {
+  id: string;
+  idempotency_key: string;
+  purpose: 'mint' | 'regenerate' | 'animation';
+  fid: number;
+  user_address: string;
+  payer_address: string | null;
+  amount: string;
+  eip3009_nonce: string | null;
+  source_network: 'base' | 'solana';
+  onchain_payment_id: string | null;
+  facilitator: string;              // x402 facilitator that verified (settles through the same one)
+  status:
+    | 'verified'
+    | 'settled'
+    | 'mint_submitted'
+    | 'minted'
+    | 'failed'
+    | 'refund_pending'
+    | 'refunded';
+  settlement_tx_hash: string | null;
+  fulfillment_tx_hash: string | null;
+  refund_tx_hash: string | null;
+  last_error: string | null;
+  updated_by: string;
+  event_details: Record<string, unknown>;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PaymentEvent {
+  id: number;
+  payment_id: string;
+  from_status: PaymentLedgerEntry['status'] | null;
+  to_status: PaymentLedgerEntry['status'];
+  actor: string;
+  details: Record<string, unknown>;
+  created_at: string;
+}
+
+export interface MintVoucherRecord {
+  id: string;
+  fid: number;
+  to_address: string;
+  nonce: string;
+  deadline: number;
+  digest: string;
+  signer_address: string | null;
+  purpose: 'mint' | 'recovery' | 'upgrade' | 'upgrade_recovery';   // fid = tokenId for upgrades
+  payment_id: string | null;
+  art_style: string | null;    // Style of the generation being minted
+  status: 'outstanding' | 'consumed' | 'expired' | 'superseded' | 'revoked';
+  revoked_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+export interface NotificationToken {
+  fid: number;
+  url: string;
+  token: string;
+  enabled: boolean;
+  app_key: string;
+  last_event: string;
+  invalid_at: string | null;
+  rate_limited_at: string | null;
+  last_sent_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NotificationDelivery {
+  id: number;
+  notification_id: string;
+  fid: number;
+  trigger: string;
+  title: string;
+  status: 'sent' | 'invalid' | 'rate_limited' | 'failed';
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OutreachCampaign {
+  id: string;
+  name: string;
+  template: string;
+  message: string;
+  audience: { type: 'not_contacted' | 'all' | 'fids'; fids?: number[] };
+  scheduled_at: string;
+  status: 'scheduled' | 'running' | 'paused' | 'completed' | 'cancelled';
+  locked_until: string | null;
+  template_id: string | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface OutreachRecipient {
+  id: string;
+  campaign_id: string;
+  position: number;
+  fid: number;
+  username: string | null;
+  status: 'queued' | 'sent' | 'failed' | 'skipped';
+  variant_id: string | null;
+  cast_text: string | null;
+  cast_hash: string | null;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: string;
+  sent_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FunnelEvent {
+  id: string;
+  fid: number;
+  stage:
+    | 'app_opened'
+    | 'warplet_found'
+    | 'generation_succeeded'
+    | 'saved'
+    | 'payment_verified'
+    | 'payment_settled'
+    | 'minted';
+  campaign_id: string | null;
+  created_at: string;
+}
+
+export interface OutreachTemplate {
+  id: string;
+  key: string;
+  name: string;
+  archived: boolean;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OutreachTemplateVariant {
+  id: string;
+  template_id: string;
+  label: string;
+  body: string;
+  weight: number;
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OutreachSuppression {
+  fid: number;
+  source: 'reply' | 'admin';
+  cast_hash: string | null;
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface GenerationRun {
+  id: string;
+  job_id: string | null;
+  fid: number | null;
+  token_id: string;
+  style_id: string;
+  provider: 'openai' | 'local' | null;       // Provider that produced the image (null = all failed)
+  model: string | null;
+  status: 'succeeded' | 'failed';
+  latency_ms: number;
+  attempts: { provider: 'openai' | 'local'; latency_ms: number; error: string | null }[];
+  cost_usd: number;
+  error: string | null;
+  created_at: string;
+}
+
+export interface GenerationJob {
+  id: string;
+  kind: 'generate' | 'regenerate';
+  fid: number;
+  username: string;
+  token_id: string;
+  name: string;
+  image_url: string;
+  style_id: string;
+  status: 'queued' | 'fetching_source' | 'generating' | 'compressing' | 'saved' | 'failed';
+  attempts: number;
+  next_attempt_at: string;
+  locked_until: string | null;
+  provider: 'openai' | 'local' | null;
+  payment_id: string | null;             // payment_ledger row (paid regeneration)
+  image_data: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface GenerationVersion {
+  id: string;
+  fid: number;
+  version: number;
+  image_data: string;
+  style_id: string | null;
+  provider: 'openai' | 'local' | null;
+  job_id: string | null;
+  payment_id: string | null;
+  created_at: string;
+}
@@ -0,0 +1,148 @@
+/**
+ * Animation Upgrade Voucher (Server-Side)
+ *
+ * Signs EIP-712 UpgradeVoucher(address to,uint256 tokenId,uint256 nonce,uint256 deadline)
+ * for Geoplets.upgradeToAnimated, and checks on-chain upgrade eligibility.
+ *
+ * Used by:
+ * - /api/generate-animation (x402 paid upgrade)
+ * - /api/get-upgrade-signature-paid (recovery after settled payment)
+ *
+ * Security: Same signer + 60-min deadline as mint vouchers (see lib/voucher-signer.ts),
+ * registered in mint_vouchers with the same per-token outstanding limit
+ * (see lib/voucher-registry.ts).
+ */
+
+import { createPublicClient, http, hashTypedData, type Address, isAddressEqual } from 'viem';
+import { base } from 'viem/chains';
+import { GEOPLET_CONFIG } from '@/lib/contracts';
+import {
+  assertVoucherCapacity,
+  generateVoucherNonce,
+  registerVoucher,
+  VoucherRegistryError,
+  VOUCHER_TTL_SECONDS,
+} from '@/lib/voucher-registry';
+import { signVoucher } from '@/lib/voucher-signer';
+
+const publicClient = createPublicClient({
+  chain: base,
+  transport: http(process.env.NEXT_PUBLIC_BASE_RPC_URL),
+});
+
+export interface UpgradeVoucherResponse {
+  to: string;
+  tokenId: string;
+  nonce: string;
+  deadline: string;
+}
+
+export type UpgradeEligibility =
+  | { eligible: true }
+  | { eligible: false; reason: 'not_minted' | 'not_owner' | 'already_animated'; message: string };
+
+/**
+ * Check that a token exists, is owned by the requester and has no animation yet
+ */
+export async function checkUpgradeEligibility(
+  userAddress: Address,
+  tokenId: number
+): Promise<UpgradeEligibility> {
+  let owner: Address;
+
+  try {
+    owner = await publicClient.readContract({
+      address: GEOPLET_CONFIG.address,
+      abi: GEOPLET_CONFIG.abi,
+      functionName: 'ownerOf',
+      args: [BigInt(tokenId)],
+    });
+  } catch {
+    return { eligible: false, reason: 'not_minted', message: `Geoplet #${tokenId} does not exist` };
+  }
+
+  if (!isAddressEqual(owner, userAddress)) {
+    return { eligible: false, reason: 'not_owner', message: 'Only the token owner can upgrade this Geoplet' };
+  }
+
+  const hasAnimation = await publicClient.readContract({
+    address: GEOPLET_CONFIG.address,
+    abi: GEOPLET_CONFIG.abi,
+    functionName: 'hasAnimation',
+    args: [BigInt(tokenId)],
+  });
+
+  if (hasAnimation) {
+    return { eligible: false, reason: 'already_animated', message: `Geoplet #${tokenId} is already animated` };
+  }
+
+  return { eligible: true };
+}
+
+/**
+ * Generate + register an EIP-712 signature for an upgrade voucher
+ * (Random nonce + 60-min deadline, same signer as mint vouchers)
+ * Throws VoucherRegistryError('LIMIT_REACHED') if the token has too many live vouchers.
+ */
+export async function generateUpgradeSignature(
+  to: Address,
+  tokenId: number,
+  options: { purpose: 'upgrade' | 'upgrade_recovery'; paymentId?: string | null }
+): Promise<{ voucher: UpgradeVoucherResponse; signature: `0x${string}` }> {
+  await assertVoucherCapacity(tokenId, 'upgrade');
+
+  const now = Math.floor(Date.now() / 1000);
+
+  // Retry once on the (astronomically unlikely) nonce collision
+  for (let attempt = 1; ; attempt++) {
+    const voucher = {
+      to,
+      tokenId: BigInt(tokenId),
+      nonce: generateVoucherNonce(),
+      deadline: BigInt(now + VOUCHER_TTL_SECONDS),
+    };
+
+    const typedData = {
+      domain: {
+        ...GEOPLET_CONFIG.eip712.domain,
+        chainId: GEOPLET_CONFIG.chainId,
+        verifyingContract: GEOPLET_CONFIG.address,
+      },
+      types: GEOPLET_CONFIG.eip712.types,
+      primaryType: 'UpgradeVoucher' as const,
+      message: voucher,
+    };
+
+    const { signature, signer } = await signVoucher(typedData);
+
+    try {
+      await registerVoucher({
+        fid: tokenId,
+        to,
+        nonce: voucher.nonce,
+        deadline: voucher.deadline,
+        digest: hashTypedData(typedData),   // Same digest the contract stores in usedSignatures
+        signer,
+        purpose: options.purpose,
+        paymentId: options.paymentId,
+      });
+    } catch (error) {
+      if (error instanceof VoucherRegistryError && error.code === 'NONCE_COLLISION' && attempt < 2) {
+        continue;
+      }
+      throw error;
+    }
+
+    console.log('[✓ Upgrade signature verified]', { signer, tokenId });
+
+    return {
+      voucher: {
+        to: voucher.to,
+        tokenId: voucher.tokenId.toString(),
+        nonce: voucher.nonce.toString(),
+        deadline: voucher.deadline.toString(),
+      },
+      signature,
+    };
+  }
+}
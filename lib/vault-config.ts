@@ -0,0 +1,53 @@
+/**
+ * Token Vault Configuration
+ *
+ * ERC20 tokens that can be held inside a Geoplet (token-bound treasury).
+ * Each Geoplet holds per-token balances in the contract (tokenBalances mapping).
+ *
+ * Contract functions (Geoplets.sol - ERC20 Treasury):
+ * - depositToToken / batchDepositEqual / batchDepositToTokens (onlyOwner)
+ * - getTokenBalance / hasBalance (view)
+ * - withdraw (NFT holder, only when withdrawalsEnabled)
+ *
+ * KISS Principle: One list of supported tokens shared by vault UI and admin tools.
+ */
+
+import { BASE_USDC_ADDRESS } from '@/lib/payment-config';
+
+export interface VaultToken {
+  symbol: string;
+  name: string;
+  address: `0x${string}`;
+  decimals: number;
+}
+
+// $GEOPLET token address (optional until the token is live)
+const GEOPLET_TOKEN_ADDRESS = process.env.NEXT_PUBLIC_GEOPLET_TOKEN_ADDRESS as `0x${string}` | undefined;
+
+export const VAULT_TOKENS: VaultToken[] = [
+  {
+    symbol: 'USDC',
+    name: 'USD Coin',
+    address: BASE_USDC_ADDRESS as `0x${string}`,
+    decimals: 6,
+  },
+  ...(GEOPLET_TOKEN_ADDRESS
+    ? [
+        {
+          symbol: 'GEOPLET',
+          name: 'Geoplet',
+          address: GEOPLET_TOKEN_ADDRESS,
+          decimals: 18,
+        },
+      ]
+    : []),
+];
+
+/**
+ * Find a supported vault token by address (case-insensitive)
+ */
+export function getVaultToken(address: string): VaultToken | undefined {
+  return VAULT_TOKENS.find(
+    (token) => token.address.toLowerCase() === address.toLowerCase()
+  );
+}
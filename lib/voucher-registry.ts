@@ -0,0 +1,347 @@
+/**
+ * Mint Voucher Registry (Server-Side)
+ *
+ * Every signed MintVoucher and UpgradeVoucher is stored in mint_vouchers
+ * before it leaves the server, so we can audit exactly which signatures are
+ * live. Upgrade vouchers are keyed by tokenId (purpose 'upgrade' |
+ * 'upgrade_recovery', FID = tokenId in 1:1 mapping).
+ *
+ * - Nonces are random uint256 (UNIQUE in the table), not timestamps
+ * - At most MAX_OUTSTANDING_VOUCHERS live vouchers per FID and kind (mint and
+ *   upgrade limits are separate - token #N's upgrades never use FID N's mint slots)
+ * - Outstanding vouchers are resolved lazily against the contract:
+ *     usedSignatures[digest]  → consumed
+ *     isFidMinted(fid)        → superseded (another voucher minted the FID)
+ *     hasAnimation(tokenId)   → superseded (upgrade vouchers: token already animated)
+ *     deadline passed         → expired
+ *
+ * Revoking only affects the registry (frees the FID's slots, marks it for
+ * audit). A signature already handed out stays valid on-chain until its
+ * deadline - rotate the signer wallet to invalidate it immediately
+ * (see lib/voucher-signer.ts).
+ *
+ * KISS Principle: Registry is bookkeeping; the contract stays the authority.
+ */
+
+import { createPublicClient, http, type Hash } from 'viem';
+import { base } from 'viem/chains';
+import { randomBytes } from 'crypto';
+import { GEOPLET_CONFIG } from '@/lib/contracts';
+import { supabaseAdmin, type MintVoucherRecord } from '@/lib/supabase';
+
+const publicClient = createPublicClient({
+  chain: base,
+  transport: http(process.env.NEXT_PUBLIC_BASE_RPC_URL),
+});
+
+export type VoucherPurpose = MintVoucherRecord['purpose'];
+export type VoucherStatus = MintVoucherRecord['status'];
+
+export const VOUCHER_STATUSES: readonly VoucherStatus[] = [
+  'outstanding',
+  'consumed',
+  'expired',
+  'superseded',
+  'revoked',
+];
+
+// Live vouchers allowed per FID (retries, wallet switches)
+export const MAX_OUTSTANDING_VOUCHERS = 3;
+
+// Voucher validity (contract MAX_SIGNATURE_VALIDITY is 1 hour)
+export const VOUCHER_TTL_SECONDS = 60 * 60;
+
+export type VoucherRegistryErrorCode =
+  | 'LIMIT_REACHED'
+  | 'NONCE_COLLISION'
+  | 'NOT_FOUND'
+  | 'NOT_OUTSTANDING'
+  | 'DB_ERROR';
+
+export class VoucherRegistryError extends Error {
+  constructor(public code: VoucherRegistryErrorCode, message: string) {
+    super(message);
+    this.name = 'VoucherRegistryError';
+  }
+}
+
+export type VoucherKind = 'mint' | 'upgrade';
+
+export function isUpgradeVoucher(voucher: Pick<MintVoucherRecord, 'purpose'>): boolean {
+  return voucher.purpose === 'upgrade' || voucher.purpose === 'upgrade_recovery';
+}
+
+/**
+ * Random uint256 nonce
+ */
+export function generateVoucherNonce(): bigint {
+  return BigInt(`0x${randomBytes(32).toString('hex')}`);
+}
+
+/**
+ * Resolve outstanding vouchers against the contract
+ * @returns vouchers that are still outstanding
+ */
+export async function syncOutstandingVouchers(fid?: number): Promise<MintVoucherRecord[]> {
+  let query = supabaseAdmin
+    .from('mint_vouchers')
+    .select('*')
+    .eq('status', 'outstanding')
+    .order('created_at', { ascending: true })
+    .limit(500);
+
+  if (fid !== undefined) query = query.eq('fid', fid);
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new VoucherRegistryError('DB_ERROR', error.message);
+  }
+
+  const vouchers: MintVoucherRecord[] = data ?? [];
+  if (vouchers.length === 0) {
+    return [];
+  }
+
+  const fids = [...new Set(vouchers.filter((voucher) => !isUpgradeVoucher(voucher)).map((voucher) => voucher.fid))];
+  const tokenIds = [...new Set(vouchers.filter(isUpgradeVoucher).map((voucher) => voucher.fid))];
+
+  const [used, minted, animated] = await Promise.all([
+    publicClient.multicall({
+      contracts: vouchers.map((voucher) => ({
+        address: GEOPLET_CONFIG.address,
+        abi: GEOPLET_CONFIG.abi,
+        functionName: 'usedSignatures' as const,
+        args: [voucher.digest as Hash],
+      })),
+      allowFailure: false,
+    }),
+    publicClient.multicall({
+      contracts: fids.map((id) => ({
+        address: GEOPLET_CONFIG.address,
+        abi: GEOPLET_CONFIG.abi,
+        functionName: 'isFidMinted' as const,
+        args: [BigInt(id)],
+      })),
+      allowFailure: false,
+    }),
+    publicClient.multicall({
+      contracts: tokenIds.map((id) => ({
+        address: GEOPLET_CONFIG.address,
+        abi: GEOPLET_CONFIG.abi,
+        functionName: 'hasAnimation' as const,
+        args: [BigInt(id)],
+      })),
+      allowFailure: false,
+    }),
+  ]);
+
+  const mintedFids = new Set(fids.filter((_, i) => minted[i]));
+  const animatedTokens = new Set(tokenIds.filter((_, i) => animated[i]));
+  const now = Math.floor(Date.now() / 1000);
+  const outstanding: MintVoucherRecord[] = [];
+
+  for (const [i, voucher] of vouchers.entries()) {
+    const status: VoucherStatus | null = used[i]
+      ? 'consumed'
+      : (isUpgradeVoucher(voucher) ? animatedTokens : mintedFids).has(voucher.fid)
+      ? 'superseded'
+      : voucher.deadline < now
+      ? 'expired'
+      : null;
+
+    if (!status) {
+      outstanding.push(voucher);
+      continue;
+    }
+
+    const { error: updateError } = await supabaseAdmin
+      .from('mint_vouchers')
+      .update({ status, resolved_at: new Date().toISOString() })
+      .eq('id', voucher.id)
+      .eq('status', 'outstanding');
+
+    if (updateError) {
+      throw new VoucherRegistryError('DB_ERROR', updateError.message);
+    }
+
+    console.log('[VOUCHERS] Resolved:', { id: voucher.id, fid: voucher.fid, status });
+  }
+
+  return outstanding;
+}
+
+/**
+ * Throw LIMIT_REACHED if the FID (mint) / tokenId (upgrade) already has too many live vouchers of that kind
+ */
+export async function assertVoucherCapacity(fid: number, kind: VoucherKind): Promise<void> {
+  const outstanding = (await syncOutstandingVouchers(fid)).filter(
+    (voucher) => isUpgradeVoucher(voucher) === (kind === 'upgrade')
+  );
+
+  if (outstanding.length >= MAX_OUTSTANDING_VOUCHERS) {
+    throw new VoucherRegistryError(
+      'LIMIT_REACHED',
+      kind === 'upgrade'
+        ? `Geoplet #${fid} already has ${outstanding.length} unused upgrade signatures - use one or wait for them to expire`
+        : `FID ${fid} already has ${outstanding.length} unused signatures - use one or wait for them to expire`
+    );
+  }
+}
+
+/**
+ * Store an issued voucher (call before returning the signature)
+ */
+export async function registerVoucher(input: {
+  fid: number;
+  to: string;
+  nonce: bigint;
+  deadline: bigint;
+  digest: Hash;
+  signer: string;
+  purpose: VoucherPurpose;
+  paymentId?: string | null;
+  artStyle?: string | null;
+}): Promise<MintVoucherRecord> {
+  const { data, error } = await supabaseAdmin
+    .from('mint_vouchers')
+    .insert({
+      fid: input.fid,
+      to_address: input.to,
+      nonce: input.nonce.toString(),
+      deadline: Number(input.deadline),
+      digest: input.digest,
+      signer_address: input.signer.toLowerCase(),
+      purpose: input.purpose,
+      payment_id: input.paymentId ?? null,
+      art_style: input.artStyle ?? null,
+      status: 'outstanding',
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new VoucherRegistryError('NONCE_COLLISION', 'Voucher nonce already issued');
+    }
+    throw new VoucherRegistryError('DB_ERROR', error.message);
+  }
+
+  console.log('[VOUCHERS] ✅ Registered:', {
+    id: data.id,
+    fid: input.fid,
+    purpose: input.purpose,
+    paymentId: input.paymentId ?? null,
+  });
+
+  return data;
+}
+
+export async function listVouchers(filter: {
+  fid?: number;
+  status?: VoucherStatus;
+  limit?: number;
+}): Promise<MintVoucherRecord[]> {
+  let query = supabaseAdmin
+    .from('mint_vouchers')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(filter.limit ?? 50);
+
+  if (filter.fid !== undefined) query = query.eq('fid', filter.fid);
+  if (filter.status) query = query.eq('status', filter.status);
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new VoucherRegistryError('DB_ERROR', error.message);
+  }
+
+  return data ?? [];
+}
+
+/**
+ * Revoke outstanding vouchers - a single one by id, or every live one for a FID
+ * @returns revoked vouchers
+ */
+export async function revokeVouchers(
+  target: { id: string } | { fid: number },
+  actor: string
+): Promise<MintVoucherRecord[]> {
+  if ('id' in target) {
+    const { data: existing, error: lookupError } = await supabaseAdmin
+      .from('mint_vouchers')
+      .select('*')
+      .eq('id', target.id)
+      .maybeSingle();
+
+    if (lookupError) {
+      throw new VoucherRegistryError('DB_ERROR', lookupError.message);
+    }
+    if (!existing) {
+      throw new VoucherRegistryError('NOT_FOUND', `Voucher ${target.id} not found`);
+    }
+    if (existing.status !== 'outstanding') {
+      throw new VoucherRegistryError(
+        'NOT_OUTSTANDING',
+        `Voucher is "${existing.status}", only outstanding vouchers can be revoked`
+      );
+    }
+  }
+
+  let query = supabaseAdmin
+    .from('mint_vouchers')
+    .update({ status: 'revoked', revoked_by: actor, resolved_at: new Date().toISOString() })
+    .eq('status', 'outstanding');
+
+  query = 'id' in target ? query.eq('id', target.id) : query.eq('fid', target.fid);
+
+  const { data, error } = await query.select();
+
+  if (error) {
+    throw new VoucherRegistryError('DB_ERROR', error.message);
+  }
+
+  console.log('[VOUCHERS] Revoked:', { target, actor, count: data?.length ?? 0 });
+
+  return data ?? [];
+}
+
+/**
+ * Revoke outstanding vouchers signed by a key the contract no longer accepts
+ * (after setSignerWallet). Vouchers issued before signer_address was tracked are
+ * resolved normally by syncOutstandingVouchers.
+ * @returns number of revoked vouchers
+ */
+export async function revokeVouchersBySigner(signer: string, actor: string): Promise<number> {
+  const { data, error } = await supabaseAdmin
+    .from('mint_vouchers')
+    .update({ status: 'revoked', revoked_by: actor, resolved_at: new Date().toISOString() })
+    .eq('status', 'outstanding')
+    .eq('signer_address', signer.toLowerCase())
+    .select('id');
+
+  if (error) {
+    throw new VoucherRegistryError('DB_ERROR', error.message);
+  }
+
+  console.log('[VOUCHERS] Revoked for rotated signer:', { signer, actor, count: data?.length ?? 0 });
+
+  return data?.length ?? 0;
+}
+
+/**
+ * HTTP status for a registry error (used by API routes)
+ */
+export function voucherErrorStatus(error: VoucherRegistryError): number {
+  switch (error.code) {
+    case 'LIMIT_REACHED':
+      return 429;
+    case 'NOT_FOUND':
+      return 404;
+    case 'NOT_OUTSTANDING':
+      return 409;
+    default:
+      return 500;
+  }
+}
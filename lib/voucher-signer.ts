@@ -0,0 +1,404 @@
+/**
+ * Voucher Signer (Server-Side)
+ *
+ * One place that signs EIP-712 vouchers (MintVoucher, UpgradeVoucher) for the
+ * contract's signerWallet. Routes never touch key material directly.
+ *
+ * Backends (per slot, selected by <PREFIX>_BACKEND):
+ * - local:    in-process key          <PREFIX>_PRIVATE_KEY
+ * - remote:   HTTP remote signer      <PREFIX>_REMOTE_URL, <PREFIX>_REMOTE_TOKEN
+ *             GET  /address → { address }
+ *             POST /sign    { typedData } → { signature }  (bigints as strings)
+ * - keystore: encrypted JSON keystore <PREFIX>_KEYSTORE_PATH, <PREFIX>_KEYSTORE_PASSWORD
+ *
+ * Slots: SIGNER_* (current) and NEXT_SIGNER_* (optional, during rotation).
+ *
+ * Rotation:
+ * 1. Configure NEXT_SIGNER_* and deploy - vouchers are still signed by SIGNER_*
+ * 2. Owner calls setSignerWallet(next) (admin Signer tab)
+ * 3. /api/admin/signer confirms SignerWalletUpdated, refreshes the cached
+ *    on-chain signer and revokes registry vouchers signed by the old key
+ * 4. Promote NEXT_SIGNER_* to SIGNER_* and remove the old key
+ * Until step 3 lands on-chain, the old signer keeps signing, so in-flight
+ * vouchers stay valid. The signer used is always the configured one that
+ * matches the contract's signerWallet.
+ *
+ * The cached signerWallet is re-read on demand - when the TTL expires, when no
+ * configured key matches it, and after any signing failure - so a rotation done
+ * outside the admin tab can't leave us signing with a key the contract no longer
+ * accepts. No background watcher (serverless instances, CLI scripts must exit).
+ *
+ * KISS Principle: The contract decides which key is live; config just lists candidates.
+ */
+
+import { readFile } from 'fs/promises';
+import { createDecipheriv, pbkdf2, scrypt } from 'crypto';
+import { promisify } from 'util';
+import {
+  createPublicClient,
+  http,
+  keccak256,
+  concat,
+  toHex,
+  getAddress,
+  isAddressEqual,
+  recoverTypedDataAddress,
+  parseEventLogs,
+  type Address,
+  type Hash,
+  type Hex,
+  type TypedDataDefinition,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { base } from 'viem/chains';
+import { GEOPLET_CONFIG } from '@/lib/contracts';
+import { revokeVouchersBySigner } from '@/lib/voucher-registry';
+
+const publicClient = createPublicClient({
+  chain: base,
+  transport: http(process.env.NEXT_PUBLIC_BASE_RPC_URL),
+});
+
+// How long the contract's signerWallet is cached
+const ONCHAIN_SIGNER_TTL_MS = 30_000;
+
+type VoucherTypes = typeof GEOPLET_CONFIG.eip712.types;
+export type VoucherPrimaryType = keyof VoucherTypes;
+export type VoucherTypedData = TypedDataDefinition<VoucherTypes, VoucherPrimaryType>;
+
+export type SignerBackend = 'local' | 'remote' | 'keystore';
+export type SignerSlot = 'current' | 'next';
+
+export interface VoucherSigner {
+  backend: SignerBackend;
+  getAddress(): Promise<Address>;
+  signTypedData(typedData: VoucherTypedData): Promise<Hex>;
+}
+
+/**
+ * In-process private key
+ */
+export function createLocalSigner(privateKey: string): VoucherSigner {
+  const account = privateKeyToAccount(privateKey as Hex);
+
+  return {
+    backend: 'local',
+    getAddress: async () => account.address,
+    signTypedData: (typedData) => account.signTypedData(typedData),
+  };
+}
+
+/**
+ * Remote signer over HTTP (key never enters this process)
+ */
+export function createRemoteSigner(url: string, token?: string): VoucherSigner {
+  const baseUrl = url.replace(/\/$/, '');
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+  let address: Address | null = null;
+
+  return {
+    backend: 'remote',
+    async getAddress() {
+      if (address) return address;
+
+      const response = await fetch(`${baseUrl}/address`, { headers });
+      if (!response.ok) {
+        throw new Error(`Remote signer /address failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+      address = getAddress(data.address);
+      return address;
+    },
+    async signTypedData(typedData) {
+      const response = await fetch(`${baseUrl}/sign`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ typedData }, (_, value) =>
+          typeof value === 'bigint' ? value.toString() : value
+        ),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Remote signer /sign failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return data.signature as Hex;
+    },
+  };
+}
+
+/**
+ * Decrypt a Web3 Secret Storage (v3) keystore → private key
+ * Supports scrypt and pbkdf2 (hmac-sha256) with aes-128-ctr.
+ */
+async function decryptKeystore(json: string, password: string): Promise<Hex> {
+  const keystore = JSON.parse(json);
+  const crypto = keystore.crypto ?? keystore.Crypto;
+
+  if (crypto?.cipher !== 'aes-128-ctr') {
+    throw new Error(`Unsupported keystore cipher: ${crypto?.cipher}`);
+  }
+
+  const params = crypto.kdfparams;
+  const salt = Buffer.from(params.salt, 'hex');
+  let derivedKey: Buffer;
+
+  if (crypto.kdf === 'scrypt') {
+    derivedKey = await new Promise<Buffer>((resolve, reject) =>
+      scrypt(
+        password,
+        salt,
+        params.dklen,
+        { N: params.n, r: params.r, p: params.p, maxmem: 256 * params.n * params.r },
+        (error, key) => (error ? reject(error) : resolve(key))
+      )
+    );
+  } else if (crypto.kdf === 'pbkdf2' && params.prf === 'hmac-sha256') {
+    derivedKey = await promisify(pbkdf2)(password, salt, params.c, params.dklen, 'sha256');
+  } else {
+    throw new Error(`Unsupported keystore kdf: ${crypto.kdf}`);
+  }
+
+  const ciphertext = Buffer.from(crypto.ciphertext, 'hex');
+  const mac = keccak256(concat([toHex(derivedKey.subarray(16, 32)), toHex(ciphertext)]));
+
+  if (mac.slice(2).toLowerCase() !== String(crypto.mac).toLowerCase()) {
+    throw new Error('Keystore password is incorrect (MAC mismatch)');
+  }
+
+  const decipher = createDecipheriv(
+    'aes-128-ctr',
+    derivedKey.subarray(0, 16),
+    Buffer.from(crypto.cipherparams.iv, 'hex')
+  );
+  const privateKey = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+
+  return toHex(privateKey);
+}
+
+/**
+ * Encrypted keystore file, decrypted on first use and kept in memory
+ */
+export function createKeystoreSigner(path: string, password: string): VoucherSigner {
+  let inner: Promise<VoucherSigner> | null = null;
+
+  const load = () => {
+    inner ??= readFile(path, 'utf8')
+      .then((json) => decryptKeystore(json, password))
+      .then((privateKey) => createLocalSigner(privateKey));
+    return inner;
+  };
+
+  return {
+    backend: 'keystore',
+    getAddress: async () => (await load()).getAddress(),
+    signTypedData: async (typedData) => (await load()).signTypedData(typedData),
+  };
+}
+
+/**
+ * Build the signer for an env prefix (SIGNER / NEXT_SIGNER), or null if unconfigured
+ */
+function createSignerFromEnv(prefix: string): VoucherSigner | null {
+  const backend = (process.env[`${prefix}_BACKEND`] || 'local') as SignerBackend;
+
+  switch (backend) {
+    case 'local': {
+      const privateKey = process.env[`${prefix}_PRIVATE_KEY`];
+      return privateKey ? createLocalSigner(privateKey) : null;
+    }
+    case 'remote': {
+      const url = process.env[`${prefix}_REMOTE_URL`];
+      if (!url) throw new Error(`${prefix}_REMOTE_URL is required for the remote signer`);
+      return createRemoteSigner(url, process.env[`${prefix}_REMOTE_TOKEN`]);
+    }
+    case 'keystore': {
+      const path = process.env[`${prefix}_KEYSTORE_PATH`];
+      const password = process.env[`${prefix}_KEYSTORE_PASSWORD`];
+      if (!path || password === undefined) {
+        throw new Error(`${prefix}_KEYSTORE_PATH and ${prefix}_KEYSTORE_PASSWORD are required`);
+      }
+      return createKeystoreSigner(path, password);
+    }
+    default:
+      throw new Error(`Unknown ${prefix}_BACKEND: ${backend}`);
+  }
+}
+
+let configuredSigners: Partial<Record<SignerSlot, VoucherSigner>> | null = null;
+
+function getConfiguredSigners(): Partial<Record<SignerSlot, VoucherSigner>> {
+  if (!configuredSigners) {
+    const current = createSignerFromEnv('SIGNER');
+    const next = createSignerFromEnv('NEXT_SIGNER');
+
+    if (!current && !next) {
+      throw new Error('No voucher signer configured (set SIGNER_PRIVATE_KEY or SIGNER_BACKEND)');
+    }
+
+    configuredSigners = {
+      ...(current ? { current } : {}),
+      ...(next ? { next } : {}),
+    };
+  }
+
+  return configuredSigners;
+}
+
+let onchainSignerCache: { address: Address; fetchedAt: number } | null = null;
+
+/**
+ * Contract signerWallet (cached for ONCHAIN_SIGNER_TTL_MS)
+ */
+export async function getOnchainSigner(refresh = false): Promise<Address> {
+  if (!refresh && onchainSignerCache && Date.now() - onchainSignerCache.fetchedAt < ONCHAIN_SIGNER_TTL_MS) {
+    return onchainSignerCache.address;
+  }
+
+  const address = await publicClient.readContract({
+    address: GEOPLET_CONFIG.address,
+    abi: GEOPLET_CONFIG.abi,
+    functionName: 'signerWallet',
+  });
+
+  onchainSignerCache = { address, fetchedAt: Date.now() };
+  return address;
+}
+
+/**
+ * The configured signer the contract currently accepts
+ */
+export async function getActiveSigner(
+  refresh = false
+): Promise<{ signer: VoucherSigner; slot: SignerSlot; address: Address }> {
+  const onchain = await getOnchainSigner(refresh);
+  const signers = getConfiguredSigners();
+
+  for (const slot of ['current', 'next'] as const) {
+    const signer = signers[slot];
+    if (!signer) continue;
+
+    const address = await signer.getAddress();
+    if (isAddressEqual(address, onchain)) {
+      return { signer, slot, address };
+    }
+  }
+
+  throw new Error(`No configured signer matches the contract signerWallet (${onchain})`);
+}
+
+/**
+ * Sign a voucher with the active signer and verify it locally
+ * Any failure drops the cached signerWallet, so the next voucher re-reads it.
+ */
+export async function signVoucher(
+  typedData: VoucherTypedData
+): Promise<{ signature: Hex; signer: Address }> {
+  // No match against the cached signerWallet → re-read it once (rotation just landed)
+  const { signer, slot, address } = await getActiveSigner().catch(() => getActiveSigner(true));
+
+  let signature: Hex;
+  try {
+    signature = await signer.signTypedData(typedData);
+  } catch (error) {
+    onchainSignerCache = null;
+    throw error;
+  }
+
+  const recovered = await recoverTypedDataAddress({ ...typedData, signature });
+
+  if (!isAddressEqual(recovered, address)) {
+    onchainSignerCache = null;
+    console.error('[SIGNATURE MISMATCH]', {
+      recovered,
+      expected: address,
+      backend: signer.backend,
+      slot,
+    });
+    throw new Error(`Signature verification failed: recovered=${recovered}, expected=${address}`);
+  }
+
+  return { signature, signer: address };
+}
+
+export interface SignerStatus {
+  onchainSigner: Address;
+  signers: { slot: SignerSlot; backend: SignerBackend; address: Address; active: boolean }[];
+  rotationPending: boolean;
+}
+
+/**
+ * Configured signers vs the contract (for the admin Signer tab)
+ */
+export async function getSignerStatus(): Promise<SignerStatus> {
+  const onchainSigner = await getOnchainSigner(true);
+  const configured = getConfiguredSigners();
+
+  const signers = await Promise.all(
+    (Object.entries(configured) as [SignerSlot, VoucherSigner][]).map(async ([slot, signer]) => {
+      const address = await signer.getAddress();
+      return { slot, backend: signer.backend, address, active: isAddressEqual(address, onchainSigner) };
+    })
+  );
+
+  const next = signers.find((signer) => signer.slot === 'next');
+
+  return {
+    onchainSigner,
+    signers,
+    rotationPending: !!next && !next.active,
+  };
+}
+
+/**
+ * Confirm a setSignerWallet transaction and switch signing over
+ * - Verifies SignerWalletUpdated on the Geoplets contract
+ * - Refreshes the cached on-chain signer
+ * - Revokes registry vouchers signed by the old key (no longer valid on-chain)
+ */
+export async function confirmSignerRotation(
+  txHash: Hash,
+  actor: string
+): Promise<{ oldSigner: Address; newSigner: Address; revokedVouchers: number } | null> {
+  const receipt = await publicClient.getTransactionReceipt({ hash: txHash }).catch(() => null);
+
+  // Not mined yet
+  if (!receipt) {
+    return null;
+  }
+
+  if (receipt.status !== 'success') {
+    throw new Error('setSignerWallet transaction reverted');
+  }
+
+  const [update] = parseEventLogs({
+    abi: GEOPLET_CONFIG.abi,
+    eventName: 'SignerWalletUpdated',
+    logs: receipt.logs.filter((log) => isAddressEqual(log.address, GEOPLET_CONFIG.address)),
+  });
+
+  if (!update) {
+    throw new Error('Transaction did not emit SignerWalletUpdated');
+  }
+
+  const { oldSigner, newSigner } = update.args;
+
+  await getOnchainSigner(true);
+  const { address } = await getActiveSigner();
+
+  const revoked = await revokeVouchersBySigner(oldSigner, actor);
+
+  console.log('[SIGNER] ✅ Rotation confirmed:', {
+    oldSigner,
+    newSigner,
+    activeSigner: address,
+    revokedVouchers: revoked,
+  });
+
+  return { oldSigner, newSigner, revokedVouchers: revoked };
+}
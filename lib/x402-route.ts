@@ -0,0 +1,450 @@
+/**
+ * x402 Route Wrapper (Server-Side)
+ *
+ * One implementation of the paid-endpoint protocol for every paid route
+ * (get-mint-signature, generate-animation, regenerate-image):
+ *
+ *   export const POST = withX402(handler, { price, asset, description, purpose, prepare })
+ *
+ * 1. prepare(request) - auth, input validation, eligibility. Returns the
+ *    context ({ fid, userAddress, ... }) or a response to stop early
+ *    (never ask for payment for a request that can't succeed)
+ * 2. No X-Payment → 402 PaymentRequired402Response, one `accepts` entry per
+ *    network, payTo from the first healthy facilitator (lib/facilitators.ts)
+ * 3. X-Payment → local pre-verification (lib/payment-verifier.ts, Base) or
+ *    transfer checks (lib/solana-payment.ts), then verifyWithFailover
+ * 4. Ledger 'verified' (lib/payment-ledger.ts) - no row, no service (503);
+ *    a replayed header only reaches the handler while its row is
+ *    'verified' or 'settled' (409 once used)
+ * 5. handler(request, { context, payment }) - payment.settle() settles
+ *    inline, otherwise the client settles via /api/settle-payment
+ * 6. 2xx → X-PAYMENT-RESPONSE (base64 X402PaymentResponse)
+ *
+ * Errors are { error: { code, message, details } } with PaymentErrorCodes.
+ *
+ * KISS Principle: Routes only describe the price and do the work.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseUnits } from 'viem';
+import {
+  BASE_USDC_ADDRESS,
+  SOLANA_FEE_PAYER,
+  SOLANA_USDC_MINT,
+  USDC_DECIMALS,
+  type PaymentNetwork,
+} from '@/lib/payment-config';
+import {
+  recordVerifiedPayment,
+  transitionPayment,
+  PaymentLedgerError,
+  ledgerErrorStatus,
+  type PaymentPurpose,
+} from '@/lib/payment-ledger';
+import {
+  getFacilitators,
+  getPaymentExpectations,
+  selectFacilitator,
+  settleWithFacilitator,
+  verifyWithFailover,
+  FacilitatorError,
+  facilitatorErrorStatus,
+  type FacilitatorId,
+  type SettleResult,
+} from '@/lib/facilitators';
+import { preVerifyPayment } from '@/lib/payment-verifier';
+import { parseSolanaPayment, validateSolanaPayment } from '@/lib/solana-payment';
+import { QuickAuthError, quickAuthErrorStatus } from '@/lib/quick-auth';
+import type { PaymentLedgerEntry } from '@/lib/supabase';
+import { AppError, PaymentErrorCode, type APIError, type AppErrorCode } from '@/types/errors';
+import type {
+  PaymentRequired402Response,
+  PaymentRequirements,
+  X402PaymentResponse,
+} from '@/types/x402';
+
+export const X402_CORS_HEADERS = {
+  'Access-Control-Allow-Origin': process.env.NEXT_PUBLIC_APP_URL || 'https://geoplet.geoart.studio',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, X-Payment, Authorization',
+  'Access-Control-Expose-Headers': 'X-PAYMENT-RESPONSE',
+};
+
+const RECIPIENT_ADDRESS = process.env.NEXT_PUBLIC_RECIPIENT_ADDRESS as string;
+
+// Who the payment is for - recorded in the ledger
+export interface X402Context {
+  fid: number;           // FID (tokenId for animation upgrades)
+  userAddress: string;   // Connected wallet - must sign Base payments
+}
+
+export interface VerifiedPayment {
+  header: string;                      // Raw X-Payment header (returned to the client for settlement)
+  network: PaymentNetwork;
+  payer: string;                       // EVM address or Solana wallet
+  paymentId: string;                   // Facilitator reference, required to settle
+  facilitator: FacilitatorId;
+  ledger: PaymentLedgerEntry;          // 'verified' or 'settled'
+  settle(): Promise<SettleResult>;     // Settle now + ledger 'settled' / 'failed'
+}
+
+export interface X402RouteOptions<TContext extends X402Context> {
+  purpose: PaymentPurpose;
+  price: string;                                        // Human-readable USDC, e.g. PAYMENT_CONFIG.MINT.price
+  asset?: string;                                       // Base USDC by default
+  description: string | ((context: TContext) => string);
+  networks?: PaymentNetwork[];                          // Default ['base'] - Base is always required
+  prepare(request: NextRequest): Promise<TContext | NextResponse>;
+  onError?(error: unknown): NextResponse | null;        // Route-specific error mapping
+}
+
+export type X402Handler<TContext extends X402Context> = (
+  request: NextRequest,
+  paid: { context: TContext; payment: VerifiedPayment }
+) => Promise<NextResponse>;
+
+/**
+ * JSON response with the x402 CORS headers
+ */
+export function x402Json(body: unknown, status = 200): NextResponse {
+  return NextResponse.json(body, { status, headers: X402_CORS_HEADERS });
+}
+
+/**
+ * Structured error response ({ error: { code, message, details } })
+ */
+export function x402Error(
+  code: AppErrorCode,
+  message: string,
+  status: number,
+  details?: APIError['details']
+): NextResponse {
+  const body: { error: APIError } = { error: { code, message, details } };
+  return x402Json(body, status);
+}
+
+export function x402Preflight(): NextResponse {
+  return x402Json({});
+}
+
+/**
+ * 402 body - one entry per network with an available facilitator
+ * @throws FacilitatorError when nothing can take a Base payment
+ */
+async function buildPaymentRequired<TContext extends X402Context>(
+  request: NextRequest,
+  options: X402RouteOptions<TContext>,
+  context: TContext
+): Promise<PaymentRequired402Response> {
+  const priceAtomic = parseUnits(options.price, USDC_DECIMALS).toString();
+  const description = typeof options.description === 'function'
+    ? options.description(context)
+    : options.description;
+  const resource = `${process.env.NEXT_PUBLIC_APP_URL || ''}${request.nextUrl.pathname}`;
+  const accepts: PaymentRequirements[] = [];
+
+  for (const network of options.networks ?? ['base']) {
+    const facilitator = network === 'base'
+      ? await selectFacilitator(options.purpose, network)
+      : await selectFacilitator(options.purpose, network).catch(() => null);
+    if (!facilitator) continue;
+
+    const payTo = facilitator.payTo(network)!;
+
+    if (network === 'solana') {
+      // Cross-chain: USDC on Solana, bridged to the treasury on Base
+      accepts.push({
+        scheme: 'exact',
+        network,
+        maxAmountRequired: priceAtomic,
+        asset: SOLANA_USDC_MINT,
+        payTo,
+        resource,
+        description: `${description} (Solana)`,
+        mimeType: 'application/json',
+        maxTimeoutSeconds: 60,   // Blockhash lifetime
+        extra: SOLANA_FEE_PAYER ? { feePayer: SOLANA_FEE_PAYER } : {},
+      });
+      continue;
+    }
+
+    accepts.push({
+      scheme: 'exact',
+      network,
+      maxAmountRequired: priceAtomic,
+      asset: options.asset ?? BASE_USDC_ADDRESS,
+      payTo,
+      resource,
+      description,
+      mimeType: 'application/json',
+      maxTimeoutSeconds: 600,
+      extra: { name: 'USD Coin', version: '2' },
+    });
+  }
+
+  return { x402Version: 1, accepts, error: 'Payment Required' };
+}
+
+/**
+ * Decode + check the header locally, then verify with the facilitator chain
+ * @returns The verified payment (without ledger), or an error response
+ */
+async function verifyPayment<TContext extends X402Context>(
+  paymentHeader: string,
+  options: X402RouteOptions<TContext>,
+  context: TContext
+): Promise<Omit<VerifiedPayment, 'ledger' | 'settle'> | NextResponse> {
+  const priceAtomic = parseUnits(options.price, USDC_DECIMALS).toString();
+  const networks = options.networks ?? ['base'];
+
+  let decoded;
+  try {
+    decoded = JSON.parse(Buffer.from(paymentHeader, 'base64').toString());
+  } catch {
+    return x402Error(
+      PaymentErrorCode.INVALID_SIGNATURE,
+      'Malformed payment header - Invalid base64 encoding or JSON structure',
+      400
+    );
+  }
+
+  const network = decoded?.network as PaymentNetwork;
+  const validationErrors: string[] = [];
+
+  if (decoded?.x402Version !== 1) {
+    validationErrors.push('Missing or invalid x402Version (must be 1)');
+  }
+  if (decoded?.scheme !== 'exact') {
+    validationErrors.push('Invalid payment scheme (must be "exact")');
+  }
+  if (!networks.includes(network)) {
+    validationErrors.push(`Invalid network (must be ${networks.map((entry) => `"${entry}"`).join(' or ')})`);
+  }
+
+  if (validationErrors.length > 0) {
+    return x402Error(PaymentErrorCode.INVALID_SIGNATURE, 'Invalid payment header format', 400, {
+      validationErrors,
+      hint: 'Payment header must match onchain.fi specification. See .docs/HEADER_FORMAT.md',
+    });
+  }
+
+  let payer: string;
+
+  if (network === 'solana') {
+    // Signed USDC transfer to a configured facilitator's payTo
+    try {
+      const transfer = parseSolanaPayment(decoded.payload?.transaction);
+      const payTos = getFacilitators(options.purpose)
+        .map((facilitator) => facilitator.payTo('solana'))
+        .filter((payTo): payTo is string => !!payTo);
+      const errors = payTos.map((payTo) =>
+        validateSolanaPayment(transfer, { amount: priceAtomic, payTo, feePayer: SOLANA_FEE_PAYER })
+      );
+
+      if (!errors.some((entry) => entry.length === 0)) {
+        return x402Error(PaymentErrorCode.INVALID_SIGNATURE, 'Invalid payment header format', 400, {
+          validationErrors: errors[0] ?? ['No facilitator accepts Solana payments'],
+        });
+      }
+
+      payer = transfer.payer;
+    } catch (error) {
+      return x402Error(PaymentErrorCode.INVALID_SIGNATURE, 'Invalid payment header format', 400, {
+        validationErrors: [`Invalid Solana transaction: ${error instanceof Error ? error.message : 'malformed'}`],
+      });
+    }
+  } else {
+    // Signature, payer, terms, nonce + balance - structured errors before any facilitator call
+    const preVerify = await preVerifyPayment(
+      paymentHeader,
+      getPaymentExpectations(options.purpose, priceAtomic, options.asset),
+      { userAddress: context.userAddress }
+    );
+
+    if (!preVerify.valid) {
+      return x402Error(preVerify.code, preVerify.message, preVerify.status, preVerify.details);
+    }
+
+    payer = preVerify.authorization.from;
+  }
+
+  const verifyResult = await verifyWithFailover(options.purpose, paymentHeader, {
+    network,
+    price: options.price,
+    priceAtomic,
+    recipient: RECIPIENT_ADDRESS,
+  });
+
+  if (!verifyResult.valid || !verifyResult.paymentId || !verifyResult.facilitator) {
+    return x402Error(
+      PaymentErrorCode.PAYMENT_VERIFICATION_FAILED,
+      'Payment verification failed - Invalid or insufficient payment',
+      402,
+      { reason: verifyResult.reason }
+    );
+  }
+
+  return {
+    header: paymentHeader,
+    network,
+    payer,
+    paymentId: verifyResult.paymentId,
+    facilitator: verifyResult.facilitator,
+  };
+}
+
+/**
+ * Common error mapping for paid routes
+ */
+function toErrorResponse(error: unknown): NextResponse {
+  if (error instanceof QuickAuthError) {
+    return x402Error(PaymentErrorCode.UNAUTHORIZED, error.message, quickAuthErrorStatus(error), {
+      authCode: error.code,
+    });
+  }
+
+  if (error instanceof FacilitatorError) {
+    return x402Error(PaymentErrorCode.FACILITATOR_UNAVAILABLE, error.message, facilitatorErrorStatus(error));
+  }
+
+  if (error instanceof PaymentLedgerError) {
+    return x402Error(PaymentErrorCode.API_ERROR, error.message, ledgerErrorStatus(error));
+  }
+
+  if (error instanceof AppError) {
+    return x402Error(error.code, error.message, 500, error.details);
+  }
+
+  return x402Error(
+    PaymentErrorCode.API_ERROR,
+    error instanceof Error ? error.message : 'Request failed',
+    500
+  );
+}
+
+/**
+ * Wrap a paid route handler with the x402 protocol
+ *
+ * @param handler - Runs only for a verified payment
+ * @param options - Price, asset, description, purpose + prepare (see X402RouteOptions)
+ * @returns Next.js POST handler
+ */
+export function withX402<TContext extends X402Context>(
+  handler: X402Handler<TContext>,
+  options: X402RouteOptions<TContext>
+): (request: NextRequest) => Promise<NextResponse> {
+  const tag = `[X402][${options.purpose.toUpperCase()}]`;
+
+  return async (request: NextRequest) => {
+    try {
+      const prepared = await options.prepare(request);
+      if (prepared instanceof NextResponse) {
+        return prepared;
+      }
+      const context = prepared;
+
+      const paymentHeader = request.headers.get('X-Payment');
+      if (!paymentHeader) {
+        console.log(`${tag} No X-Payment header, returning 402 Payment Required`);
+        return x402Json(await buildPaymentRequired(request, options, context), 402);
+      }
+
+      const verified = await verifyPayment(paymentHeader, options, context);
+      if (verified instanceof NextResponse) {
+        return verified;
+      }
+
+      // Idempotent per payment - a replayed header resolves to the same row
+      let ledger: PaymentLedgerEntry;
+      try {
+        ledger = await recordVerifiedPayment({
+          purpose: options.purpose,
+          fid: context.fid,
+          userAddress: context.userAddress,
+          paymentHeader,
+          onchainPaymentId: verified.paymentId,
+          facilitator: verified.facilitator,
+        });
+      } catch (ledgerErr) {
+        // Never fulfil a payment that has no ledger record (no settlement, refund or replay protection)
+        console.error(`${tag} ❌ Failed to record verified payment:`, ledgerErr);
+        return x402Error(PaymentErrorCode.API_ERROR, 'Could not record payment, please try again', 503);
+      }
+
+      if (ledger.purpose !== options.purpose || ledger.fid !== context.fid) {
+        return x402Error(PaymentErrorCode.PAYMENT_REJECTED, 'Payment was authorized for a different purchase', 409);
+      }
+
+      // Replayed header for a payment that was already used, refunded or failed
+      if (ledger.status !== 'verified' && ledger.status !== 'settled') {
+        return x402Error(
+          PaymentErrorCode.PAYMENT_REJECTED,
+          `Payment is "${ledger.status}" and cannot be used again`,
+          409
+        );
+      }
+
+      let transaction = ledger.settlement_tx_hash;
+
+      const payment: VerifiedPayment = {
+        ...verified,
+        ledger,
+        async settle() {
+          const result = await settleWithFacilitator(
+            verified.facilitator,
+            paymentHeader,
+            verified.paymentId,
+            verified.network
+          );
+
+          if (!result.settled) {
+            console.error(`${tag} ❌ Settlement failed:`, result.reason);
+          } else {
+            transaction = result.txHash ?? null;
+          }
+
+          const ledgerId = ledger.id;
+          const details = { step: 'settle', facilitator: result.facilitator, ...result.details };
+
+          ledger = await (result.settled
+            ? transitionPayment(ledgerId, 'settled', {
+                actor: 'system',
+                fields: { settlement_tx_hash: result.txHash, onchain_payment_id: verified.paymentId },
+                details,
+              })
+            : transitionPayment(ledgerId, 'failed', {
+                actor: 'system',
+                fields: { last_error: result.reason || 'Payment settlement failed' },
+                details,
+              })
+          ).catch((ledgerErr) => {
+            console.error(`${tag} ⚠️  Failed to record settlement in ledger:`, { ledgerId, ledgerErr });
+            return ledger;
+          });
+          payment.ledger = ledger;
+
+          return result;
+        },
+      };
+
+      const response = await handler(request, { context, payment });
+
+      if (response.ok) {
+        const paymentResponse: X402PaymentResponse = {
+          success: true,
+          network: payment.network,
+          payer: payment.payer,
+          transaction,
+          paymentId: payment.paymentId,
+          facilitator: payment.facilitator,
+        };
+        response.headers.set('X-PAYMENT-RESPONSE', Buffer.from(JSON.stringify(paymentResponse)).toString('base64'));
+      }
+
+      return response;
+    } catch (error: unknown) {
+      console.error(`${tag} Error:`, error);
+      return options.onError?.(error) ?? toErrorResponse(error);
+    }
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * Local Facilitator Check (Anvil fork)
+ *
+ * Usage:
+ *   anvil --fork-url https://mainnet.base.org          # in another terminal
+ *   npm run facilitator:check
+ *   npm run facilitator:check -- --rpc http://127.0.0.1:8545
+ *
+ * Runs the local facilitator (lib/local-facilitator.ts) end to end against a
+ * fork of Base - no real funds, no onchain.fi:
+ * 1. Funds an Anvil dev account with fork USDC (storage write) and the relayer with ETH
+ * 2. Signs an EIP-3009 authorization to the treasury (same header as usePayment)
+ * 3. supported → verify → settle, then checks the treasury received the USDC
+ * 4. Verifies the same header again - must be rejected (nonce used)
+ *
+ * Exits 1 if any step fails.
+ */
+
+import {
+  createTestClient,
+  createWalletClient,
+  encodeAbiParameters,
+  erc20Abi,
+  http,
+  keccak256,
+  numberToHex,
+  parseEther,
+  publicActions,
+  type Address,
+  type Hex,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { base } from 'viem/chains';
+import { BASE_USDC_ADDRESS, PAYMENT_CONFIG, RECIPIENT_ADDRESS } from '@/lib/payment-config';
+import { generatePaymentHeader } from '@/lib/payment-header';
+import { createLocalFacilitator } from '@/lib/local-facilitator';
+import type { PaymentTerms } from '@/lib/facilitators';
+
+// Anvil default dev accounts #0 (relayer), #1 (payer), #2 (treasury fallback)
+const RELAYER_KEY: Hex = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const PAYER_KEY: Hex = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const FALLBACK_TREASURY: Address = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+// FiatToken v2.2: balanceAndBlacklistStates mapping lives in storage slot 9
+const USDC_BALANCES_SLOT = BigInt(9);
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+function check(label: string, passed: boolean, details?: unknown): boolean {
+  console.log(`[FACILITATOR-CHECK] ${passed ? '✅' : '❌'} ${label}`, details ?? '');
+  return passed;
+}
+
+async function main() {
+  const rpcUrl = argValue('--rpc') || process.env.LOCAL_FACILITATOR_RPC_URL || 'http://127.0.0.1:8545';
+  const usdc = BASE_USDC_ADDRESS as Address;
+  const treasury = (RECIPIENT_ADDRESS || FALLBACK_TREASURY) as Address;
+  const payer = privateKeyToAccount(PAYER_KEY);
+  const relayer = privateKeyToAccount(RELAYER_KEY);
+
+  const client = createTestClient({ chain: base, mode: 'anvil', transport: http(rpcUrl) }).extend(publicActions);
+  const chainId = await client.getChainId();
+  if (chainId !== base.id) {
+    throw new Error(`${rpcUrl} is chain ${chainId} - start anvil with --fork-url <Base RPC>`);
+  }
+
+  // 1. Fund payer (USDC) + relayer (gas)
+  const price = PAYMENT_CONFIG.MINT.priceAtomic;
+  const balanceSlot = keccak256(
+    encodeAbiParameters([{ type: 'address' }, { type: 'uint256' }], [payer.address, USDC_BALANCES_SLOT])
+  );
+  await client.setStorageAt({ address: usdc, index: balanceSlot, value: numberToHex(BigInt(price) * BigInt(10), { size: 32 }) });
+  await client.setBalance({ address: relayer.address, value: parseEther('1') });
+
+  const readUsdc = (address: Address) =>
+    client.readContract({ address: usdc, abi: erc20Abi, functionName: 'balanceOf', args: [address] });
+  const treasuryBefore = await readUsdc(treasury);
+
+  // 2. Payer signs to the treasury (the local facilitator's payTo)
+  const walletClient = createWalletClient({ account: payer, chain: base, transport: http(rpcUrl) });
+  const paymentHeader = await generatePaymentHeader(walletClient, {
+    from: payer.address,
+    to: treasury,
+    value: price,
+    validAfter: '0',
+    usdcAddress: usdc,
+    chainId: base.id,
+  });
+
+  // 3. supported → verify → settle
+  const facilitator = createLocalFacilitator({
+    relayerKey: RELAYER_KEY,
+    rpcUrl,
+    recipient: treasury,
+    usdcAddress: usdc,
+  });
+  const terms: PaymentTerms = {
+    network: 'base',
+    price: PAYMENT_CONFIG.MINT.price,
+    priceAtomic: price,
+    recipient: treasury,
+  };
+
+  const results: boolean[] = [];
+
+  const support = await facilitator.supported();
+  results.push(check('supported', support.available && support.networks.includes('base'), support));
+
+  const verified = await facilitator.verify(paymentHeader, terms);
+  results.push(check('verify', verified.valid && !!verified.paymentId, verified));
+
+  if (verified.paymentId) {
+    const settled = await facilitator.settle(paymentHeader, verified.paymentId, 'base');
+    results.push(check('settle', settled.settled, settled));
+
+    const received = (await readUsdc(treasury)) - treasuryBefore;
+    results.push(check('treasury received USDC', received === BigInt(price), { received: received.toString() }));
+
+    // 4. Replay must fail
+    const replay = await facilitator.verify(paymentHeader, terms);
+    results.push(check('replay rejected', !replay.valid, replay));
+  }
+
+  process.exit(results.every(Boolean) ? 0 : 1);
+}
+
+main().catch((error) => {
+  console.error('[FACILITATOR-CHECK] ❌ Failed:', error);
+  process.exit(2);
+});
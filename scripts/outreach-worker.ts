@@ -0,0 +1,43 @@
+/**
+ * Outreach Worker CLI
+ *
+ * Usage:
+ *   npm run outreach                        # send until no campaign has due recipients
+ *   npm run outreach -- --campaign <id>     # only this campaign
+ *
+ * Reads env from .env.local (same variables as the app). Safe to run next to
+ * the admin UI - campaigns are leased to one worker at a time.
+ */
+
+import { runOutreachWorker } from '@/lib/outreach-campaigns';
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+async function main() {
+  const campaignId = argValue('--campaign');
+
+  for (;;) {
+    const report = await runOutreachWorker({ campaignId, budgetMs: 60_000 });
+    const processed = report.campaigns.reduce(
+      (total, campaign) => total + campaign.sent + campaign.failed + campaign.skipped + campaign.retried,
+      0
+    );
+
+    console.log(JSON.stringify(report, null, 2));
+
+    // Nothing due (remaining recipients are waiting on retry backoff or a schedule)
+    if (processed === 0 && !report.rateLimited) break;
+
+    if (report.rateLimited) {
+      await new Promise((resolve) => setTimeout(resolve, 60_000));
+    }
+  }
+}
+
+main().catch((error) => {
+  console.error('[OUTREACH] ❌ Failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,36 @@
+/**
+ * Quick Auth Test Token CLI
+ *
+ * Usage:
+ *   npm run auth:token -- 12345             # token for FID 12345
+ *   npm run auth:token -- 12345 --ttl 600   # expires in 10 minutes
+ *
+ * Issues a token from the local test issuer (lib/quick-auth.ts) for calling
+ * user-scoped routes offline:
+ *   curl -H "Authorization: Bearer $(npm run -s auth:token -- 12345)" ...
+ *
+ * Requires QUICK_AUTH_TEST_SECRET in .env.local (never set it in production).
+ */
+
+import { signTestQuickAuthToken } from '@/lib/quick-auth';
+
+async function main() {
+  const fid = parseInt(process.argv[2], 10);
+  const ttlIndex = process.argv.indexOf('--ttl');
+
+  if (isNaN(fid) || fid <= 0) {
+    console.error('Usage: npm run auth:token -- <fid> [--ttl <seconds>]');
+    process.exit(1);
+  }
+
+  const token = await signTestQuickAuthToken(fid, {
+    expiresInSeconds: ttlIndex === -1 ? undefined : parseInt(process.argv[ttlIndex + 1], 10),
+  });
+
+  console.log(token);
+}
+
+main().catch((error) => {
+  console.error('[QUICK-AUTH] ❌ Failed:', error);
+  process.exit(2);
+});
@@ -0,0 +1,35 @@
+/**
+ * Reconciliation CLI
+ *
+ * Usage:
+ *   npm run reconcile                       # dry run, last ~7 days
+ *   npm run reconcile -- --fix              # apply safe auto-fixes
+ *   npm run reconcile -- --from 30000000 --to 30100000
+ *
+ * Reads env from .env.local (same variables as the app).
+ */
+
+import { runReconciliation } from '@/lib/reconciliation';
+
+function argValue(name: string): bigint | undefined {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : BigInt(process.argv[index + 1]);
+}
+
+async function main() {
+  const report = await runReconciliation({
+    fromBlock: argValue('--from'),
+    toBlock: argValue('--to'),
+    fix: process.argv.includes('--fix'),
+  });
+
+  console.log(JSON.stringify(report, null, 2));
+
+  const unfixed = report.discrepancies.filter((discrepancy) => !discrepancy.fixed);
+  process.exit(unfixed.length > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error('[RECONCILE] ❌ Failed:', error);
+  process.exit(2);
+});
@@ -34,11 +34,15 @@ export enum PaymentErrorCode {
   NETWORK_ERROR = 'NETWORK_ERROR',
   API_ERROR = 'API_ERROR',
   ONCHAIN_FI_ERROR = 'ONCHAIN_FI_ERROR',
+  FACILITATOR_UNAVAILABLE = 'FACILITATOR_UNAVAILABLE',
 
   // Rate limiting and throttling
   RATE_LIMIT_EXCEEDED = 'RATE_LIMIT_EXCEEDED',
   TOO_MANY_REQUESTS = 'TOO_MANY_REQUESTS',
 
+  // Identity (Farcaster Quick Auth)
+  UNAUTHORIZED = 'UNAUTHORIZED',
+
   // Generic
   UNKNOWN_ERROR = 'UNKNOWN_ERROR',
 }
@@ -54,6 +58,12 @@ export enum MintErrorCode {
   IMAGE_TOO_LARGE = 'IMAGE_TOO_LARGE',
   IMAGE_VALIDATION_FAILED = 'IMAGE_VALIDATION_FAILED',
 
+  // Animation upgrade errors
+  NOT_TOKEN_OWNER = 'NOT_TOKEN_OWNER',
+  TOKEN_NOT_MINTED = 'TOKEN_NOT_MINTED',
+  ALREADY_ANIMATED = 'ALREADY_ANIMATED',
+  ANIMATION_TOO_LARGE = 'ANIMATION_TOO_LARGE',
+
   // Contract errors
   CONTRACT_ERROR = 'CONTRACT_ERROR',
   TRANSACTION_FAILED = 'TRANSACTION_FAILED',
@@ -92,6 +102,9 @@ export enum GenerationErrorCode {
   IMAGE_PROCESSING_FAILED = 'IMAGE_PROCESSING_FAILED',
   IMAGE_DOWNLOAD_FAILED = 'IMAGE_DOWNLOAD_FAILED',
 
+  // Regeneration errors
+  NOTHING_TO_REGENERATE = 'NOTHING_TO_REGENERATE',
+
   // Generic
   UNKNOWN_ERROR = 'UNKNOWN_ERROR',
 }
@@ -217,14 +230,20 @@ export const ERROR_MESSAGES: Record<AppErrorCode, string> = {
   [PaymentErrorCode.NETWORK_ERROR]: 'Network error occurred',
   [PaymentErrorCode.API_ERROR]: 'API error occurred',
   [PaymentErrorCode.ONCHAIN_FI_ERROR]: 'Payment processor error',
+  [PaymentErrorCode.FACILITATOR_UNAVAILABLE]: 'Payments are temporarily unavailable, please try again',
   [PaymentErrorCode.RATE_LIMIT_EXCEEDED]: 'Too many requests, please wait',
   [PaymentErrorCode.TOO_MANY_REQUESTS]: 'Too many requests, please wait',
+  [PaymentErrorCode.UNAUTHORIZED]: 'Sign in with Farcaster to continue',
 
   // Mint errors
   [MintErrorCode.FID_ALREADY_MINTED]: 'Your Farcaster ID has already been used to mint',
   [MintErrorCode.MAX_SUPPLY_REACHED]: 'All Geoplets have been minted',
   [MintErrorCode.IMAGE_TOO_LARGE]: 'Image is too large (max 24KB)',
   [MintErrorCode.IMAGE_VALIDATION_FAILED]: 'Image validation failed',
+  [MintErrorCode.NOT_TOKEN_OWNER]: 'Only the token owner can do this',
+  [MintErrorCode.TOKEN_NOT_MINTED]: 'This Geoplet has not been minted',
+  [MintErrorCode.ALREADY_ANIMATED]: 'This Geoplet is already animated',
+  [MintErrorCode.ANIMATION_TOO_LARGE]: 'Animation is too large (max 24KB)',
   [MintErrorCode.CONTRACT_ERROR]: 'Smart contract error',
   [MintErrorCode.TRANSACTION_FAILED]: 'Transaction failed',
   [MintErrorCode.GAS_ESTIMATION_FAILED]: 'Gas estimation failed',
@@ -244,6 +263,7 @@ export const ERROR_MESSAGES: Record<AppErrorCode, string> = {
   [GenerationErrorCode.CONTENT_POLICY_VIOLATION]: 'Content policy violation',
   [GenerationErrorCode.IMAGE_PROCESSING_FAILED]: 'Image processing failed',
   [GenerationErrorCode.IMAGE_DOWNLOAD_FAILED]: 'Failed to download image',
+  [GenerationErrorCode.NOTHING_TO_REGENERATE]: 'Generate your Geoplet before regenerating',
 
   // Unknown errors
   UNKNOWN_ERROR: 'An unknown error occurred',
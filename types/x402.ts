@@ -6,12 +6,13 @@
  */
 
 import { Address } from 'viem';
+import type { PaymentNetwork } from '@/lib/payment-config';
 
 /**
  * x402 Payment Header Structure (Root Level)
  * This is the exact format required by onchain.fi
  */
-export interface X402PaymentHeader {
+export interface X402EvmPaymentHeader {
   x402Version: 1;
   scheme: 'exact';
   network: 'base';
@@ -21,6 +22,21 @@ export interface X402PaymentHeader {
   };
 }
 
+/**
+ * Solana "exact" scheme: a partially signed transaction with one USDC
+ * TransferChecked to the onchain.fi intermediate (see lib/solana-payment.ts)
+ */
+export interface X402SolanaPaymentHeader {
+  x402Version: 1;
+  scheme: 'exact';
+  network: 'solana';
+  payload: {
+    transaction: string;   // Base64 serialized VersionedTransaction
+  };
+}
+
+export type X402PaymentHeader = X402EvmPaymentHeader | X402SolanaPaymentHeader;
+
 /**
  * EIP-3009 Authorization Data
  * Used in transferWithAuthorization for USDC payments
@@ -50,24 +66,44 @@ export interface USDCDomain {
  */
 export interface PaymentRequired402Response {
   x402Version: 1;
-  accepts: Array<{
-    scheme: 'exact';
-    network: 'base';
-    maxAmountRequired: string;
-    asset: Address;
-    payTo: Address;
-    resource: string;
-    description: string;
-    mimeType: string;
-    maxTimeoutSeconds: number;
-    extra?: {
-      name?: string;
-      version?: string;
-    };
-  }>;
+  accepts: PaymentRequirements[];
   error: string;
 }
 
+/**
+ * One way to pay, as advertised in a 402 `accepts` entry
+ * (asset/payTo are base58 on Solana)
+ */
+export interface PaymentRequirements {
+  scheme: 'exact';
+  network: PaymentNetwork;
+  maxAmountRequired: string;
+  asset: string;
+  payTo: string;
+  resource: string;
+  description: string;
+  mimeType: string;
+  maxTimeoutSeconds: number;
+  extra?: {
+    name?: string;
+    version?: string;
+    feePayer?: string;     // Solana: account that pays the transaction fee
+  };
+}
+
+/**
+ * X-PAYMENT-RESPONSE header (base64 JSON)
+ * Set by withX402 (lib/x402-route.ts) on a successful paid response
+ */
+export interface X402PaymentResponse {
+  success: true;
+  network: PaymentNetwork;
+  payer: string;
+  transaction: string | null;   // Settlement tx hash (null = settled later via /api/settle-payment)
+  paymentId: string;
+  facilitator: string;
+}
+
 /**
  * Payment Header Generation Options
  */
@@ -91,15 +127,15 @@ export interface PaymentHeaderValidationError {
 }
 
 /**
- * Validate payment header structure
+ * Validate payment header structure (Base EIP-3009 headers)
  * Returns true if valid, throws error with details if invalid
  */
-export function validatePaymentHeader(decoded: unknown): decoded is X402PaymentHeader {
+export function validatePaymentHeader(decoded: unknown): decoded is X402EvmPaymentHeader {
   if (!decoded || typeof decoded !== 'object') {
     throw new Error('Payment header must be an object');
   }
 
-  const header = decoded as Partial<X402PaymentHeader>;
+  const header = decoded as Partial<X402EvmPaymentHeader>;
   const errors: PaymentHeaderValidationError[] = [];
 
   // Validate root-level fields